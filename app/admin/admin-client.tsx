@@ -23,6 +23,7 @@ import { toast, Toaster } from "sonner";
 import { authClient } from "@/lib/auth-client";
 import { useQuery, useQueryClient } from "@tanstack/react-query";
 import { useRouter } from "next/navigation";
+import Link from "next/link";
 import {
     Loader2,
     Plus,
@@ -30,6 +31,8 @@ import {
     RefreshCw,
     UserCircle,
     Calendar as CalendarIcon,
+    Package,
+    Percent,
 } from "lucide-react";
 import {
     Dialog,
@@ -186,7 +189,19 @@ export default function AdminDashboard() {
             <Toaster richColors />
             <Card>
                 <CardHeader className="flex flex-row items-center justify-between">
-                    <CardTitle className="text-2xl">Admin Dashboard</CardTitle>
+                    <div className="flex items-center gap-4">
+                        <CardTitle className="text-2xl">Admin Dashboard</CardTitle>
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin/products">
+                                <Package className="mr-2 h-4 w-4" /> Products
+                            </Link>
+                        </Button>
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin/tax-rates">
+                                <Percent className="mr-2 h-4 w-4" /> Tax Rates
+                            </Link>
+                        </Button>
+                    </div>
                     <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
                         <DialogTrigger asChild>
                             <Button>
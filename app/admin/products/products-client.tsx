@@ -0,0 +1,381 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash } from "lucide-react";
+import {
+    listProducts,
+    createProduct,
+    updateProduct,
+    deleteProduct,
+    type ProductData,
+} from "@/server/products";
+
+type Product = {
+    id: string;
+    sku: string;
+    name: string;
+    description: string | null;
+    listPrice: string;
+    unit: string;
+    category: string | null;
+    isActive: boolean;
+};
+
+const emptyForm = {
+    sku: "",
+    name: "",
+    description: "",
+    listPrice: "",
+    unit: "each",
+    category: "",
+    isActive: true,
+};
+
+export default function ProductsAdmin() {
+    const queryClient = useQueryClient();
+    const [search, setSearch] = useState("");
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    // Product being edited, undefined when creating a new one
+    const [editing, setEditing] = useState<Product | undefined>();
+    const [form, setForm] = useState(emptyForm);
+    const [isLoading, setIsLoading] = useState<string | undefined>();
+
+    const { data: products, isLoading: isProductsLoading } = useQuery({
+        queryKey: ["products", search],
+        queryFn: async () => {
+            const result = await listProducts({
+                search,
+                includeInactive: true,
+                limit: 200,
+            });
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return result.products || [];
+        },
+    });
+
+    const openCreate = () => {
+        setEditing(undefined);
+        setForm(emptyForm);
+        setIsDialogOpen(true);
+    };
+
+    const openEdit = (product: Product) => {
+        setEditing(product);
+        setForm({
+            sku: product.sku,
+            name: product.name,
+            description: product.description || "",
+            listPrice: product.listPrice,
+            unit: product.unit,
+            category: product.category || "",
+            isActive: product.isActive,
+        });
+        setIsDialogOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading("save");
+        try {
+            const data: ProductData = {
+                ...form,
+                listPrice: parseFloat(form.listPrice),
+            };
+            const result = editing
+                ? await updateProduct(editing.id, data)
+                : await createProduct(data);
+
+            if (result.success) {
+                toast.success(result.message);
+                setIsDialogOpen(false);
+                queryClient.invalidateQueries({ queryKey: ["products"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    const handleDelete = async (product: Product) => {
+        if (!confirm(`Delete ${product.name} (${product.sku})?`)) return;
+
+        setIsLoading(`delete-${product.id}`);
+        try {
+            const result = await deleteProduct(product.id);
+            if (result.success) {
+                toast.success(result.message);
+                queryClient.invalidateQueries({ queryKey: ["products"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">Products</CardTitle>
+                    </div>
+                    <Button onClick={openCreate}>
+                        <Plus className="mr-2 h-4 w-4" /> Add Product
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <Input
+                        placeholder="Search by name or SKU..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                    />
+                    {isProductsLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>SKU</TableHead>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Category</TableHead>
+                                    <TableHead>Unit</TableHead>
+                                    <TableHead className="text-right">
+                                        List Price
+                                    </TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {products?.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={7}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No products found.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {products?.map((product) => (
+                                    <TableRow key={product.id}>
+                                        <TableCell className="font-mono">
+                                            {product.sku}
+                                        </TableCell>
+                                        <TableCell>{product.name}</TableCell>
+                                        <TableCell>
+                                            {product.category || "-"}
+                                        </TableCell>
+                                        <TableCell>{product.unit}</TableCell>
+                                        <TableCell className="text-right">
+                                            ${product.listPrice}
+                                        </TableCell>
+                                        <TableCell>
+                                            {product.isActive ? (
+                                                <Badge variant="outline">
+                                                    Active
+                                                </Badge>
+                                            ) : (
+                                                <Badge variant="secondary">
+                                                    Inactive
+                                                </Badge>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex space-x-2">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        openEdit(product)
+                                                    }
+                                                >
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="destructive"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        handleDelete(product)
+                                                    }
+                                                    disabled={isLoading?.startsWith(
+                                                        "delete"
+                                                    )}
+                                                >
+                                                    {isLoading ===
+                                                    `delete-${product.id}` ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                    ) : (
+                                                        <Trash className="h-4 w-4" />
+                                                    )}
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {editing ? "Edit Product" : "Add Product"}
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div>
+                            <Label htmlFor="sku">SKU</Label>
+                            <Input
+                                id="sku"
+                                value={form.sku}
+                                onChange={(e) =>
+                                    setForm({ ...form, sku: e.target.value })
+                                }
+                                required
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="name">Name</Label>
+                            <Input
+                                id="name"
+                                value={form.name}
+                                onChange={(e) =>
+                                    setForm({ ...form, name: e.target.value })
+                                }
+                                required
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="description">Description</Label>
+                            <Textarea
+                                id="description"
+                                value={form.description}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        description: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="listPrice">List Price</Label>
+                                <Input
+                                    id="listPrice"
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    value={form.listPrice}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            listPrice: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="unit">Unit</Label>
+                                <Input
+                                    id="unit"
+                                    value={form.unit}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            unit: e.target.value,
+                                        })
+                                    }
+                                />
+                            </div>
+                        </div>
+                        <div>
+                            <Label htmlFor="category">Category</Label>
+                            <Input
+                                id="category"
+                                placeholder="Used to pick the tax rate"
+                                value={form.category}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        category: e.target.value,
+                                    })
+                                }
+                            />
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <input
+                                id="isActive"
+                                type="checkbox"
+                                checked={form.isActive}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        isActive: e.target.checked,
+                                    })
+                                }
+                            />
+                            <Label htmlFor="isActive">
+                                Active (can be added to orders)
+                            </Label>
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isLoading === "save"}
+                        >
+                            {isLoading === "save" ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Product"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,16 @@
+import { auth } from "@/lib/auth";
+import TaxRatesAdmin from "./tax-rates-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function AdminTaxRatesPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session || session.user.role !== "admin") {
+        throw redirect("/");
+    }
+
+    return <TaxRatesAdmin />;
+}
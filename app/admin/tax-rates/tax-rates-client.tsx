@@ -0,0 +1,354 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash } from "lucide-react";
+import {
+    listTaxRates,
+    createTaxRate,
+    updateTaxRate,
+    deleteTaxRate,
+    type TaxRateData,
+} from "@/server/tax-rates";
+
+type TaxRate = {
+    id: string;
+    name: string;
+    rate: string;
+    category: string | null;
+    region: string | null;
+    isActive: boolean;
+};
+
+const emptyForm = {
+    name: "",
+    rate: "",
+    category: "",
+    region: "",
+    isActive: true,
+};
+
+export default function TaxRatesAdmin() {
+    const queryClient = useQueryClient();
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    // Rate being edited, undefined when creating a new one
+    const [editing, setEditing] = useState<TaxRate | undefined>();
+    const [form, setForm] = useState(emptyForm);
+    const [isLoading, setIsLoading] = useState<string | undefined>();
+
+    const { data: taxRates, isLoading: isTaxRatesLoading } = useQuery({
+        queryKey: ["tax-rates"],
+        queryFn: async () => {
+            const result = await listTaxRates();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return result.taxRates || [];
+        },
+    });
+
+    const openCreate = () => {
+        setEditing(undefined);
+        setForm(emptyForm);
+        setIsDialogOpen(true);
+    };
+
+    const openEdit = (taxRate: TaxRate) => {
+        setEditing(taxRate);
+        setForm({
+            name: taxRate.name,
+            rate: taxRate.rate,
+            category: taxRate.category || "",
+            region: taxRate.region || "",
+            isActive: taxRate.isActive,
+        });
+        setIsDialogOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading("save");
+        try {
+            const data: TaxRateData = {
+                ...form,
+                rate: parseFloat(form.rate),
+            };
+            const result = editing
+                ? await updateTaxRate(editing.id, data)
+                : await createTaxRate(data);
+
+            if (result.success) {
+                toast.success(result.message);
+                setIsDialogOpen(false);
+                queryClient.invalidateQueries({ queryKey: ["tax-rates"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    const handleDelete = async (taxRate: TaxRate) => {
+        if (!confirm(`Delete tax rate ${taxRate.name}?`)) return;
+
+        setIsLoading(`delete-${taxRate.id}`);
+        try {
+            const result = await deleteTaxRate(taxRate.id);
+            if (result.success) {
+                toast.success(result.message);
+                queryClient.invalidateQueries({ queryKey: ["tax-rates"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/admin">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">Tax Rates</CardTitle>
+                    </div>
+                    <Button onClick={openCreate}>
+                        <Plus className="mr-2 h-4 w-4" /> Add Tax Rate
+                    </Button>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                        Each order line uses the most specific active rate
+                        matching its product category and the order&apos;s tax
+                        region. A rate without category and region is the
+                        default.
+                    </p>
+                    {isTaxRatesLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead className="text-right">
+                                        Rate
+                                    </TableHead>
+                                    <TableHead>Category</TableHead>
+                                    <TableHead>Region</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Actions</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {taxRates?.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={6}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No tax rates configured.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {taxRates?.map((taxRate) => (
+                                    <TableRow key={taxRate.id}>
+                                        <TableCell>{taxRate.name}</TableCell>
+                                        <TableCell className="text-right">
+                                            {taxRate.rate}%
+                                        </TableCell>
+                                        <TableCell>
+                                            {taxRate.category || "Any"}
+                                        </TableCell>
+                                        <TableCell>
+                                            {taxRate.region || "Any"}
+                                        </TableCell>
+                                        <TableCell>
+                                            {taxRate.isActive ? (
+                                                <Badge variant="outline">
+                                                    Active
+                                                </Badge>
+                                            ) : (
+                                                <Badge variant="secondary">
+                                                    Inactive
+                                                </Badge>
+                                            )}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div className="flex space-x-2">
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        openEdit(taxRate)
+                                                    }
+                                                >
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                                <Button
+                                                    variant="destructive"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        handleDelete(taxRate)
+                                                    }
+                                                    disabled={isLoading?.startsWith(
+                                                        "delete"
+                                                    )}
+                                                >
+                                                    {isLoading ===
+                                                    `delete-${taxRate.id}` ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                    ) : (
+                                                        <Trash className="h-4 w-4" />
+                                                    )}
+                                                </Button>
+                                            </div>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {editing ? "Edit Tax Rate" : "Add Tax Rate"}
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="name">Name</Label>
+                                <Input
+                                    id="name"
+                                    placeholder="e.g. VAT standard"
+                                    value={form.name}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            name: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="rate">Rate (%)</Label>
+                                <Input
+                                    id="rate"
+                                    type="number"
+                                    step="0.01"
+                                    min="0"
+                                    max="100"
+                                    value={form.rate}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            rate: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="category">
+                                    Product Category
+                                </Label>
+                                <Input
+                                    id="category"
+                                    placeholder="Any"
+                                    value={form.category}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            category: e.target.value,
+                                        })
+                                    }
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="region">Region</Label>
+                                <Input
+                                    id="region"
+                                    placeholder="Any"
+                                    value={form.region}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            region: e.target.value,
+                                        })
+                                    }
+                                />
+                            </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                            <input
+                                id="isActive"
+                                type="checkbox"
+                                checked={form.isActive}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        isActive: e.target.checked,
+                                    })
+                                }
+                            />
+                            <Label htmlFor="isActive">
+                                Active (used to price new orders)
+                            </Label>
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isLoading === "save"}
+                        >
+                            {isLoading === "save" ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Tax Rate"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
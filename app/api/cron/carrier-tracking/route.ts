@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { pollCarrierTracking } from "@/lib/carrier-tracking";
+
+// Poll carriers for shipped orders and complete or fail them on delivery
+export async function GET(request: NextRequest) {
+    if (!isAuthorizedCronRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await pollCarrierTracking();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Error polling carrier tracking:", error);
+        return NextResponse.json(
+            { error: "Failed to poll carrier tracking" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { sendSlaReminders } from "@/lib/sla-reminders";
+
+// Remind and escalate orders that are close to or past their SLA
+export async function GET(request: NextRequest) {
+    if (!isAuthorizedCronRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await sendSlaReminders();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Error sending SLA reminders:", error);
+        return NextResponse.json(
+            { error: "Failed to send SLA reminders" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { dispatchOutbox } from "@/lib/outbox";
+
+// Retry outbox messages that could not be delivered right after commit
+export async function GET(request: NextRequest) {
+    if (!isAuthorizedCronRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await dispatchOutbox();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Error dispatching outbox:", error);
+        return NextResponse.json(
+            { error: "Failed to dispatch outbox" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { isAuthorizedCronRequest } from "@/lib/cron";
+import { pruneSseEvents } from "@/lib/sse";
+
+// Drop live update events past the replay retention window
+export async function GET(request: NextRequest) {
+    if (!isAuthorizedCronRequest(request)) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    try {
+        const result = await pruneSseEvents();
+        return NextResponse.json(result);
+    } catch (error) {
+        console.error("Error pruning SSE events:", error);
+        return NextResponse.json(
+            { error: "Failed to prune SSE events" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { db } from "@/db/drizzle";
+import { getInvoiceDocument } from "@/lib/invoices";
+import { renderInvoicePdf } from "@/lib/invoice-pdf";
+
+// Download an invoice or credit note as PDF
+export async function GET(
+    _request: NextRequest,
+    { params }: { params: Promise<{ id: string }> }
+) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                invoice: ["read"],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return NextResponse.json(
+            { error: "Insufficient permissions" },
+            { status: 403 }
+        );
+    }
+
+    try {
+        const { id } = await params;
+        const document = await getInvoiceDocument(db, id);
+        if (!document) {
+            return NextResponse.json(
+                { error: "Invoice not found" },
+                { status: 404 }
+            );
+        }
+
+        return new NextResponse(renderInvoicePdf(document), {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `attachment; filename="${document.invoice.invoiceNumber}.pdf"`,
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Error rendering invoice PDF:", error);
+        return NextResponse.json(
+            { error: "Failed to render invoice" },
+            { status: 500 }
+        );
+    }
+}
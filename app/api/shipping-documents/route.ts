@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { auth } from "@/lib/auth";
+import { db } from "@/db/drizzle";
+import {
+    getShippingDocuments,
+    type ShippingDocumentKind,
+} from "@/lib/shipping-documents";
+import { renderShippingDocuments } from "@/lib/shipping-documents-pdf";
+
+const documentKinds: ShippingDocumentKind[] = ["packing_slip", "label"];
+
+// Packing slips and/or labels as one PDF, opened in the browser for printing.
+// `?orderId=` may repeat, without it every order ready to ship is included.
+// `?type=packing_slip|label` limits the documents, both by default.
+export async function GET(request: NextRequest) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return NextResponse.json({ error: "Not authenticated" }, { status: 401 });
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                shipping_document: ["print"],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return NextResponse.json(
+            { error: "Insufficient permissions" },
+            { status: 403 }
+        );
+    }
+
+    const { searchParams } = request.nextUrl;
+    const orderIds = searchParams.getAll("orderId");
+    const type = searchParams.get("type");
+    if (type && !documentKinds.includes(type as ShippingDocumentKind)) {
+        return NextResponse.json(
+            { error: "Unknown document type" },
+            { status: 400 }
+        );
+    }
+
+    try {
+        const documents = await getShippingDocuments(
+            db,
+            orderIds.length > 0 ? orderIds : undefined
+        );
+        if (documents.length === 0) {
+            return NextResponse.json(
+                { error: "No orders ready to ship" },
+                { status: 404 }
+            );
+        }
+
+        const pdf = renderShippingDocuments(
+            documents,
+            type ? [type as ShippingDocumentKind] : documentKinds
+        );
+        const filename =
+            documents.length === 1
+                ? `${documents[0].order.orderNumber}-${type ?? "shipping"}.pdf`
+                : `shipping-documents-${new Date().toISOString().slice(0, 10)}.pdf`;
+
+        return new NextResponse(pdf, {
+            headers: {
+                "Content-Type": "application/pdf",
+                "Content-Disposition": `inline; filename="${filename}"`,
+                "Cache-Control": "private, no-store",
+            },
+        });
+    } catch (error) {
+        console.error("Error rendering shipping documents:", error);
+        return NextResponse.json(
+            { error: "Failed to render shipping documents" },
+            { status: 500 }
+        );
+    }
+}
@@ -1,104 +1,13 @@
 import { NextRequest } from "next/server";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-
-// Store active connections with proper typing
-interface SSEConnection {
-    controller: ReadableStreamDefaultController<Uint8Array>;
-    userId: string;
-    userRole: string;
-    connectedAt: Date;
-}
-
-const connections = new Map<string, SSEConnection>();
-
-// Helper function to send data to a specific user
-export async function sendToUser(userId: string, data: any) {
-    const connection = connections.get(userId);
-    if (connection) {
-        try {
-            const message = `data: ${JSON.stringify(data)}\n\n`;
-            connection.controller.enqueue(new TextEncoder().encode(message));
-            console.log(`SSE message sent to user ${userId}:`, data.type);
-        } catch (error) {
-            console.error("Failed to send SSE message to user:", userId, error);
-            // Remove broken connection
-            connections.delete(userId);
-        }
-    } else {
-        console.log(`No active SSE connection found for user: ${userId}`);
-    }
-}
-
-// Helper function to send data to users with specific roles
-export async function sendToRole(
-    role: string,
-    data: any,
-    excludeUserId?: string
-) {
-    let sentCount = 0;
-    for (const [userId, connection] of connections.entries()) {
-        if (excludeUserId && userId === excludeUserId) continue;
-        if (connection.userRole !== role) continue;
-
-        try {
-            const message = `data: ${JSON.stringify(data)}\n\n`;
-            connection.controller.enqueue(new TextEncoder().encode(message));
-            sentCount++;
-        } catch (error) {
-            console.error("Failed to send SSE message to user:", userId, error);
-            connections.delete(userId);
-        }
-    }
-    console.log(
-        `SSE message sent to ${sentCount} users with role ${role}:`,
-        data.type
-    );
-}
-
-// Helper function to broadcast to all connected users
-export async function broadcast(data: any, excludeUserId?: string) {
-    let sentCount = 0;
-    for (const [userId, connection] of connections.entries()) {
-        if (excludeUserId && userId === excludeUserId) continue;
-
-        try {
-            const message = `data: ${JSON.stringify(data)}\n\n`;
-            connection.controller.enqueue(new TextEncoder().encode(message));
-            sentCount++;
-        } catch (error) {
-            console.error(
-                "Failed to broadcast SSE message to user:",
-                userId,
-                error
-            );
-            connections.delete(userId);
-        }
-    }
-    console.log(`SSE message broadcasted to ${sentCount} users:`, data.type);
-}
-
-// Helper function to get connection stats
-export function getConnectionStats() {
-    const stats = {
-        totalConnections: connections.size,
-        connectionsByRole: {} as Record<string, number>,
-        connections: Array.from(connections.entries()).map(
-            ([userId, connection]) => ({
-                userId,
-                userRole: connection.userRole,
-                connectedAt: connection.connectedAt,
-            })
-        ),
-    };
-
-    for (const [, connection] of connections.entries()) {
-        stats.connectionsByRole[connection.userRole] =
-            (stats.connectionsByRole[connection.userRole] || 0) + 1;
-    }
-
-    return stats;
-}
+import {
+    registerConnection,
+    replayMissedEvents,
+    unregisterConnection,
+    type SSEConnection,
+} from "@/lib/sse";
+import { connectionEvent } from "@/lib/sse-events";
 
 export async function GET(request: NextRequest) {
     try {
@@ -113,42 +22,52 @@ export async function GET(request: NextRequest) {
 
         const userId = session.user.id;
         const userRole = session.user.role || "user";
+        // Every tab or device gets its own connection
+        const connectionId = crypto.randomUUID();
+        // Browsers send Last-Event-ID when they reconnect by themselves; the
+        // client passes it in the query when it opens a new EventSource
+        const lastEventId = Number(
+            request.headers.get("last-event-id") ??
+                request.nextUrl.searchParams.get("lastEventId")
+        );
+        const replayFrom =
+            Number.isInteger(lastEventId) && lastEventId > 0
+                ? lastEventId
+                : null;
 
         console.log(`SSE connection attempt for user: ${userId} (${userRole})`);
 
-        // Close existing connection if any
-        if (connections.has(userId)) {
-            console.log(`Closing existing SSE connection for user: ${userId}`);
-            connections.delete(userId);
-        }
-
         let heartbeatInterval: NodeJS.Timeout | null = null;
+        let connection: SSEConnection | null = null;
 
         // Create a readable stream for SSE
         const stream = new ReadableStream({
-            start(controller) {
-                // Store the connection with proper typing
-                const connection: SSEConnection = {
+            async start(controller) {
+                connection = {
+                    id: connectionId,
                     controller,
                     userId,
                     userRole,
+                    userAgent: request.headers.get("user-agent"),
                     connectedAt: new Date(),
+                    // Hold live events back until the missed ones are sent
+                    pending: replayFrom !== null ? [] : null,
+                    topics: new Set(),
                 };
 
-                connections.set(userId, connection);
+                await registerConnection(connection);
                 console.log(
-                    `SSE connection established for user: ${userId} (${userRole})`
+                    `SSE connection ${connectionId} established for user: ${userId} (${userRole})`
                 );
 
                 // Send initial connection message
-                const initialMessage = `data: ${JSON.stringify({
-                    type: "connection_established",
-                    data: {
+                const initialMessage = `data: ${JSON.stringify(
+                    connectionEvent("connection_established", {
+                        connectionId,
                         userId,
                         userRole,
-                        timestamp: new Date().toISOString(),
-                    },
-                })}\n\n`;
+                    })
+                )}\n\n`;
 
                 try {
                     controller.enqueue(
@@ -156,17 +75,20 @@ export async function GET(request: NextRequest) {
                     );
                 } catch (error) {
                     console.error("Failed to send initial SSE message:", error);
-                    connections.delete(userId);
+                    if (connection) unregisterConnection(connection);
                     return;
                 }
 
+                if (replayFrom !== null) {
+                    await replayMissedEvents(connection, replayFrom);
+                }
+
                 // Send periodic heartbeat to keep connection alive
                 heartbeatInterval = setInterval(() => {
                     try {
-                        const heartbeat = `data: ${JSON.stringify({
-                            type: "heartbeat",
-                            data: { timestamp: new Date().toISOString() },
-                        })}\n\n`;
+                        const heartbeat = `data: ${JSON.stringify(
+                            connectionEvent("heartbeat", {})
+                        )}\n\n`;
 
                         controller.enqueue(new TextEncoder().encode(heartbeat));
                     } catch (error) {
@@ -175,7 +97,7 @@ export async function GET(request: NextRequest) {
                             clearInterval(heartbeatInterval);
                             heartbeatInterval = null;
                         }
-                        connections.delete(userId);
+                        if (connection) unregisterConnection(connection);
                     }
                 }, 30000); // Send heartbeat every 30 seconds
 
@@ -185,8 +107,10 @@ export async function GET(request: NextRequest) {
                         clearInterval(heartbeatInterval);
                         heartbeatInterval = null;
                     }
-                    connections.delete(userId);
-                    console.log(`SSE connection closed for user: ${userId}`);
+                    if (connection) unregisterConnection(connection);
+                    console.log(
+                        `SSE connection ${connectionId} closed for user: ${userId}`
+                    );
                 });
             },
 
@@ -195,8 +119,10 @@ export async function GET(request: NextRequest) {
                     clearInterval(heartbeatInterval);
                     heartbeatInterval = null;
                 }
-                connections.delete(userId);
-                console.log(`SSE connection cancelled for user: ${userId}`);
+                if (connection) unregisterConnection(connection);
+                console.log(
+                    `SSE connection ${connectionId} cancelled for user: ${userId}`
+                );
             },
         });
 
@@ -0,0 +1,109 @@
+import { NextRequest, NextResponse } from "next/server";
+import { headers } from "next/headers";
+import { z } from "zod";
+import { eq } from "drizzle-orm";
+import { auth } from "@/lib/auth";
+import { db } from "@/db/drizzle";
+import { customers, orders } from "@/db/order-schema";
+import { setConnectionTopics } from "@/lib/sse";
+import { parseTopic } from "@/lib/sse-events";
+
+const MAX_TOPICS = 20;
+
+const bodySchema = z.object({
+    connectionId: z.string().min(1),
+    topics: z.array(z.string()).max(MAX_TOPICS),
+});
+
+const idSchema = z.string().uuid();
+
+type Session = NonNullable<Awaited<ReturnType<typeof auth.api.getSession>>>;
+
+async function hasPermission(
+    session: Session,
+    permissions: { order?: ["read"]; customer?: ["read"] }
+) {
+    const { success } = await auth.api.userHasPermission({
+        body: { userId: session.user.id, permissions },
+    });
+    return success;
+}
+
+// Orders and customers need read access and must exist; role topics are
+// limited to the user's own role, admins may watch any
+async function canWatch(session: Session, topic: string) {
+    const parsed = parseTopic(topic);
+    if (!parsed) return false;
+    // Checked before querying, postgres rejects malformed uuids
+    if (parsed.kind !== "role" && !idSchema.safeParse(parsed.id).success) {
+        return false;
+    }
+
+    switch (parsed.kind) {
+        case "order": {
+            if (!(await hasPermission(session, { order: ["read"] }))) {
+                return false;
+            }
+            const [order] = await db
+                .select({ id: orders.id })
+                .from(orders)
+                .where(eq(orders.id, parsed.id));
+            return !!order;
+        }
+        case "customer": {
+            if (!(await hasPermission(session, { customer: ["read"] }))) {
+                return false;
+            }
+            const [customer] = await db
+                .select({ id: customers.id })
+                .from(customers)
+                .where(eq(customers.id, parsed.id));
+            return !!customer;
+        }
+        case "role":
+            return (
+                session.user.role === "admin" || session.user.role === parsed.id
+            );
+    }
+}
+
+// Replace the topics an open SSE connection watches
+export async function POST(request: NextRequest) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = bodySchema.safeParse(await request.json().catch(() => null));
+    if (!body.success) {
+        return NextResponse.json({ error: "Invalid request" }, { status: 400 });
+    }
+
+    try {
+        const topics: string[] = [];
+        const rejected: string[] = [];
+        for (const topic of new Set(body.data.topics)) {
+            if (await canWatch(session, topic)) {
+                topics.push(topic);
+            } else {
+                rejected.push(topic);
+            }
+        }
+
+        await setConnectionTopics(
+            body.data.connectionId,
+            session.user.id,
+            topics
+        );
+        return NextResponse.json({ topics, rejected });
+    } catch (error) {
+        console.error("Error updating SSE topics:", error);
+        return NextResponse.json(
+            { error: "Failed to update topics" },
+            { status: 500 }
+        );
+    }
+}
@@ -0,0 +1,514 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Pencil, Plus, Trash } from "lucide-react";
+import {
+    listApprovalPolicies,
+    createApprovalPolicy,
+    updateApprovalPolicy,
+    deleteApprovalPolicy,
+    type ApprovalPolicyData,
+} from "@/server/approval-policies";
+import type { ApprovalPolicyKind } from "@/lib/approval-policies";
+import { formatMoney } from "@/lib/currency";
+
+type ApprovalPolicy = {
+    id: string;
+    name: string;
+    kind: ApprovalPolicyKind;
+    threshold: string | null;
+    approverRoles: string[] | null;
+    minCompletedOrders: number;
+    isActive: boolean;
+};
+
+const kindLabels: Record<ApprovalPolicyKind, string> = {
+    auto_approve: "Auto-approve",
+    approval_chain: "Approval chain",
+    credit_limit: "Credit limit",
+};
+
+const emptyForm = {
+    name: "",
+    kind: "auto_approve" as ApprovalPolicyKind,
+    threshold: "",
+    approverRoles: ["accountant", "accountant"],
+    minCompletedOrders: "1",
+    isActive: true,
+};
+
+export default function ApprovalPoliciesClient({
+    canManage,
+}: {
+    canManage: boolean;
+}) {
+    const queryClient = useQueryClient();
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    // Policy being edited, undefined when creating a new one
+    const [editing, setEditing] = useState<ApprovalPolicy | undefined>();
+    const [form, setForm] = useState(emptyForm);
+    const [isLoading, setIsLoading] = useState<string | undefined>();
+
+    const { data, isLoading: isPoliciesLoading } = useQuery({
+        queryKey: ["approval-policies"],
+        queryFn: async () => {
+            const result = await listApprovalPolicies();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return {
+                policies: result.approvalPolicies || [],
+                reportingCurrency: result.reportingCurrency,
+                approverRoles: result.approverRoles || [],
+            };
+        },
+    });
+
+    const describePolicy = (policy: ApprovalPolicy) => {
+        const threshold = formatMoney(policy.threshold, data?.reportingCurrency);
+        switch (policy.kind) {
+            case "auto_approve":
+                return `Orders up to ${threshold} from customers with at least ${policy.minCompletedOrders} completed order(s)`;
+            case "approval_chain":
+                return `Orders over ${threshold} need ${
+                    policy.approverRoles?.length ?? 0
+                } approvers: ${policy.approverRoles?.join(", ")}`;
+            case "credit_limit":
+                return "Reject orders that take a customer over its credit limit";
+        }
+    };
+
+    const openCreate = () => {
+        setEditing(undefined);
+        setForm(emptyForm);
+        setIsDialogOpen(true);
+    };
+
+    const openEdit = (policy: ApprovalPolicy) => {
+        setEditing(policy);
+        setForm({
+            name: policy.name,
+            kind: policy.kind,
+            threshold: policy.threshold || "",
+            approverRoles: policy.approverRoles || emptyForm.approverRoles,
+            minCompletedOrders: String(policy.minCompletedOrders),
+            isActive: policy.isActive,
+        });
+        setIsDialogOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading("save");
+        try {
+            const policyData: ApprovalPolicyData = {
+                name: form.name,
+                kind: form.kind,
+                threshold: form.threshold ? parseFloat(form.threshold) : null,
+                approverRoles: form.approverRoles,
+                minCompletedOrders: parseInt(form.minCompletedOrders) || 0,
+                isActive: form.isActive,
+            };
+            const result = editing
+                ? await updateApprovalPolicy(editing.id, policyData)
+                : await createApprovalPolicy(policyData);
+
+            if (result.success) {
+                toast.success(result.message);
+                setIsDialogOpen(false);
+                queryClient.invalidateQueries({
+                    queryKey: ["approval-policies"],
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    const handleDelete = async (policy: ApprovalPolicy) => {
+        if (!confirm(`Delete approval policy ${policy.name}?`)) return;
+
+        setIsLoading(`delete-${policy.id}`);
+        try {
+            const result = await deleteApprovalPolicy(policy.id);
+            if (result.success) {
+                toast.success(result.message);
+                queryClient.invalidateQueries({
+                    queryKey: ["approval-policies"],
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/dashboard">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">
+                            Approval Policies
+                        </CardTitle>
+                    </div>
+                    {canManage && (
+                        <Button onClick={openCreate}>
+                            <Plus className="mr-2 h-4 w-4" /> Add Policy
+                        </Button>
+                    )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                        Policies run when an order is created. Credit limits
+                        are checked first, then approval chains (the highest
+                        threshold exceeded applies), then auto-approval.
+                        Amounts are compared in {data?.reportingCurrency};
+                        credit limits are set on each customer.
+                    </p>
+                    {isPoliciesLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Name</TableHead>
+                                    <TableHead>Type</TableHead>
+                                    <TableHead>Rule</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    {canManage && (
+                                        <TableHead>Actions</TableHead>
+                                    )}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {data?.policies.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={canManage ? 5 : 4}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No approval policies. Every order
+                                            is approved manually.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {data?.policies.map((policy) => (
+                                    <TableRow key={policy.id}>
+                                        <TableCell>{policy.name}</TableCell>
+                                        <TableCell>
+                                            {kindLabels[policy.kind]}
+                                        </TableCell>
+                                        <TableCell className="text-sm text-muted-foreground">
+                                            {describePolicy(policy)}
+                                        </TableCell>
+                                        <TableCell>
+                                            {policy.isActive ? (
+                                                <Badge variant="outline">
+                                                    Active
+                                                </Badge>
+                                            ) : (
+                                                <Badge variant="secondary">
+                                                    Inactive
+                                                </Badge>
+                                            )}
+                                        </TableCell>
+                                        {canManage && (
+                                            <TableCell>
+                                                <div className="flex space-x-2">
+                                                    <Button
+                                                        variant="outline"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            openEdit(policy)
+                                                        }
+                                                    >
+                                                        <Pencil className="h-4 w-4" />
+                                                    </Button>
+                                                    <Button
+                                                        variant="destructive"
+                                                        size="sm"
+                                                        onClick={() =>
+                                                            handleDelete(policy)
+                                                        }
+                                                        disabled={isLoading?.startsWith(
+                                                            "delete"
+                                                        )}
+                                                    >
+                                                        {isLoading ===
+                                                        `delete-${policy.id}` ? (
+                                                            <Loader2 className="h-4 w-4 animate-spin" />
+                                                        ) : (
+                                                            <Trash className="h-4 w-4" />
+                                                        )}
+                                                    </Button>
+                                                </div>
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>
+                            {editing
+                                ? "Edit Approval Policy"
+                                : "Add Approval Policy"}
+                        </DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="name">Name</Label>
+                                <Input
+                                    id="name"
+                                    placeholder="e.g. Small repeat orders"
+                                    value={form.name}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            name: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label>Type</Label>
+                                <Select
+                                    value={form.kind}
+                                    onValueChange={(value) =>
+                                        setForm({
+                                            ...form,
+                                            kind: value as ApprovalPolicyKind,
+                                        })
+                                    }
+                                >
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {Object.entries(kindLabels).map(
+                                            ([kind, label]) => (
+                                                <SelectItem
+                                                    key={kind}
+                                                    value={kind}
+                                                >
+                                                    {label}
+                                                </SelectItem>
+                                            )
+                                        )}
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </div>
+                        {form.kind !== "credit_limit" && (
+                            <div className="grid grid-cols-2 gap-4">
+                                <div>
+                                    <Label htmlFor="threshold">
+                                        {form.kind === "auto_approve"
+                                            ? "Up to"
+                                            : "Above"}{" "}
+                                        ({data?.reportingCurrency})
+                                    </Label>
+                                    <Input
+                                        id="threshold"
+                                        type="number"
+                                        step="0.01"
+                                        min="0"
+                                        value={form.threshold}
+                                        onChange={(e) =>
+                                            setForm({
+                                                ...form,
+                                                threshold: e.target.value,
+                                            })
+                                        }
+                                        required
+                                    />
+                                </div>
+                                {form.kind === "auto_approve" && (
+                                    <div>
+                                        <Label htmlFor="minCompletedOrders">
+                                            Completed orders required
+                                        </Label>
+                                        <Input
+                                            id="minCompletedOrders"
+                                            type="number"
+                                            step="1"
+                                            min="0"
+                                            value={form.minCompletedOrders}
+                                            onChange={(e) =>
+                                                setForm({
+                                                    ...form,
+                                                    minCompletedOrders:
+                                                        e.target.value,
+                                                })
+                                            }
+                                            required
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {form.kind === "approval_chain" && (
+                            <div className="space-y-2">
+                                <Label>Approvers (each a different person)</Label>
+                                {form.approverRoles.map((role, index) => (
+                                    <div
+                                        key={index}
+                                        className="flex items-center gap-2"
+                                    >
+                                        <Select
+                                            value={role}
+                                            onValueChange={(value) =>
+                                                setForm({
+                                                    ...form,
+                                                    approverRoles:
+                                                        form.approverRoles.map(
+                                                            (r, i) =>
+                                                                i === index
+                                                                    ? value
+                                                                    : r
+                                                        ),
+                                                })
+                                            }
+                                        >
+                                            <SelectTrigger>
+                                                <SelectValue />
+                                            </SelectTrigger>
+                                            <SelectContent>
+                                                {data?.approverRoles.map(
+                                                    (option) => (
+                                                        <SelectItem
+                                                            key={option}
+                                                            value={option}
+                                                        >
+                                                            {option}
+                                                        </SelectItem>
+                                                    )
+                                                )}
+                                            </SelectContent>
+                                        </Select>
+                                        <Button
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            disabled={
+                                                form.approverRoles.length <= 2
+                                            }
+                                            onClick={() =>
+                                                setForm({
+                                                    ...form,
+                                                    approverRoles:
+                                                        form.approverRoles.filter(
+                                                            (_r, i) =>
+                                                                i !== index
+                                                        ),
+                                                })
+                                            }
+                                        >
+                                            <Trash className="h-4 w-4" />
+                                        </Button>
+                                    </div>
+                                ))}
+                                <Button
+                                    type="button"
+                                    variant="outline"
+                                    size="sm"
+                                    onClick={() =>
+                                        setForm({
+                                            ...form,
+                                            approverRoles: [
+                                                ...form.approverRoles,
+                                                "accountant",
+                                            ],
+                                        })
+                                    }
+                                >
+                                    <Plus className="mr-2 h-4 w-4" /> Add
+                                    Approver
+                                </Button>
+                            </div>
+                        )}
+                        <div className="flex items-center gap-2">
+                            <input
+                                id="isActive"
+                                type="checkbox"
+                                checked={form.isActive}
+                                onChange={(e) =>
+                                    setForm({
+                                        ...form,
+                                        isActive: e.target.checked,
+                                    })
+                                }
+                            />
+                            <Label htmlFor="isActive">
+                                Active (applied to new orders)
+                            </Label>
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isLoading === "save"}
+                        >
+                            {isLoading === "save" ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Policy"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { auth } from "@/lib/auth";
+import ApprovalPoliciesClient from "./approval-policies-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function ApprovalPoliciesPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        throw redirect("/login");
+    }
+
+    const { success: canManage } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                approval_policy: ["manage"],
+            },
+        },
+    });
+
+    return <ApprovalPoliciesClient canManage={canManage} />;
+}
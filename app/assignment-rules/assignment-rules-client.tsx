@@ -0,0 +1,163 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2 } from "lucide-react";
+import {
+    listAssignmentRules,
+    updateAssignmentRule,
+} from "@/server/assignments";
+import type { AssignmentStrategy } from "@/lib/order-assignment";
+
+const strategyLabels: Record<AssignmentStrategy, string> = {
+    manual: "Manual",
+    round_robin: "Round-robin",
+    least_load: "Least load",
+};
+
+const strategyDescriptions: Record<AssignmentStrategy, string> = {
+    manual: "Orders stay unassigned until someone assigns or takes them; the whole role is notified.",
+    round_robin: "Each user of the role gets the next order in turn.",
+    least_load: "The user with the fewest open assigned orders gets the order.",
+};
+
+// Statuses each role's queue holds
+const queueDescriptions: Record<string, string> = {
+    accountant: "Pending and partially approved orders",
+    warehouse: "Approved orders waiting for confirmation",
+    shipper: "Confirmed orders to ship and orders in transit",
+};
+
+export default function AssignmentRulesClient() {
+    const queryClient = useQueryClient();
+    const [isSaving, setIsSaving] = useState<string | undefined>();
+
+    const { data: rules, isLoading } = useQuery({
+        queryKey: ["assignment-rules"],
+        queryFn: async () => {
+            const result = await listAssignmentRules();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return result.rules || [];
+        },
+    });
+
+    const handleChange = async (role: string, strategy: AssignmentStrategy) => {
+        try {
+            setIsSaving(role);
+            const result = await updateAssignmentRule(role, strategy);
+            if (result.success) {
+                toast.success(result.message);
+                queryClient.invalidateQueries({
+                    queryKey: ["assignment-rules"],
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } catch (error) {
+            console.error(error);
+            toast.error("Failed to update assignment rule");
+        } finally {
+            setIsSaving(undefined);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center gap-4">
+                    <Button variant="outline" size="sm" asChild>
+                        <Link href="/dashboard">
+                            <ArrowLeft className="h-4 w-4 mr-2" />
+                            Back
+                        </Link>
+                    </Button>
+                    <CardTitle className="text-2xl">Order Assignment</CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                        How orders are assigned when they reach a role&apos;s
+                        queue. An order keeps its assignee while it stays with
+                        the same role; notifications for the role go to the
+                        assignee only.
+                    </p>
+                    {isLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Role</TableHead>
+                                    <TableHead>Queue</TableHead>
+                                    <TableHead className="w-48">Strategy</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {rules?.map((rule) => (
+                                    <TableRow key={rule.role}>
+                                        <TableCell className="font-medium capitalize">
+                                            {rule.role}
+                                        </TableCell>
+                                        <TableCell>
+                                            <div>{queueDescriptions[rule.role]}</div>
+                                            <div className="text-xs text-muted-foreground">
+                                                {strategyDescriptions[rule.strategy]}
+                                            </div>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Select
+                                                value={rule.strategy}
+                                                disabled={isSaving === rule.role}
+                                                onValueChange={(value) =>
+                                                    handleChange(
+                                                        rule.role,
+                                                        value as AssignmentStrategy
+                                                    )
+                                                }
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {Object.entries(strategyLabels).map(
+                                                        ([value, label]) => (
+                                                            <SelectItem key={value} value={value}>
+                                                                {label}
+                                                            </SelectItem>
+                                                        )
+                                                    )}
+                                                </SelectContent>
+                                            </Select>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
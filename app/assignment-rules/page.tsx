@@ -0,0 +1,29 @@
+import { auth } from "@/lib/auth";
+import AssignmentRulesClient from "./assignment-rules-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function AssignmentRulesPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        throw redirect("/login");
+    }
+
+    const { success: canAssign } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                order: ["assign"],
+            },
+        },
+    });
+
+    if (!canAssign) {
+        throw redirect("/dashboard");
+    }
+
+    return <AssignmentRulesClient />;
+}
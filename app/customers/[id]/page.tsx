@@ -0,0 +1,598 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    ArrowLeft,
+    DollarSign,
+    Mail,
+    MapPin,
+    Pencil,
+    Phone,
+    Plus,
+    Trash2,
+    User,
+    Users,
+} from "lucide-react";
+import { toast } from "sonner";
+import {
+    getCustomerById,
+    updateCustomer,
+    setCustomerCreditLimit,
+    addCustomerAddress,
+    setDefaultCustomerAddress,
+    deleteCustomerAddress,
+    addCustomerContact,
+    deleteCustomerContact,
+} from "@/server/customers";
+import { authClient } from "@/lib/auth-client";
+import { formatMoney } from "@/lib/currency";
+
+interface CustomerDetails {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    notes: string | null;
+    creditLimit: string | null;
+    lifetimeValue: string;
+    creditExposure: string;
+    reportingCurrency: string;
+    addresses: Array<{
+        id: string;
+        label: string | null;
+        address: string;
+        isDefault: boolean;
+    }>;
+    contacts: Array<{
+        id: string;
+        name: string;
+        role: string | null;
+        email: string | null;
+        phone: string | null;
+    }>;
+    orders: Array<{
+        id: string;
+        orderNumber: string;
+        status: string;
+        total: string;
+        currency: string;
+        createdAt: Date;
+    }>;
+}
+
+// Roles with the customer:update permission (server/permissions.ts)
+const editorRoles = ["sales", "accountant", "admin"];
+
+// Roles with the customer:credit_limit permission
+const creditLimitRoles = ["accountant", "admin"];
+
+export default function CustomerDetailsPage() {
+    const params = useParams();
+    const router = useRouter();
+    const customerId = params.id as string;
+
+    const [customer, setCustomer] = useState<CustomerDetails | null>(null);
+    const [loading, setLoading] = useState(true);
+    const [userRole, setUserRole] = useState<string>("");
+    const [details, setDetails] = useState({ name: "", email: "", phone: "", notes: "" });
+    const [newAddress, setNewAddress] = useState({ label: "", address: "", isDefault: false });
+    const [newContact, setNewContact] = useState({ name: "", role: "", email: "", phone: "" });
+    const [creditLimit, setCreditLimit] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canEdit = editorRoles.includes(userRole);
+    const canSetCreditLimit = creditLimitRoles.includes(userRole);
+
+    const loadCustomer = async () => {
+        try {
+            const result = await getCustomerById(customerId);
+            if (result.success && result.customer) {
+                setCustomer(result.customer);
+            } else {
+                toast.error(result.message || "Failed to load customer");
+            }
+        } catch (error) {
+            console.error("Failed to load customer:", error);
+            toast.error("Failed to load customer");
+        }
+    };
+
+    const loadUserInfo = async () => {
+        try {
+            const session = await authClient.getSession();
+            if (session?.data?.user) {
+                setUserRole(session.data.user.role || "");
+            }
+        } catch (error) {
+            console.error("Failed to load user info:", error);
+        }
+    };
+
+    useEffect(() => {
+        if (customerId) {
+            Promise.all([loadCustomer(), loadUserInfo()]).finally(() =>
+                setLoading(false)
+            );
+        }
+    }, [customerId]);
+
+    // Run a customer action and reload on success
+    const run = async (action: () => Promise<{ success: boolean; message?: string }>) => {
+        setIsSubmitting(true);
+        try {
+            const result = await action();
+            if (result.success) {
+                toast.success(result.message);
+                await loadCustomer();
+            } else {
+                toast.error(result.message);
+            }
+            return result.success;
+        } catch (error) {
+            console.error("Customer action error:", error);
+            toast.error("An unexpected error occurred");
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    if (loading) {
+        return (
+            <div className="container mx-auto py-8">
+                <div className="flex items-center justify-center h-64">
+                    <div className="text-center">
+                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-gray-900 mx-auto"></div>
+                        <p className="mt-2 text-muted-foreground">Loading customer...</p>
+                    </div>
+                </div>
+            </div>
+        );
+    }
+
+    if (!customer) {
+        return (
+            <div className="container mx-auto py-8">
+                <div className="text-center">
+                    <h1 className="text-2xl font-bold">Customer Not Found</h1>
+                    <p className="text-muted-foreground mt-2">The requested customer could not be found.</p>
+                    <Button onClick={() => router.push("/order")} className="mt-4">
+                        <ArrowLeft className="w-4 h-4 mr-2" />
+                        Back to Orders
+                    </Button>
+                </div>
+            </div>
+        );
+    }
+
+    return (
+        <div className="container mx-auto py-8 space-y-6">
+            {/* Header */}
+            <div className="flex items-center justify-between">
+                <div className="flex items-center gap-4">
+                    <Button variant="outline" size="sm" onClick={() => router.back()}>
+                        <ArrowLeft className="w-4 h-4 mr-2" />
+                        Back
+                    </Button>
+                    <h1 className="text-3xl font-bold">{customer.name}</h1>
+                </div>
+                {canEdit && (
+                    <Dialog>
+                        <DialogTrigger asChild>
+                            <Button
+                                variant="outline"
+                                onClick={() =>
+                                    setDetails({
+                                        name: customer.name,
+                                        email: customer.email || "",
+                                        phone: customer.phone || "",
+                                        notes: customer.notes || "",
+                                    })
+                                }
+                            >
+                                <Pencil className="w-4 h-4 mr-2" />
+                                Edit
+                            </Button>
+                        </DialogTrigger>
+                        <DialogContent>
+                            <DialogHeader>
+                                <DialogTitle>Edit Customer</DialogTitle>
+                            </DialogHeader>
+                            <div className="space-y-4">
+                                <div>
+                                    <Label htmlFor="name">Name</Label>
+                                    <Input
+                                        id="name"
+                                        value={details.name}
+                                        onChange={(e) => setDetails({ ...details, name: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="email">Email</Label>
+                                    <Input
+                                        id="email"
+                                        type="email"
+                                        value={details.email}
+                                        onChange={(e) => setDetails({ ...details, email: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="phone">Phone</Label>
+                                    <Input
+                                        id="phone"
+                                        value={details.phone}
+                                        onChange={(e) => setDetails({ ...details, phone: e.target.value })}
+                                    />
+                                </div>
+                                <div>
+                                    <Label htmlFor="notes">Notes</Label>
+                                    <Textarea
+                                        id="notes"
+                                        value={details.notes}
+                                        onChange={(e) => setDetails({ ...details, notes: e.target.value })}
+                                    />
+                                </div>
+                                <p className="text-sm text-muted-foreground">
+                                    Name, email and phone are updated on all orders of this customer.
+                                </p>
+                                <Button
+                                    disabled={isSubmitting}
+                                    onClick={() => run(() => updateCustomer(customer.id, details))}
+                                >
+                                    Save Changes
+                                </Button>
+                            </div>
+                        </DialogContent>
+                    </Dialog>
+                )}
+            </div>
+
+            {/* Overview */}
+            <div className="grid gap-6 md:grid-cols-2">
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <User className="w-5 h-5" />
+                            Customer Information
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {customer.email && (
+                            <div className="flex items-center gap-2">
+                                <Mail className="w-4 h-4 text-muted-foreground" />
+                                <span>{customer.email}</span>
+                            </div>
+                        )}
+                        {customer.phone && (
+                            <div className="flex items-center gap-2">
+                                <Phone className="w-4 h-4 text-muted-foreground" />
+                                <span>{customer.phone}</span>
+                            </div>
+                        )}
+                        {customer.notes && (
+                            <p className="text-sm text-muted-foreground">{customer.notes}</p>
+                        )}
+                        {!customer.email && !customer.phone && !customer.notes && (
+                            <p className="text-sm text-muted-foreground">No contact details.</p>
+                        )}
+                    </CardContent>
+                </Card>
+
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <DollarSign className="w-5 h-5" />
+                            Lifetime Value
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-1">
+                        <div className="text-3xl font-bold">
+                            {formatMoney(customer.lifetimeValue, customer.reportingCurrency)}
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                            Delivered orders less refunds, across {customer.orders.length} order
+                            {customer.orders.length !== 1 ? "s" : ""}
+                        </p>
+                        <div className="flex items-center justify-between pt-3 text-sm">
+                            <span>
+                                Open orders{" "}
+                                {formatMoney(customer.creditExposure, customer.reportingCurrency)}
+                                {" of "}
+                                {customer.creditLimit
+                                    ? `${formatMoney(customer.creditLimit, customer.reportingCurrency)} credit limit`
+                                    : "no credit limit"}
+                            </span>
+                            {canSetCreditLimit && (
+                                <Dialog>
+                                    <DialogTrigger asChild>
+                                        <Button
+                                            variant="ghost"
+                                            size="sm"
+                                            onClick={() => setCreditLimit(customer.creditLimit || "")}
+                                        >
+                                            <Pencil className="w-4 h-4" />
+                                        </Button>
+                                    </DialogTrigger>
+                                    <DialogContent>
+                                        <DialogHeader>
+                                            <DialogTitle>Credit Limit</DialogTitle>
+                                        </DialogHeader>
+                                        <div className="space-y-4">
+                                            <div>
+                                                <Label htmlFor="creditLimit">
+                                                    Credit limit ({customer.reportingCurrency})
+                                                </Label>
+                                                <Input
+                                                    id="creditLimit"
+                                                    type="number"
+                                                    step="0.01"
+                                                    min="0"
+                                                    placeholder="No limit"
+                                                    value={creditLimit}
+                                                    onChange={(e) => setCreditLimit(e.target.value)}
+                                                />
+                                            </div>
+                                            <p className="text-sm text-muted-foreground">
+                                                New orders that take open orders over the limit are
+                                                rejected when a credit limit policy is active.
+                                            </p>
+                                            <Button
+                                                disabled={isSubmitting}
+                                                onClick={() =>
+                                                    run(() =>
+                                                        setCustomerCreditLimit(
+                                                            customer.id,
+                                                            creditLimit ? parseFloat(creditLimit) : null
+                                                        )
+                                                    )
+                                                }
+                                            >
+                                                Save Credit Limit
+                                            </Button>
+                                        </div>
+                                    </DialogContent>
+                                </Dialog>
+                            )}
+                        </div>
+                    </CardContent>
+                </Card>
+            </div>
+
+            <div className="grid gap-6 md:grid-cols-2">
+                {/* Addresses */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <MapPin className="w-5 h-5" />
+                            Addresses
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {customer.addresses.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No saved addresses.</p>
+                        )}
+                        {customer.addresses.map((address) => (
+                            <div key={address.id} className="flex items-start justify-between gap-2 rounded-md border p-3 text-sm">
+                                <div>
+                                    <div className="flex items-center gap-2 font-medium">
+                                        {address.label || "Address"}
+                                        {address.isDefault && <Badge variant="outline">Default</Badge>}
+                                    </div>
+                                    <p className="whitespace-pre-line text-muted-foreground">{address.address}</p>
+                                </div>
+                                {canEdit && (
+                                    <div className="flex gap-1">
+                                        {!address.isDefault && (
+                                            <Button
+                                                size="sm"
+                                                variant="ghost"
+                                                disabled={isSubmitting}
+                                                onClick={() => run(() => setDefaultCustomerAddress(address.id))}
+                                            >
+                                                Make default
+                                            </Button>
+                                        )}
+                                        <Button
+                                            size="sm"
+                                            variant="ghost"
+                                            disabled={isSubmitting}
+                                            onClick={() => run(() => deleteCustomerAddress(address.id))}
+                                        >
+                                            <Trash2 className="w-4 h-4" />
+                                        </Button>
+                                    </div>
+                                )}
+                            </div>
+                        ))}
+                        {canEdit && (
+                            <div className="space-y-2 border-t pt-3">
+                                <Input
+                                    placeholder="Label (e.g. Head office)"
+                                    value={newAddress.label}
+                                    onChange={(e) => setNewAddress({ ...newAddress, label: e.target.value })}
+                                />
+                                <Textarea
+                                    placeholder="Address"
+                                    value={newAddress.address}
+                                    onChange={(e) => setNewAddress({ ...newAddress, address: e.target.value })}
+                                />
+                                <div className="flex items-center justify-between">
+                                    <label className="flex items-center gap-2 text-sm">
+                                        <input
+                                            type="checkbox"
+                                            checked={newAddress.isDefault}
+                                            onChange={(e) =>
+                                                setNewAddress({ ...newAddress, isDefault: e.target.checked })
+                                            }
+                                        />
+                                        Default address
+                                    </label>
+                                    <Button
+                                        size="sm"
+                                        disabled={isSubmitting}
+                                        onClick={async () => {
+                                            const success = await run(() =>
+                                                addCustomerAddress(customer.id, newAddress)
+                                            );
+                                            if (success) {
+                                                setNewAddress({ label: "", address: "", isDefault: false });
+                                            }
+                                        }}
+                                    >
+                                        <Plus className="w-4 h-4 mr-1" />
+                                        Add Address
+                                    </Button>
+                                </div>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+
+                {/* Contacts */}
+                <Card>
+                    <CardHeader>
+                        <CardTitle className="flex items-center gap-2">
+                            <Users className="w-5 h-5" />
+                            Contacts
+                        </CardTitle>
+                    </CardHeader>
+                    <CardContent className="space-y-3">
+                        {customer.contacts.length === 0 && (
+                            <p className="text-sm text-muted-foreground">No contacts.</p>
+                        )}
+                        {customer.contacts.map((contact) => (
+                            <div key={contact.id} className="flex items-start justify-between gap-2 rounded-md border p-3 text-sm">
+                                <div>
+                                    <div className="font-medium">
+                                        {contact.name}
+                                        {contact.role && (
+                                            <span className="text-muted-foreground"> · {contact.role}</span>
+                                        )}
+                                    </div>
+                                    <div className="text-muted-foreground">
+                                        {[contact.email, contact.phone].filter(Boolean).join(" · ")}
+                                    </div>
+                                </div>
+                                {canEdit && (
+                                    <Button
+                                        size="sm"
+                                        variant="ghost"
+                                        disabled={isSubmitting}
+                                        onClick={() => run(() => deleteCustomerContact(contact.id))}
+                                    >
+                                        <Trash2 className="w-4 h-4" />
+                                    </Button>
+                                )}
+                            </div>
+                        ))}
+                        {canEdit && (
+                            <div className="grid grid-cols-2 gap-2 border-t pt-3">
+                                <Input
+                                    placeholder="Name"
+                                    value={newContact.name}
+                                    onChange={(e) => setNewContact({ ...newContact, name: e.target.value })}
+                                />
+                                <Input
+                                    placeholder="Role"
+                                    value={newContact.role}
+                                    onChange={(e) => setNewContact({ ...newContact, role: e.target.value })}
+                                />
+                                <Input
+                                    placeholder="Email"
+                                    type="email"
+                                    value={newContact.email}
+                                    onChange={(e) => setNewContact({ ...newContact, email: e.target.value })}
+                                />
+                                <Input
+                                    placeholder="Phone"
+                                    value={newContact.phone}
+                                    onChange={(e) => setNewContact({ ...newContact, phone: e.target.value })}
+                                />
+                                <Button
+                                    size="sm"
+                                    className="col-span-2"
+                                    disabled={isSubmitting}
+                                    onClick={async () => {
+                                        const success = await run(() =>
+                                            addCustomerContact(customer.id, newContact)
+                                        );
+                                        if (success) {
+                                            setNewContact({ name: "", role: "", email: "", phone: "" });
+                                        }
+                                    }}
+                                >
+                                    <Plus className="w-4 h-4 mr-1" />
+                                    Add Contact
+                                </Button>
+                            </div>
+                        )}
+                    </CardContent>
+                </Card>
+            </div>
+
+            {/* Orders */}
+            <Card>
+                <CardHeader>
+                    <CardTitle>Orders ({customer.orders.length})</CardTitle>
+                </CardHeader>
+                <CardContent>
+                    {customer.orders.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">No orders yet.</p>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>Order</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead>Date</TableHead>
+                                    <TableHead className="text-right">Total</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {customer.orders.map((order) => (
+                                    <TableRow key={order.id}>
+                                        <TableCell>
+                                            <Link href={`/order/${order.id}`} className="font-medium hover:underline">
+                                                {order.orderNumber}
+                                            </Link>
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline">{order.status}</Badge>
+                                        </TableCell>
+                                        <TableCell>{new Date(order.createdAt).toLocaleDateString()}</TableCell>
+                                        <TableCell className="text-right">
+                                            {formatMoney(order.total, order.currency)}
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
@@ -18,7 +18,7 @@ import {
     deleteNotification,
     clearAllNotifications,
 } from "@/server/notifications";
-import { Plus, Package, CheckCircle, Truck, BarChart3 } from "lucide-react";
+import { Plus, Package, CheckCircle, Truck, BarChart3, Warehouse, Coins, ShieldCheck, Printer, UserCog } from "lucide-react";
 import LogoutButton from "@/components/logout-button";
 
 export default function Dashboard() {
@@ -49,6 +49,7 @@ export default function Dashboard() {
         onNewComment: handleNewComment,
         onNewNotification: handleNewNotification,
         onOrderCreated: handleOrderCreated,
+        onResync: () => loadDashboardData(),
     });
 
     const loadUserInfo = async () => {
@@ -133,6 +134,18 @@ export default function Dashboard() {
                         icon: <BarChart3 className="w-4 h-4 mr-2" />,
                         variant: "outline" as const,
                     },
+                    {
+                        label: "Exchange Rates",
+                        action: () => router.push("/exchange-rates"),
+                        icon: <Coins className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
+                    {
+                        label: "Approval Policies",
+                        action: () => router.push("/approval-policies"),
+                        icon: <ShieldCheck className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
                 ];
             case "warehouse":
                 return [
@@ -141,6 +154,18 @@ export default function Dashboard() {
                         action: () => router.push("/order?status=approved"),
                         icon: <Package className="w-4 h-4 mr-2" />,
                     },
+                    {
+                        label: "Inventory",
+                        action: () => router.push("/inventory"),
+                        icon: <Warehouse className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
+                    {
+                        label: "Print Shipping Documents",
+                        action: () => router.push("/shipping"),
+                        icon: <Printer className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
                 ];
             case "shipper":
                 return [
@@ -150,6 +175,26 @@ export default function Dashboard() {
                             router.push("/order?status=warehouse_confirmed"),
                         icon: <Truck className="w-4 h-4 mr-2" />,
                     },
+                    {
+                        label: "Print Shipping Documents",
+                        action: () => router.push("/shipping"),
+                        icon: <Printer className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
+                ];
+            case "admin":
+                return [
+                    {
+                        label: "View All Orders",
+                        action: () => router.push("/order"),
+                        icon: <Package className="w-4 h-4 mr-2" />,
+                    },
+                    {
+                        label: "Order Assignment",
+                        action: () => router.push("/assignment-rules"),
+                        icon: <UserCog className="w-4 h-4 mr-2" />,
+                        variant: "outline" as const,
+                    },
                 ];
             default:
                 return [
@@ -0,0 +1,316 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Plus, Trash } from "lucide-react";
+import {
+    listExchangeRates,
+    setExchangeRate,
+    deleteExchangeRate,
+} from "@/server/exchange-rates";
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+export default function ExchangeRatesClient({
+    canManage,
+}: {
+    canManage: boolean;
+}) {
+    const queryClient = useQueryClient();
+    const [isDialogOpen, setIsDialogOpen] = useState(false);
+    const [form, setForm] = useState({
+        fromCurrency: "",
+        toCurrency: "",
+        rate: "",
+        effectiveDate: today(),
+    });
+    const [isLoading, setIsLoading] = useState<string | undefined>();
+
+    const { data, isLoading: isRatesLoading } = useQuery({
+        queryKey: ["exchange-rates"],
+        queryFn: async () => {
+            const result = await listExchangeRates();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return {
+                rates: result.exchangeRates || [],
+                reportingCurrency: result.reportingCurrency,
+            };
+        },
+    });
+
+    const openDialog = () => {
+        setForm({
+            fromCurrency: "",
+            toCurrency: data?.reportingCurrency || "",
+            rate: "",
+            effectiveDate: today(),
+        });
+        setIsDialogOpen(true);
+    };
+
+    const handleSave = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsLoading("save");
+        try {
+            const result = await setExchangeRate({
+                ...form,
+                rate: parseFloat(form.rate),
+            });
+            if (result.success) {
+                toast.success(result.message);
+                setIsDialogOpen(false);
+                queryClient.invalidateQueries({
+                    queryKey: ["exchange-rates"],
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    const handleDelete = async (id: string) => {
+        if (!confirm("Delete this exchange rate?")) return;
+
+        setIsLoading(`delete-${id}`);
+        try {
+            const result = await deleteExchangeRate(id);
+            if (result.success) {
+                toast.success(result.message);
+                queryClient.invalidateQueries({
+                    queryKey: ["exchange-rates"],
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsLoading(undefined);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/dashboard">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">
+                            Exchange Rates
+                        </CardTitle>
+                    </div>
+                    {canManage && (
+                        <Button onClick={openDialog}>
+                            <Plus className="mr-2 h-4 w-4" /> Add Rate
+                        </Button>
+                    )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    {data?.reportingCurrency && (
+                        <p className="text-sm text-muted-foreground">
+                            Dashboards report revenue in{" "}
+                            {data.reportingCurrency}. Orders are converted with
+                            the rate in effect when they were approved.
+                        </p>
+                    )}
+                    {isRatesLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>From</TableHead>
+                                    <TableHead>To</TableHead>
+                                    <TableHead className="text-right">
+                                        Rate
+                                    </TableHead>
+                                    <TableHead>Effective From</TableHead>
+                                    {canManage && (
+                                        <TableHead>Actions</TableHead>
+                                    )}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {data?.rates.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={canManage ? 5 : 4}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No exchange rates yet.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {data?.rates.map((rate) => (
+                                    <TableRow key={rate.id}>
+                                        <TableCell className="font-mono">
+                                            {rate.fromCurrency}
+                                        </TableCell>
+                                        <TableCell className="font-mono">
+                                            {rate.toCurrency}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {parseFloat(rate.rate)}
+                                        </TableCell>
+                                        <TableCell>
+                                            {rate.effectiveDate}
+                                        </TableCell>
+                                        {canManage && (
+                                            <TableCell>
+                                                <Button
+                                                    variant="destructive"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        handleDelete(rate.id)
+                                                    }
+                                                    disabled={isLoading?.startsWith(
+                                                        "delete"
+                                                    )}
+                                                >
+                                                    {isLoading ===
+                                                    `delete-${rate.id}` ? (
+                                                        <Loader2 className="h-4 w-4 animate-spin" />
+                                                    ) : (
+                                                        <Trash className="h-4 w-4" />
+                                                    )}
+                                                </Button>
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Add Exchange Rate</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSave} className="space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="fromCurrency">From</Label>
+                                <Input
+                                    id="fromCurrency"
+                                    placeholder="EUR"
+                                    maxLength={3}
+                                    value={form.fromCurrency}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            fromCurrency:
+                                                e.target.value.toUpperCase(),
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="toCurrency">To</Label>
+                                <Input
+                                    id="toCurrency"
+                                    placeholder="USD"
+                                    maxLength={3}
+                                    value={form.toCurrency}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            toCurrency:
+                                                e.target.value.toUpperCase(),
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="rate">
+                                    Rate (1 {form.fromCurrency || "From"} ={" "}
+                                    ? {form.toCurrency || "To"})
+                                </Label>
+                                <Input
+                                    id="rate"
+                                    type="number"
+                                    step="any"
+                                    min="0"
+                                    value={form.rate}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            rate: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="effectiveDate">
+                                    Effective From
+                                </Label>
+                                <Input
+                                    id="effectiveDate"
+                                    type="date"
+                                    value={form.effectiveDate}
+                                    onChange={(e) =>
+                                        setForm({
+                                            ...form,
+                                            effectiveDate: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isLoading === "save"}
+                        >
+                            {isLoading === "save" ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Rate"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
@@ -0,0 +1,25 @@
+import { auth } from "@/lib/auth";
+import ExchangeRatesClient from "./exchange-rates-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function ExchangeRatesPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        throw redirect("/login");
+    }
+
+    const { success: canManage } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                exchange_rate: ["manage"],
+            },
+        },
+    });
+
+    return <ExchangeRatesClient canManage={canManage} />;
+}
@@ -0,0 +1,423 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, MapPin, Pencil, Plus } from "lucide-react";
+import {
+    getInventory,
+    createStockLocation,
+    setStockLevel,
+} from "@/server/inventory";
+import {
+    ProductPicker,
+    type CatalogProduct,
+} from "@/components/forms/product-picker";
+
+type StockForm = {
+    productId: string;
+    productLabel: string;
+    locationId: string;
+    quantityOnHand: string;
+    reorderPoint: string;
+};
+
+const emptyStockForm: StockForm = {
+    productId: "",
+    productLabel: "",
+    locationId: "",
+    quantityOnHand: "0",
+    reorderPoint: "0",
+};
+
+export default function InventoryClient({ canAdjust }: { canAdjust: boolean }) {
+    const queryClient = useQueryClient();
+    const [lowOnly, setLowOnly] = useState(false);
+    const [isStockDialogOpen, setIsStockDialogOpen] = useState(false);
+    const [isLocationDialogOpen, setIsLocationDialogOpen] = useState(false);
+    const [stockForm, setStockForm] = useState<StockForm>(emptyStockForm);
+    const [locationForm, setLocationForm] = useState({ code: "", name: "" });
+    const [isSaving, setIsSaving] = useState(false);
+
+    const { data, isLoading } = useQuery({
+        queryKey: ["inventory"],
+        queryFn: async () => {
+            const result = await getInventory();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return {
+                locations: result.locations || [],
+                levels: result.levels || [],
+            };
+        },
+    });
+
+    const levels = (data?.levels || []).filter(
+        (level) => !lowOnly || level.isLow
+    );
+
+    const openStockDialog = (level?: (typeof levels)[number]) => {
+        setStockForm(
+            level
+                ? {
+                      productId: level.productId,
+                      productLabel: `${level.name} (${level.sku})`,
+                      locationId: level.locationId,
+                      quantityOnHand: String(level.quantityOnHand),
+                      reorderPoint: String(level.reorderPoint),
+                  }
+                : emptyStockForm
+        );
+        setIsStockDialogOpen(true);
+    };
+
+    const handleSaveStock = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!stockForm.productId || !stockForm.locationId) {
+            toast.error("Pick a product and a location");
+            return;
+        }
+
+        setIsSaving(true);
+        try {
+            const result = await setStockLevel({
+                productId: stockForm.productId,
+                locationId: stockForm.locationId,
+                quantityOnHand: parseInt(stockForm.quantityOnHand),
+                reorderPoint: parseInt(stockForm.reorderPoint),
+            });
+            if (result.success) {
+                toast.success(result.message);
+                setIsStockDialogOpen(false);
+                queryClient.invalidateQueries({ queryKey: ["inventory"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    const handleCreateLocation = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setIsSaving(true);
+        try {
+            const result = await createStockLocation(locationForm);
+            if (result.success) {
+                toast.success(result.message);
+                setIsLocationDialogOpen(false);
+                setLocationForm({ code: "", name: "" });
+                queryClient.invalidateQueries({ queryKey: ["inventory"] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsSaving(false);
+        }
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/dashboard">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">Inventory</CardTitle>
+                    </div>
+                    {canAdjust && (
+                        <div className="flex gap-2">
+                            <Button
+                                variant="outline"
+                                onClick={() => setIsLocationDialogOpen(true)}
+                            >
+                                <MapPin className="mr-2 h-4 w-4" /> Add
+                                Location
+                            </Button>
+                            <Button
+                                onClick={() => openStockDialog()}
+                                disabled={data?.locations.length === 0}
+                            >
+                                <Plus className="mr-2 h-4 w-4" /> Set Stock
+                            </Button>
+                        </div>
+                    )}
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <div className="flex items-center gap-2">
+                        <input
+                            id="lowOnly"
+                            type="checkbox"
+                            checked={lowOnly}
+                            onChange={(e) => setLowOnly(e.target.checked)}
+                        />
+                        <Label htmlFor="lowOnly">Low stock only</Label>
+                    </div>
+                    {isLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead>SKU</TableHead>
+                                    <TableHead>Product</TableHead>
+                                    <TableHead>Location</TableHead>
+                                    <TableHead className="text-right">
+                                        On Hand
+                                    </TableHead>
+                                    <TableHead className="text-right">
+                                        Reserved
+                                    </TableHead>
+                                    <TableHead className="text-right">
+                                        Available
+                                    </TableHead>
+                                    <TableHead className="text-right">
+                                        Reorder Point
+                                    </TableHead>
+                                    {canAdjust && <TableHead>Actions</TableHead>}
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {levels.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={canAdjust ? 8 : 7}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No stock recorded.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {levels.map((level) => (
+                                    <TableRow key={level.id}>
+                                        <TableCell className="font-mono">
+                                            {level.sku}
+                                        </TableCell>
+                                        <TableCell>{level.name}</TableCell>
+                                        <TableCell>{level.locationCode}</TableCell>
+                                        <TableCell className="text-right">
+                                            {level.quantityOnHand}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {level.quantityReserved}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            <span className="inline-flex items-center gap-2">
+                                                {level.isLow && (
+                                                    <Badge variant="destructive">
+                                                        Low
+                                                    </Badge>
+                                                )}
+                                                {level.available}
+                                            </span>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {level.reorderPoint}
+                                        </TableCell>
+                                        {canAdjust && (
+                                            <TableCell>
+                                                <Button
+                                                    variant="outline"
+                                                    size="sm"
+                                                    onClick={() =>
+                                                        openStockDialog(level)
+                                                    }
+                                                >
+                                                    <Pencil className="h-4 w-4" />
+                                                </Button>
+                                            </TableCell>
+                                        )}
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+
+            <Dialog open={isStockDialogOpen} onOpenChange={setIsStockDialogOpen}>
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Set Stock Level</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleSaveStock} className="space-y-4">
+                        <div>
+                            <Label>Product</Label>
+                            <ProductPicker
+                                label={stockForm.productLabel}
+                                onSelect={(product: CatalogProduct) =>
+                                    setStockForm({
+                                        ...stockForm,
+                                        productId: product.id,
+                                        productLabel: `${product.name} (${product.sku})`,
+                                    })
+                                }
+                            />
+                        </div>
+                        <div>
+                            <Label>Location</Label>
+                            <Select
+                                value={stockForm.locationId}
+                                onValueChange={(value) =>
+                                    setStockForm({
+                                        ...stockForm,
+                                        locationId: value,
+                                    })
+                                }
+                            >
+                                <SelectTrigger>
+                                    <SelectValue placeholder="Select a location" />
+                                </SelectTrigger>
+                                <SelectContent>
+                                    {data?.locations.map((location) => (
+                                        <SelectItem
+                                            key={location.id}
+                                            value={location.id}
+                                        >
+                                            {location.code} - {location.name}
+                                        </SelectItem>
+                                    ))}
+                                </SelectContent>
+                            </Select>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <Label htmlFor="quantityOnHand">
+                                    Quantity On Hand
+                                </Label>
+                                <Input
+                                    id="quantityOnHand"
+                                    type="number"
+                                    min="0"
+                                    value={stockForm.quantityOnHand}
+                                    onChange={(e) =>
+                                        setStockForm({
+                                            ...stockForm,
+                                            quantityOnHand: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                            <div>
+                                <Label htmlFor="reorderPoint">
+                                    Reorder Point
+                                </Label>
+                                <Input
+                                    id="reorderPoint"
+                                    type="number"
+                                    min="0"
+                                    value={stockForm.reorderPoint}
+                                    onChange={(e) =>
+                                        setStockForm({
+                                            ...stockForm,
+                                            reorderPoint: e.target.value,
+                                        })
+                                    }
+                                    required
+                                />
+                            </div>
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSaving}
+                        >
+                            {isSaving ? (
+                                <>
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                    Saving...
+                                </>
+                            ) : (
+                                "Save Stock"
+                            )}
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+
+            <Dialog
+                open={isLocationDialogOpen}
+                onOpenChange={setIsLocationDialogOpen}
+            >
+                <DialogContent>
+                    <DialogHeader>
+                        <DialogTitle>Add Location</DialogTitle>
+                    </DialogHeader>
+                    <form onSubmit={handleCreateLocation} className="space-y-4">
+                        <div>
+                            <Label htmlFor="code">Code</Label>
+                            <Input
+                                id="code"
+                                placeholder="e.g. MAIN"
+                                value={locationForm.code}
+                                onChange={(e) =>
+                                    setLocationForm({
+                                        ...locationForm,
+                                        code: e.target.value,
+                                    })
+                                }
+                                required
+                            />
+                        </div>
+                        <div>
+                            <Label htmlFor="locationName">Name</Label>
+                            <Input
+                                id="locationName"
+                                value={locationForm.name}
+                                onChange={(e) =>
+                                    setLocationForm({
+                                        ...locationForm,
+                                        name: e.target.value,
+                                    })
+                                }
+                                required
+                            />
+                        </div>
+                        <Button
+                            type="submit"
+                            className="w-full"
+                            disabled={isSaving}
+                        >
+                            Create Location
+                        </Button>
+                    </form>
+                </DialogContent>
+            </Dialog>
+        </div>
+    );
+}
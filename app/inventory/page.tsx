@@ -0,0 +1,25 @@
+import { auth } from "@/lib/auth";
+import InventoryClient from "./inventory-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function InventoryPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        throw redirect("/login");
+    }
+
+    const { success: canAdjust } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                inventory: ["adjust"],
+            },
+        },
+    });
+
+    return <InventoryClient canAdjust={canAdjust} />;
+}
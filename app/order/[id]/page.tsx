@@ -2,15 +2,20 @@
 
 import { useState, useEffect } from "react";
 import { useParams, useRouter } from "next/navigation";
+import Link from "next/link";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { ArrowLeft, Package, User, Calendar, DollarSign, MapPin, Phone, Mail } from "lucide-react";
+import { ArrowLeft, Package, User, Calendar, DollarSign, MapPin, Phone, Mail, CheckCircle, PauseCircle } from "lucide-react";
 import { toast } from "sonner";
 import { OrderHistoryTimeline } from "@/components/order/order-history-timeline";
 import { OrderComments } from "@/components/order/order-comments";
+import { OrderFulfilment } from "@/components/order/order-fulfilment";
+import { OrderReturns, type ReturnRequestEntry } from "@/components/order/order-returns";
+import { OrderInvoices, type InvoiceEntry } from "@/components/order/order-invoices";
+import { OrderHoldButton } from "@/components/order/order-hold";
 import { useRealTimeUpdates } from "@/hooks/use-real-time-updates";
 import { 
     getOrderById, 
@@ -29,34 +34,17 @@ import {
     updateOrderComment, 
     deleteOrderComment 
 } from "@/server/comments";
+import { getOrderReturns } from "@/server/returns";
+import { listOrderInvoices } from "@/server/invoices";
 import { authClient } from "@/lib/auth-client";
+import { describeDiscount } from "@/lib/pricing";
+import { orderTopic } from "@/lib/sse-events";
+import { formatMoney } from "@/lib/currency";
 
-interface OrderDetails {
-    id: string;
-    orderNumber: string;
-    customerName: string;
-    customerEmail: string | null;
-    customerPhone: string | null;
-    customerAddress: string | null;
-    total: string;
-    status: string;
-    createdAt: string;
-    updatedAt: string;
-    createdBy: string | null;
-    approvedBy: string | null;
-    approvedAt: string | null;
-    rejectionReason: string | null;
-    orderItems: Array<{
-        id: string;
-        name: string;
-        description: string | null;
-        sku: string | null;
-        price: string;
-        quantity: number;
-        quantityShipped: number | null;
-        quantityReturned: number | null;
-    }>;
-}
+// The order as the server action returns it, relations included
+type OrderDetails = NonNullable<
+    Awaited<ReturnType<typeof getOrderById>>["order"]
+>;
 
 export default function OrderDetailsPage() {
     const params = useParams();
@@ -66,27 +54,55 @@ export default function OrderDetailsPage() {
     const [order, setOrder] = useState<OrderDetails | null>(null);
     const [orderHistory, setOrderHistory] = useState<any[]>([]);
     const [comments, setComments] = useState<any[]>([]);
+    const [returns, setReturns] = useState<ReturnRequestEntry[]>([]);
+    const [invoices, setInvoices] = useState<InvoiceEntry[]>([]);
     const [loading, setLoading] = useState(true);
     const [userRole, setUserRole] = useState<string>("");
     const [userId, setUserId] = useState<string>("");
 
     // Real-time updates
-    const { isConnected } = useRealTimeUpdates({
+    const { isConnected, watchTopic } = useRealTimeUpdates({
         userId,
         userRole,
-        onOrderUpdate: (updatedOrderId, newStatus) => {
-            if (updatedOrderId === orderId) {
-                setOrder(prev => prev ? { ...prev, status: newStatus } : null);
-                loadOrderHistory(); // Refresh history
-            }
-        },
-        onNewComment: (commentOrderId, comment) => {
-            if (commentOrderId === orderId) {
-                loadComments(); // Refresh comments
-            }
+        onResync: () => {
+            loadOrderDetails();
+            loadOrderHistory();
+            loadComments();
+            loadReturns();
+            loadInvoices();
         },
     });
 
+    // Everyone viewing the order gets its changes, history and comments live
+    useEffect(() => {
+        return watchTopic(orderTopic(orderId), (event) => {
+            switch (event.type) {
+                case "order_status_changed":
+                    // Transitions also change approvals, holds and shipments
+                    loadOrderDetails();
+                    loadInvoices(); // Completion issues an invoice
+                    break;
+                case "order_updated":
+                    loadOrderDetails();
+                    break;
+                case "order_history_added": {
+                    const entry = event.data.entry;
+                    setOrderHistory(prev =>
+                        prev.some(e => e.id === entry.id) ? prev : [entry, ...prev]
+                    );
+                    break;
+                }
+                case "new_comment": {
+                    const comment = event.data.comment;
+                    setComments(prev =>
+                        prev.some(c => c.id === comment.id) ? prev : [comment, ...prev]
+                    );
+                    break;
+                }
+            }
+        });
+    }, [orderId, watchTopic]);
+
     const loadOrderDetails = async () => {
         try {
             const result = await getOrderById(orderId);
@@ -124,6 +140,28 @@ export default function OrderDetailsPage() {
         }
     };
 
+    const loadReturns = async () => {
+        try {
+            const result = await getOrderReturns(orderId);
+            if (result.success && result.returns) {
+                setReturns(result.returns);
+            }
+        } catch (error) {
+            console.error("Failed to load returns:", error);
+        }
+    };
+
+    const loadInvoices = async () => {
+        try {
+            const result = await listOrderInvoices(orderId);
+            if (result.success && result.invoices) {
+                setInvoices(result.invoices);
+            }
+        } catch (error) {
+            console.error("Failed to load invoices:", error);
+        }
+    };
+
     const loadUserInfo = async () => {
         try {
             const session = await authClient.getSession();
@@ -142,6 +180,8 @@ export default function OrderDetailsPage() {
                 loadOrderDetails(),
                 loadOrderHistory(),
                 loadComments(),
+                loadReturns(),
+                loadInvoices(),
                 loadUserInfo(),
             ]).finally(() => setLoading(false));
         }
@@ -150,7 +190,8 @@ export default function OrderDetailsPage() {
     const handleAddComment = async (content: string, parentId?: string, isInternal?: boolean) => {
         const result = await addOrderComment(orderId, content, parentId, isInternal);
         if (result.success) {
-            await loadComments();
+            // The comment streams in over the order topic while connected
+            if (!isConnected) await loadComments();
         } else {
             throw new Error(result.message);
         }
@@ -178,6 +219,8 @@ export default function OrderDetailsPage() {
         switch (status) {
             case "pending":
                 return "bg-yellow-100 text-yellow-800";
+            case "partially_approved":
+                return "bg-amber-100 text-amber-800";
             case "approved":
                 return "bg-blue-100 text-blue-800";
             case "rejected":
@@ -242,6 +285,11 @@ export default function OrderDetailsPage() {
                             <Badge className={getStatusColor(order.status)}>
                                 {order.status}
                             </Badge>
+                            {order.heldAt && (
+                                <Badge variant="outline" className="border-amber-300 bg-amber-50 text-amber-800">
+                                    On hold
+                                </Badge>
+                            )}
                             {isConnected && (
                                 <Badge variant="outline" className="text-green-600">
                                     Live Updates
@@ -250,8 +298,31 @@ export default function OrderDetailsPage() {
                         </div>
                     </div>
                 </div>
+                <OrderHoldButton
+                    order={order}
+                    userRole={userRole}
+                    size="default"
+                    onChanged={() => {
+                        loadOrderDetails();
+                        if (!isConnected) loadOrderHistory();
+                    }}
+                />
             </div>
 
+            {/* Hold banner */}
+            {order.heldAt && (
+                <Card className="border-amber-200 bg-amber-50">
+                    <CardContent className="flex items-center gap-2 py-4 text-amber-800">
+                        <PauseCircle className="w-5 h-5" />
+                        <span>
+                            On hold since {new Date(order.heldAt).toLocaleString()}
+                            {order.heldByUser && ` by ${order.heldByUser.name}`}: {order.holdReason}.
+                            No status changes until the hold is released.
+                        </span>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Order Overview */}
             <div className="grid gap-6 md:grid-cols-2">
                 {/* Customer Information */}
@@ -265,7 +336,16 @@ export default function OrderDetailsPage() {
                     <CardContent className="space-y-3">
                         <div className="flex items-center gap-2">
                             <User className="w-4 h-4 text-muted-foreground" />
-                            <span className="font-medium">{order.customerName}</span>
+                            {order.customerId ? (
+                                <Link
+                                    href={`/customers/${order.customerId}`}
+                                    className="font-medium hover:underline"
+                                >
+                                    {order.customerName}
+                                </Link>
+                            ) : (
+                                <span className="font-medium">{order.customerName}</span>
+                            )}
                         </div>
                         {order.customerEmail && (
                             <div className="flex items-center gap-2">
@@ -297,10 +377,80 @@ export default function OrderDetailsPage() {
                         </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-3">
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Subtotal:</span>
+                            <span>{formatMoney(order.subtotal, order.currency)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">
+                                Discounts
+                                {order.discountType && order.discountValue && (
+                                    <> (order: {describeDiscount({
+                                        type: order.discountType,
+                                        value: parseFloat(order.discountValue),
+                                    })})</>
+                                )}:
+                            </span>
+                            <span>-{formatMoney(order.discountTotal, order.currency)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">
+                                Tax{order.taxRegion && ` (${order.taxRegion})`}:
+                            </span>
+                            <span>{formatMoney(order.taxTotal, order.currency)}</span>
+                        </div>
+                        <div className="flex items-center justify-between">
+                            <span className="text-muted-foreground">Shipping:</span>
+                            <span>{formatMoney(order.shippingCharge, order.currency)}</span>
+                        </div>
                         <div className="flex items-center justify-between">
                             <span className="text-muted-foreground">Total Amount:</span>
-                            <span className="font-bold text-lg">${order.total}</span>
+                            <span className="font-bold text-lg">{formatMoney(order.total, order.currency)}</span>
                         </div>
+                        {order.exchangeRate && order.exchangeRateCurrency && (
+                            <div className="flex items-center justify-between">
+                                <span className="text-muted-foreground">
+                                    Rate at approval ({order.exchangeRateDate}):
+                                </span>
+                                <span>
+                                    1 {order.currency} = {parseFloat(order.exchangeRate)}{" "}
+                                    {order.exchangeRateCurrency}
+                                </span>
+                            </div>
+                        )}
+                        {order.requiredApprovals > 1 && (
+                            <div className="space-y-1">
+                                <div className="flex items-center justify-between">
+                                    <span className="text-muted-foreground">Approvals:</span>
+                                    <span>
+                                        {order.approvals.length} of {order.requiredApprovals}
+                                    </span>
+                                </div>
+                                {order.approvals.map((approval) => (
+                                    <div
+                                        key={approval.id}
+                                        className="flex items-center justify-between text-sm"
+                                    >
+                                        <span className="flex items-center gap-1">
+                                            <CheckCircle className="w-3 h-3 text-green-600" />
+                                            {approval.approvedByUser?.name ?? "Unknown"}
+                                            {approval.role && ` (${approval.role})`}
+                                        </span>
+                                        <span className="text-muted-foreground">
+                                            {new Date(approval.createdAt).toLocaleString()}
+                                        </span>
+                                    </div>
+                                ))}
+                                {order.pendingApprovalRoles.length > 0 && (
+                                    <div className="text-sm text-muted-foreground">
+                                        Waiting for:{" "}
+                                        {order.pendingApprovalRoles
+                                            .map((role) => role ?? "any approver")
+                                            .join(", ")}
+                                    </div>
+                                )}
+                            </div>
+                        )}
                         <div className="flex items-center justify-between">
                             <span className="text-muted-foreground">Created:</span>
                             <span>{new Date(order.createdAt).toLocaleString()}</span>
@@ -337,9 +487,28 @@ export default function OrderDetailsPage() {
                                         )}
                                     </div>
                                     <div className="text-right">
-                                        <p className="font-medium">${item.price} × {item.quantity}</p>
+                                        <p className="font-medium">{formatMoney(item.price, order.currency)} × {item.quantity}</p>
+                                        {parseFloat(item.discountAmount) > 0 && (
+                                            <p className="text-sm text-muted-foreground">
+                                                Discount
+                                                {item.discountType && item.discountValue && (
+                                                    <> {describeDiscount({
+                                                        type: item.discountType,
+                                                        value: parseFloat(item.discountValue),
+                                                    })}</>
+                                                )}: -{formatMoney(item.discountAmount, order.currency)}
+                                            </p>
+                                        )}
+                                        <p className="text-sm text-muted-foreground">
+                                            Tax {parseFloat(item.taxRate)}%: {formatMoney(item.taxAmount, order.currency)}
+                                        </p>
                                         <p className="text-sm text-muted-foreground">
-                                            Total: ${(parseFloat(item.price) * item.quantity).toFixed(2)}
+                                            Total: {formatMoney(
+                                                parseFloat(item.price) * item.quantity -
+                                                    parseFloat(item.discountAmount) +
+                                                    parseFloat(item.taxAmount),
+                                                order.currency
+                                            )}
                                         </p>
                                     </div>
                                 </div>
@@ -350,6 +519,45 @@ export default function OrderDetailsPage() {
                 </CardContent>
             </Card>
 
+            {/* Per-item fulfilment and shipments */}
+            <OrderFulfilment
+                orderId={orderId}
+                items={order.orderItems}
+                shipments={order.shipments}
+                canPrint={
+                    ["warehouse", "shipper", "admin"].includes(userRole) &&
+                    ["warehouse_confirmed", "shipped", "partial_complete"].includes(order.status)
+                }
+            />
+
+            {/* Returns (RMA) */}
+            <OrderReturns
+                orderId={orderId}
+                orderStatus={order.status}
+                currency={order.currency}
+                userRole={userRole}
+                items={order.orderItems}
+                returns={returns}
+                onChanged={() => {
+                    loadOrderDetails();
+                    if (!isConnected) loadOrderHistory();
+                    loadReturns();
+                    loadInvoices();
+                }}
+            />
+
+            {/* Invoices and credit notes */}
+            <OrderInvoices
+                orderId={orderId}
+                orderStatus={order.status}
+                userRole={userRole}
+                invoices={invoices}
+                onChanged={() => {
+                    if (!isConnected) loadOrderHistory();
+                    loadInvoices();
+                }}
+            />
+
             {/* Tabs for History and Comments */}
             <Tabs defaultValue="history" className="space-y-4">
                 <TabsList>
@@ -18,14 +18,21 @@ import {
     getOrdersForUser,
     approveOrder,
     rejectOrder,
+    requestOrderEdit,
+    resubmitOrder,
     warehouseConfirmOrder,
     warehouseRejectOrder,
     shipOrder,
     completeOrder,
     failOrder,
 } from "@/server/orders";
+import { getOrderStockShortages } from "@/server/inventory";
+import { listShippingCarriers } from "@/server/carriers";
+import { assignOrder, listAssignees } from "@/server/assignments";
 import { authClient } from "@/lib/auth-client";
 import { CreateOrderForm } from "@/components/forms/create-order-form";
+import { OrderHoldButton } from "@/components/order/order-hold";
+import { OrderRecoveryButton } from "@/components/order/order-recovery";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
     Dialog,
@@ -35,15 +42,36 @@ import {
     DialogTrigger,
 } from "@/components/ui/dialog";
 import { Textarea } from "@/components/ui/textarea";
-import { CheckCircle, XCircle, Eye } from "lucide-react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import {
+    AlertTriangle,
+    CheckCircle,
+    XCircle,
+    Eye,
+    Pencil,
+    Send,
+    UserPlus,
+    PauseCircle,
+} from "lucide-react";
+import { formatMoney } from "@/lib/currency";
+import { isOverdue, orderSlas, queueRole } from "@/lib/order-sla";
 
 interface OrderItem {
     id: string;
+    productId: string | null;
     name: string;
     description: string | null;
     sku: string | null;
     price: string;
     quantity: number;
+    discountType: "percentage" | "fixed" | null;
+    discountValue: string | null;
     quantityShipped: number | null;
     quantityReturned: number | null;
     orderId: string;
@@ -53,11 +81,17 @@ interface OrderItem {
 interface Order {
     id: string;
     orderNumber: string;
+    customerId: string | null;
     customerName: string;
     customerEmail: string | null;
     customerPhone: string | null;
     customerAddress: string | null;
     orderItems?: OrderItem[];
+    currency: string;
+    discountType: "percentage" | "fixed" | null;
+    discountValue: string | null;
+    taxRegion: string | null;
+    shippingCharge: string;
     total: string;
     status: string;
     createdAt: Date;
@@ -76,28 +110,85 @@ interface Order {
     shippingNotes: string | null;
     completedAt: Date | null;
     completionNotes: string | null;
+    dueAt: Date | null;
+    assignedTo: string | null;
+    assignedToUser?: { id: string; name: string } | null;
+    heldAt: Date | null;
+    holdReason: string | null;
+    version: number;
 }
 
+// Which orders the list shows: every visible order, the user's own
+// assignments or everything in the user's role queue
+type QueueView = "all" | "mine" | "team";
+
+// Orders still waiting for one or more approvers
+const awaitingApproval = (status: string) =>
+    status === "pending" || status === "partially_approved";
+
 export default function OrderPage() {
     const [orders, setOrders] = useState<Order[]>([]);
     const [loading, setLoading] = useState(true);
     const [userRole, setUserRole] = useState<string>("");
+    const [userId, setUserId] = useState<string>("");
     const [rejectReason, setRejectReason] = useState("");
     const [selectedOrderId, setSelectedOrderId] = useState<string>("");
     const [trackingNumber, setTrackingNumber] = useState("");
+    const [carrier, setCarrier] = useState("");
+    const [carriers, setCarriers] = useState<
+        { code: string; name: string }[]
+    >([]);
     const [shippingNotes, setShippingNotes] = useState("");
+    // Quantity to ship per order item id
+    const [shipQuantities, setShipQuantities] = useState<
+        Record<string, number>
+    >({});
     const [completionNotes, setCompletionNotes] = useState("");
+    const [editReason, setEditReason] = useState("");
+    const [overdueOnly, setOverdueOnly] = useState(false);
+    const [heldOnly, setHeldOnly] = useState(false);
+    const [queueView, setQueueView] = useState<QueueView>("all");
+    // Users per role an admin can assign orders to
+    const [assignees, setAssignees] = useState<
+        Record<string, { id: string; name: string }[]>
+    >({});
 
     useEffect(() => {
         loadOrders();
         getUserRole();
+        // Dashboards link to /order?overdue=1 and /order?held=1
+        const params = new URLSearchParams(window.location.search);
+        setOverdueOnly(params.has("overdue"));
+        setHeldOnly(params.has("held"));
     }, []);
 
+    // Carriers to track shipments with, offered in the ship dialog
+    useEffect(() => {
+        if (userRole !== "shipper") return;
+        listShippingCarriers().then((result) => {
+            if (result.success && result.carriers) {
+                setCarriers(result.carriers);
+            }
+        });
+    }, [userRole]);
+
+    useEffect(() => {
+        if (userRole !== "admin") return;
+        listAssignees().then((result) => {
+            if (result.success && result.assignees) {
+                setAssignees(result.assignees);
+            }
+        });
+    }, [userRole]);
+
     const getUserRole = async () => {
         const { data: session } = await authClient.getSession();
         if (session?.user?.role) {
             setUserRole(session.user.role);
         }
+        if (session?.user?.id) {
+            setUserId(session.user.id);
+        }
     };
 
     const loadOrders = async () => {
@@ -115,14 +206,51 @@ export default function OrderPage() {
         }
     };
 
+    // Version of the order as currently shown, used to detect concurrent changes
+    const versionOf = (orderId: string) =>
+        orders.find((order) => order.id === orderId)?.version;
+
+    // Show a failed action, offering a refresh when someone else changed the order
+    const reportFailure = (result: { message?: string; conflict?: boolean }) => {
+        if (result.conflict) {
+            toast.error(result.message, {
+                action: { label: "Refresh", onClick: () => loadOrders() },
+            });
+            return;
+        }
+        toast.error(result.message);
+    };
+
+    const handleAssignOrder = async (
+        orderId: string,
+        assigneeId: string | null
+    ) => {
+        try {
+            const result = await assignOrder(
+                orderId,
+                assigneeId,
+                versionOf(orderId)
+            );
+            if (result.success) {
+                toast.success(result.message);
+                loadOrders();
+            } else {
+                reportFailure(result);
+            }
+        } catch (error) {
+            console.error("Assign order error:", error);
+            toast.error("Failed to assign order");
+        }
+    };
+
     const handleApproveOrder = async (orderId: string) => {
         try {
-            const result = await approveOrder(orderId);
+            const result = await approveOrder(orderId, versionOf(orderId));
             if (result.success) {
                 toast.success(result.message);
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             toast.error("Failed to approve order");
@@ -136,28 +264,101 @@ export default function OrderPage() {
         }
 
         try {
-            const result = await rejectOrder(selectedOrderId, rejectReason);
+            const result = await rejectOrder(
+                selectedOrderId,
+                rejectReason,
+                versionOf(selectedOrderId)
+            );
             if (result.success) {
                 toast.success(result.message);
                 setRejectReason("");
                 setSelectedOrderId("");
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             toast.error("Failed to reject order");
         }
     };
 
+    const handleRequestEdit = async () => {
+        if (!editReason.trim()) {
+            toast.error("Please describe the changes that are needed");
+            return;
+        }
+
+        try {
+            const result = await requestOrderEdit(
+                selectedOrderId,
+                editReason,
+                versionOf(selectedOrderId)
+            );
+            if (result.success) {
+                toast.success(result.message);
+                setEditReason("");
+                setSelectedOrderId("");
+                loadOrders();
+            } else {
+                reportFailure(result);
+            }
+        } catch (error) {
+            console.error("Request edit error:", error);
+            toast.error("Failed to request edit");
+        }
+    };
+
+    const handleResubmitOrder = async (orderId: string) => {
+        try {
+            const result = await resubmitOrder(orderId, versionOf(orderId));
+            if (result.success) {
+                toast.success(result.message);
+                loadOrders();
+            } else {
+                reportFailure(result);
+            }
+        } catch (error) {
+            console.error("Resubmit order error:", error);
+            toast.error("Failed to resubmit order");
+        }
+    };
+
+    const onOrderUpdated = () => {
+        setSelectedOrderId("");
+        loadOrders();
+    };
+
     const handleWarehouseConfirm = async (orderId: string) => {
         try {
-            const result = await warehouseConfirmOrder(orderId);
+            // Warn before confirming an order that stock can't cover
+            const stock = await getOrderStockShortages(orderId);
+            const shortages = stock.shortages ?? [];
+            if (
+                shortages.length > 0 &&
+                !confirm(
+                    `Insufficient stock:\n${shortages
+                        .map(
+                            (s) =>
+                                `${s.sku ?? s.name}: ${s.outstanding} needed, ${
+                                    s.reserved + s.available
+                                } in stock`
+                        )
+                        .join("\n")}\n\nConfirm the order anyway?`
+                )
+            ) {
+                return;
+            }
+
+            const result = await warehouseConfirmOrder(
+                orderId,
+                versionOf(orderId),
+                shortages.length > 0
+            );
             if (result.success) {
                 toast.success(result.message);
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             console.error("Warehouse confirm error:", error);
@@ -174,7 +375,8 @@ export default function OrderPage() {
         try {
             const result = await warehouseRejectOrder(
                 selectedOrderId,
-                rejectReason
+                rejectReason,
+                versionOf(selectedOrderId)
             );
             if (result.success) {
                 toast.success(result.message);
@@ -182,7 +384,7 @@ export default function OrderPage() {
                 setSelectedOrderId("");
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             console.error("Warehouse reject error:", error);
@@ -190,21 +392,46 @@ export default function OrderPage() {
         }
     };
 
+    const remainingOf = (item: OrderItem) =>
+        item.quantity - (item.quantityShipped ?? 0);
+
+    const hasItemsToShip = (order: Order) =>
+        (order.orderItems ?? []).some((item) => remainingOf(item) > 0);
+
+    // Pre-fill the ship dialog with everything that is still outstanding
+    const openShipDialog = (order: Order) => {
+        setSelectedOrderId(order.id);
+        setShipQuantities(
+            Object.fromEntries(
+                (order.orderItems ?? [])
+                    .filter((item) => remainingOf(item) > 0)
+                    .map((item) => [item.id, remainingOf(item)])
+            )
+        );
+    };
+
     const handleShipOrder = async () => {
         try {
             const result = await shipOrder(
                 selectedOrderId,
                 trackingNumber || undefined,
-                shippingNotes || undefined
+                shippingNotes || undefined,
+                Object.entries(shipQuantities).map(
+                    ([orderItemId, quantity]) => ({ orderItemId, quantity })
+                ),
+                carrier || undefined,
+                versionOf(selectedOrderId)
             );
             if (result.success) {
                 toast.success(result.message);
                 setTrackingNumber("");
+                setCarrier("");
                 setShippingNotes("");
+                setShipQuantities({});
                 setSelectedOrderId("");
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             console.error("Ship order error:", error);
@@ -216,7 +443,8 @@ export default function OrderPage() {
         try {
             const result = await completeOrder(
                 selectedOrderId,
-                completionNotes || undefined
+                completionNotes || undefined,
+                versionOf(selectedOrderId)
             );
             if (result.success) {
                 toast.success(result.message);
@@ -224,7 +452,7 @@ export default function OrderPage() {
                 setSelectedOrderId("");
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             console.error("Complete order error:", error);
@@ -239,14 +467,18 @@ export default function OrderPage() {
         }
 
         try {
-            const result = await failOrder(selectedOrderId, rejectReason);
+            const result = await failOrder(
+                selectedOrderId,
+                rejectReason,
+                versionOf(selectedOrderId)
+            );
             if (result.success) {
                 toast.success(result.message);
                 setRejectReason("");
                 setSelectedOrderId("");
                 loadOrders();
             } else {
-                toast.error(result.message);
+                reportFailure(result);
             }
         } catch (error) {
             console.error("Fail order error:", error);
@@ -262,6 +494,10 @@ export default function OrderPage() {
     const getStatusBadge = (status: string) => {
         const statusConfig = {
             pending: { variant: "secondary" as const, label: "Pending" },
+            partially_approved: {
+                variant: "outline" as const,
+                label: "Partially Approved",
+            },
             approved: { variant: "default" as const, label: "Approved" },
             edit_requested: {
                 variant: "outline" as const,
@@ -294,6 +530,21 @@ export default function OrderPage() {
         return <Badge variant={config.variant}>{config.label}</Badge>;
     };
 
+    const inQueue = (order: Order, view: QueueView) =>
+        view === "all" ||
+        (view === "mine"
+            ? order.assignedTo === userId
+            : queueRole(order.status) === userRole);
+    const queueOrders = orders.filter((order) => inQueue(order, queueView));
+    const overdueCount = queueOrders.filter((order) => isOverdue(order)).length;
+    const heldCount = queueOrders.filter((order) => order.heldAt).length;
+    const visibleOrders = queueOrders.filter(
+        (order) =>
+            (!overdueOnly || isOverdue(order)) && (!heldOnly || order.heldAt)
+    );
+    // Roles that work from assigned queues
+    const hasQueue = ["accountant", "warehouse", "shipper"].includes(userRole);
+
     return (
         <div className="container mx-auto p-6 space-y-6">
             <h1 className="text-3xl font-bold">Order Management</h1>
@@ -308,15 +559,64 @@ export default function OrderPage() {
 
                 <TabsContent value="orders" className="space-y-4">
                     <Card>
-                        <CardHeader>
+                        <CardHeader className="flex flex-row items-center justify-between">
                             <CardTitle>
-                                Orders ({orders.length})
+                                Orders ({visibleOrders.length})
                                 {userRole && (
                                     <span className="text-sm font-normal text-muted-foreground ml-2">
                                         Role: {userRole}
                                     </span>
                                 )}
                             </CardTitle>
+                            <div className="flex gap-2">
+                                {hasQueue &&
+                                    (
+                                        [
+                                            ["all", "All"],
+                                            ["mine", "My queue"],
+                                            ["team", "Team queue"],
+                                        ] as const
+                                    ).map(([view, label]) => (
+                                        <Button
+                                            key={view}
+                                            size="sm"
+                                            variant={
+                                                queueView === view
+                                                    ? "default"
+                                                    : "outline"
+                                            }
+                                            onClick={() => setQueueView(view)}
+                                        >
+                                            {label} (
+                                            {
+                                                orders.filter((order) =>
+                                                    inQueue(order, view)
+                                                ).length
+                                            }
+                                            )
+                                        </Button>
+                                    ))}
+                                <Button
+                                    size="sm"
+                                    variant={
+                                        overdueOnly ? "destructive" : "outline"
+                                    }
+                                    onClick={() =>
+                                        setOverdueOnly((prev) => !prev)
+                                    }
+                                >
+                                    <AlertTriangle className="w-4 h-4 mr-1" />
+                                    Overdue ({overdueCount})
+                                </Button>
+                                <Button
+                                    size="sm"
+                                    variant={heldOnly ? "default" : "outline"}
+                                    onClick={() => setHeldOnly((prev) => !prev)}
+                                >
+                                    <PauseCircle className="w-4 h-4 mr-1" />
+                                    On hold ({heldCount})
+                                </Button>
+                            </div>
                         </CardHeader>
                         <CardContent>
                             <Table>
@@ -326,6 +626,7 @@ export default function OrderPage() {
                                         <TableHead>Customer</TableHead>
                                         <TableHead>Total</TableHead>
                                         <TableHead>Status</TableHead>
+                                        <TableHead>Assignee</TableHead>
                                         <TableHead>Created</TableHead>
                                         <TableHead>Actions</TableHead>
                                     </TableRow>
@@ -334,23 +635,29 @@ export default function OrderPage() {
                                     {loading ? (
                                         <TableRow>
                                             <TableCell
-                                                colSpan={6}
+                                                colSpan={7}
                                                 className="text-center py-8"
                                             >
                                                 Loading orders...
                                             </TableCell>
                                         </TableRow>
-                                    ) : orders.length === 0 ? (
+                                    ) : visibleOrders.length === 0 ? (
                                         <TableRow>
                                             <TableCell
-                                                colSpan={6}
+                                                colSpan={7}
                                                 className="text-center py-8"
                                             >
-                                                No orders found
+                                                {overdueOnly
+                                                    ? "No overdue orders"
+                                                    : heldOnly
+                                                    ? "No orders on hold"
+                                                    : queueView === "mine"
+                                                    ? "Nothing is assigned to you"
+                                                    : "No orders found"}
                                             </TableCell>
                                         </TableRow>
                                     ) : (
-                                        orders.map((order) => (
+                                        visibleOrders.map((order) => (
                                             <TableRow key={order.id}>
                                                 <TableCell className="font-medium">
                                                     {order.orderNumber}
@@ -370,15 +677,143 @@ export default function OrderPage() {
                                                     </div>
                                                 </TableCell>
                                                 <TableCell>
-                                                    $
-                                                    {parseFloat(
-                                                        order.total
-                                                    ).toFixed(2)}
+                                                    {formatMoney(
+                                                        order.total,
+                                                        order.currency
+                                                    )}
                                                 </TableCell>
                                                 <TableCell>
                                                     {getStatusBadge(
                                                         order.status
                                                     )}
+                                                    {order.heldAt && (
+                                                        <Badge
+                                                            variant="outline"
+                                                            className="ml-1 border-amber-300 bg-amber-50 text-amber-800"
+                                                        >
+                                                            On hold
+                                                        </Badge>
+                                                    )}
+                                                    {isOverdue(order) && (
+                                                        <Badge
+                                                            variant="destructive"
+                                                            className="ml-1"
+                                                        >
+                                                            Overdue
+                                                        </Badge>
+                                                    )}
+                                                    {order.heldAt && (
+                                                        <div className="text-xs text-amber-800 mt-1">
+                                                            {order.holdReason}
+                                                        </div>
+                                                    )}
+                                                    {order.dueAt &&
+                                                        !order.heldAt &&
+                                                        order.status in
+                                                            orderSlas && (
+                                                            <div className="text-xs text-muted-foreground mt-1">
+                                                                Due{" "}
+                                                                {new Date(
+                                                                    order.dueAt
+                                                                ).toLocaleString()}
+                                                            </div>
+                                                        )}
+                                                    {order.status ===
+                                                        "edit_requested" &&
+                                                        order.editRequestReason && (
+                                                            <div className="text-xs text-muted-foreground mt-1">
+                                                                {
+                                                                    order.editRequestReason
+                                                                }
+                                                            </div>
+                                                        )}
+                                                </TableCell>
+                                                <TableCell>
+                                                    {userRole === "admin" &&
+                                                    assignees[
+                                                        queueRole(
+                                                            order.status
+                                                        ) ?? ""
+                                                    ] ? (
+                                                        <Select
+                                                            value={
+                                                                order.assignedTo ??
+                                                                "none"
+                                                            }
+                                                            onValueChange={(
+                                                                value
+                                                            ) =>
+                                                                handleAssignOrder(
+                                                                    order.id,
+                                                                    value ===
+                                                                        "none"
+                                                                        ? null
+                                                                        : value
+                                                                )
+                                                            }
+                                                        >
+                                                            <SelectTrigger className="w-40">
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                            <SelectContent>
+                                                                <SelectItem value="none">
+                                                                    Unassigned
+                                                                </SelectItem>
+                                                                {assignees[
+                                                                    queueRole(
+                                                                        order.status
+                                                                    )!
+                                                                ].map(
+                                                                    (
+                                                                        assignee
+                                                                    ) => (
+                                                                        <SelectItem
+                                                                            key={
+                                                                                assignee.id
+                                                                            }
+                                                                            value={
+                                                                                assignee.id
+                                                                            }
+                                                                        >
+                                                                            {
+                                                                                assignee.name
+                                                                            }
+                                                                        </SelectItem>
+                                                                    )
+                                                                )}
+                                                            </SelectContent>
+                                                        </Select>
+                                                    ) : order.assignedToUser ? (
+                                                        <span className="text-sm">
+                                                            {order.assignedTo ===
+                                                            userId
+                                                                ? "You"
+                                                                : order
+                                                                      .assignedToUser
+                                                                      .name}
+                                                        </span>
+                                                    ) : queueRole(
+                                                          order.status
+                                                      ) === userRole &&
+                                                      hasQueue ? (
+                                                        <Button
+                                                            size="sm"
+                                                            variant="outline"
+                                                            onClick={() =>
+                                                                handleAssignOrder(
+                                                                    order.id,
+                                                                    userId
+                                                                )
+                                                            }
+                                                        >
+                                                            <UserPlus className="w-4 h-4 mr-1" />
+                                                            Take
+                                                        </Button>
+                                                    ) : (
+                                                        <span className="text-sm text-muted-foreground">
+                                                            —
+                                                        </span>
+                                                    )}
                                                 </TableCell>
                                                 <TableCell>
                                                     {new Date(
@@ -388,10 +823,12 @@ export default function OrderPage() {
                                                 <TableCell>
                                                     <div className="flex gap-2">
                                                         {/* Accountant Actions */}
-                                                        {userRole ===
-                                                            "accountant" &&
-                                                            order.status ===
-                                                                "pending" && (
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "accountant" &&
+                                                            awaitingApproval(
+                                                                order.status
+                                                            ) && (
                                                                 <>
                                                                     <Button
                                                                         size="sm"
@@ -480,12 +917,253 @@ export default function OrderPage() {
                                                                             </div>
                                                                         </DialogContent>
                                                                     </Dialog>
+                                                                    <Dialog>
+                                                                        <DialogTrigger
+                                                                            asChild
+                                                                        >
+                                                                            <Button
+                                                                                size="sm"
+                                                                                variant="outline"
+                                                                                onClick={() =>
+                                                                                    setSelectedOrderId(
+                                                                                        order.id
+                                                                                    )
+                                                                                }
+                                                                            >
+                                                                                <Pencil className="w-4 h-4 mr-1" />
+                                                                                Request
+                                                                                Edit
+                                                                            </Button>
+                                                                        </DialogTrigger>
+                                                                        <DialogContent>
+                                                                            <DialogHeader>
+                                                                                <DialogTitle>
+                                                                                    Request
+                                                                                    Changes
+                                                                                </DialogTitle>
+                                                                            </DialogHeader>
+                                                                            <div className="space-y-4">
+                                                                                <p>
+                                                                                    Describe
+                                                                                    what
+                                                                                    sales
+                                                                                    needs
+                                                                                    to
+                                                                                    change
+                                                                                    before
+                                                                                    approval:
+                                                                                </p>
+                                                                                <Textarea
+                                                                                    placeholder="Enter requested changes..."
+                                                                                    value={
+                                                                                        editReason
+                                                                                    }
+                                                                                    onChange={(
+                                                                                        e
+                                                                                    ) =>
+                                                                                        setEditReason(
+                                                                                            e
+                                                                                                .target
+                                                                                                .value
+                                                                                        )
+                                                                                    }
+                                                                                />
+                                                                                <div className="flex gap-2">
+                                                                                    <Button
+                                                                                        onClick={
+                                                                                            handleRequestEdit
+                                                                                        }
+                                                                                    >
+                                                                                        Request
+                                                                                        Edit
+                                                                                    </Button>
+                                                                                    <Button
+                                                                                        variant="outline"
+                                                                                        onClick={() => {
+                                                                                            setEditReason(
+                                                                                                ""
+                                                                                            );
+                                                                                            setSelectedOrderId(
+                                                                                                ""
+                                                                                            );
+                                                                                        }}
+                                                                                    >
+                                                                                        Cancel
+                                                                                    </Button>
+                                                                                </div>
+                                                                            </div>
+                                                                        </DialogContent>
+                                                                    </Dialog>
                                                                 </>
                                                             )}
 
+                                                        {/* Admin sign-off in approval chains */}
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "admin" &&
+                                                            awaitingApproval(
+                                                                order.status
+                                                            ) && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    onClick={() =>
+                                                                        handleApproveOrder(
+                                                                            order.id
+                                                                        )
+                                                                    }
+                                                                >
+                                                                    <CheckCircle className="w-4 h-4 mr-1" />
+                                                                    Approve
+                                                                </Button>
+                                                            )}
+
+                                                        {/* Sales Actions */}
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "sales" &&
+                                                            (order.status ===
+                                                                "pending" ||
+                                                                order.status ===
+                                                                    "edit_requested" ||
+                                                                order.status ===
+                                                                    "rejected") && (
+                                                                <Dialog
+                                                                    open={
+                                                                        selectedOrderId ===
+                                                                        order.id
+                                                                    }
+                                                                    onOpenChange={(
+                                                                        open
+                                                                    ) =>
+                                                                        setSelectedOrderId(
+                                                                            open
+                                                                                ? order.id
+                                                                                : ""
+                                                                        )
+                                                                    }
+                                                                >
+                                                                    <DialogTrigger
+                                                                        asChild
+                                                                    >
+                                                                        <Button
+                                                                            size="sm"
+                                                                            variant="outline"
+                                                                        >
+                                                                            <Pencil className="w-4 h-4 mr-1" />
+                                                                            Edit
+                                                                        </Button>
+                                                                    </DialogTrigger>
+                                                                    <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                                                                        <DialogHeader>
+                                                                            <DialogTitle>
+                                                                                Edit
+                                                                                Order
+                                                                            </DialogTitle>
+                                                                        </DialogHeader>
+                                                                        <CreateOrderForm
+                                                                            order={{
+                                                                                id: order.id,
+                                                                                orderNumber:
+                                                                                    order.orderNumber,
+                                                                                version:
+                                                                                    order.version,
+                                                                                values: {
+                                                                                    customerId:
+                                                                                        order.customerId ??
+                                                                                        undefined,
+                                                                                    customerName:
+                                                                                        order.customerName,
+                                                                                    customerEmail:
+                                                                                        order.customerEmail ||
+                                                                                        "",
+                                                                                    customerPhone:
+                                                                                        order.customerPhone ||
+                                                                                        "",
+                                                                                    customerAddress:
+                                                                                        order.customerAddress ||
+                                                                                        "",
+                                                                                    currency:
+                                                                                        order.currency,
+                                                                                    discountType:
+                                                                                        order.discountType ??
+                                                                                        undefined,
+                                                                                    discountValue:
+                                                                                        order.discountValue
+                                                                                            ? parseFloat(
+                                                                                                  order.discountValue
+                                                                                              )
+                                                                                            : undefined,
+                                                                                    shippingCharge: parseFloat(
+                                                                                        order.shippingCharge
+                                                                                    ),
+                                                                                    taxRegion:
+                                                                                        order.taxRegion ||
+                                                                                        "",
+                                                                                    items: (
+                                                                                        order.orderItems ||
+                                                                                        []
+                                                                                    ).map(
+                                                                                        (
+                                                                                            item
+                                                                                        ) => ({
+                                                                                            productId:
+                                                                                                item.productId ??
+                                                                                                undefined,
+                                                                                            name: item.name,
+                                                                                            description:
+                                                                                                item.description ||
+                                                                                                "",
+                                                                                            sku:
+                                                                                                item.sku ||
+                                                                                                "",
+                                                                                            price: parseFloat(
+                                                                                                item.price
+                                                                                            ),
+                                                                                            quantity:
+                                                                                                item.quantity,
+                                                                                            discountType:
+                                                                                                item.discountType ??
+                                                                                                undefined,
+                                                                                            discountValue:
+                                                                                                item.discountValue
+                                                                                                    ? parseFloat(
+                                                                                                          item.discountValue
+                                                                                                      )
+                                                                                                    : undefined,
+                                                                                        })
+                                                                                    ),
+                                                                                },
+                                                                            }}
+                                                                            onSuccess={
+                                                                                onOrderUpdated
+                                                                            }
+                                                                        />
+                                                                    </DialogContent>
+                                                                </Dialog>
+                                                            )}
+
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "sales" &&
+                                                            order.status ===
+                                                                "edit_requested" && (
+                                                                <Button
+                                                                    size="sm"
+                                                                    onClick={() =>
+                                                                        handleResubmitOrder(
+                                                                            order.id
+                                                                        )
+                                                                    }
+                                                                >
+                                                                    <Send className="w-4 h-4 mr-1" />
+                                                                    Resubmit
+                                                                </Button>
+                                                            )}
+
                                                         {/* Warehouse Actions */}
-                                                        {userRole ===
-                                                            "warehouse" &&
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "warehouse" &&
                                                             order.status ===
                                                                 "approved" && (
                                                                 <>
@@ -581,10 +1259,19 @@ export default function OrderPage() {
                                                             )}
 
                                                         {/* Shipper Actions */}
-                                                        {userRole ===
-                                                            "shipper" &&
-                                                            order.status ===
-                                                                "warehouse_confirmed" && (
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "shipper" &&
+                                                            [
+                                                                "warehouse_confirmed",
+                                                                "shipped",
+                                                                "partial_complete",
+                                                            ].includes(
+                                                                order.status
+                                                            ) &&
+                                                            hasItemsToShip(
+                                                                order
+                                                            ) && (
                                                                 <Dialog>
                                                                     <DialogTrigger
                                                                         asChild
@@ -592,13 +1279,16 @@ export default function OrderPage() {
                                                                         <Button
                                                                             size="sm"
                                                                             onClick={() =>
-                                                                                setSelectedOrderId(
-                                                                                    order.id
+                                                                                openShipDialog(
+                                                                                    order
                                                                                 )
                                                                             }
                                                                         >
                                                                             <CheckCircle className="w-4 h-4 mr-1" />
-                                                                            Ship
+                                                                            {order.status ===
+                                                                            "warehouse_confirmed"
+                                                                                ? "Ship"
+                                                                                : "Ship Remaining"}
                                                                         </Button>
                                                                     </DialogTrigger>
                                                                     <DialogContent>
@@ -609,6 +1299,138 @@ export default function OrderPage() {
                                                                             </DialogTitle>
                                                                         </DialogHeader>
                                                                         <div className="space-y-4">
+                                                                            <div className="space-y-2">
+                                                                                <label className="text-sm font-medium">
+                                                                                    Quantities
+                                                                                    in
+                                                                                    this
+                                                                                    shipment
+                                                                                </label>
+                                                                                {(
+                                                                                    order.orderItems ??
+                                                                                    []
+                                                                                )
+                                                                                    .filter(
+                                                                                        (
+                                                                                            item
+                                                                                        ) =>
+                                                                                            remainingOf(
+                                                                                                item
+                                                                                            ) >
+                                                                                            0
+                                                                                    )
+                                                                                    .map(
+                                                                                        (
+                                                                                            item
+                                                                                        ) => (
+                                                                                            <div
+                                                                                                key={
+                                                                                                    item.id
+                                                                                                }
+                                                                                                className="flex items-center justify-between gap-4"
+                                                                                            >
+                                                                                                <span className="text-sm">
+                                                                                                    {
+                                                                                                        item.name
+                                                                                                    }{" "}
+                                                                                                    <span className="text-muted-foreground">
+                                                                                                        (
+                                                                                                        {remainingOf(
+                                                                                                            item
+                                                                                                        )}{" "}
+                                                                                                        left)
+                                                                                                    </span>
+                                                                                                </span>
+                                                                                                <Input
+                                                                                                    type="number"
+                                                                                                    min="0"
+                                                                                                    max={remainingOf(
+                                                                                                        item
+                                                                                                    )}
+                                                                                                    className="w-24"
+                                                                                                    value={
+                                                                                                        shipQuantities[
+                                                                                                            item
+                                                                                                                .id
+                                                                                                        ] ??
+                                                                                                        0
+                                                                                                    }
+                                                                                                    onChange={(
+                                                                                                        e
+                                                                                                    ) =>
+                                                                                                        setShipQuantities(
+                                                                                                            (
+                                                                                                                prev
+                                                                                                            ) => ({
+                                                                                                                ...prev,
+                                                                                                                [item.id]:
+                                                                                                                    parseInt(
+                                                                                                                        e
+                                                                                                                            .target
+                                                                                                                            .value
+                                                                                                                    ) ||
+                                                                                                                    0,
+                                                                                                            })
+                                                                                                        )
+                                                                                                    }
+                                                                                                />
+                                                                                            </div>
+                                                                                        )
+                                                                                    )}
+                                                                            </div>
+                                                                            {carriers.length >
+                                                                                0 && (
+                                                                                <div>
+                                                                                    <label className="text-sm font-medium">
+                                                                                        Carrier
+                                                                                        (Optional)
+                                                                                    </label>
+                                                                                    <Select
+                                                                                        value={
+                                                                                            carrier ||
+                                                                                            "none"
+                                                                                        }
+                                                                                        onValueChange={(
+                                                                                            value
+                                                                                        ) =>
+                                                                                            setCarrier(
+                                                                                                value ===
+                                                                                                    "none"
+                                                                                                    ? ""
+                                                                                                    : value
+                                                                                            )
+                                                                                        }
+                                                                                    >
+                                                                                        <SelectTrigger>
+                                                                                            <SelectValue />
+                                                                                        </SelectTrigger>
+                                                                                        <SelectContent>
+                                                                                            <SelectItem value="none">
+                                                                                                Not
+                                                                                                tracked
+                                                                                            </SelectItem>
+                                                                                            {carriers.map(
+                                                                                                (
+                                                                                                    option
+                                                                                                ) => (
+                                                                                                    <SelectItem
+                                                                                                        key={
+                                                                                                            option.code
+                                                                                                        }
+                                                                                                        value={
+                                                                                                            option.code
+                                                                                                        }
+                                                                                                    >
+                                                                                                        {
+                                                                                                            option.name
+                                                                                                        }
+                                                                                                    </SelectItem>
+                                                                                                )
+                                                                                            )}
+                                                                                        </SelectContent>
+                                                                                    </Select>
+                                                                                </div>
+                                                                            )}
                                                                             <div>
                                                                                 <label className="text-sm font-medium">
                                                                                     Tracking
@@ -668,9 +1490,15 @@ export default function OrderPage() {
                                                                                         setTrackingNumber(
                                                                                             ""
                                                                                         );
+                                                                                        setCarrier(
+                                                                                            ""
+                                                                                        );
                                                                                         setShippingNotes(
                                                                                             ""
                                                                                         );
+                                                                                        setShipQuantities(
+                                                                                            {}
+                                                                                        );
                                                                                         setSelectedOrderId(
                                                                                             ""
                                                                                         );
@@ -684,8 +1512,9 @@ export default function OrderPage() {
                                                                 </Dialog>
                                                             )}
 
-                                                        {userRole ===
-                                                            "shipper" &&
+                                                        {!order.heldAt &&
+                                                            userRole ===
+                                                                "shipper" &&
                                                             order.status ===
                                                                 "shipped" && (
                                                                 <>
@@ -847,6 +1676,31 @@ export default function OrderPage() {
                                                                 </>
                                                             )}
 
+                                                        {/* Reopen rejected and failed orders */}
+                                                        {!order.heldAt && (
+                                                            <OrderRecoveryButton
+                                                                order={order}
+                                                                userRole={
+                                                                    userRole
+                                                                }
+                                                                userId={userId}
+                                                                carriers={
+                                                                    carriers
+                                                                }
+                                                                onChanged={
+                                                                    loadOrders
+                                                                }
+                                                            />
+                                                        )}
+
+                                                        <OrderHoldButton
+                                                            order={order}
+                                                            userRole={userRole}
+                                                            onChanged={
+                                                                loadOrders
+                                                            }
+                                                        />
+
                                                         {/* View Details Button for all roles */}
                                                         <Button
                                                             size="sm"
@@ -0,0 +1,29 @@
+import { auth } from "@/lib/auth";
+import ShippingClient from "./shipping-client";
+import { headers } from "next/headers";
+import { redirect } from "next/navigation";
+
+export default async function ShippingPage() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        throw redirect("/login");
+    }
+
+    const { success: canPrint } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                shipping_document: ["print"],
+            },
+        },
+    });
+
+    if (!canPrint) {
+        throw redirect("/dashboard");
+    }
+
+    return <ShippingClient />;
+}
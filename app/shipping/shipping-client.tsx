@@ -0,0 +1,230 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { useQuery } from "@tanstack/react-query";
+import { ArrowLeft, Loader2, Printer, Tag } from "lucide-react";
+import { listOrdersReadyToShip } from "@/server/shipping-documents";
+import type { ShippingDocumentKind } from "@/lib/shipping-documents";
+
+// URL of the PDF with the documents for the given orders, every ready order
+// when none are given
+function documentsUrl(orderIds: string[], type?: ShippingDocumentKind) {
+    const params = new URLSearchParams();
+    orderIds.forEach((id) => params.append("orderId", id));
+    if (type) params.set("type", type);
+    const query = params.toString();
+    return `/api/shipping-documents${query ? `?${query}` : ""}`;
+}
+
+export default function ShippingClient() {
+    const [selected, setSelected] = useState<Set<string>>(new Set());
+
+    const { data: orders, isLoading } = useQuery({
+        queryKey: ["orders-ready-to-ship"],
+        queryFn: async () => {
+            const result = await listOrdersReadyToShip();
+            if (!result.success) {
+                throw new Error(result.message);
+            }
+            return result.orders || [];
+        },
+    });
+
+    const toggle = (orderId: string) => {
+        setSelected((prev) => {
+            const next = new Set(prev);
+            if (next.has(orderId)) {
+                next.delete(orderId);
+            } else {
+                next.add(orderId);
+            }
+            return next;
+        });
+    };
+
+    const allSelected =
+        !!orders && orders.length > 0 && selected.size === orders.length;
+
+    // Print the selection, or everything when nothing is selected
+    const print = (type?: ShippingDocumentKind) => {
+        window.open(documentsUrl([...selected], type), "_blank");
+    };
+
+    return (
+        <div className="container mx-auto p-4 space-y-8">
+            <Card>
+                <CardHeader className="flex flex-row items-center justify-between">
+                    <div className="flex items-center gap-4">
+                        <Button variant="outline" size="sm" asChild>
+                            <Link href="/dashboard">
+                                <ArrowLeft className="h-4 w-4 mr-2" />
+                                Back
+                            </Link>
+                        </Button>
+                        <CardTitle className="text-2xl">
+                            Ready to Ship
+                        </CardTitle>
+                    </div>
+                    <div className="flex gap-2">
+                        <Button
+                            variant="outline"
+                            onClick={() => print("packing_slip")}
+                            disabled={!orders?.length}
+                        >
+                            <Printer className="mr-2 h-4 w-4" /> Packing Slips
+                        </Button>
+                        <Button
+                            variant="outline"
+                            onClick={() => print("label")}
+                            disabled={!orders?.length}
+                        >
+                            <Tag className="mr-2 h-4 w-4" /> Labels
+                        </Button>
+                        <Button
+                            onClick={() => print()}
+                            disabled={!orders?.length}
+                        >
+                            <Printer className="mr-2 h-4 w-4" />
+                            {selected.size > 0
+                                ? `Print ${selected.size} Selected`
+                                : "Print All"}
+                        </Button>
+                    </div>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                    <p className="text-sm text-muted-foreground">
+                        Orders confirmed by the warehouse with items still to
+                        ship. Each order prints a packing slip followed by its
+                        label. Without a selection every order below is
+                        printed.
+                    </p>
+                    {isLoading ? (
+                        <div className="flex justify-center items-center h-64">
+                            <Loader2 className="h-8 w-8 animate-spin" />
+                        </div>
+                    ) : (
+                        <Table>
+                            <TableHeader>
+                                <TableRow>
+                                    <TableHead className="w-8">
+                                        <input
+                                            type="checkbox"
+                                            aria-label="Select all"
+                                            checked={allSelected}
+                                            onChange={(e) =>
+                                                setSelected(
+                                                    e.target.checked
+                                                        ? new Set(
+                                                              orders?.map(
+                                                                  (order) =>
+                                                                      order.id
+                                                              )
+                                                          )
+                                                        : new Set()
+                                                )
+                                            }
+                                        />
+                                    </TableHead>
+                                    <TableHead>Order</TableHead>
+                                    <TableHead>Customer</TableHead>
+                                    <TableHead>Status</TableHead>
+                                    <TableHead className="text-right">
+                                        Lines
+                                    </TableHead>
+                                    <TableHead className="text-right">
+                                        Units
+                                    </TableHead>
+                                    <TableHead>Documents</TableHead>
+                                </TableRow>
+                            </TableHeader>
+                            <TableBody>
+                                {orders?.length === 0 && (
+                                    <TableRow>
+                                        <TableCell
+                                            colSpan={7}
+                                            className="text-center text-muted-foreground"
+                                        >
+                                            No orders are waiting to ship.
+                                        </TableCell>
+                                    </TableRow>
+                                )}
+                                {orders?.map((order) => (
+                                    <TableRow key={order.id}>
+                                        <TableCell>
+                                            <input
+                                                type="checkbox"
+                                                aria-label={`Select ${order.orderNumber}`}
+                                                checked={selected.has(order.id)}
+                                                onChange={() =>
+                                                    toggle(order.id)
+                                                }
+                                            />
+                                        </TableCell>
+                                        <TableCell className="font-medium">
+                                            <Link
+                                                href={`/order/${order.id}`}
+                                                className="hover:underline"
+                                            >
+                                                {order.orderNumber}
+                                            </Link>
+                                        </TableCell>
+                                        <TableCell>
+                                            {order.customerName}
+                                        </TableCell>
+                                        <TableCell>
+                                            <Badge variant="outline">
+                                                {order.status}
+                                            </Badge>
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {order.lines}
+                                        </TableCell>
+                                        <TableCell className="text-right">
+                                            {order.units}
+                                        </TableCell>
+                                        <TableCell className="space-x-2">
+                                            <a
+                                                href={documentsUrl(
+                                                    [order.id],
+                                                    "packing_slip"
+                                                )}
+                                                target="_blank"
+                                                rel="noreferrer"
+                                                className="text-sm hover:underline"
+                                            >
+                                                Packing slip
+                                            </a>
+                                            <a
+                                                href={documentsUrl(
+                                                    [order.id],
+                                                    "label"
+                                                )}
+                                                target="_blank"
+                                                rel="noreferrer"
+                                                className="text-sm hover:underline"
+                                            >
+                                                Label
+                                            </a>
+                                        </TableCell>
+                                    </TableRow>
+                                ))}
+                            </TableBody>
+                        </Table>
+                    )}
+                </CardContent>
+            </Card>
+        </div>
+    );
+}
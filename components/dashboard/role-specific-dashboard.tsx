@@ -4,6 +4,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
+import Link from "next/link";
 // import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import {
     BarChart3,
@@ -17,7 +18,9 @@ import {
     DollarSign,
     AlertTriangle,
     Activity,
+    PauseCircle,
 } from "lucide-react";
+import { formatMoney } from "@/lib/currency";
 
 interface DashboardMetrics {
     totalOrders: number;
@@ -25,8 +28,16 @@ interface DashboardMetrics {
     approvedOrders: number;
     rejectedOrders: number;
     completedOrders: number;
+    // Orders past their SLA that the role has to act on
+    overdueOrders: number;
+    // Orders on hold in the statuses the role acts on
+    heldOrders: number;
     totalRevenue: number;
     averageOrderValue: number;
+    // Currency the money figures are converted into
+    reportingCurrency: string;
+    // Orders left out of the money figures for lack of an exchange rate
+    unconvertedOrders: number;
     recentActivity: ActivityItem[];
     roleSpecificMetrics: any;
 }
@@ -45,8 +56,13 @@ interface Order {
     orderNumber: string;
     customerName: string;
     total: string;
+    currency: string;
     status: string;
     createdAt: string;
+    dueAt?: string | null;
+    overdue?: boolean;
+    onHold?: boolean;
+    holdReason?: string | null;
     urgency?: "high" | "medium" | "low";
 }
 
@@ -117,6 +133,8 @@ const getStatusColor = (status: string) => {
     switch (status) {
         case "pending":
             return "bg-yellow-100 text-yellow-800";
+        case "partially_approved":
+            return "bg-amber-100 text-amber-800";
         case "approved":
             return "bg-blue-100 text-blue-800";
         case "rejected":
@@ -157,6 +175,10 @@ export function RoleSpecificDashboard({
 }: RoleSpecificDashboardProps) {
     const [activeTab, setActiveTab] = useState("overview");
 
+    // Dashboard money figures are in the reporting currency
+    const money = (amount: string | number | undefined) =>
+        formatMoney(amount || 0, metrics.reportingCurrency);
+
     const getRoleSpecificMetrics = () => {
         switch (userRole) {
             case "sales":
@@ -175,7 +197,7 @@ export function RoleSpecificDashboard({
                     },
                     {
                         title: "This Month Revenue",
-                        value: `$${metrics.roleSpecificMetrics?.monthlyRevenue || 0}`,
+                        value: money(metrics.roleSpecificMetrics?.monthlyRevenue),
                         icon: <DollarSign className="h-4 w-4 text-green-600" />,
                         description: "From your orders",
                     },
@@ -206,7 +228,7 @@ export function RoleSpecificDashboard({
                     },
                     {
                         title: "Total Value Pending",
-                        value: `$${metrics.roleSpecificMetrics?.pendingValue || 0}`,
+                        value: money(metrics.roleSpecificMetrics?.pendingValue),
                         icon: <DollarSign className="h-4 w-4 text-blue-600" />,
                         description: "Value of pending orders",
                     },
@@ -294,7 +316,7 @@ export function RoleSpecificDashboard({
                     },
                     {
                         title: "Total Revenue",
-                        value: `$${metrics.totalRevenue}`,
+                        value: money(metrics.totalRevenue),
                         icon: <DollarSign className="h-4 w-4 text-green-600" />,
                         description: "All time revenue",
                     },
@@ -353,6 +375,48 @@ export function RoleSpecificDashboard({
                 </Card>
             )}
 
+            {/* Overdue orders */}
+            {metrics.overdueOrders > 0 && (
+                <Card className="border-red-200 bg-red-50">
+                    <CardContent className="flex items-center justify-between py-4">
+                        <div className="flex items-center gap-2 text-red-800">
+                            <AlertTriangle className="h-5 w-5" />
+                            <span className="font-medium">
+                                {metrics.overdueOrders}{" "}
+                                {metrics.overdueOrders === 1
+                                    ? "order is"
+                                    : "orders are"}{" "}
+                                past their SLA
+                            </span>
+                        </div>
+                        <Button size="sm" variant="outline" asChild>
+                            <Link href="/order?overdue=1">View overdue</Link>
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
+            {/* Orders on hold */}
+            {metrics.heldOrders > 0 && (
+                <Card className="border-amber-200 bg-amber-50">
+                    <CardContent className="flex items-center justify-between py-4">
+                        <div className="flex items-center gap-2 text-amber-800">
+                            <PauseCircle className="h-5 w-5" />
+                            <span className="font-medium">
+                                {metrics.heldOrders}{" "}
+                                {metrics.heldOrders === 1
+                                    ? "order is"
+                                    : "orders are"}{" "}
+                                on hold
+                            </span>
+                        </div>
+                        <Button size="sm" variant="outline" asChild>
+                            <Link href="/order?held=1">View on hold</Link>
+                        </Button>
+                    </CardContent>
+                </Card>
+            )}
+
             {/* Metrics Grid */}
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-4">
                 {roleMetrics.map((metric, index) => (
@@ -433,7 +497,7 @@ export function RoleSpecificDashboard({
                                             Average Order Value
                                         </span>
                                         <span className="font-medium">
-                                            ${metrics.averageOrderValue}
+                                            {money(metrics.averageOrderValue)}
                                         </span>
                                     </div>
                                     <div className="flex items-center justify-between">
@@ -441,7 +505,7 @@ export function RoleSpecificDashboard({
                                             Total Revenue
                                         </span>
                                         <span className="font-medium">
-                                            ${metrics.totalRevenue}
+                                            {money(metrics.totalRevenue)}
                                         </span>
                                     </div>
                                     <div className="flex items-center justify-between">
@@ -453,6 +517,16 @@ export function RoleSpecificDashboard({
                                                 ?.monthlyOrders || 0}
                                         </span>
                                     </div>
+                                    {metrics.unconvertedOrders > 0 && (
+                                        <p className="text-xs text-muted-foreground">
+                                            {metrics.unconvertedOrders} order
+                                            {metrics.unconvertedOrders !== 1
+                                                ? "s"
+                                                : ""}{" "}
+                                            left out: no exchange rate to{" "}
+                                            {metrics.reportingCurrency}
+                                        </p>
+                                    )}
                                 </div>
                             </CardContent>
                         </Card>
@@ -487,6 +561,23 @@ export function RoleSpecificDashboard({
                                                 </div>
                                             </div>
                                             <div className="flex items-center gap-2">
+                                                {order.onHold && (
+                                                    <Badge
+                                                        variant="outline"
+                                                        className="border-amber-300 bg-amber-50 text-amber-800"
+                                                        title={
+                                                            order.holdReason ??
+                                                            undefined
+                                                        }
+                                                    >
+                                                        On hold
+                                                    </Badge>
+                                                )}
+                                                {order.overdue && (
+                                                    <Badge className="bg-red-600 text-white">
+                                                        Overdue
+                                                    </Badge>
+                                                )}
                                                 {order.urgency && (
                                                     <Badge
                                                         className={getUrgencyColor(
@@ -504,7 +595,10 @@ export function RoleSpecificDashboard({
                                                     {order.status}
                                                 </Badge>
                                                 <span className="font-medium">
-                                                    ${order.total}
+                                                    {formatMoney(
+                                                        order.total,
+                                                        order.currency
+                                                    )}
                                                 </span>
                                             </div>
                                         </div>
@@ -1,12 +1,13 @@
 "use client";
 
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import {
     Form,
@@ -16,42 +17,103 @@ import {
     FormLabel,
     FormMessage,
 } from "@/components/ui/form";
-import { Plus, Trash2, Loader2 } from "lucide-react";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { Plus, Trash2, Loader2, X } from "lucide-react";
 import { toast } from "sonner";
-import { createOrder } from "@/server/orders";
+import {
+    createOrder,
+    updateOrder,
+    quoteOrder,
+    canAddCustomItems as fetchCanAddCustomItems,
+} from "@/server/orders";
+import { listTaxRates } from "@/server/tax-rates";
+import type { OrderTotals } from "@/lib/pricing";
+import { formatMoney, orderCurrencies } from "@/lib/currency";
+import { ProductPicker, type CatalogProduct } from "@/components/forms/product-picker";
+import {
+    CustomerPicker,
+    type PickedCustomer,
+} from "@/components/forms/customer-picker";
 
 const orderItemSchema = z.object({
+    productId: z.string().optional(), // Set when picked from the catalog
     name: z.string().min(1, "Product name is required"),
     description: z.string().optional(),
     sku: z.string().optional(),
     price: z.number().min(0.01, "Price must be greater than 0"),
     quantity: z.number().min(1, "Quantity must be at least 1"),
+    discountType: z.enum(["percentage", "fixed"]).optional(),
+    discountValue: z.number().min(0, "Discount must be zero or more").optional(),
 });
 
 const createOrderSchema = z.object({
+    customerId: z.string().optional(), // Set when picked from the customers
     customerName: z.string().min(1, "Customer name is required"),
     customerEmail: z.string().email().optional().or(z.literal("")),
     customerPhone: z.string().optional(),
     customerAddress: z.string().optional(),
+    currency: z.string().length(3).optional(),
+    discountType: z.enum(["percentage", "fixed"]).optional(),
+    discountValue: z.number().min(0, "Discount must be zero or more").optional(),
+    shippingCharge: z.number().min(0, "Shipping must be zero or more").optional(),
+    taxRegion: z.string().optional(),
     items: z.array(orderItemSchema).min(1, "At least one item is required"),
 });
 
-type CreateOrderFormData = z.infer<typeof createOrderSchema>;
+export type CreateOrderFormData = z.infer<typeof createOrderSchema>;
 
 interface CreateOrderFormProps {
     onSuccess?: (orderId: string, orderNumber: string) => void;
+    // When provided, the form edits this order instead of creating a new one
+    order?: {
+        id: string;
+        orderNumber: string;
+        version?: number;
+        values: CreateOrderFormData;
+    };
 }
 
-export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
+export function CreateOrderForm({ onSuccess, order }: CreateOrderFormProps) {
     const [isLoading, setIsLoading] = useState(false);
+    // Free-text items are only allowed with the order:custom_item permission
+    const [canAddCustomItems, setCanAddCustomItems] = useState(false);
+    // Saved addresses of the picked customer
+    const [savedAddresses, setSavedAddresses] = useState<
+        PickedCustomer["addresses"]
+    >([]);
+
+    // Regions that have a tax rate configured
+    const [taxRegions, setTaxRegions] = useState<string[]>([]);
+    // Breakdown calculated by the server for the current values
+    const [totals, setTotals] = useState<OrderTotals | null>(null);
+
+    useEffect(() => {
+        fetchCanAddCustomItems().then(setCanAddCustomItems);
+        listTaxRates().then((result) => {
+            if (result.success && result.regions) {
+                setTaxRegions(result.regions);
+            }
+        });
+    }, []);
 
     const form = useForm<CreateOrderFormData>({
         resolver: zodResolver(createOrderSchema),
-        defaultValues: {
+        defaultValues: order?.values ?? {
             customerName: "",
             customerEmail: "",
             customerPhone: "",
             customerAddress: "",
+            currency: "USD",
+            discountType: "percentage",
+            discountValue: 0,
+            shippingCharge: 0,
+            taxRegion: "",
             items: [
                 {
                     name: "",
@@ -64,6 +126,43 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
         },
     });
 
+    // Re-price the order shortly after the user stops typing
+    const values = form.watch();
+    const pricingKey = JSON.stringify({
+        discountType: values.discountType,
+        discountValue: values.discountValue,
+        shippingCharge: values.shippingCharge,
+        taxRegion: values.taxRegion,
+        items: values.items,
+    });
+
+    useEffect(() => {
+        const timeout = setTimeout(async () => {
+            const result = await quoteOrder(form.getValues(), order?.id);
+            if (result.success && result.totals) {
+                setTotals(result.totals);
+            }
+        }, 300);
+
+        return () => clearTimeout(timeout);
+    }, [form, pricingKey, order?.id]);
+
+    // Fill the customer details; they stay editable for this order
+    const selectCustomer = (customer: PickedCustomer) => {
+        form.setValue("customerId", customer.id);
+        form.setValue("customerName", customer.name, { shouldValidate: true });
+        form.setValue("customerEmail", customer.email || "");
+        form.setValue("customerPhone", customer.phone || "");
+        // Addresses come default first
+        form.setValue("customerAddress", customer.addresses[0]?.address || "");
+        setSavedAddresses(customer.addresses);
+    };
+
+    const unlinkCustomer = () => {
+        form.setValue("customerId", undefined);
+        setSavedAddresses([]);
+    };
+
     const { fields, append, remove } = useFieldArray({
         control: form.control,
         name: "items",
@@ -79,29 +178,66 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
         });
     };
 
+    // Fill the line from the catalog; the server snapshots the list price
+    const selectProduct = (index: number, product: CatalogProduct) => {
+        form.setValue(`items.${index}.productId`, product.id);
+        form.setValue(`items.${index}.name`, product.name, {
+            shouldValidate: true,
+        });
+        form.setValue(`items.${index}.sku`, product.sku);
+        form.setValue(
+            `items.${index}.description`,
+            product.description || ""
+        );
+        form.setValue(`items.${index}.price`, parseFloat(product.listPrice), {
+            shouldValidate: true,
+        });
+    };
+
+    // Turn a catalog line back into a free-text one
+    const unlinkProduct = (index: number) => {
+        form.setValue(`items.${index}.productId`, undefined);
+    };
+
     const removeItem = (index: number) => {
         if (fields.length > 1) {
             remove(index);
         }
     };
 
-    const calculateTotal = () => {
-        const items = form.watch("items");
-        return items.reduce(
-            (total, item) => total + item.price * item.quantity,
-            0
-        );
-    };
-
     const onSubmit = async (data: CreateOrderFormData) => {
         setIsLoading(true);
 
         try {
+            if (order) {
+                const result = await updateOrder(
+                    order.id,
+                    data,
+                    order.version
+                );
+
+                if (result.success) {
+                    toast.success(result.message);
+                    onSuccess?.(order.id, order.orderNumber);
+                } else if (result.conflict) {
+                    toast.error(result.message, {
+                        action: {
+                            label: "Refresh",
+                            onClick: () => window.location.reload(),
+                        },
+                    });
+                } else {
+                    toast.error(result.message);
+                }
+                return;
+            }
+
             const result = await createOrder(data);
 
             if (result.success) {
                 toast.success(result.message);
                 form.reset();
+                setSavedAddresses([]);
                 if (onSuccess && result.orderId && result.orderNumber) {
                     onSuccess(result.orderId, result.orderNumber);
                 }
@@ -118,7 +254,11 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
     return (
         <Card className="w-full max-w-4xl mx-auto">
             <CardHeader>
-                <CardTitle>Create New Order</CardTitle>
+                <CardTitle>
+                    {order
+                        ? `Edit Order ${order.orderNumber}`
+                        : "Create New Order"}
+                </CardTitle>
             </CardHeader>
             <CardContent>
                 <Form {...form}>
@@ -127,6 +267,57 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                         className="space-y-6"
                     >
                         {/* Customer Information */}
+                        <div className="space-y-2">
+                            <Label>Customer</Label>
+                            <div className="flex items-center gap-2">
+                                <div className="flex-1">
+                                    <CustomerPicker
+                                        label={
+                                            form.watch("customerId")
+                                                ? form.watch("customerName")
+                                                : undefined
+                                        }
+                                        onSelect={selectCustomer}
+                                    />
+                                </div>
+                                {form.watch("customerId") && (
+                                    <Button
+                                        type="button"
+                                        variant="ghost"
+                                        size="sm"
+                                        onClick={unlinkCustomer}
+                                    >
+                                        <X className="w-4 h-4 mr-1" />
+                                        Unlink
+                                    </Button>
+                                )}
+                            </div>
+                            <p className="text-sm text-muted-foreground">
+                                Without a picked customer, the order is linked
+                                to a customer with the same email, or a new one.
+                            </p>
+                            {savedAddresses.length > 1 && (
+                                <div className="flex flex-wrap gap-2">
+                                    {savedAddresses.map((address) => (
+                                        <Button
+                                            key={address.id}
+                                            type="button"
+                                            variant="outline"
+                                            size="sm"
+                                            onClick={() =>
+                                                form.setValue(
+                                                    "customerAddress",
+                                                    address.address
+                                                )
+                                            }
+                                        >
+                                            {address.label || address.address}
+                                        </Button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
                         <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                             <FormField
                                 control={form.control}
@@ -215,8 +406,51 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                 </Button>
                             </div>
 
-                            {fields.map((field, index) => (
+                            {fields.map((field, index) => {
+                                const productId = form.watch(
+                                    `items.${index}.productId`
+                                );
+                                // Catalog lines and users without the custom
+                                // item permission can't type product details
+                                const detailsLocked =
+                                    !!productId || !canAddCustomItems;
+
+                                return (
                                 <Card key={field.id} className="p-4">
+                                    <div className="flex items-center gap-2 mb-4">
+                                        <div className="flex-1">
+                                            <ProductPicker
+                                                label={
+                                                    productId
+                                                        ? `${form.watch(
+                                                              `items.${index}.name`
+                                                          )} (${form.watch(
+                                                              `items.${index}.sku`
+                                                          )})`
+                                                        : undefined
+                                                }
+                                                onSelect={(product) =>
+                                                    selectProduct(
+                                                        index,
+                                                        product
+                                                    )
+                                                }
+                                            />
+                                        </div>
+                                        {productId && canAddCustomItems && (
+                                            <Button
+                                                type="button"
+                                                variant="ghost"
+                                                size="sm"
+                                                onClick={() =>
+                                                    unlinkProduct(index)
+                                                }
+                                            >
+                                                <X className="w-4 h-4 mr-1" />
+                                                Custom item
+                                            </Button>
+                                        )}
+                                    </div>
                                     <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
                                         <FormField
                                             control={form.control}
@@ -229,6 +463,9 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                                     <FormControl>
                                                         <Input
                                                             placeholder="Product name"
+                                                            readOnly={
+                                                                detailsLocked
+                                                            }
                                                             {...field}
                                                         />
                                                     </FormControl>
@@ -246,6 +483,9 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                                     <FormControl>
                                                         <Input
                                                             placeholder="SKU"
+                                                            readOnly={
+                                                                detailsLocked
+                                                            }
                                                             {...field}
                                                         />
                                                     </FormControl>
@@ -267,6 +507,9 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                                             type="number"
                                                             step="0.01"
                                                             placeholder="0.00"
+                                                            readOnly={
+                                                                detailsLocked
+                                                            }
                                                             {...field}
                                                             onChange={(e) =>
                                                                 field.onChange(
@@ -338,6 +581,9 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                                 <FormControl>
                                                     <Textarea
                                                         placeholder="Product description"
+                                                        readOnly={
+                                                            detailsLocked
+                                                        }
                                                         {...field}
                                                     />
                                                 </FormControl>
@@ -345,20 +591,278 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                                             </FormItem>
                                         )}
                                     />
+
+                                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+                                        <FormField
+                                            control={form.control}
+                                            name={`items.${index}.discountType`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>
+                                                        Line Discount
+                                                    </FormLabel>
+                                                    <Select
+                                                        value={
+                                                            field.value ||
+                                                            "percentage"
+                                                        }
+                                                        onValueChange={
+                                                            field.onChange
+                                                        }
+                                                    >
+                                                        <FormControl>
+                                                            <SelectTrigger>
+                                                                <SelectValue />
+                                                            </SelectTrigger>
+                                                        </FormControl>
+                                                        <SelectContent>
+                                                            <SelectItem value="percentage">
+                                                                Percentage
+                                                            </SelectItem>
+                                                            <SelectItem value="fixed">
+                                                                Fixed amount
+                                                            </SelectItem>
+                                                        </SelectContent>
+                                                    </Select>
+                                                </FormItem>
+                                            )}
+                                        />
+
+                                        <FormField
+                                            control={form.control}
+                                            name={`items.${index}.discountValue`}
+                                            render={({ field }) => (
+                                                <FormItem>
+                                                    <FormLabel>
+                                                        Discount Value
+                                                    </FormLabel>
+                                                    <FormControl>
+                                                        <Input
+                                                            type="number"
+                                                            step="0.01"
+                                                            min="0"
+                                                            placeholder="0"
+                                                            {...field}
+                                                            value={
+                                                                field.value ??
+                                                                ""
+                                                            }
+                                                            onChange={(e) =>
+                                                                field.onChange(
+                                                                    parseFloat(
+                                                                        e.target
+                                                                            .value
+                                                                    ) || 0
+                                                                )
+                                                            }
+                                                        />
+                                                    </FormControl>
+                                                    <FormMessage />
+                                                </FormItem>
+                                            )}
+                                        />
+                                    </div>
                                 </Card>
-                            ))}
+                                );
+                            })}
+                        </div>
+
+                        {/* Currency, discount, shipping and tax */}
+                        <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+                            <FormField
+                                control={form.control}
+                                name="currency"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Currency</FormLabel>
+                                        <Select
+                                            value={field.value || "USD"}
+                                            onValueChange={field.onChange}
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                {orderCurrencies.map(
+                                                    (currency) => (
+                                                        <SelectItem
+                                                            key={currency}
+                                                            value={currency}
+                                                        >
+                                                            {currency}
+                                                        </SelectItem>
+                                                    )
+                                                )}
+                                            </SelectContent>
+                                        </Select>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="discountType"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Order Discount</FormLabel>
+                                        <Select
+                                            value={field.value || "percentage"}
+                                            onValueChange={field.onChange}
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="percentage">
+                                                    Percentage
+                                                </SelectItem>
+                                                <SelectItem value="fixed">
+                                                    Fixed amount
+                                                </SelectItem>
+                                            </SelectContent>
+                                        </Select>
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="discountValue"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Discount Value</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                step="0.01"
+                                                min="0"
+                                                placeholder="0"
+                                                {...field}
+                                                value={field.value ?? ""}
+                                                onChange={(e) =>
+                                                    field.onChange(
+                                                        parseFloat(
+                                                            e.target.value
+                                                        ) || 0
+                                                    )
+                                                }
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="shippingCharge"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Shipping Charge</FormLabel>
+                                        <FormControl>
+                                            <Input
+                                                type="number"
+                                                step="0.01"
+                                                min="0"
+                                                placeholder="0.00"
+                                                {...field}
+                                                value={field.value ?? ""}
+                                                onChange={(e) =>
+                                                    field.onChange(
+                                                        parseFloat(
+                                                            e.target.value
+                                                        ) || 0
+                                                    )
+                                                }
+                                            />
+                                        </FormControl>
+                                        <FormMessage />
+                                    </FormItem>
+                                )}
+                            />
+
+                            <FormField
+                                control={form.control}
+                                name="taxRegion"
+                                render={({ field }) => (
+                                    <FormItem>
+                                        <FormLabel>Tax Region</FormLabel>
+                                        <Select
+                                            value={field.value || "none"}
+                                            onValueChange={(value) =>
+                                                field.onChange(
+                                                    value === "none"
+                                                        ? ""
+                                                        : value
+                                                )
+                                            }
+                                        >
+                                            <FormControl>
+                                                <SelectTrigger>
+                                                    <SelectValue />
+                                                </SelectTrigger>
+                                            </FormControl>
+                                            <SelectContent>
+                                                <SelectItem value="none">
+                                                    Default rate
+                                                </SelectItem>
+                                                {taxRegions.map((region) => (
+                                                    <SelectItem
+                                                        key={region}
+                                                        value={region}
+                                                    >
+                                                        {region}
+                                                    </SelectItem>
+                                                ))}
+                                            </SelectContent>
+                                        </Select>
+                                    </FormItem>
+                                )}
+                            />
                         </div>
 
                         {/* Order Summary */}
-                        <Card className="p-4 bg-gray-50">
-                            <div className="flex justify-between items-center">
-                                <span className="text-lg font-semibold">
-                                    Total Amount:
-                                </span>
-                                <span className="text-xl font-bold">
-                                    ${calculateTotal().toFixed(2)}
-                                </span>
-                            </div>
+                        <Card className="p-4 bg-gray-50 space-y-1">
+                            {totals ? (
+                                <>
+                                    <div className="flex justify-between text-sm">
+                                        <span>Subtotal:</span>
+                                        <span>{formatMoney(totals.subtotal, values.currency)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span>Discounts:</span>
+                                        <span>
+                                            -{formatMoney(totals.discountTotal, values.currency)}
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span>Tax:</span>
+                                        <span>{formatMoney(totals.taxTotal, values.currency)}</span>
+                                    </div>
+                                    <div className="flex justify-between text-sm">
+                                        <span>Shipping:</span>
+                                        <span>
+                                            {formatMoney(totals.shippingCharge, values.currency)}
+                                        </span>
+                                    </div>
+                                    <div className="flex justify-between items-center">
+                                        <span className="text-lg font-semibold">
+                                            Total Amount:
+                                        </span>
+                                        <span className="text-xl font-bold">
+                                            {formatMoney(totals.total, values.currency)}
+                                        </span>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="flex justify-center">
+                                    <Loader2 className="w-4 h-4 animate-spin" />
+                                </div>
+                            )}
                         </Card>
 
                         {/* Submit Button */}
@@ -370,8 +874,12 @@ export function CreateOrderForm({ onSuccess }: CreateOrderFormProps) {
                             {isLoading ? (
                                 <>
                                     <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                                    Creating Order...
+                                    {order
+                                        ? "Saving Changes..."
+                                        : "Creating Order..."}
                                 </>
+                            ) : order ? (
+                                "Save Changes"
                             ) : (
                                 "Create Order"
                             )}
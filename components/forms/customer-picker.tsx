@@ -0,0 +1,150 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChevronsUpDown, Loader2, Plus, Search } from "lucide-react";
+import { toast } from "sonner";
+import { createCustomer, searchCustomers } from "@/server/customers";
+
+export interface PickedCustomer {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+    addresses: {
+        id: string;
+        label: string | null;
+        address: string;
+        isDefault: boolean;
+    }[];
+}
+
+interface CustomerPickerProps {
+    // Label shown on the trigger, e.g. the currently selected customer
+    label?: string;
+    onSelect: (customer: PickedCustomer) => void;
+}
+
+// Searchable customer list that can create a customer from the search text
+export function CustomerPicker({ label, onSelect }: CustomerPickerProps) {
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState("");
+    const [results, setResults] = useState<PickedCustomer[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+    const [isCreating, setIsCreating] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+
+        // Debounce typing before hitting the server
+        const timeout = setTimeout(async () => {
+            setIsLoading(true);
+            try {
+                const result = await searchCustomers(search);
+                setResults(result.success && result.customers ? result.customers : []);
+            } finally {
+                setIsLoading(false);
+            }
+        }, 250);
+
+        return () => clearTimeout(timeout);
+    }, [open, search]);
+
+    const select = (customer: PickedCustomer) => {
+        onSelect(customer);
+        setOpen(false);
+        setSearch("");
+    };
+
+    const handleCreate = async () => {
+        setIsCreating(true);
+        try {
+            const result = await createCustomer({ name: search });
+            if (result.success && result.customer) {
+                toast.success(result.message);
+                select({ ...result.customer, addresses: [] });
+            } else {
+                toast.error(result.message);
+            }
+        } finally {
+            setIsCreating(false);
+        }
+    };
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full justify-between font-normal"
+                >
+                    <span className="truncate">{label || "Pick a customer..."}</span>
+                    <ChevronsUpDown className="w-4 h-4 opacity-50" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-2" align="start">
+                <div className="relative mb-2">
+                    <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+                    <Input
+                        autoFocus
+                        className="pl-8"
+                        placeholder="Search by name, email or phone..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                    />
+                </div>
+                <div className="max-h-64 overflow-y-auto">
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        </div>
+                    ) : results.length === 0 ? (
+                        <p className="py-4 text-center text-sm text-muted-foreground">
+                            No customers found.
+                        </p>
+                    ) : (
+                        results.map((customer) => (
+                            <button
+                                key={customer.id}
+                                type="button"
+                                className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                                onClick={() => select(customer)}
+                            >
+                                <div className="font-medium">{customer.name}</div>
+                                <div className="text-xs text-muted-foreground">
+                                    {[customer.email, customer.phone]
+                                        .filter(Boolean)
+                                        .join(" · ") || "No contact details"}
+                                </div>
+                            </button>
+                        ))
+                    )}
+                </div>
+                {search.trim() && (
+                    <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        className="mt-2 w-full justify-start"
+                        disabled={isCreating}
+                        onClick={handleCreate}
+                    >
+                        {isCreating ? (
+                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                        ) : (
+                            <Plus className="w-4 h-4 mr-2" />
+                        )}
+                        Create customer &quot;{search.trim()}&quot;
+                    </Button>
+                )}
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,111 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+    Popover,
+    PopoverContent,
+    PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChevronsUpDown, Loader2, Search } from "lucide-react";
+import { listProducts } from "@/server/products";
+
+export interface CatalogProduct {
+    id: string;
+    sku: string;
+    name: string;
+    description: string | null;
+    listPrice: string;
+    unit: string;
+}
+
+interface ProductPickerProps {
+    // Label shown on the trigger, e.g. the currently selected product
+    label?: string;
+    onSelect: (product: CatalogProduct) => void;
+}
+
+// Searchable list of active catalog products
+export function ProductPicker({ label, onSelect }: ProductPickerProps) {
+    const [open, setOpen] = useState(false);
+    const [search, setSearch] = useState("");
+    const [results, setResults] = useState<CatalogProduct[]>([]);
+    const [isLoading, setIsLoading] = useState(false);
+
+    useEffect(() => {
+        if (!open) return;
+
+        // Debounce typing before hitting the server
+        const timeout = setTimeout(async () => {
+            setIsLoading(true);
+            try {
+                const result = await listProducts({ search, limit: 20 });
+                setResults(result.success && result.products ? result.products : []);
+            } finally {
+                setIsLoading(false);
+            }
+        }, 250);
+
+        return () => clearTimeout(timeout);
+    }, [open, search]);
+
+    return (
+        <Popover open={open} onOpenChange={setOpen}>
+            <PopoverTrigger asChild>
+                <Button
+                    type="button"
+                    variant="outline"
+                    className="w-full justify-between font-normal"
+                >
+                    <span className="truncate">{label || "Pick a product..."}</span>
+                    <ChevronsUpDown className="w-4 h-4 opacity-50" />
+                </Button>
+            </PopoverTrigger>
+            <PopoverContent className="w-80 p-2" align="start">
+                <div className="relative mb-2">
+                    <Search className="absolute left-2 top-2.5 w-4 h-4 text-muted-foreground" />
+                    <Input
+                        autoFocus
+                        className="pl-8"
+                        placeholder="Search by name or SKU..."
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                    />
+                </div>
+                <div className="max-h-64 overflow-y-auto">
+                    {isLoading ? (
+                        <div className="flex justify-center py-4">
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                        </div>
+                    ) : results.length === 0 ? (
+                        <p className="py-4 text-center text-sm text-muted-foreground">
+                            No products found.
+                        </p>
+                    ) : (
+                        results.map((product) => (
+                            <button
+                                key={product.id}
+                                type="button"
+                                className="w-full rounded-sm px-2 py-1.5 text-left text-sm hover:bg-accent"
+                                onClick={() => {
+                                    onSelect(product);
+                                    setOpen(false);
+                                    setSearch("");
+                                }}
+                            >
+                                <div className="flex justify-between gap-2">
+                                    <span className="font-medium">{product.name}</span>
+                                    <span>${product.listPrice}</span>
+                                </div>
+                                <div className="text-xs text-muted-foreground">
+                                    {product.sku} · per {product.unit}
+                                </div>
+                            </button>
+                        ))
+                    )}
+                </div>
+            </PopoverContent>
+        </Popover>
+    );
+}
@@ -0,0 +1,204 @@
+"use client";
+
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+    Table,
+    TableBody,
+    TableCell,
+    TableHead,
+    TableHeader,
+    TableRow,
+} from "@/components/ui/table";
+import { Printer, Tag, Truck } from "lucide-react";
+
+// Latest status reported by the carrier
+const trackingStatusLabels: Record<string, string> = {
+    info_received: "Label created",
+    in_transit: "In transit",
+    out_for_delivery: "Out for delivery",
+    delivered: "Delivered",
+    failed: "Delivery failed",
+};
+
+interface FulfilmentItem {
+    id: string;
+    name: string;
+    sku: string | null;
+    quantity: number;
+    quantityShipped: number | null;
+    quantityReturned: number | null;
+}
+
+interface Shipment {
+    id: string;
+    trackingNumber: string | null;
+    carrierName?: string | null;
+    trackingUrl?: string | null;
+    trackingStatus?: string | null;
+    notes: string | null;
+    shippedAt: string | Date;
+    shippedByUser?: { id: string; name: string } | null;
+    // Set once the parcels were resent after a failed delivery
+    replacedBy?: string | null;
+    items: Array<{ orderItemId: string; quantity: number }>;
+}
+
+interface OrderFulfilmentProps {
+    orderId: string;
+    items: FulfilmentItem[];
+    shipments: Shipment[];
+    // Show packing slip and label downloads
+    canPrint?: boolean;
+}
+
+export function OrderFulfilment({ orderId, items, shipments, canPrint }: OrderFulfilmentProps) {
+    const itemName = (orderItemId: string) =>
+        items.find((item) => item.id === orderItemId)?.name ?? "Unknown item";
+
+    const hasOutstanding = items.some(
+        (item) => item.quantity - (item.quantityShipped ?? 0) > 0
+    );
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                        <Truck className="w-5 h-5" />
+                        Fulfilment
+                    </CardTitle>
+                    {canPrint && hasOutstanding && (
+                        <div className="flex gap-2">
+                            <Button size="sm" variant="outline" asChild>
+                                <a
+                                    href={`/api/shipping-documents?orderId=${orderId}&type=packing_slip`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                >
+                                    <Printer className="w-4 h-4 mr-1" />
+                                    Packing Slip
+                                </a>
+                            </Button>
+                            <Button size="sm" variant="outline" asChild>
+                                <a
+                                    href={`/api/shipping-documents?orderId=${orderId}&type=label`}
+                                    target="_blank"
+                                    rel="noreferrer"
+                                >
+                                    <Tag className="w-4 h-4 mr-1" />
+                                    Label
+                                </a>
+                            </Button>
+                        </div>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+                <Table>
+                    <TableHeader>
+                        <TableRow>
+                            <TableHead>Item</TableHead>
+                            <TableHead>SKU</TableHead>
+                            <TableHead className="text-right">Ordered</TableHead>
+                            <TableHead className="text-right">Shipped</TableHead>
+                            <TableHead className="text-right">Returned</TableHead>
+                            <TableHead className="text-right">Remaining</TableHead>
+                        </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                        {items.map((item) => {
+                            const shipped = item.quantityShipped ?? 0;
+                            const remaining = item.quantity - shipped;
+                            return (
+                                <TableRow key={item.id}>
+                                    <TableCell className="font-medium">{item.name}</TableCell>
+                                    <TableCell>{item.sku || "-"}</TableCell>
+                                    <TableCell className="text-right">{item.quantity}</TableCell>
+                                    <TableCell className="text-right">{shipped}</TableCell>
+                                    <TableCell className="text-right">{item.quantityReturned ?? 0}</TableCell>
+                                    <TableCell className="text-right">
+                                        {remaining > 0 ? (
+                                            <Badge variant="outline">{remaining}</Badge>
+                                        ) : (
+                                            <Badge className="bg-green-100 text-green-800">Shipped</Badge>
+                                        )}
+                                    </TableCell>
+                                </TableRow>
+                            );
+                        })}
+                    </TableBody>
+                </Table>
+
+                <div className="space-y-3">
+                    <h4 className="font-medium">Shipments ({shipments.length})</h4>
+                    {shipments.length === 0 ? (
+                        <p className="text-sm text-muted-foreground">Nothing has been shipped yet.</p>
+                    ) : (
+                        shipments.map((shipment, index) => (
+                            <div key={shipment.id} className="rounded-md border p-3 text-sm">
+                                <div className="flex items-center justify-between">
+                                    <span className="font-medium">
+                                        Shipment {index + 1}
+                                        {shipment.replacedBy && (
+                                            <Badge variant="outline" className="ml-2">
+                                                Resent as shipment{" "}
+                                                {shipments.findIndex((s) => s.id === shipment.replacedBy) + 1}
+                                            </Badge>
+                                        )}
+                                    </span>
+                                    <span className="text-muted-foreground">
+                                        {new Date(shipment.shippedAt).toLocaleString()}
+                                    </span>
+                                </div>
+                                <p className="text-muted-foreground">
+                                    Tracking:{" "}
+                                    {shipment.trackingUrl ? (
+                                        <a
+                                            href={shipment.trackingUrl}
+                                            target="_blank"
+                                            rel="noreferrer"
+                                            className="underline"
+                                        >
+                                            {shipment.trackingNumber}
+                                        </a>
+                                    ) : (
+                                        shipment.trackingNumber || "none"
+                                    )}
+                                    {shipment.carrierName && ` via ${shipment.carrierName}`}
+                                    {shipment.shippedByUser && ` · by ${shipment.shippedByUser.name}`}
+                                </p>
+                                {shipment.trackingStatus && (
+                                    <Badge
+                                        variant="outline"
+                                        className={
+                                            shipment.trackingStatus === "failed"
+                                                ? "mt-1 border-red-300 text-red-700"
+                                                : shipment.trackingStatus === "delivered"
+                                                ? "mt-1 border-green-300 text-green-700"
+                                                : "mt-1"
+                                        }
+                                    >
+                                        {trackingStatusLabels[shipment.trackingStatus] ??
+                                            shipment.trackingStatus}
+                                    </Badge>
+                                )}
+                                <ul className="mt-2 list-disc pl-5">
+                                    {shipment.items.map((line) => (
+                                        <li key={line.orderItemId}>
+                                            {line.quantity} × {itemName(line.orderItemId)}
+                                        </li>
+                                    ))}
+                                </ul>
+                                {shipment.notes && (
+                                    <p className="mt-2 text-muted-foreground">{shipment.notes}</p>
+                                )}
+                            </div>
+                        ))
+                    )}
+                </div>
+            </CardContent>
+        </Card>
+    );
+}
@@ -5,7 +5,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Separator } from "@/components/ui/separator";
-import { Clock, User, FileText, CheckCircle, XCircle, Package, Truck, AlertTriangle } from "lucide-react";
+import { Clock, User, FileText, CheckCircle, XCircle, Package, Truck, AlertTriangle, Undo2, PauseCircle, PlayCircle } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
 interface OrderHistoryEntry {
@@ -39,6 +39,8 @@ const getActionIcon = (action: string, toStatus?: string) => {
             switch (toStatus) {
                 case "approved":
                     return <CheckCircle className="w-4 h-4 text-green-500" />;
+                case "edit_requested":
+                    return <FileText className="w-4 h-4 text-orange-500" />;
                 case "rejected":
                 case "warehouse_rejected":
                     return <XCircle className="w-4 h-4 text-red-500" />;
@@ -53,10 +55,35 @@ const getActionIcon = (action: string, toStatus?: string) => {
                 default:
                     return <Clock className="w-4 h-4 text-gray-500" />;
             }
+        case "approval_recorded":
+            return <CheckCircle className="w-4 h-4 text-amber-600" />;
+        case "approval_rule_applied":
+            return <FileText className="w-4 h-4 text-amber-600" />;
         case "field_updated":
             return <FileText className="w-4 h-4 text-orange-500" />;
         case "comment_added":
             return <FileText className="w-4 h-4 text-blue-400" />;
+        case "return_requested":
+        case "return_approved":
+        case "return_received":
+            return <Undo2 className="w-4 h-4 text-amber-600" />;
+        case "return_rejected":
+            return <XCircle className="w-4 h-4 text-red-500" />;
+        case "invoice_issued":
+            return <FileText className="w-4 h-4 text-blue-600" />;
+        case "credit_note_issued":
+            return <FileText className="w-4 h-4 text-orange-600" />;
+        case "carrier_event":
+            return <Truck className="w-4 h-4 text-purple-400" />;
+        case "sla_escalated":
+            return <AlertTriangle className="w-4 h-4 text-red-500" />;
+        case "assigned":
+        case "unassigned":
+            return <User className="w-4 h-4 text-indigo-500" />;
+        case "hold_placed":
+            return <PauseCircle className="w-4 h-4 text-amber-600" />;
+        case "hold_released":
+            return <PlayCircle className="w-4 h-4 text-green-600" />;
         default:
             return <Clock className="w-4 h-4 text-gray-500" />;
     }
@@ -77,15 +104,40 @@ const getActionColor = (action: string, toStatus?: string) => {
                     return "bg-red-100 border-red-200";
                 case "warehouse_confirmed":
                     return "bg-blue-100 border-blue-200";
+                case "edit_requested":
+                    return "bg-orange-100 border-orange-200";
                 case "shipped":
                     return "bg-purple-100 border-purple-200";
                 default:
                     return "bg-gray-100 border-gray-200";
             }
+        case "approval_recorded":
+        case "approval_rule_applied":
+            return "bg-amber-100 border-amber-200";
         case "field_updated":
             return "bg-orange-100 border-orange-200";
         case "comment_added":
             return "bg-blue-50 border-blue-100";
+        case "return_requested":
+        case "return_approved":
+        case "return_received":
+            return "bg-amber-100 border-amber-200";
+        case "return_rejected":
+            return "bg-red-100 border-red-200";
+        case "invoice_issued":
+            return "bg-blue-100 border-blue-200";
+        case "credit_note_issued":
+            return "bg-orange-100 border-orange-200";
+        case "carrier_event":
+            return "bg-purple-50 border-purple-100";
+        case "sla_escalated":
+            return "bg-red-50 border-red-100";
+        case "assigned":
+        case "unassigned":
+            return "bg-indigo-50 border-indigo-100";
+        case "hold_placed":
+        case "hold_released":
+            return "bg-amber-50 border-amber-200";
         default:
             return "bg-gray-100 border-gray-200";
     }
@@ -108,15 +160,44 @@ const formatActionDescription = (entry: OrderHistoryEntry) => {
                 return statusText;
             }
             return "Status updated";
+        case "approval_recorded":
+            return `Partial approval by ${userName} (${userRole})`;
+        case "approval_rule_applied":
+            return notes || "Approval rule applied";
         case "field_updated":
             return `Order details updated by ${userName} (${userRole})`;
         case "comment_added":
             return `Comment added by ${userName} (${userRole})`;
+        case "return_requested":
+        case "return_approved":
+        case "return_rejected":
+        case "return_received":
+            return notes || `${action} by ${userName} (${userRole})`;
+        case "invoice_issued":
+        case "credit_note_issued":
+            return notes || `${action} by ${userName} (${userRole})`;
+        case "carrier_event":
+            return notes || "Carrier update";
+        case "sla_escalated":
+            return notes || "Order overdue, escalated to admins";
+        case "assigned":
+        case "unassigned":
+            return notes || `${action} by ${userName} (${userRole})`;
+        case "hold_placed":
+            return `Put on hold by ${userName} (${userRole})${reason ? ` - Reason: ${reason}` : ""}`;
+        case "hold_released":
+            return `Hold released by ${userName} (${userRole})`;
         default:
             return `${action} by ${userName} (${userRole})`;
     }
 };
 
+const formatChangeValue = (value: unknown) => {
+    if (value === null || value === undefined || value === "") return "—";
+    if (Array.isArray(value)) return value.join(", ");
+    return typeof value === "object" ? JSON.stringify(value) : String(value);
+};
+
 const parseFieldChanges = (fieldChanges?: string) => {
     if (!fieldChanges) return null;
     try {
@@ -236,9 +317,9 @@ export function OrderHistoryTimeline({ orderId, orderHistory }: OrderHistoryTime
                                                                                 <div key={field} className="text-xs">
                                                                                     <span className="font-medium">{field}:</span>
                                                                                     <span className="text-muted-foreground ml-1">
-                                                                                        {typeof value === 'object' 
-                                                                                            ? JSON.stringify(value)
-                                                                                            : String(value)
+                                                                                        {value && typeof value === 'object' && 'from' in value && 'to' in value
+                                                                                            ? `${formatChangeValue(value.from)} → ${formatChangeValue(value.to)}`
+                                                                                            : formatChangeValue(value)
                                                                                         }
                                                                                     </span>
                                                                                 </div>
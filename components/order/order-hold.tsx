@@ -0,0 +1,203 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { PauseCircle, PlayCircle } from "lucide-react";
+import { toast } from "sonner";
+import { holdOrder, releaseOrder } from "@/server/order-holds";
+
+// Roles with the `hold` order permission
+const holdRoles = ["sales", "accountant", "warehouse", "shipper", "admin"];
+
+const closedStatuses = ["completed", "failed", "cancelled"];
+
+const presetReasons = [
+    "Customer payment pending",
+    "Address verification",
+    "Waiting for customer confirmation",
+    "Stock discrepancy",
+    "Suspected fraud",
+];
+
+const OTHER_REASON = "other";
+
+interface OrderHoldButtonProps {
+    order: {
+        id: string;
+        orderNumber: string;
+        status: string;
+        version: number;
+        heldAt: Date | string | null;
+        holdReason: string | null;
+    };
+    userRole: string;
+    size?: "sm" | "default";
+    onChanged: () => void;
+    onConflict?: () => void;
+}
+
+export function OrderHoldButton({
+    order,
+    userRole,
+    size = "sm",
+    onChanged,
+    onConflict,
+}: OrderHoldButtonProps) {
+    const [open, setOpen] = useState(false);
+    const [preset, setPreset] = useState(presetReasons[0]);
+    const [text, setText] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const held = !!order.heldAt;
+    if (!holdRoles.includes(userRole)) return null;
+    if (!held && closedStatuses.includes(order.status)) return null;
+
+    const reason = preset === OTHER_REASON ? text.trim() : preset;
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        try {
+            const result = held
+                ? await releaseOrder(order.id, text, order.version)
+                : await holdOrder(
+                      order.id,
+                      preset === OTHER_REASON || !text.trim()
+                          ? reason
+                          : `${reason}: ${text.trim()}`,
+                      order.version
+                  );
+            if (result.success) {
+                toast.success(result.message);
+                setOpen(false);
+                setText("");
+                setPreset(presetReasons[0]);
+                onChanged();
+            } else if (result.conflict) {
+                toast.error(result.message, {
+                    action: {
+                        label: "Refresh",
+                        onClick: () => (onConflict ?? onChanged)(),
+                    },
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } catch (error) {
+            console.error("Order hold error:", error);
+            toast.error("An unexpected error occurred");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button
+                    size={size}
+                    variant="outline"
+                    className={
+                        held
+                            ? "text-green-700 hover:text-green-800"
+                            : "text-amber-700 hover:text-amber-800"
+                    }
+                >
+                    {held ? (
+                        <PlayCircle className="h-4 w-4 mr-1" />
+                    ) : (
+                        <PauseCircle className="h-4 w-4 mr-1" />
+                    )}
+                    {held ? "Release" : "Hold"}
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>
+                        {held ? "Release Hold" : "Put Order On Hold"} -{" "}
+                        {order.orderNumber}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                    {held ? (
+                        <p className="text-sm text-muted-foreground">
+                            On hold: {order.holdReason}. The order continues
+                            as {order.status.replace(/_/g, " ")} and its due
+                            date moves back by the time it was held.
+                        </p>
+                    ) : (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                The order keeps its status, but nobody can move
+                                it on and its SLA is paused until the hold is
+                                released.
+                            </p>
+                            <div className="space-y-2">
+                                <Label>Reason</Label>
+                                <Select value={preset} onValueChange={setPreset}>
+                                    <SelectTrigger>
+                                        <SelectValue />
+                                    </SelectTrigger>
+                                    <SelectContent>
+                                        {presetReasons.map((value) => (
+                                            <SelectItem key={value} value={value}>
+                                                {value}
+                                            </SelectItem>
+                                        ))}
+                                        <SelectItem value={OTHER_REASON}>
+                                            Other
+                                        </SelectItem>
+                                    </SelectContent>
+                                </Select>
+                            </div>
+                        </>
+                    )}
+                    <div className="space-y-2">
+                        <Label>
+                            {held
+                                ? "Notes (optional)"
+                                : preset === OTHER_REASON
+                                  ? "Describe the reason"
+                                  : "Details (optional)"}
+                        </Label>
+                        <Textarea
+                            value={text}
+                            onChange={(e) => setText(e.target.value)}
+                            rows={3}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => setOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={isSubmitting || (!held && !reason)}
+                        >
+                            {isSubmitting
+                                ? "Saving..."
+                                : held
+                                  ? "Release Hold"
+                                  : "Put On Hold"}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
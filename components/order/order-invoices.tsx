@@ -0,0 +1,135 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, FileText } from "lucide-react";
+import { toast } from "sonner";
+import { issueInvoice } from "@/server/invoices";
+import type { InvoiceKind } from "@/lib/invoices";
+import { formatMoney } from "@/lib/currency";
+
+export interface InvoiceEntry {
+    id: string;
+    invoiceNumber: string;
+    kind: InvoiceKind;
+    currency: string;
+    total: string;
+    reason: string | null;
+    issuedAt: string | Date;
+}
+
+interface OrderInvoicesProps {
+    orderId: string;
+    orderStatus: string;
+    userRole: string;
+    invoices: InvoiceEntry[];
+    onChanged: () => void;
+}
+
+// Roles with the `invoice` permission (server/permissions.ts)
+const invoiceReaders = ["sales", "accountant", "admin"];
+const invoiceIssuers = ["accountant", "admin"];
+
+export function OrderInvoices({
+    orderId,
+    orderStatus,
+    userRole,
+    invoices,
+    onChanged,
+}: OrderInvoicesProps) {
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    if (!invoiceReaders.includes(userRole)) {
+        return null;
+    }
+
+    // Manual issue for completed orders that have no invoice yet, e.g. ones
+    // completed before invoicing was introduced
+    const canIssue =
+        invoiceIssuers.includes(userRole) &&
+        (orderStatus === "completed" || orderStatus === "partial_complete") &&
+        !invoices.some((invoice) => invoice.kind === "invoice");
+
+    const handleIssue = async () => {
+        setIsSubmitting(true);
+        try {
+            const result = await issueInvoice(orderId);
+            if (result.success) {
+                toast.success(result.message);
+                onChanged();
+            } else {
+                toast.error(result.message);
+            }
+        } catch (error) {
+            console.error("Issue invoice error:", error);
+            toast.error("An unexpected error occurred");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                        <FileText className="w-5 h-5" />
+                        Invoices ({invoices.length})
+                    </CardTitle>
+                    {canIssue && (
+                        <Button size="sm" variant="outline" onClick={handleIssue} disabled={isSubmitting}>
+                            Issue Invoice
+                        </Button>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {invoices.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">
+                        The order is invoiced when it is completed.
+                    </p>
+                ) : (
+                    invoices.map((invoice) => (
+                        <div
+                            key={invoice.id}
+                            className="flex items-center justify-between rounded-md border p-3 text-sm"
+                        >
+                            <div className="space-y-1">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{invoice.invoiceNumber}</span>
+                                    <Badge
+                                        className={
+                                            invoice.kind === "invoice"
+                                                ? "bg-blue-100 text-blue-800"
+                                                : "bg-orange-100 text-orange-800"
+                                        }
+                                    >
+                                        {invoice.kind === "invoice" ? "Invoice" : "Credit note"}
+                                    </Badge>
+                                </div>
+                                <p className="text-muted-foreground">
+                                    {new Date(invoice.issuedAt).toLocaleString()}
+                                    {invoice.reason && ` · ${invoice.reason}`}
+                                </p>
+                            </div>
+                            <div className="flex items-center gap-3">
+                                <span className="font-medium">
+                                    {invoice.kind === "credit_note" && "-"}
+                                    {formatMoney(invoice.total, invoice.currency)}
+                                </span>
+                                <Button size="sm" variant="outline" asChild>
+                                    <a href={`/api/invoices/${invoice.id}/pdf`}>
+                                        <Download className="w-4 h-4 mr-1" />
+                                        PDF
+                                    </a>
+                                </Button>
+                            </div>
+                        </div>
+                    ))
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -0,0 +1,258 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { RotateCcw, Truck, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+    resubmitRejectedOrder,
+    returnOrderToWarehouse,
+    reshipOrder,
+} from "@/server/orders";
+
+// Ways out of the statuses that used to be dead ends
+type RecoveryPath = "resubmit_rejected" | "return_to_warehouse" | "reship";
+
+interface OrderRecoveryButtonProps {
+    order: {
+        id: string;
+        orderNumber: string;
+        status: string;
+        version: number;
+        createdBy: string | null;
+        rejectionReason: string | null;
+        warehouseRejectionReason: string | null;
+        completionNotes: string | null;
+    };
+    userRole: string;
+    userId: string;
+    // Carriers offered when reshipping, untracked when empty
+    carriers?: { code: string; name: string }[];
+    onChanged: () => void;
+    onConflict?: () => void;
+}
+
+function recoveryPath(
+    order: OrderRecoveryButtonProps["order"],
+    userRole: string,
+    userId: string
+): RecoveryPath | null {
+    if (
+        order.status === "rejected" &&
+        userRole === "sales" &&
+        order.createdBy === userId
+    ) {
+        return "resubmit_rejected";
+    }
+    if (
+        order.status === "warehouse_rejected" &&
+        (userRole === "accountant" || userRole === "admin")
+    ) {
+        return "return_to_warehouse";
+    }
+    if (order.status === "failed" && userRole === "shipper") {
+        return "reship";
+    }
+    return null;
+}
+
+const labels: Record<RecoveryPath, { button: string; title: string }> = {
+    resubmit_rejected: { button: "Resubmit", title: "Resubmit Rejected Order" },
+    return_to_warehouse: {
+        button: "Back to Warehouse",
+        title: "Send Order Back to Warehouse",
+    },
+    reship: { button: "Reship", title: "Reship Failed Order" },
+};
+
+export function OrderRecoveryButton({
+    order,
+    userRole,
+    userId,
+    carriers = [],
+    onChanged,
+    onConflict,
+}: OrderRecoveryButtonProps) {
+    const [open, setOpen] = useState(false);
+    const [notes, setNotes] = useState("");
+    const [trackingNumber, setTrackingNumber] = useState("");
+    const [carrier, setCarrier] = useState("");
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const path = recoveryPath(order, userRole, userId);
+    if (!path) return null;
+
+    const canSubmit =
+        path === "return_to_warehouse"
+            ? !!notes.trim()
+            : path === "reship"
+            ? !!trackingNumber.trim()
+            : true;
+
+    const handleSubmit = async () => {
+        setIsSubmitting(true);
+        try {
+            const result =
+                path === "resubmit_rejected"
+                    ? await resubmitRejectedOrder(order.id, notes, order.version)
+                    : path === "return_to_warehouse"
+                    ? await returnOrderToWarehouse(order.id, notes, order.version)
+                    : await reshipOrder(
+                          order.id,
+                          trackingNumber,
+                          notes,
+                          carrier || undefined,
+                          order.version
+                      );
+            if (result.success) {
+                toast.success(result.message);
+                setOpen(false);
+                setNotes("");
+                setTrackingNumber("");
+                setCarrier("");
+                onChanged();
+            } else if (result.conflict) {
+                toast.error(result.message, {
+                    action: {
+                        label: "Refresh",
+                        onClick: () => (onConflict ?? onChanged)(),
+                    },
+                });
+            } else {
+                toast.error(result.message);
+            }
+        } catch (error) {
+            console.error("Order recovery error:", error);
+            toast.error("An unexpected error occurred");
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    return (
+        <Dialog open={open} onOpenChange={setOpen}>
+            <DialogTrigger asChild>
+                <Button size="sm" variant="outline">
+                    {path === "resubmit_rejected" ? (
+                        <RotateCcw className="w-4 h-4 mr-1" />
+                    ) : path === "return_to_warehouse" ? (
+                        <Undo2 className="w-4 h-4 mr-1" />
+                    ) : (
+                        <Truck className="w-4 h-4 mr-1" />
+                    )}
+                    {labels[path].button}
+                </Button>
+            </DialogTrigger>
+            <DialogContent>
+                <DialogHeader>
+                    <DialogTitle>
+                        {labels[path].title} - {order.orderNumber}
+                    </DialogTitle>
+                </DialogHeader>
+                <div className="space-y-4">
+                    {path === "resubmit_rejected" && (
+                        <p className="text-sm text-muted-foreground">
+                            Rejected: {order.rejectionReason || "no reason given"}.
+                            Edit the order first if needed; it goes back to the
+                            accountant for approval from scratch.
+                        </p>
+                    )}
+                    {path === "return_to_warehouse" && (
+                        <p className="text-sm text-muted-foreground">
+                            Warehouse rejected the order:{" "}
+                            {order.warehouseRejectionReason || "no reason given"}.
+                            Stock is reserved again and the warehouse is asked
+                            to confirm.
+                        </p>
+                    )}
+                    {path === "reship" && (
+                        <>
+                            <p className="text-sm text-muted-foreground">
+                                Delivery failed:{" "}
+                                {order.completionNotes || "no reason given"}.
+                                Every undelivered parcel goes out again as one
+                                new shipment.
+                            </p>
+                            {carriers.length > 0 && (
+                                <div className="space-y-2">
+                                    <Label>Carrier (Optional)</Label>
+                                    <Select
+                                        value={carrier || "none"}
+                                        onValueChange={(value) =>
+                                            setCarrier(value === "none" ? "" : value)
+                                        }
+                                    >
+                                        <SelectTrigger>
+                                            <SelectValue />
+                                        </SelectTrigger>
+                                        <SelectContent>
+                                            <SelectItem value="none">
+                                                Not tracked
+                                            </SelectItem>
+                                            {carriers.map((option) => (
+                                                <SelectItem
+                                                    key={option.code}
+                                                    value={option.code}
+                                                >
+                                                    {option.name}
+                                                </SelectItem>
+                                            ))}
+                                        </SelectContent>
+                                    </Select>
+                                </div>
+                            )}
+                            <div className="space-y-2">
+                                <Label>New Tracking Number</Label>
+                                <Input
+                                    placeholder="Enter tracking number..."
+                                    value={trackingNumber}
+                                    onChange={(e) => setTrackingNumber(e.target.value)}
+                                />
+                            </div>
+                        </>
+                    )}
+                    <div className="space-y-2">
+                        <Label>
+                            {path === "return_to_warehouse"
+                                ? "What was fixed"
+                                : "Notes (Optional)"}
+                        </Label>
+                        <Textarea
+                            value={notes}
+                            onChange={(e) => setNotes(e.target.value)}
+                            rows={3}
+                        />
+                    </div>
+                    <div className="flex justify-end gap-2">
+                        <Button variant="outline" onClick={() => setOpen(false)}>
+                            Cancel
+                        </Button>
+                        <Button
+                            onClick={handleSubmit}
+                            disabled={isSubmitting || !canSubmit}
+                        >
+                            {isSubmitting ? "Saving..." : labels[path].button}
+                        </Button>
+                    </div>
+                </div>
+            </DialogContent>
+        </Dialog>
+    );
+}
@@ -0,0 +1,407 @@
+"use client";
+
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import {
+    Dialog,
+    DialogContent,
+    DialogHeader,
+    DialogTitle,
+    DialogTrigger,
+} from "@/components/ui/dialog";
+import {
+    Select,
+    SelectContent,
+    SelectItem,
+    SelectTrigger,
+    SelectValue,
+} from "@/components/ui/select";
+import { CheckCircle, XCircle, PackageOpen, Undo2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+    createReturnRequest,
+    approveReturn,
+    rejectReturn,
+    receiveReturn,
+} from "@/server/returns";
+import type { ReturnReason } from "@/lib/return-workflow";
+import { formatMoney } from "@/lib/currency";
+
+const reasonLabels: Record<ReturnReason, string> = {
+    damaged: "Damaged",
+    defective: "Defective",
+    wrong_item: "Wrong item",
+    not_as_described: "Not as described",
+    no_longer_needed: "No longer needed",
+    other: "Other",
+};
+
+interface ReturnableItem {
+    id: string;
+    name: string;
+    price: string;
+    quantityShipped: number | null;
+    quantityReturned: number | null;
+}
+
+export interface ReturnRequestEntry {
+    id: string;
+    rmaNumber: string;
+    status: string;
+    notes: string | null;
+    rejectionReason: string | null;
+    refundAmount: string | null;
+    createdAt: string | Date;
+    requestedByUser?: { id: string; name: string } | null;
+    items: Array<{
+        id: string;
+        orderItemId: string;
+        quantity: number;
+        quantityReceived: number | null;
+        reasonCode: ReturnReason;
+    }>;
+}
+
+interface OrderReturnsProps {
+    orderId: string;
+    orderStatus: string;
+    currency: string;
+    userRole: string;
+    items: ReturnableItem[];
+    returns: ReturnRequestEntry[];
+    onChanged: () => void;
+}
+
+const getReturnStatusColor = (status: string) => {
+    switch (status) {
+        case "requested":
+            return "bg-yellow-100 text-yellow-800";
+        case "approved":
+            return "bg-blue-100 text-blue-800";
+        case "rejected":
+            return "bg-red-100 text-red-800";
+        case "received":
+            return "bg-green-100 text-green-800";
+        default:
+            return "bg-gray-100 text-gray-800";
+    }
+};
+
+export function OrderReturns({
+    orderId,
+    orderStatus,
+    currency,
+    userRole,
+    items,
+    returns,
+    onChanged,
+}: OrderReturnsProps) {
+    const [quantities, setQuantities] = useState<Record<string, number>>({});
+    const [reasons, setReasons] = useState<Record<string, ReturnReason>>({});
+    const [notes, setNotes] = useState("");
+    const [rejectReason, setRejectReason] = useState("");
+    const [received, setReceived] = useState<Record<string, number>>({});
+    const [isSubmitting, setIsSubmitting] = useState(false);
+
+    const canRequest =
+        (userRole === "sales" || userRole === "admin") &&
+        (orderStatus === "completed" || orderStatus === "partial_complete");
+
+    // Shipped quantity not yet returned or on an open return
+    const returnableOf = (item: ReturnableItem) => {
+        const open = returns
+            .filter((r) => r.status === "requested" || r.status === "approved")
+            .flatMap((r) => r.items)
+            .filter((line) => line.orderItemId === item.id)
+            .reduce((sum, line) => sum + line.quantity, 0);
+        return (item.quantityShipped ?? 0) - (item.quantityReturned ?? 0) - open;
+    };
+
+    const itemOf = (orderItemId: string) =>
+        items.find((item) => item.id === orderItemId);
+
+    const run = async (action: () => Promise<{ success: boolean; message: string }>) => {
+        setIsSubmitting(true);
+        try {
+            const result = await action();
+            if (result.success) {
+                toast.success(result.message);
+                onChanged();
+            } else {
+                toast.error(result.message);
+            }
+            return result.success;
+        } catch (error) {
+            console.error("Return action error:", error);
+            toast.error("An unexpected error occurred");
+            return false;
+        } finally {
+            setIsSubmitting(false);
+        }
+    };
+
+    const handleRequestReturn = async () => {
+        const success = await run(() =>
+            createReturnRequest(orderId, {
+                items: Object.entries(quantities)
+                    .filter(([, quantity]) => quantity > 0)
+                    .map(([orderItemId, quantity]) => ({
+                        orderItemId,
+                        quantity,
+                        reasonCode: reasons[orderItemId] ?? "other",
+                    })),
+                notes: notes || undefined,
+            })
+        );
+        if (success) {
+            setQuantities({});
+            setReasons({});
+            setNotes("");
+        }
+    };
+
+    const handleReceive = async (returnRequest: ReturnRequestEntry) => {
+        await run(() =>
+            receiveReturn(
+                returnRequest.id,
+                returnRequest.items.map((line) => ({
+                    returnItemId: line.id,
+                    quantity: received[line.id] ?? line.quantity,
+                }))
+            )
+        );
+        setReceived({});
+    };
+
+    return (
+        <Card>
+            <CardHeader>
+                <div className="flex items-center justify-between">
+                    <CardTitle className="flex items-center gap-2">
+                        <Undo2 className="w-5 h-5" />
+                        Returns ({returns.length})
+                    </CardTitle>
+                    {canRequest && (
+                        <Dialog>
+                            <DialogTrigger asChild>
+                                <Button size="sm" variant="outline">
+                                    Request Return
+                                </Button>
+                            </DialogTrigger>
+                            <DialogContent className="max-w-2xl">
+                                <DialogHeader>
+                                    <DialogTitle>Request Return</DialogTitle>
+                                </DialogHeader>
+                                <div className="space-y-4">
+                                    {items.map((item) => (
+                                        <div key={item.id} className="grid grid-cols-3 items-center gap-3">
+                                            <span className="text-sm">
+                                                {item.name}{" "}
+                                                <span className="text-muted-foreground">
+                                                    ({Math.max(returnableOf(item), 0)} returnable)
+                                                </span>
+                                            </span>
+                                            <Input
+                                                type="number"
+                                                min="0"
+                                                max={Math.max(returnableOf(item), 0)}
+                                                disabled={returnableOf(item) <= 0}
+                                                value={quantities[item.id] ?? 0}
+                                                onChange={(e) =>
+                                                    setQuantities((prev) => ({
+                                                        ...prev,
+                                                        [item.id]: parseInt(e.target.value) || 0,
+                                                    }))
+                                                }
+                                            />
+                                            <Select
+                                                value={reasons[item.id]}
+                                                onValueChange={(value) =>
+                                                    setReasons((prev) => ({
+                                                        ...prev,
+                                                        [item.id]: value as ReturnReason,
+                                                    }))
+                                                }
+                                                disabled={returnableOf(item) <= 0}
+                                            >
+                                                <SelectTrigger>
+                                                    <SelectValue placeholder="Reason" />
+                                                </SelectTrigger>
+                                                <SelectContent>
+                                                    {Object.entries(reasonLabels).map(([value, label]) => (
+                                                        <SelectItem key={value} value={value}>
+                                                            {label}
+                                                        </SelectItem>
+                                                    ))}
+                                                </SelectContent>
+                                            </Select>
+                                        </div>
+                                    ))}
+                                    <Textarea
+                                        placeholder="Notes for the accountant (optional)"
+                                        value={notes}
+                                        onChange={(e) => setNotes(e.target.value)}
+                                    />
+                                    <Button onClick={handleRequestReturn} disabled={isSubmitting}>
+                                        Submit Return Request
+                                    </Button>
+                                </div>
+                            </DialogContent>
+                        </Dialog>
+                    )}
+                </div>
+            </CardHeader>
+            <CardContent className="space-y-3">
+                {returns.length === 0 ? (
+                    <p className="text-sm text-muted-foreground">No returns for this order.</p>
+                ) : (
+                    returns.map((returnRequest) => (
+                        <div key={returnRequest.id} className="rounded-md border p-3 text-sm space-y-2">
+                            <div className="flex items-center justify-between">
+                                <div className="flex items-center gap-2">
+                                    <span className="font-medium">{returnRequest.rmaNumber}</span>
+                                    <Badge className={getReturnStatusColor(returnRequest.status)}>
+                                        {returnRequest.status}
+                                    </Badge>
+                                </div>
+                                <span className="text-muted-foreground">
+                                    {new Date(returnRequest.createdAt).toLocaleString()}
+                                    {returnRequest.requestedByUser &&
+                                        ` · ${returnRequest.requestedByUser.name}`}
+                                </span>
+                            </div>
+
+                            <ul className="list-disc pl-5">
+                                {returnRequest.items.map((line) => (
+                                    <li key={line.id}>
+                                        {line.quantity} × {itemOf(line.orderItemId)?.name ?? "Unknown item"}{" "}
+                                        <span className="text-muted-foreground">
+                                            ({reasonLabels[line.reasonCode]})
+                                            {line.quantityReceived !== null &&
+                                                ` · ${line.quantityReceived} received`}
+                                        </span>
+                                    </li>
+                                ))}
+                            </ul>
+
+                            {returnRequest.notes && (
+                                <p className="text-muted-foreground">{returnRequest.notes}</p>
+                            )}
+                            {returnRequest.rejectionReason && (
+                                <p className="text-red-600">Rejected: {returnRequest.rejectionReason}</p>
+                            )}
+                            {returnRequest.refundAmount !== null && (
+                                <p className="font-medium">
+                                    Refund:{" "}
+                                    {formatMoney(
+                                        returnRequest.refundAmount,
+                                        currency
+                                    )}
+                                </p>
+                            )}
+
+                            {/* Accountant decision */}
+                            {(userRole === "accountant" || userRole === "admin") &&
+                                returnRequest.status === "requested" && (
+                                    <div className="flex gap-2">
+                                        <Button
+                                            size="sm"
+                                            disabled={isSubmitting}
+                                            onClick={() => run(() => approveReturn(returnRequest.id))}
+                                        >
+                                            <CheckCircle className="w-4 h-4 mr-1" />
+                                            Approve
+                                        </Button>
+                                        <Dialog>
+                                            <DialogTrigger asChild>
+                                                <Button size="sm" variant="destructive">
+                                                    <XCircle className="w-4 h-4 mr-1" />
+                                                    Reject
+                                                </Button>
+                                            </DialogTrigger>
+                                            <DialogContent>
+                                                <DialogHeader>
+                                                    <DialogTitle>Reject Return {returnRequest.rmaNumber}</DialogTitle>
+                                                </DialogHeader>
+                                                <div className="space-y-4">
+                                                    <Textarea
+                                                        placeholder="Enter rejection reason..."
+                                                        value={rejectReason}
+                                                        onChange={(e) => setRejectReason(e.target.value)}
+                                                    />
+                                                    <Button
+                                                        disabled={isSubmitting}
+                                                        onClick={async () => {
+                                                            const success = await run(() =>
+                                                                rejectReturn(returnRequest.id, rejectReason)
+                                                            );
+                                                            if (success) setRejectReason("");
+                                                        }}
+                                                    >
+                                                        Reject Return
+                                                    </Button>
+                                                </div>
+                                            </DialogContent>
+                                        </Dialog>
+                                    </div>
+                                )}
+
+                            {/* Warehouse receipt */}
+                            {(userRole === "warehouse" || userRole === "admin") &&
+                                returnRequest.status === "approved" && (
+                                    <Dialog>
+                                        <DialogTrigger asChild>
+                                            <Button size="sm">
+                                                <PackageOpen className="w-4 h-4 mr-1" />
+                                                Receive
+                                            </Button>
+                                        </DialogTrigger>
+                                        <DialogContent>
+                                            <DialogHeader>
+                                                <DialogTitle>Receive Return {returnRequest.rmaNumber}</DialogTitle>
+                                            </DialogHeader>
+                                            <div className="space-y-4">
+                                                {returnRequest.items.map((line) => (
+                                                    <div key={line.id} className="flex items-center justify-between gap-4">
+                                                        <span className="text-sm">
+                                                            {itemOf(line.orderItemId)?.name ?? "Unknown item"}{" "}
+                                                            <span className="text-muted-foreground">
+                                                                ({line.quantity} expected)
+                                                            </span>
+                                                        </span>
+                                                        <Input
+                                                            type="number"
+                                                            min="0"
+                                                            max={line.quantity}
+                                                            className="w-24"
+                                                            value={received[line.id] ?? line.quantity}
+                                                            onChange={(e) =>
+                                                                setReceived((prev) => ({
+                                                                    ...prev,
+                                                                    [line.id]: parseInt(e.target.value) || 0,
+                                                                }))
+                                                            }
+                                                        />
+                                                    </div>
+                                                ))}
+                                                <Button
+                                                    disabled={isSubmitting}
+                                                    onClick={() => handleReceive(returnRequest)}
+                                                >
+                                                    Confirm Receipt
+                                                </Button>
+                                            </div>
+                                        </DialogContent>
+                                    </Dialog>
+                                )}
+                        </div>
+                    ))
+                )}
+            </CardContent>
+        </Card>
+    );
+}
@@ -12,3 +12,9 @@ const client = postgres(process.env.DATABASE_URL!);
 export const db = drizzle(client, { 
   schema: { ...authSchema, ...orderSchema } 
 });
+
+// Transaction handle passed to db.transaction callbacks
+export type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+
+// Anything that can run queries: the database itself or an open transaction
+export type DbExecutor = typeof db | Transaction;
@@ -6,13 +6,20 @@ import {
     integer,
     uuid,
     boolean,
+    unique,
+    date,
+    bigserial,
+    index,
+    uniqueIndex,
+    type AnyPgColumn,
 } from "drizzle-orm/pg-core";
-import { relations } from "drizzle-orm";
+import { relations, sql } from "drizzle-orm";
 import { user } from "./auth-schema";
 
 // Order status enum for the workflow
 export const orderStatusEnum = [
     "pending", // Initial state when Sales creates order
+    "partially_approved", // Some of the required approvers signed off
     "approved", // Accountant approved
     "edit_requested", // Accountant requested edits
     "rejected", // Accountant rejected
@@ -25,6 +32,151 @@ export const orderStatusEnum = [
     "cancelled", // Cancelled order
 ] as const;
 
+// Product catalog (SKU master data) used to fill order items
+export const products = pgTable("products", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    sku: text("sku").notNull().unique(),
+    name: text("name").notNull(),
+    description: text("description"),
+    listPrice: decimal("list_price", { precision: 10, scale: 2 }).notNull(),
+    unit: text("unit").notNull().default("each"), // e.g. each, box, kg
+    category: text("category"), // Used to pick the tax rate
+    isActive: boolean("is_active").notNull().default(true), // Inactive products can't be ordered
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Discounts are either a percentage of the amount or a fixed amount
+export const discountTypeEnum = ["percentage", "fixed"] as const;
+
+// Tax rates by product category and/or region. The most specific active rate
+// wins; a rate without category and region is the default.
+export const taxRates = pgTable("tax_rates", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(), // e.g. VAT standard, Food reduced
+    rate: decimal("rate", { precision: 5, scale: 2 }).notNull(), // Percent
+    category: text("category"), // Product category, null for any
+    region: text("region"), // Order tax region, null for any
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Exchange rates maintained by accounting: 1 unit of `fromCurrency` is worth
+// `rate` units of `toCurrency` from `effectiveDate` until a newer rate applies
+export const exchangeRates = pgTable(
+    "exchange_rates",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        fromCurrency: text("from_currency").notNull(), // ISO 4217 code, e.g. EUR
+        toCurrency: text("to_currency").notNull(),
+        rate: decimal("rate", { precision: 18, scale: 8 }).notNull(),
+        effectiveDate: date("effective_date").notNull(),
+        createdBy: text("created_by").references(() => user.id, {
+            onDelete: "set null",
+        }),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        unique().on(table.fromCurrency, table.toCurrency, table.effectiveDate),
+    ]
+);
+
+// Kinds of approval policy evaluated when an order is created
+export const approvalPolicyKindEnum = [
+    "auto_approve", // Approve orders up to the threshold from known customers
+    "approval_chain", // Orders above the threshold need several approvers
+    "credit_limit", // Reject orders that push the customer over its credit limit
+] as const;
+
+// Approval rules maintained by accounting. Thresholds are in the reporting
+// currency.
+export const approvalPolicies = pgTable("approval_policies", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    kind: text("kind", { enum: approvalPolicyKindEnum }).notNull(),
+    threshold: decimal("threshold", { precision: 12, scale: 2 }), // Unused by credit_limit
+    // Role of each approver an approval_chain requires, e.g. accountant, admin
+    approverRoles: text("approver_roles").array(),
+    // Completed orders a customer needs before it counts as known (auto_approve)
+    minCompletedOrders: integer("min_completed_orders").notNull().default(1),
+    isActive: boolean("is_active").notNull().default(true),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// How orders are handed to users of a role when they reach its queue
+export const assignmentStrategyEnum = [
+    "manual", // Stay unassigned until someone assigns them
+    "round_robin", // Each user of the role in turn
+    "least_load", // User with the fewest open assigned orders
+] as const;
+
+export const assignmentRules = pgTable("assignment_rules", {
+    role: text("role").primaryKey(), // accountant, warehouse or shipper
+    strategy: text("strategy", { enum: assignmentStrategyEnum })
+        .notNull()
+        .default("manual"),
+    // Last user picked by round-robin
+    lastAssignedTo: text("last_assigned_to").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Customers with their addresses and contact people. Orders link to a
+// customer and keep a snapshot of the details they were placed with.
+export const customers = pgTable("customers", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    name: text("name").notNull(),
+    email: text("email"),
+    phone: text("phone"),
+    notes: text("notes"),
+    // Most the customer may have on open orders, in the reporting currency.
+    // No limit when null.
+    creditLimit: decimal("credit_limit", { precision: 12, scale: 2 }),
+    createdBy: text("created_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+}, (table) => [
+    // The keys findMatchingCustomer matches on, so concurrent order creates
+    // can't add the same customer twice
+    uniqueIndex("customers_email_key")
+        .on(sql`lower(trim(${table.email}))`)
+        .where(sql`${table.email} is not null`),
+    uniqueIndex("customers_name_phone_key")
+        .on(
+            sql`lower(trim(${table.name}))`,
+            sql`coalesce(regexp_replace(${table.phone}, '\\D', '', 'g'), '')`
+        )
+        .where(sql`${table.email} is null`),
+]);
+
+export const customerAddresses = pgTable("customer_addresses", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerId: uuid("customer_id")
+        .notNull()
+        .references(() => customers.id, { onDelete: "cascade" }),
+    label: text("label"), // e.g. Head office, Warehouse
+    address: text("address").notNull(),
+    isDefault: boolean("is_default").notNull().default(false),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const customerContacts = pgTable("customer_contacts", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    customerId: uuid("customer_id")
+        .notNull()
+        .references(() => customers.id, { onDelete: "cascade" }),
+    name: text("name").notNull(),
+    role: text("role"), // e.g. Purchasing, Accounts payable
+    email: text("email"),
+    phone: text("phone"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
 export const orders = pgTable("orders", {
     id: uuid("id").primaryKey().defaultRandom(),
     orderNumber: text("order_number")
@@ -33,10 +185,32 @@ export const orders = pgTable("orders", {
         .$defaultFn(
             () => `ORD-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
         ), // Auto-generated order number
+    customerId: uuid("customer_id").references(() => customers.id, {
+        onDelete: "set null",
+    }),
     customerName: text("customer_name").notNull(),
     customerEmail: text("customer_email"),
     customerPhone: text("customer_phone"),
     customerAddress: text("customer_address"),
+
+    currency: text("currency").notNull().default("USD"), // ISO 4217 code of every amount on the order
+
+    // Price breakdown: total = subtotal - discountTotal + taxTotal + shippingCharge
+    subtotal: decimal("subtotal", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"), // Sum of price × quantity
+    discountType: text("discount_type", { enum: discountTypeEnum }), // Order-level discount
+    discountValue: decimal("discount_value", { precision: 10, scale: 2 }),
+    discountTotal: decimal("discount_total", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"), // Line and order discounts
+    taxRegion: text("tax_region"),
+    taxTotal: decimal("tax_total", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"),
+    shippingCharge: decimal("shipping_charge", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"),
     total: decimal("total", { precision: 10, scale: 2 }).notNull(),
     status: text("status", { enum: orderStatusEnum })
         .notNull()
@@ -57,6 +231,13 @@ export const orders = pgTable("orders", {
         onDelete: "set null",
     }),
     approvedAt: timestamp("approved_at"),
+    requiredApprovals: integer("required_approvals").notNull().default(1), // Distinct approvers needed
+    approvalRoles: text("approval_roles").array(), // Role per required approver, any approver when null
+
+    // Rate to the reporting currency, snapshotted at approval
+    exchangeRate: decimal("exchange_rate", { precision: 18, scale: 8 }),
+    exchangeRateCurrency: text("exchange_rate_currency"),
+    exchangeRateDate: date("exchange_rate_date"), // Effective date of the rate used
 
     // Rejection/Edit request information
     rejectionReason: text("rejection_reason"),
@@ -82,6 +263,34 @@ export const orders = pgTable("orders", {
     completedAt: timestamp("completed_at"),
     completionNotes: text("completion_notes"),
 
+    // Cancellation information
+    cancellationReason: text("cancellation_reason"),
+
+    // Hold overlay: a held order keeps its status but no transition runs
+    // until the hold is released. The SLA clock stops while held.
+    heldAt: timestamp("held_at"),
+    heldBy: text("held_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    holdReason: text("hold_reason"),
+
+    // User in the role the current status waits on (lib/order-assignment.ts).
+    // Notifications for that role go to the assignee only.
+    assignedTo: text("assigned_to").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    assignedAt: timestamp("assigned_at"),
+
+    // When the current status has to be acted on (lib/order-sla.ts), null
+    // when the status has no SLA. Reminder and escalation reset on every
+    // status change.
+    dueAt: timestamp("due_at"),
+    slaRemindedAt: timestamp("sla_reminded_at"),
+    slaEscalatedAt: timestamp("sla_escalated_at"),
+
+    // Incremented on every write, used for optimistic concurrency checks
+    version: integer("version").notNull().default(0),
+
     createdAt: timestamp("created_at").defaultNow().notNull(),
     updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -91,16 +300,298 @@ export const orderItems = pgTable("order_items", {
     orderId: uuid("order_id")
         .notNull()
         .references(() => orders.id, { onDelete: "cascade" }),
+    // Catalog product the line was picked from, null for free-text items.
+    // Name, SKU and price are copied so later catalog edits don't change orders.
+    productId: uuid("product_id").references(() => products.id, {
+        onDelete: "set null",
+    }),
     name: text("name").notNull(),
     description: text("description"),
     sku: text("sku"), // Stock Keeping Unit
     price: decimal("price", { precision: 10, scale: 2 }).notNull(),
     quantity: integer("quantity").notNull(),
+    // Line discount as entered, and the discount amount including the line's
+    // share of the order discount
+    discountType: text("discount_type", { enum: discountTypeEnum }),
+    discountValue: decimal("discount_value", { precision: 10, scale: 2 }),
+    discountAmount: decimal("discount_amount", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 })
+        .notNull()
+        .default("0"), // Percent applied to the discounted amount
+    taxAmount: decimal("tax_amount", { precision: 10, scale: 2 })
+        .notNull()
+        .default("0"),
     quantityShipped: integer("quantity_shipped").default(0),
     quantityReturned: integer("quantity_returned").default(0),
     createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Tracking states reported by carriers, see lib/carriers.ts
+export const carrierEventStatusEnum = [
+    "info_received", // Carrier has the shipment details
+    "in_transit",
+    "out_for_delivery",
+    "delivered",
+    "failed", // Delivery failed or the parcel was lost
+] as const;
+
+// Shipments: an order can be shipped in several parcels, each with its own
+// tracking number and the quantities of each item it contains
+export const shipments = pgTable("shipments", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orderId: uuid("order_id")
+        .notNull()
+        .references(() => orders.id, { onDelete: "cascade" }),
+    carrier: text("carrier"), // Carrier adapter code, untracked when null
+    trackingNumber: text("tracking_number"),
+    // Latest status reported by the carrier and when it was last asked
+    trackingStatus: text("tracking_status", { enum: carrierEventStatusEnum }),
+    trackingPolledAt: timestamp("tracking_polled_at"),
+    notes: text("notes"),
+    shippedBy: text("shipped_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    shippedAt: timestamp("shipped_at").defaultNow().notNull(),
+    // Shipment that resent these parcels after a failed delivery
+    replacedBy: uuid("replaced_by").references((): AnyPgColumn => shipments.id, {
+        onDelete: "set null",
+    }),
+});
+
+export const shipmentItems = pgTable("shipment_items", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    shipmentId: uuid("shipment_id")
+        .notNull()
+        .references(() => shipments.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+        .notNull()
+        .references(() => orderItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+});
+
+// Tracking events reported by the carrier for a shipment
+export const carrierEvents = pgTable(
+    "carrier_events",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        shipmentId: uuid("shipment_id")
+            .notNull()
+            .references(() => shipments.id, { onDelete: "cascade" }),
+        externalId: text("external_id").notNull(), // Carrier's event id
+        status: text("status", { enum: carrierEventStatusEnum }).notNull(),
+        description: text("description").notNull(),
+        location: text("location"),
+        occurredAt: timestamp("occurred_at").notNull(),
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.shipmentId, table.externalId)]
+);
+
+// Inventory: stock on hand per product and warehouse location
+export const stockLocations = pgTable("stock_locations", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    code: text("code").notNull().unique(), // e.g. MAIN, A-01
+    name: text("name").notNull(),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const stockLevels = pgTable(
+    "stock_levels",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        productId: uuid("product_id")
+            .notNull()
+            .references(() => products.id, { onDelete: "cascade" }),
+        locationId: uuid("location_id")
+            .notNull()
+            .references(() => stockLocations.id, { onDelete: "cascade" }),
+        quantityOnHand: integer("quantity_on_hand").notNull().default(0),
+        quantityReserved: integer("quantity_reserved").notNull().default(0), // Held for approved orders
+        reorderPoint: integer("reorder_point").notNull().default(0), // Low-stock alert threshold
+        updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.productId, table.locationId)]
+);
+
+export const stockReservationStatusEnum = [
+    "active", // Holding stock for the order
+    "consumed", // Goods were shipped
+    "released", // Order was cancelled, rejected or failed
+] as const;
+
+export const stockReservations = pgTable("stock_reservations", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    orderId: uuid("order_id")
+        .notNull()
+        .references(() => orders.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+        .notNull()
+        .references(() => orderItems.id, { onDelete: "cascade" }),
+    stockLevelId: uuid("stock_level_id")
+        .notNull()
+        .references(() => stockLevels.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(),
+    status: text("status", { enum: stockReservationStatusEnum })
+        .notNull()
+        .default("active"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Return (RMA) workflow
+export const returnStatusEnum = [
+    "requested", // Created by sales, waiting for the accountant
+    "approved", // Accountant approved, waiting for the goods
+    "rejected", // Accountant rejected
+    "received", // Warehouse received the goods, refund is known
+] as const;
+
+export const returnReasonEnum = [
+    "damaged", // Arrived damaged
+    "defective", // Does not work
+    "wrong_item", // Not what was ordered
+    "not_as_described", // Differs from the description
+    "no_longer_needed", // Customer changed their mind
+    "other",
+] as const;
+
+export const returnRequests = pgTable("return_requests", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    rmaNumber: text("rma_number")
+        .notNull()
+        .unique()
+        .$defaultFn(
+            () => `RMA-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`
+        ),
+    orderId: uuid("order_id")
+        .notNull()
+        .references(() => orders.id, { onDelete: "cascade" }),
+    status: text("status", { enum: returnStatusEnum })
+        .notNull()
+        .default("requested"),
+    notes: text("notes"),
+
+    requestedBy: text("requested_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+
+    // Accountant decision
+    approvedBy: text("approved_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    approvedAt: timestamp("approved_at"),
+    rejectionReason: text("rejection_reason"),
+
+    // Warehouse receipt
+    receivedBy: text("received_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    receivedAt: timestamp("received_at"),
+    refundAmount: decimal("refund_amount", { precision: 10, scale: 2 }), // Set on receipt
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+export const returnItems = pgTable("return_items", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    returnRequestId: uuid("return_request_id")
+        .notNull()
+        .references(() => returnRequests.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+        .notNull()
+        .references(() => orderItems.id, { onDelete: "cascade" }),
+    quantity: integer("quantity").notNull(), // Requested
+    quantityReceived: integer("quantity_received"), // Set on receipt
+    reasonCode: text("reason_code", { enum: returnReasonEnum }).notNull(),
+});
+
+// Invoicing: an invoice bills shipped goods, a credit note reverses part of an
+// invoice after a return or cancellation. Both are immutable once issued, a
+// trigger (migration 0016) rejects updates and deletes.
+export const invoiceKindEnum = ["invoice", "credit_note"] as const;
+
+// Counters for gap-free document numbers, bumped inside the issuing
+// transaction so a rollback gives the number back
+export const documentSequences = pgTable("document_sequences", {
+    name: text("name").primaryKey(), // e.g. invoice, credit_note
+    lastValue: integer("last_value").notNull().default(0),
+});
+
+export const invoices = pgTable("invoices", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    invoiceNumber: text("invoice_number").notNull().unique(), // INV-000001, CN-000001
+    kind: text("kind", { enum: invoiceKindEnum }).notNull(),
+    orderId: uuid("order_id")
+        .notNull()
+        .references(() => orders.id, { onDelete: "restrict" }),
+    // Credit notes: the invoice they reverse and the return that caused them
+    creditedInvoiceId: uuid("credited_invoice_id").references(
+        (): AnyPgColumn => invoices.id,
+        { onDelete: "restrict" }
+    ),
+    returnRequestId: uuid("return_request_id").references(
+        () => returnRequests.id,
+        { onDelete: "restrict" }
+    ),
+
+    // Customer as billed, copied from the order
+    customerName: text("customer_name").notNull(),
+    customerEmail: text("customer_email"),
+    customerAddress: text("customer_address"),
+
+    // Amounts are positive on both invoices and credit notes
+    currency: text("currency").notNull(),
+    subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+    discountTotal: decimal("discount_total", { precision: 10, scale: 2 }).notNull(),
+    taxTotal: decimal("tax_total", { precision: 10, scale: 2 }).notNull(),
+    shippingCharge: decimal("shipping_charge", { precision: 10, scale: 2 }).notNull(),
+    total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+    reason: text("reason"), // Why a credit note was issued
+
+    issuedBy: text("issued_by").references(() => user.id, {
+        onDelete: "set null",
+    }),
+    issuedAt: timestamp("issued_at").defaultNow().notNull(),
+});
+
+export const invoiceLines = pgTable("invoice_lines", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    invoiceId: uuid("invoice_id")
+        .notNull()
+        .references(() => invoices.id, { onDelete: "cascade" }),
+    orderItemId: uuid("order_item_id")
+        .notNull()
+        .references(() => orderItems.id, { onDelete: "restrict" }),
+    name: text("name").notNull(),
+    sku: text("sku"),
+    quantity: integer("quantity").notNull(),
+    unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+    discountAmount: decimal("discount_amount", { precision: 10, scale: 2 }).notNull(),
+    taxRate: decimal("tax_rate", { precision: 5, scale: 2 }).notNull(), // Percent
+    taxAmount: decimal("tax_amount", { precision: 10, scale: 2 }).notNull(),
+    lineTotal: decimal("line_total", { precision: 10, scale: 2 }).notNull(), // After discount, with tax
+});
+
+// Approvals given so far on orders that need more than one approver
+export const orderApprovals = pgTable(
+    "order_approvals",
+    {
+        id: uuid("id").primaryKey().defaultRandom(),
+        orderId: uuid("order_id")
+            .notNull()
+            .references(() => orders.id, { onDelete: "cascade" }),
+        approvedBy: text("approved_by")
+            .notNull()
+            .references(() => user.id, { onDelete: "cascade" }),
+        role: text("role"), // Approver role the approval counted for
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [unique().on(table.orderId, table.approvedBy)]
+);
+
 // Order history for tracking all changes and state transitions
 export const orderHistory = pgTable("order_history", {
     id: uuid("id").primaryKey().defaultRandom(),
@@ -149,7 +640,7 @@ export const orderComments = pgTable("order_comments", {
 
     // Reply system
     parentCommentId: uuid("parent_comment_id").references(
-        () => orderComments.id,
+        (): AnyPgColumn => orderComments.id,
         { onDelete: "cascade" }
     ),
 
@@ -193,12 +684,97 @@ export const notifications = pgTable("notifications", {
     createdAt: timestamp("created_at").defaultNow().notNull(),
 });
 
+// Transactional outbox: side effects written in the same transaction as the
+// order change and delivered afterwards by lib/outbox.ts
+export const outboxKindEnum = [
+    "notification", // Insert an in-app notification and push it over SSE
+    "sse", // Real-time event for a user or a role
+    "change_history", // Entry for the Upstash change history store
+] as const;
+
+export const outboxStatusEnum = [
+    "pending", // Waiting for (re)delivery
+    "delivered", // Delivered successfully
+    "dead", // Gave up after too many failed attempts
+] as const;
+
+export const outbox = pgTable("outbox", {
+    id: uuid("id").primaryKey().defaultRandom(),
+    kind: text("kind", { enum: outboxKindEnum }).notNull(),
+    payload: text("payload").notNull(), // JSON payload for the handler
+    status: text("status", { enum: outboxStatusEnum })
+        .notNull()
+        .default("pending"),
+    attempts: integer("attempts").notNull().default(0),
+    lastError: text("last_error"),
+    availableAt: timestamp("available_at").defaultNow().notNull(), // Next attempt
+    deliveredAt: timestamp("delivered_at"),
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+// Real-time events per recipient, replayed to clients that reconnect with
+// Last-Event-ID. The serial id is the SSE event id; old rows are pruned.
+// Topic events are logged too so instances can pass them on by id.
+export const sseEvents = pgTable(
+    "sse_events",
+    {
+        id: bigserial("id", { mode: "number" }).primaryKey(),
+        // Recipient, or null for a topic event
+        userId: text("user_id").references(() => user.id, {
+            onDelete: "cascade",
+        }),
+        // Watched topic of a topic event, which is never replayed
+        topic: text("topic"),
+        type: text("type").notNull(),
+        payload: text("payload").notNull(), // JSON of the whole event
+        createdAt: timestamp("created_at").defaultNow().notNull(),
+    },
+    (table) => [
+        index("sse_events_user_id_id_idx").on(table.userId, table.id),
+        index("sse_events_created_at_idx").on(table.createdAt),
+    ]
+);
+
 // Define relationships
+export const customersRelations = relations(customers, ({ many }) => ({
+    addresses: many(customerAddresses),
+    contacts: many(customerContacts),
+    orders: many(orders),
+}));
+
+export const customerAddressesRelations = relations(
+    customerAddresses,
+    ({ one }) => ({
+        customer: one(customers, {
+            fields: [customerAddresses.customerId],
+            references: [customers.id],
+        }),
+    })
+);
+
+export const customerContactsRelations = relations(
+    customerContacts,
+    ({ one }) => ({
+        customer: one(customers, {
+            fields: [customerContacts.customerId],
+            references: [customers.id],
+        }),
+    })
+);
+
 export const ordersRelations = relations(orders, ({ many, one }) => ({
     orderItems: many(orderItems),
     orderHistory: many(orderHistory),
     orderComments: many(orderComments),
     notifications: many(notifications),
+    shipments: many(shipments),
+    returnRequests: many(returnRequests),
+    approvals: many(orderApprovals),
+    invoices: many(invoices),
+    customer: one(customers, {
+        fields: [orders.customerId],
+        references: [customers.id],
+    }),
     createdByUser: one(user, {
         fields: [orders.createdBy],
         references: [user.id],
@@ -219,15 +795,170 @@ export const ordersRelations = relations(orders, ({ many, one }) => ({
         fields: [orders.shippedBy],
         references: [user.id],
     }),
+    assignedToUser: one(user, {
+        fields: [orders.assignedTo],
+        references: [user.id],
+    }),
+    heldByUser: one(user, {
+        fields: [orders.heldBy],
+        references: [user.id],
+    }),
+}));
+
+export const productsRelations = relations(products, ({ many }) => ({
+    orderItems: many(orderItems),
+    stockLevels: many(stockLevels),
+}));
+
+export const stockLocationsRelations = relations(
+    stockLocations,
+    ({ many }) => ({
+        stockLevels: many(stockLevels),
+    })
+);
+
+export const stockLevelsRelations = relations(stockLevels, ({ one, many }) => ({
+    product: one(products, {
+        fields: [stockLevels.productId],
+        references: [products.id],
+    }),
+    location: one(stockLocations, {
+        fields: [stockLevels.locationId],
+        references: [stockLocations.id],
+    }),
+    reservations: many(stockReservations),
 }));
 
-export const orderItemsRelations = relations(orderItems, ({ one }) => ({
+export const stockReservationsRelations = relations(
+    stockReservations,
+    ({ one }) => ({
+        order: one(orders, {
+            fields: [stockReservations.orderId],
+            references: [orders.id],
+        }),
+        orderItem: one(orderItems, {
+            fields: [stockReservations.orderItemId],
+            references: [orderItems.id],
+        }),
+        stockLevel: one(stockLevels, {
+            fields: [stockReservations.stockLevelId],
+            references: [stockLevels.id],
+        }),
+    })
+);
+
+export const orderItemsRelations = relations(orderItems, ({ one, many }) => ({
     order: one(orders, {
         fields: [orderItems.orderId],
         references: [orders.id],
     }),
+    product: one(products, {
+        fields: [orderItems.productId],
+        references: [products.id],
+    }),
+    shipmentItems: many(shipmentItems),
+    returnItems: many(returnItems),
+    stockReservations: many(stockReservations),
 }));
 
+export const shipmentsRelations = relations(shipments, ({ one, many }) => ({
+    order: one(orders, {
+        fields: [shipments.orderId],
+        references: [orders.id],
+    }),
+    shippedByUser: one(user, {
+        fields: [shipments.shippedBy],
+        references: [user.id],
+    }),
+    items: many(shipmentItems),
+    carrierEvents: many(carrierEvents),
+}));
+
+export const shipmentItemsRelations = relations(shipmentItems, ({ one }) => ({
+    shipment: one(shipments, {
+        fields: [shipmentItems.shipmentId],
+        references: [shipments.id],
+    }),
+    orderItem: one(orderItems, {
+        fields: [shipmentItems.orderItemId],
+        references: [orderItems.id],
+    }),
+}));
+
+export const carrierEventsRelations = relations(carrierEvents, ({ one }) => ({
+    shipment: one(shipments, {
+        fields: [carrierEvents.shipmentId],
+        references: [shipments.id],
+    }),
+}));
+
+export const returnRequestsRelations = relations(
+    returnRequests,
+    ({ one, many }) => ({
+        order: one(orders, {
+            fields: [returnRequests.orderId],
+            references: [orders.id],
+        }),
+        requestedByUser: one(user, {
+            fields: [returnRequests.requestedBy],
+            references: [user.id],
+        }),
+        items: many(returnItems),
+    })
+);
+
+export const returnItemsRelations = relations(returnItems, ({ one }) => ({
+    returnRequest: one(returnRequests, {
+        fields: [returnItems.returnRequestId],
+        references: [returnRequests.id],
+    }),
+    orderItem: one(orderItems, {
+        fields: [returnItems.orderItemId],
+        references: [orderItems.id],
+    }),
+}));
+
+export const invoicesRelations = relations(invoices, ({ one, many }) => ({
+    order: one(orders, {
+        fields: [invoices.orderId],
+        references: [orders.id],
+    }),
+    returnRequest: one(returnRequests, {
+        fields: [invoices.returnRequestId],
+        references: [returnRequests.id],
+    }),
+    issuedByUser: one(user, {
+        fields: [invoices.issuedBy],
+        references: [user.id],
+    }),
+    lines: many(invoiceLines),
+}));
+
+export const invoiceLinesRelations = relations(invoiceLines, ({ one }) => ({
+    invoice: one(invoices, {
+        fields: [invoiceLines.invoiceId],
+        references: [invoices.id],
+    }),
+    orderItem: one(orderItems, {
+        fields: [invoiceLines.orderItemId],
+        references: [orderItems.id],
+    }),
+}));
+
+export const orderApprovalsRelations = relations(
+    orderApprovals,
+    ({ one }) => ({
+        order: one(orders, {
+            fields: [orderApprovals.orderId],
+            references: [orders.id],
+        }),
+        approvedByUser: one(user, {
+            fields: [orderApprovals.approvedBy],
+            references: [user.id],
+        }),
+    })
+);
+
 export const orderHistoryRelations = relations(orderHistory, ({ one }) => ({
     order: one(orders, {
         fields: [orderHistory.orderId],
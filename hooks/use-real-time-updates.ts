@@ -2,25 +2,35 @@
 
 import { useState, useEffect, useCallback, useRef } from "react";
 import { toast } from "sonner";
+import {
+    sseMessageSchema,
+    type RealTimeEvent,
+    type RealTimeEventData,
+    type RealTimeEventOf,
+    type RealTimeEventType,
+} from "@/lib/sse-events";
 
-interface RealTimeUpdate {
-    type:
-        | "order_status_changed"
-        | "new_comment"
-        | "new_notification"
-        | "order_created"
-        | "order_updated";
-    data: any;
-    timestamp: string;
-}
+type RealTimeHandler<T extends RealTimeEventType> = (
+    event: RealTimeEventOf<T>
+) => void;
+
+// Logged event ids remembered to drop duplicates
+const MAX_SEEN_EVENT_IDS = 500;
 
 interface UseRealTimeUpdatesOptions {
     userId: string;
     userRole: string;
     onOrderUpdate?: (orderId: string, newStatus: string) => void;
-    onNewComment?: (orderId: string, comment: any) => void;
-    onNewNotification?: (notification: any) => void;
-    onOrderCreated?: (order: any) => void;
+    onNewComment?: (
+        orderId: string,
+        comment: RealTimeEventData<"new_comment">["comment"]
+    ) => void;
+    onNewNotification?: (
+        notification: RealTimeEventData<"new_notification">
+    ) => void;
+    onOrderCreated?: (order: RealTimeEventData<"order_created">) => void;
+    // Missed updates could not be replayed; reload the page's data
+    onResync?: () => void;
     enableBrowserNotifications?: boolean;
 }
 
@@ -31,6 +41,7 @@ export function useRealTimeUpdates({
     onNewComment,
     onNewNotification,
     onOrderCreated,
+    onResync,
     enableBrowserNotifications = true,
 }: UseRealTimeUpdatesOptions) {
     const [isConnected, setIsConnected] = useState(false);
@@ -39,6 +50,23 @@ export function useRealTimeUpdates({
     const eventSourceRef = useRef<EventSource | null>(null);
     const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null);
     const reconnectAttempts = useRef(0);
+    // Id of the last logged event received, to resume from on reconnect
+    const lastEventIdRef = useRef<number | null>(null);
+    // Ids can arrive out of order when events are logged concurrently, so
+    // duplicates are found by id rather than against the last one
+    const seenEventIdsRef = useRef(new Set<number>());
+    const replayedCount = useRef(0);
+    // Server id of the open connection, needed to change its topics
+    const connectionIdRef = useRef<string | null>(null);
+    const hasConnectedRef = useRef(false);
+    // Handlers added with watchTopic(), by topic
+    const topicHandlersRef = useRef(
+        new Map<string, Set<(event: RealTimeEvent) => void>>()
+    );
+    // Handlers added with subscribe(), by event type
+    const subscribersRef = useRef(
+        new Map<RealTimeEventType, Set<(event: RealTimeEvent) => void>>()
+    );
     const maxReconnectAttempts = 5;
 
     // Request browser notification permission
@@ -97,13 +125,25 @@ export function useRealTimeUpdates({
 
     // Handle real-time updates
     const handleUpdate = useCallback(
-        (update: RealTimeUpdate) => {
+        (update: RealTimeEvent) => {
             setLastUpdate(new Date());
 
+            for (const handler of subscribersRef.current.get(update.type) ?? []) {
+                handler(update);
+            }
+
+            // Replayed updates only refresh state; one summary toast is shown
+            // once the replay completes
+            if (update.replayed) {
+                replayedCount.current++;
+            }
+            const live = !update.replayed;
+
             switch (update.type) {
                 case "order_status_changed":
                     const { orderId, newStatus, orderNumber } = update.data;
                     onOrderUpdate?.(orderId, newStatus);
+                    if (!live) break;
 
                     // Show toast notification
                     toast.success(
@@ -125,6 +165,7 @@ export function useRealTimeUpdates({
                         orderNumber: commentOrderNumber,
                     } = update.data;
                     onNewComment?.(commentOrderId, comment);
+                    if (!live) break;
 
                     toast.info(`New comment on order ${commentOrderNumber}`);
                     showBrowserNotification(
@@ -137,12 +178,13 @@ export function useRealTimeUpdates({
                 case "new_notification":
                     const notification = update.data;
                     onNewNotification?.(notification);
+                    if (!live) break;
 
                     toast.info(notification.title);
                     showBrowserNotification(
                         notification.title,
                         notification.message,
-                        notification.orderId
+                        notification.orderId ?? undefined
                     );
                     break;
 
@@ -151,7 +193,7 @@ export function useRealTimeUpdates({
                     onOrderCreated?.(newOrder);
 
                     // Only show notification if user is not the creator
-                    if (newOrder.createdBy !== userId) {
+                    if (live && newOrder.createdBy !== userId) {
                         toast.info(`New order ${newOrder.orderNumber} created`);
                         showBrowserNotification(
                             "New Order Created",
@@ -163,11 +205,9 @@ export function useRealTimeUpdates({
 
                 case "order_updated":
                     const updatedOrder = update.data;
+                    if (!live) break;
                     toast.info(`Order ${updatedOrder.orderNumber} updated`);
                     break;
-
-                default:
-                    console.log("Unknown update type:", update.type);
             }
         },
         [
@@ -180,6 +220,29 @@ export function useRealTimeUpdates({
         ]
     );
 
+    // Tell the server which topics this connection watches
+    const syncTopics = useCallback(async () => {
+        const connectionId = connectionIdRef.current;
+        if (!connectionId) return;
+
+        try {
+            const response = await fetch("/api/sse/topics", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({
+                    connectionId,
+                    topics: [...topicHandlersRef.current.keys()],
+                }),
+            });
+            const result = await response.json();
+            if (result.rejected?.length) {
+                console.warn("SSE topics not allowed:", result.rejected);
+            }
+        } catch (error) {
+            console.error("Failed to update SSE topics:", error);
+        }
+    }, []);
+
     // Connect to SSE endpoint
     const connect = useCallback(() => {
         // Don't connect if userId is not available
@@ -196,7 +259,12 @@ export function useRealTimeUpdates({
             console.log(
                 `Establishing SSE connection for user: ${userId} (${userRole})`
             );
-            const eventSource = new EventSource(`/api/sse`);
+            // A new EventSource doesn't send Last-Event-ID, so pass it along
+            const eventSource = new EventSource(
+                lastEventIdRef.current !== null
+                    ? `/api/sse?lastEventId=${lastEventIdRef.current}`
+                    : `/api/sse`
+            );
             eventSourceRef.current = eventSource;
 
             eventSource.onopen = () => {
@@ -208,7 +276,96 @@ export function useRealTimeUpdates({
 
             eventSource.onmessage = (event) => {
                 try {
-                    const update: RealTimeUpdate = JSON.parse(event.data);
+                    const parsed = sseMessageSchema.safeParse(
+                        JSON.parse(event.data)
+                    );
+                    if (!parsed.success) {
+                        console.error(
+                            "Ignoring SSE message that breaks the event contract:",
+                            parsed.error
+                        );
+                        return;
+                    }
+                    const update = parsed.data;
+
+                    // The server closed this tab's connection to make room
+                    // for newer ones; reconnecting would push out another tab
+                    if (update.type === "connection_evicted") {
+                        eventSource.close();
+                        eventSourceRef.current = null;
+                        setIsConnected(false);
+                        setConnectionError(
+                            "Live updates paused: too many open tabs or devices"
+                        );
+                        return;
+                    }
+
+                    if (update.type === "replay_complete") {
+                        if (replayedCount.current > 0) {
+                            toast.info(
+                                `Caught up on ${replayedCount.current} missed update${
+                                    replayedCount.current === 1 ? "" : "s"
+                                }`
+                            );
+                        }
+                        replayedCount.current = 0;
+                        return;
+                    }
+
+                    // The gap can't be replayed: start over from fresh data
+                    if (update.type === "resync_required") {
+                        replayedCount.current = 0;
+                        lastEventIdRef.current = null;
+                        onResync?.();
+                        return;
+                    }
+
+                    if (update.type === "connection_established") {
+                        connectionIdRef.current = update.data.connectionId;
+                        if (topicHandlersRef.current.size > 0) {
+                            syncTopics();
+                            // Topic events aren't replayed, so reload what
+                            // is watched after a reconnect
+                            if (hasConnectedRef.current) onResync?.();
+                        }
+                        hasConnectedRef.current = true;
+                        return;
+                    }
+
+                    if (update.type === "heartbeat") {
+                        return;
+                    }
+
+                    // Topic events go to the topic's handlers only, and carry
+                    // no id of their own
+                    if (update.topic) {
+                        setLastUpdate(new Date());
+                        for (const handler of topicHandlersRef.current.get(
+                            update.topic
+                        ) ?? []) {
+                            handler(update);
+                        }
+                        return;
+                    }
+
+                    if (event.lastEventId) {
+                        const id = Number(event.lastEventId);
+                        // Already seen before the reconnect
+                        const seen = seenEventIdsRef.current;
+                        if (seen.has(id)) return;
+                        seen.add(id);
+                        if (seen.size > MAX_SEEN_EVENT_IDS) {
+                            const [oldest] = seen;
+                            seen.delete(oldest);
+                        }
+                        if (
+                            lastEventIdRef.current === null ||
+                            id > lastEventIdRef.current
+                        ) {
+                            lastEventIdRef.current = id;
+                        }
+                    }
+
                     handleUpdate(update);
                 } catch (error) {
                     console.error("Failed to parse SSE message:", error);
@@ -241,7 +398,7 @@ export function useRealTimeUpdates({
             console.error("Failed to create SSE connection:", error);
             setConnectionError("Failed to establish connection");
         }
-    }, [userId, userRole, handleUpdate]);
+    }, [userId, userRole, handleUpdate, onResync, syncTopics]);
 
     // Disconnect from SSE
     const disconnect = useCallback(() => {
@@ -305,19 +462,63 @@ export function useRealTimeUpdates({
         };
     }, [disconnect]);
 
+    // Listen for one event type; returns the unsubscribe
+    const subscribe = useCallback(
+        <T extends RealTimeEventType>(type: T, handler: RealTimeHandler<T>) => {
+            const handlers = subscribersRef.current.get(type) ?? new Set();
+            // Only events of this type are passed to the listener
+            const listener = (event: RealTimeEvent) =>
+                handler(event as RealTimeEventOf<T>);
+            handlers.add(listener);
+            subscribersRef.current.set(type, handlers);
+            return () => {
+                handlers.delete(listener);
+            };
+        },
+        []
+    );
+
+    // Watch a topic such as order:{id} over the open connection; returns
+    // the unwatch
+    const watchTopic = useCallback(
+        (topic: string, handler: (event: RealTimeEvent) => void) => {
+            const handlers = topicHandlersRef.current.get(topic) ?? new Set();
+            const isNew = handlers.size === 0;
+            handlers.add(handler);
+            topicHandlersRef.current.set(topic, handlers);
+            if (isNew) syncTopics();
+
+            return () => {
+                handlers.delete(handler);
+                if (handlers.size === 0) {
+                    topicHandlersRef.current.delete(topic);
+                    syncTopics();
+                }
+            };
+        },
+        [syncTopics]
+    );
+
     return {
         isConnected,
         connectionError,
         lastUpdate,
         reconnect,
         disconnect,
+        subscribe,
+        watchTopic,
     };
 }
 
+// Orders as the real-time events describe them
+type RealTimeOrder = RealTimeEventData<"order_created"> & { updatedAt?: string };
+
 // Hook for managing real-time order updates
-export function useRealTimeOrders(initialOrders: any[] = []) {
+export function useRealTimeOrders(initialOrders: RealTimeOrder[] = []) {
     const [orders, setOrders] = useState(initialOrders);
-    const [notifications, setNotifications] = useState<any[]>([]);
+    const [notifications, setNotifications] = useState<
+        RealTimeEventData<"new_notification">[]
+    >([]);
     const [unreadCount, setUnreadCount] = useState(0);
 
     const handleOrderUpdate = useCallback(
@@ -337,21 +538,33 @@ export function useRealTimeOrders(initialOrders: any[] = []) {
         []
     );
 
-    const handleNewComment = useCallback((orderId: string, comment: any) => {
-        // This could trigger a refresh of comments for the specific order
-        console.log("New comment on order:", orderId, comment);
-    }, []);
+    const handleNewComment = useCallback(
+        (
+            orderId: string,
+            comment: RealTimeEventData<"new_comment">["comment"]
+        ) => {
+            // This could trigger a refresh of comments for the specific order
+            console.log("New comment on order:", orderId, comment);
+        },
+        []
+    );
 
-    const handleNewNotification = useCallback((notification: any) => {
-        setNotifications((prev) => [notification, ...prev]);
-        if (!notification.isRead) {
-            setUnreadCount((prev) => prev + 1);
-        }
-    }, []);
+    const handleNewNotification = useCallback(
+        (notification: RealTimeEventData<"new_notification">) => {
+            setNotifications((prev) => [notification, ...prev]);
+            if (!notification.isRead) {
+                setUnreadCount((prev) => prev + 1);
+            }
+        },
+        []
+    );
 
-    const handleOrderCreated = useCallback((newOrder: any) => {
-        setOrders((prevOrders) => [newOrder, ...prevOrders]);
-    }, []);
+    const handleOrderCreated = useCallback(
+        (newOrder: RealTimeEventData<"order_created">) => {
+            setOrders((prevOrders) => [newOrder, ...prevOrders]);
+        },
+        []
+    );
 
     return {
         orders,
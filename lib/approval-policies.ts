@@ -0,0 +1,417 @@
+import type { DbExecutor, Transaction } from "@/db/drizzle";
+import {
+    approvalPolicies,
+    approvalPolicyKindEnum,
+    customers,
+    orderApprovals,
+    orders,
+} from "@/db/order-schema";
+import { and, asc, count, eq, inArray, ne } from "drizzle-orm";
+import type {
+    Order,
+    OrderStatus,
+    TransitionActor,
+} from "@/lib/order-workflow";
+import {
+    createReportingConverter,
+    findExchangeRate,
+    reportingCurrency,
+} from "@/lib/exchange-rates";
+import { formatMoney } from "@/lib/currency";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type ApprovalPolicyKind = (typeof approvalPolicyKindEnum)[number];
+
+export type ApprovalPolicy = typeof approvalPolicies.$inferSelect;
+
+// Roles that can sign off orders in an approval chain
+export const approverRoleOptions = ["accountant", "admin"] as const;
+
+// Orders that still count against a customer's credit limit
+const openStatuses: OrderStatus[] = [
+    "pending",
+    "partially_approved",
+    "approved",
+    "edit_requested",
+    "warehouse_confirmed",
+    "shipped",
+];
+
+// The order being created, before or after it is inserted
+export interface PolicyOrder {
+    id?: string;
+    customerId: string | null;
+    currency: string;
+    total: string | number;
+}
+
+// Outcome of the approval policies for a new order. `reason` names the rule
+// that fired and is written to the order history.
+export type ApprovalDecision =
+    | { outcome: "approve"; policy: ApprovalPolicy; reason: string }
+    | { outcome: "reject"; policy: ApprovalPolicy; reason: string }
+    | {
+          outcome: "manual";
+          requiredApprovals: number;
+          // Role per approver, any approver when null
+          approvalRoles: string[] | null;
+          policy?: ApprovalPolicy;
+          reason?: string;
+      };
+
+const singleApproval: ApprovalDecision = {
+    outcome: "manual",
+    requiredApprovals: 1,
+    approvalRoles: null,
+};
+
+function ruleReason(policy: ApprovalPolicy, detail: string) {
+    return `Rule "${policy.name}": ${detail}`;
+}
+
+// Manual review by the approvers an approval_chain policy lists
+function chainDecision(
+    policy: ApprovalPolicy,
+    detail: string
+): ApprovalDecision {
+    const roles = policy.approverRoles ?? [];
+    return {
+        outcome: "manual",
+        requiredApprovals: roles.length,
+        approvalRoles: roles,
+        policy,
+        reason: ruleReason(
+            policy,
+            `${detail}, approval needed from ${roles.join(", ")}`
+        ),
+    };
+}
+
+// What the customer owes on open orders, in the reporting currency. Orders
+// without a usable exchange rate are left out.
+export async function getCreditExposure(
+    executor: DbExecutor,
+    customerId: string,
+    excludeOrderId?: string
+) {
+    const open = await executor
+        .select({
+            total: orders.total,
+            currency: orders.currency,
+            exchangeRate: orders.exchangeRate,
+            exchangeRateCurrency: orders.exchangeRateCurrency,
+        })
+        .from(orders)
+        .where(
+            and(
+                eq(orders.customerId, customerId),
+                inArray(orders.status, openStatuses),
+                excludeOrderId ? ne(orders.id, excludeOrderId) : undefined
+            )
+        );
+
+    const convert = await createReportingConverter(
+        executor,
+        open.map((order) => order.currency)
+    );
+    return open.reduce(
+        (sum, order) => sum + (convert(order, order.total) ?? 0),
+        0
+    );
+}
+
+async function countCompletedOrders(executor: DbExecutor, customerId: string) {
+    const [row] = await executor
+        .select({ count: count() })
+        .from(orders)
+        .where(
+            and(
+                eq(orders.customerId, customerId),
+                eq(orders.status, "completed")
+            )
+        );
+    return row?.count ?? 0;
+}
+
+// Run the active policies against a new order. Credit limits are checked
+// first, then approval chains, then auto-approval.
+export async function evaluateApprovalPolicies(
+    executor: DbExecutor,
+    order: PolicyOrder
+): Promise<ApprovalDecision> {
+    const policies = await executor
+        .select()
+        .from(approvalPolicies)
+        .where(eq(approvalPolicies.isActive, true))
+        .orderBy(asc(approvalPolicies.createdAt));
+
+    if (policies.length === 0) {
+        return singleApproval;
+    }
+
+    const target = reportingCurrency();
+    const rate = await findExchangeRate(executor, order.currency, target);
+    // Highest threshold first, the most demanding chain that applies wins
+    const chains = policies
+        .filter(
+            (policy) =>
+                policy.kind === "approval_chain" &&
+                policy.threshold &&
+                (policy.approverRoles?.length ?? 0) > 1
+        )
+        .sort(
+            (a, b) => parseFloat(b.threshold!) - parseFloat(a.threshold!)
+        );
+
+    // Without a rate the amount can't be compared, so the strictest chain
+    // applies
+    if (!rate) {
+        const [chain] = chains;
+        return chain
+            ? chainDecision(
+                  chain,
+                  `no exchange rate from ${order.currency} to ${target}`
+              )
+            : singleApproval;
+    }
+
+    const amount = parseFloat(String(order.total)) * rate.rate;
+
+    // Locked so concurrent orders for the customer are checked one by one
+    const [customer] = order.customerId
+        ? await executor
+              .select({ id: customers.id, creditLimit: customers.creditLimit })
+              .from(customers)
+              .where(eq(customers.id, order.customerId))
+              .for("update")
+        : [];
+
+    const creditPolicy = policies.find((policy) => policy.kind === "credit_limit");
+    if (creditPolicy && customer?.creditLimit) {
+        const limit = parseFloat(customer.creditLimit);
+        const exposure =
+            (await getCreditExposure(executor, customer.id, order.id)) + amount;
+        if (exposure > limit) {
+            return {
+                outcome: "reject",
+                policy: creditPolicy,
+                reason: ruleReason(
+                    creditPolicy,
+                    `open orders would total ${formatMoney(
+                        exposure,
+                        target
+                    )}, over the customer's credit limit of ${formatMoney(
+                        limit,
+                        target
+                    )}`
+                ),
+            };
+        }
+    }
+
+    const chain = chains.find(
+        (policy) => amount > parseFloat(policy.threshold!)
+    );
+    if (chain) {
+        return chainDecision(
+            chain,
+            `${formatMoney(amount, target)} is over ${formatMoney(
+                chain.threshold,
+                target
+            )}`
+        );
+    }
+
+    if (customer) {
+        const completed = await countCompletedOrders(executor, customer.id);
+        const autoPolicy = policies.find(
+            (policy) =>
+                policy.kind === "auto_approve" &&
+                policy.threshold &&
+                amount <= parseFloat(policy.threshold) &&
+                completed >= policy.minCompletedOrders
+        );
+        if (autoPolicy) {
+            return {
+                outcome: "approve",
+                policy: autoPolicy,
+                reason: ruleReason(
+                    autoPolicy,
+                    `${formatMoney(amount, target)} is within ${formatMoney(
+                        autoPolicy.threshold,
+                        target
+                    )} for a customer with ${completed} completed order${
+                        completed === 1 ? "" : "s"
+                    }`
+                ),
+            };
+        }
+    }
+
+    return singleApproval;
+}
+
+// Approvers stored on the order for a decision. Orders decided by a policy
+// fall back to a single approver if they end up in manual review.
+export function approvalRequirement(decision: ApprovalDecision) {
+    return decision.outcome === "manual"
+        ? {
+              requiredApprovals: decision.requiredApprovals,
+              approvalRoles: decision.approvalRoles,
+          }
+        : { requiredApprovals: 1, approvalRoles: null };
+}
+
+// Thrown inside a transaction when a changed order goes over the customer's
+// credit limit
+export class CreditLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "CreditLimitError";
+    }
+}
+
+// Run the policies again for an order whose amount or customer may have
+// changed. A new approval requirement is stored, and the approvals given
+// under the old one are dropped.
+export async function reapplyApprovalPolicies(
+    tx: Transaction,
+    order: Order,
+    performedBy: string
+) {
+    const decision = await evaluateApprovalPolicies(tx, order);
+    if (decision.outcome === "reject") {
+        throw new CreditLimitError(decision.reason);
+    }
+
+    const requirement = approvalRequirement(decision);
+    if (
+        requirement.requiredApprovals === order.requiredApprovals &&
+        JSON.stringify(requirement.approvalRoles) ===
+            JSON.stringify(order.approvalRoles)
+    ) {
+        return;
+    }
+
+    await tx.update(orders).set(requirement).where(eq(orders.id, order.id));
+    await clearApprovals(tx, order);
+    await recordOrderHistory(tx, {
+        orderId: order.id,
+        action: "approval_rule_applied",
+        performedBy,
+        reason: decision.outcome === "manual" ? decision.reason : null,
+        notes: `Order needs ${requirement.requiredApprovals} approver${
+            requirement.requiredApprovals === 1 ? "" : "s"
+        }${
+            requirement.approvalRoles
+                ? `: ${requirement.approvalRoles.join(", ")}`
+                : ""
+        }`,
+    });
+}
+
+type ApprovalChainOrder = Pick<Order, "requiredApprovals" | "approvalRoles">;
+
+// Approvals given so far, oldest first
+export async function getOrderApprovals(executor: DbExecutor, orderId: string) {
+    return executor
+        .select({
+            approvedBy: orderApprovals.approvedBy,
+            role: orderApprovals.role,
+        })
+        .from(orderApprovals)
+        .where(eq(orderApprovals.orderId, orderId))
+        .orderBy(asc(orderApprovals.createdAt));
+}
+
+// Approver slots still open, one entry per missing approval: the role that
+// has to sign off, or null when anyone who may approve will do
+export function remainingApprovalRoles(
+    order: ApprovalChainOrder,
+    approvals: { role: string | null }[]
+) {
+    const slots: (string | null)[] =
+        order.approvalRoles ?? Array(order.requiredApprovals).fill(null);
+    const remaining = [...slots];
+    for (const approval of approvals) {
+        let index = remaining.indexOf(approval.role);
+        if (index === -1) index = remaining.indexOf(null);
+        if (index !== -1) remaining.splice(index, 1);
+    }
+    return remaining;
+}
+
+// The slot the actor would fill, or an error when they can't sign off
+function findApprovalSlot(
+    order: ApprovalChainOrder,
+    approvals: { approvedBy: string; role: string | null }[],
+    actor: TransitionActor
+): { error: string } | { role: string | null } {
+    if (approvals.some((approval) => approval.approvedBy === actor.id)) {
+        return {
+            error: "You have already approved this order, another approver is required",
+        };
+    }
+
+    const remaining = remainingApprovalRoles(order, approvals);
+    if (remaining.includes(actor.role ?? null) || remaining.includes(null)) {
+        return { role: actor.role ?? null };
+    }
+    return {
+        error: `Waiting for approval from ${[...new Set(remaining)].join(
+            ", "
+        )}`,
+    };
+}
+
+// Error message when the actor can't sign off the order
+export async function checkApprover(
+    executor: DbExecutor,
+    order: Order,
+    actor: TransitionActor
+): Promise<string | null> {
+    const approvals = await getOrderApprovals(executor, order.id);
+    const slot = findApprovalSlot(order, approvals, actor);
+    return "error" in slot ? slot.error : null;
+}
+
+// Approve when this approval is the last one needed, otherwise record it
+export async function approvalEvent(executor: DbExecutor, order: Order) {
+    const approvals = await getOrderApprovals(executor, order.id);
+    return remainingApprovalRoles(order, approvals).length <= 1
+        ? ("approve" as const)
+        : ("record_approval" as const);
+}
+
+// Approval count before and after the actor signs off, for the history entry
+export async function approvalProgress(executor: DbExecutor, order: Order) {
+    const approvals = await getOrderApprovals(executor, order.id);
+    return {
+        approvals: {
+            from: `${approvals.length} of ${order.requiredApprovals}`,
+            to: `${approvals.length + 1} of ${order.requiredApprovals}`,
+        },
+    };
+}
+
+export async function recordApproval(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor
+) {
+    const approvals = await getOrderApprovals(tx, order.id);
+    const slot = findApprovalSlot(order, approvals, actor);
+    await tx
+        .insert(orderApprovals)
+        .values({
+            orderId: order.id,
+            approvedBy: actor.id,
+            role: "role" in slot ? slot.role : actor.role,
+        })
+        .onConflictDoNothing();
+}
+
+// Approvals given before the order was sent back don't carry over
+export async function clearApprovals(tx: Transaction, order: Order) {
+    await tx.delete(orderApprovals).where(eq(orderApprovals.orderId, order.id));
+}
@@ -0,0 +1,207 @@
+import { db } from "@/db/drizzle";
+import {
+    carrierEvents,
+    orders,
+    shipments,
+} from "@/db/order-schema";
+import { user } from "@/db/auth-schema";
+import { and, asc, eq, isNotNull, isNull, notInArray, or, sql } from "drizzle-orm";
+import { applyOrderTransition, type Order } from "@/lib/order-workflow";
+import { getCarrier, type CarrierTrackingEvent } from "@/lib/carriers";
+import { recordOrderHistory } from "@/lib/order-history";
+
+const BATCH_SIZE = 50;
+
+type Shipment = typeof shipments.$inferSelect;
+
+// Store the events not seen before, write each to the order timeline and
+// remember the latest status on the shipment. Returns the new events.
+async function recordCarrierEvents(
+    shipment: Shipment,
+    events: CarrierTrackingEvent[]
+) {
+    const carrier = getCarrier(shipment.carrier)!;
+    const sorted = [...events].sort(
+        (a, b) => a.occurredAt.getTime() - b.occurredAt.getTime()
+    );
+    const latest = sorted.at(-1);
+
+    return db.transaction(async (tx) => {
+        const inserted = sorted.length
+            ? await tx
+                  .insert(carrierEvents)
+                  .values(
+                      sorted.map((event) => ({
+                          shipmentId: shipment.id,
+                          externalId: event.id,
+                          status: event.status,
+                          description: event.description,
+                          location: event.location ?? null,
+                          occurredAt: event.occurredAt,
+                      }))
+                  )
+                  .onConflictDoNothing()
+                  .returning()
+            : [];
+
+        if (inserted.length > 0) {
+            await recordOrderHistory(tx, 
+                inserted.map((event) => ({
+                    orderId: shipment.orderId,
+                    action: "carrier_event",
+                    notes: `${carrier.name}: ${event.description}${
+                        event.location ? ` (${event.location})` : ""
+                    } · ${shipment.trackingNumber}`,
+                    createdAt: event.occurredAt,
+                }))
+            );
+        }
+
+        await tx
+            .update(shipments)
+            .set({
+                trackingStatus: latest?.status ?? shipment.trackingStatus,
+                trackingPolledAt: new Date(),
+            })
+            .where(eq(shipments.id, shipment.id));
+
+        return inserted;
+    });
+}
+
+// The automatic transitions run as the shipper who sent the order, or its
+// creator when the shipper account is gone
+async function carrierActor(order: Order) {
+    const id = order.shippedBy ?? order.createdBy;
+    if (!id) return null;
+    const [actor] = await db
+        .select({ id: user.id, role: user.role })
+        .from(user)
+        .where(eq(user.id, id));
+    return actor ?? null;
+}
+
+// Complete the order once every parcel is delivered, fail it as soon as one
+// delivery fails. Parcels without a carrier leave the order to the shipper,
+// parcels resent after a failure only count through their replacement.
+// Also run when a hold is released, the outcome may have arrived meanwhile.
+export async function settleShippedOrder(orderId: string) {
+    const [order] = await db
+        .select()
+        .from(orders)
+        .where(and(eq(orders.id, orderId), eq(orders.status, "shipped")));
+    if (!order) return null;
+
+    const parcels = await db
+        .select()
+        .from(shipments)
+        .where(
+            and(eq(shipments.orderId, orderId), isNull(shipments.replacedBy))
+        );
+
+    const failed = parcels.find((parcel) => parcel.trackingStatus === "failed");
+    const delivered =
+        parcels.length > 0 &&
+        parcels.every((parcel) => parcel.trackingStatus === "delivered");
+    if (!failed && !delivered) return null;
+
+    const actor = await carrierActor(order);
+    if (!actor) {
+        console.error(`No user to record carrier outcome for order ${order.orderNumber}`);
+        return null;
+    }
+
+    if (failed) {
+        const [event] = await db
+            .select({ description: carrierEvents.description })
+            .from(carrierEvents)
+            .where(
+                and(
+                    eq(carrierEvents.shipmentId, failed.id),
+                    eq(carrierEvents.status, "failed")
+                )
+            )
+            .orderBy(sql`${carrierEvents.occurredAt} desc`)
+            .limit(1);
+        const result = await applyOrderTransition(
+            order,
+            "delivery_failed",
+            {
+                reason: `${getCarrier(failed.carrier)?.name ?? "Carrier"} reported: ${
+                    event?.description ?? "delivery failed"
+                } (${failed.trackingNumber})`,
+            },
+            actor
+        );
+        return result.success ? ("failed" as const) : null;
+    }
+
+    // Partly shipped orders stay shipped until the rest goes out
+    const result = await applyOrderTransition(
+        order,
+        "delivery_confirmed",
+        { notes: "All parcels delivered according to the carrier" },
+        actor
+    );
+    return result.success ? ("completed" as const) : null;
+}
+
+// Ask carriers about parcels of shipped orders that are still on their way,
+// least recently checked first, and settle the orders they belong to
+export async function pollCarrierTracking(limit = BATCH_SIZE) {
+    const due = await db
+        .select({ shipment: shipments })
+        .from(shipments)
+        .innerJoin(orders, eq(shipments.orderId, orders.id))
+        .where(
+            and(
+                eq(orders.status, "shipped"),
+                isNotNull(shipments.carrier),
+                isNotNull(shipments.trackingNumber),
+                isNull(shipments.replacedBy),
+                or(
+                    isNull(shipments.trackingStatus),
+                    notInArray(shipments.trackingStatus, ["delivered", "failed"])
+                )
+            )
+        )
+        .orderBy(sql`${shipments.trackingPolledAt} asc nulls first`, asc(shipments.shippedAt))
+        .limit(limit);
+
+    let events = 0;
+    const orderIds = new Set<string>();
+
+    for (const { shipment } of due) {
+        const carrier = getCarrier(shipment.carrier);
+        if (!carrier) {
+            console.error(`Unknown carrier ${shipment.carrier} on shipment ${shipment.id}`);
+            continue;
+        }
+
+        try {
+            const reported = await carrier.getTrackingEvents({
+                trackingNumber: shipment.trackingNumber!,
+                shippedAt: shipment.shippedAt,
+            });
+            const inserted = await recordCarrierEvents(shipment, reported);
+            events += inserted.length;
+            orderIds.add(shipment.orderId);
+        } catch (error) {
+            console.error(`Error polling ${carrier.code} for shipment ${shipment.id}:`, error);
+        }
+    }
+
+    let completed = 0;
+    let failed = 0;
+    for (const orderId of orderIds) {
+        try {
+            const outcome = await settleShippedOrder(orderId);
+            if (outcome === "completed") completed++;
+            if (outcome === "failed") failed++;
+        } catch (error) {
+            console.error(`Error settling order ${orderId} from carrier events:`, error);
+        }
+    }
+
+    return { polled: due.length, events, completed, failed };
+}
@@ -0,0 +1,65 @@
+import type { carrierEventStatusEnum } from "@/db/order-schema";
+import { fakeCarrier } from "@/lib/fake-carrier";
+
+export type CarrierEventStatus = (typeof carrierEventStatusEnum)[number];
+
+// One tracking event as reported by the carrier
+export interface CarrierTrackingEvent {
+    id: string; // Stable per shipment, used to skip events already stored
+    status: CarrierEventStatus;
+    description: string;
+    location?: string;
+    occurredAt: Date;
+}
+
+// The shipment a carrier is asked about
+export interface TrackedShipment {
+    trackingNumber: string;
+    shippedAt: Date;
+}
+
+// Adapter for one carrier. Register new carriers with `registerCarrier`.
+export interface CarrierAdapter {
+    code: string; // Stored on the shipment
+    name: string;
+    // Public tracking page, `{trackingNumber}` is replaced
+    trackingUrlTemplate: string;
+    // Every event known for the shipment, in any order
+    getTrackingEvents(shipment: TrackedShipment): Promise<CarrierTrackingEvent[]>;
+}
+
+const carriers = new Map<string, CarrierAdapter>();
+
+export function registerCarrier(adapter: CarrierAdapter) {
+    carriers.set(adapter.code, adapter);
+}
+
+export function getCarrier(code: string | null | undefined) {
+    return code ? carriers.get(code) : undefined;
+}
+
+// Carriers a shipper can pick when shipping
+export function listCarriers() {
+    return [...carriers.values()].map(({ code, name }) => ({ code, name }));
+}
+
+export function trackingUrl(
+    code: string | null | undefined,
+    trackingNumber: string | null | undefined
+) {
+    const carrier = getCarrier(code);
+    if (!carrier || !trackingNumber) return null;
+    return carrier.trackingUrlTemplate.replace(
+        "{trackingNumber}",
+        encodeURIComponent(trackingNumber)
+    );
+}
+
+// The fake carrier is for local testing and never offered in production
+// unless explicitly enabled
+if (
+    process.env.NODE_ENV !== "production" ||
+    process.env.ENABLE_FAKE_CARRIER === "true"
+) {
+    registerCarrier(fakeCarrier);
+}
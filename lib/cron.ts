@@ -0,0 +1,11 @@
+// Shared guard for scheduled job endpoints under /api/cron. The scheduler
+// must send `Authorization: Bearer <CRON_SECRET>`.
+export function isAuthorizedCronRequest(request: Request) {
+    const secret = process.env.CRON_SECRET;
+    if (!secret) {
+        console.error("CRON_SECRET is not configured");
+        return false;
+    }
+
+    return request.headers.get("authorization") === `Bearer ${secret}`;
+}
@@ -0,0 +1,36 @@
+// Currency codes and money formatting, safe to use in client components
+
+// Currencies offered on the order form
+export const orderCurrencies = [
+    "USD",
+    "EUR",
+    "GBP",
+    "JPY",
+    "AUD",
+    "CAD",
+    "SGD",
+    "VND",
+] as const;
+
+export const defaultCurrency = "USD";
+
+export function isCurrencyCode(code: string) {
+    return /^[A-Z]{3}$/.test(code);
+}
+
+// Format an amount in its own currency, e.g. "$1,234.50" or "€99.00"
+export function formatMoney(
+    amount: string | number | null | undefined,
+    currency: string | null | undefined = defaultCurrency
+) {
+    const value = typeof amount === "string" ? parseFloat(amount) : amount ?? 0;
+    try {
+        return new Intl.NumberFormat("en-US", {
+            style: "currency",
+            currency: currency || defaultCurrency,
+        }).format(Number.isFinite(value) ? value : 0);
+    } catch {
+        // Unknown currency code
+        return `${(value || 0).toFixed(2)} ${currency}`;
+    }
+}
@@ -0,0 +1,108 @@
+import type { DbExecutor } from "@/db/drizzle";
+import { customerAddresses, customers } from "@/db/order-schema";
+import { and, eq, sql } from "drizzle-orm";
+
+export type Customer = typeof customers.$inferSelect;
+
+// Customer details as typed on an order
+export interface CustomerDetails {
+    name: string;
+    email?: string | null;
+    phone?: string | null;
+    address?: string | null;
+}
+
+// Digits only, so "+1 (555) 010-0000" and "15550100000" match
+export function normalizePhone(phone?: string | null) {
+    const digits = phone?.replace(/\D/g, "") ?? "";
+    return digits || null;
+}
+
+// Find the customer an order belongs to: same email, or same name and phone
+// when there is no email. Matching is case and whitespace insensitive.
+export async function findMatchingCustomer(
+    executor: DbExecutor,
+    details: CustomerDetails
+): Promise<Customer | undefined> {
+    const email = details.email?.trim().toLowerCase();
+    if (email) {
+        const [match] = await executor
+            .select()
+            .from(customers)
+            .where(sql`lower(trim(${customers.email})) = ${email}`)
+            .limit(1);
+        return match;
+    }
+
+    const phone = normalizePhone(details.phone);
+    const [match] = await executor
+        .select()
+        .from(customers)
+        .where(
+            and(
+                sql`lower(trim(${customers.name})) = ${details.name.trim().toLowerCase()}`,
+                sql`${customers.email} is null`,
+                phone
+                    ? sql`regexp_replace(${customers.phone}, '\\D', '', 'g') = ${phone}`
+                    : sql`coalesce(regexp_replace(${customers.phone}, '\\D', '', 'g'), '') = ''`
+            )
+        )
+        .limit(1);
+    return match;
+}
+
+// Save an address on the customer unless it is already there. The first
+// address becomes the default.
+export async function rememberAddress(
+    executor: DbExecutor,
+    customerId: string,
+    address?: string | null
+) {
+    const trimmed = address?.trim();
+    if (!trimmed) return;
+
+    const existing = await executor
+        .select()
+        .from(customerAddresses)
+        .where(eq(customerAddresses.customerId, customerId));
+
+    if (existing.some((a) => a.address.trim() === trimmed)) return;
+
+    await executor.insert(customerAddresses).values({
+        customerId,
+        address: trimmed,
+        isDefault: existing.length === 0,
+    });
+}
+
+// Resolve the customer of an order typed without picking one, creating the
+// customer when nobody matches
+export async function findOrCreateCustomer(
+    executor: DbExecutor,
+    details: CustomerDetails,
+    createdBy?: string | null
+): Promise<Customer> {
+    let customer = await findMatchingCustomer(executor, details);
+
+    if (!customer) {
+        [customer] = await executor
+            .insert(customers)
+            .values({
+                name: details.name.trim(),
+                email: details.email?.trim() || null,
+                phone: details.phone?.trim() || null,
+                createdBy: createdBy ?? null,
+            })
+            .onConflictDoNothing()
+            .returning();
+    }
+
+    // Created by a concurrent order in the meantime
+    customer ??= await findMatchingCustomer(executor, details);
+    if (!customer) {
+        throw new Error(`Failed to resolve customer ${details.name}`);
+    }
+
+    await rememberAddress(executor, customer.id, details.address);
+    return customer;
+}
@@ -0,0 +1,123 @@
+import type { DbExecutor, Transaction } from "@/db/drizzle";
+import { exchangeRates, orders } from "@/db/order-schema";
+import { and, desc, eq, lte } from "drizzle-orm";
+import type { Order } from "@/lib/order-workflow";
+import { defaultCurrency } from "@/lib/currency";
+
+export interface ExchangeRate {
+    rate: number;
+    effectiveDate: string;
+}
+
+// Currency dashboards and revenue figures are reported in
+export function reportingCurrency() {
+    return process.env.REPORTING_CURRENCY || defaultCurrency;
+}
+
+function toDateString(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+// Latest rate in effect on `on` for converting `from` into `to`. A rate stored
+// the other way round is inverted.
+export async function findExchangeRate(
+    executor: DbExecutor,
+    from: string,
+    to: string,
+    on: Date = new Date()
+): Promise<ExchangeRate | null> {
+    if (from === to) {
+        return { rate: 1, effectiveDate: toDateString(on) };
+    }
+
+    const latest = async (fromCurrency: string, toCurrency: string) => {
+        const [row] = await executor
+            .select({
+                rate: exchangeRates.rate,
+                effectiveDate: exchangeRates.effectiveDate,
+            })
+            .from(exchangeRates)
+            .where(
+                and(
+                    eq(exchangeRates.fromCurrency, fromCurrency),
+                    eq(exchangeRates.toCurrency, toCurrency),
+                    lte(exchangeRates.effectiveDate, toDateString(on))
+                )
+            )
+            .orderBy(desc(exchangeRates.effectiveDate))
+            .limit(1);
+        return row;
+    };
+
+    const direct = await latest(from, to);
+    if (direct) {
+        return {
+            rate: parseFloat(direct.rate),
+            effectiveDate: direct.effectiveDate,
+        };
+    }
+
+    const inverse = await latest(to, from);
+    if (inverse && parseFloat(inverse.rate) > 0) {
+        return {
+            rate: 1 / parseFloat(inverse.rate),
+            effectiveDate: inverse.effectiveDate,
+        };
+    }
+
+    return null;
+}
+
+// Approval needs a rate to the reporting currency
+export async function missingExchangeRate(executor: DbExecutor, order: Order) {
+    const target = reportingCurrency();
+    const rate = await findExchangeRate(executor, order.currency, target);
+    return rate
+        ? null
+        : `No exchange rate from ${order.currency} to ${target}. Add one before approving.`;
+}
+
+// Store the rate in effect at approval so reports don't move with later rates
+export async function snapshotExchangeRate(tx: Transaction, order: Order) {
+    const target = reportingCurrency();
+    const rate = await findExchangeRate(tx, order.currency, target);
+    if (!rate) return;
+
+    await tx
+        .update(orders)
+        .set({
+            exchangeRate: rate.rate.toFixed(8),
+            exchangeRateCurrency: target,
+            exchangeRateDate: rate.effectiveDate,
+        })
+        .where(eq(orders.id, order.id));
+}
+
+// Converts order amounts into the reporting currency: the approval snapshot
+// when there is one, otherwise today's rate. Returns null without a rate.
+export async function createReportingConverter(
+    executor: DbExecutor,
+    currencies: string[]
+) {
+    const target = reportingCurrency();
+    const current = new Map<string, number | null>();
+    for (const currency of new Set(currencies)) {
+        const rate = await findExchangeRate(executor, currency, target);
+        current.set(currency, rate?.rate ?? null);
+    }
+
+    return (
+        order: Pick<
+            Order,
+            "currency" | "exchangeRate" | "exchangeRateCurrency"
+        >,
+        amount: string | number
+    ) => {
+        const value = typeof amount === "string" ? parseFloat(amount) : amount;
+        const rate =
+            order.exchangeRate && order.exchangeRateCurrency === target
+                ? parseFloat(order.exchangeRate)
+                : current.get(order.currency);
+        return rate === null || rate === undefined ? null : value * rate;
+    };
+}
@@ -0,0 +1,51 @@
+import type { CarrierAdapter, CarrierTrackingEvent } from "@/lib/carriers";
+
+// Seconds between the fake carrier's tracking steps
+function stepSeconds() {
+    const seconds = Number(process.env.FAKE_CARRIER_STEP_SECONDS);
+    return Number.isFinite(seconds) && seconds > 0 ? seconds : 60;
+}
+
+// Carrier for local testing. A parcel moves one step every
+// FAKE_CARRIER_STEP_SECONDS after it was shipped. The tracking number picks
+// the outcome: "FAIL" in it ends in a failed delivery, "STUCK" never gets past
+// in transit, anything else is delivered.
+export const fakeCarrier: CarrierAdapter = {
+    code: "fake",
+    name: "Fake Carrier (testing)",
+    trackingUrlTemplate: "https://example.com/track/{trackingNumber}",
+    async getTrackingEvents({ trackingNumber, shippedAt }) {
+        const number = trackingNumber.toUpperCase();
+        const steps: Omit<CarrierTrackingEvent, "id" | "occurredAt">[] = [
+            { status: "info_received", description: "Shipment information received" },
+            { status: "in_transit", description: "In transit", location: "Sorting centre" },
+        ];
+        if (!number.includes("STUCK")) {
+            steps.push({
+                status: "out_for_delivery",
+                description: "Out for delivery",
+                location: "Local depot",
+            });
+            steps.push(
+                number.includes("FAIL")
+                    ? {
+                          status: "failed",
+                          description: "Delivery failed: recipient not available",
+                          location: "Local depot",
+                      }
+                    : { status: "delivered", description: "Delivered" }
+            );
+        }
+
+        const now = Date.now();
+        return steps
+            .map((step, index) => ({
+                ...step,
+                id: `${trackingNumber}-${index}`,
+                occurredAt: new Date(
+                    shippedAt.getTime() + index * stepSeconds() * 1000
+                ),
+            }))
+            .filter((event) => event.occurredAt.getTime() <= now);
+    },
+};
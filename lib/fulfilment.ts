@@ -0,0 +1,212 @@
+import { db, type DbExecutor, type Transaction } from "@/db/drizzle";
+import { orderItems, shipments, shipmentItems } from "@/db/order-schema";
+import { and, eq, inArray, isNull, ne, or, sql } from "drizzle-orm";
+import type {
+    Order,
+    TransitionActor,
+    TransitionPayload,
+} from "@/lib/order-workflow";
+import { consumeStock } from "@/lib/inventory";
+
+// Quantity of one order item included in a shipment
+export interface ShipmentLine {
+    orderItemId: string;
+    quantity: number;
+}
+
+type OrderItem = typeof orderItems.$inferSelect;
+
+export function remainingQuantity(item: OrderItem) {
+    return item.quantity - (item.quantityShipped ?? 0);
+}
+
+export function isFullyShipped(items: OrderItem[]) {
+    return items.every((item) => remainingQuantity(item) <= 0);
+}
+
+export async function getOrderItems(executor: DbExecutor, orderId: string) {
+    return executor
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId));
+}
+
+// Check the requested quantities against what is left to ship. Without
+// explicit lines everything that is still outstanding is shipped.
+export async function planShipment(
+    executor: DbExecutor,
+    orderId: string,
+    requested?: ShipmentLine[]
+): Promise<{ lines: ShipmentLine[] } | { error: string }> {
+    const items = await getOrderItems(executor, orderId);
+
+    if (!requested) {
+        const lines = items
+            .filter((item) => remainingQuantity(item) > 0)
+            .map((item) => ({
+                orderItemId: item.id,
+                quantity: remainingQuantity(item),
+            }));
+        return lines.length > 0
+            ? { lines }
+            : { error: "All items have already been shipped" };
+    }
+
+    const lines = requested.filter((line) => line.quantity !== 0);
+    if (lines.length === 0) {
+        return { error: "Enter a quantity for at least one item" };
+    }
+
+    // One line per item, so each is checked against what is left of it
+    const itemIds = new Set(lines.map((line) => line.orderItemId));
+    if (itemIds.size !== lines.length) {
+        return { error: "Shipment lists the same item more than once" };
+    }
+
+    for (const line of lines) {
+        const item = items.find((i) => i.id === line.orderItemId);
+        if (!item) {
+            return { error: "Shipment contains an item that is not on this order" };
+        }
+        if (!Number.isInteger(line.quantity) || line.quantity < 0) {
+            return { error: `Invalid quantity for ${item.name}` };
+        }
+        if (line.quantity > remainingQuantity(item)) {
+            return {
+                error: `Only ${remainingQuantity(item)} of ${item.name} left to ship`,
+            };
+        }
+    }
+
+    return { lines };
+}
+
+// Record a shipment, add its quantities to the order items and take them out
+// of stock. Runs inside the ship transition so the quantities and the status
+// move together.
+export async function recordShipment(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor,
+    payload: TransitionPayload
+) {
+    const plan = await planShipment(tx, order.id, payload.items);
+    if ("error" in plan) {
+        throw new Error(plan.error);
+    }
+
+    const [shipment] = await tx
+        .insert(shipments)
+        .values({
+            orderId: order.id,
+            carrier: payload.carrier || null,
+            trackingNumber: payload.trackingNumber || null,
+            notes: payload.notes || null,
+            shippedBy: actor.id,
+        })
+        .returning();
+
+    await tx.insert(shipmentItems).values(
+        plan.lines.map((line) => ({
+            shipmentId: shipment.id,
+            orderItemId: line.orderItemId,
+            quantity: line.quantity,
+        }))
+    );
+
+    for (const line of plan.lines) {
+        await tx
+            .update(orderItems)
+            .set({
+                quantityShipped: sql`coalesce(${orderItems.quantityShipped}, 0) + ${line.quantity}`,
+            })
+            .where(eq(orderItems.id, line.orderItemId));
+    }
+
+    await consumeStock(tx, plan.lines);
+}
+
+// Parcels of a failed order that have to go out again: everything not
+// delivered and not resent already
+export async function getParcelsToResend(executor: DbExecutor, orderId: string) {
+    return executor
+        .select()
+        .from(shipments)
+        .where(
+            and(
+                eq(shipments.orderId, orderId),
+                isNull(shipments.replacedBy),
+                or(
+                    isNull(shipments.trackingStatus),
+                    ne(shipments.trackingStatus, "delivered")
+                )
+            )
+        );
+}
+
+// Resend the undelivered parcels of a failed order as one new shipment and
+// mark the old ones replaced, so carrier tracking only follows the new one.
+// The goods never reached the customer, so shipped quantities and stock
+// stay as they are.
+export async function recordReshipment(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor,
+    payload: TransitionPayload
+) {
+    const parcels = await getParcelsToResend(tx, order.id);
+    if (parcels.length === 0) {
+        throw new Error("There are no undelivered parcels to reship");
+    }
+
+    const lines = await tx
+        .select({
+            orderItemId: shipmentItems.orderItemId,
+            quantity: sql<number>`sum(${shipmentItems.quantity})::int`,
+        })
+        .from(shipmentItems)
+        .where(
+            inArray(
+                shipmentItems.shipmentId,
+                parcels.map((parcel) => parcel.id)
+            )
+        )
+        .groupBy(shipmentItems.orderItemId);
+
+    const [shipment] = await tx
+        .insert(shipments)
+        .values({
+            orderId: order.id,
+            carrier: payload.carrier || null,
+            trackingNumber: payload.trackingNumber || null,
+            notes: payload.notes || null,
+            shippedBy: actor.id,
+        })
+        .returning();
+
+    await tx.insert(shipmentItems).values(
+        lines.map((line) => ({
+            shipmentId: shipment.id,
+            orderItemId: line.orderItemId,
+            quantity: line.quantity,
+        }))
+    );
+
+    await tx
+        .update(shipments)
+        .set({ replacedBy: shipment.id })
+        .where(
+            inArray(
+                shipments.id,
+                parcels.map((parcel) => parcel.id)
+            )
+        );
+}
+
+// Completing an order with items still outstanding makes it partial_complete
+export async function completionEvent(orderId: string) {
+    const items = await getOrderItems(db, orderId);
+    return isFullyShipped(items)
+        ? ("complete" as const)
+        : ("partial_complete" as const);
+}
@@ -0,0 +1,292 @@
+import type { DbExecutor, Transaction } from "@/db/drizzle";
+import {
+    orderItems,
+    stockLevels,
+    stockReservations,
+} from "@/db/order-schema";
+import { and, asc, count, desc, eq, inArray, isNotNull, lte, sql } from "drizzle-orm";
+import type { Order } from "@/lib/order-workflow";
+import type { ShipmentLine } from "@/lib/fulfilment";
+
+// Stock of a product that is neither reserved nor shipped
+const freeQuantity = sql<number>`${stockLevels.quantityOnHand} - ${stockLevels.quantityReserved}`;
+
+// An order item that can't be covered by reservations and free stock
+export interface StockShortage {
+    orderItemId: string;
+    name: string;
+    sku: string | null;
+    outstanding: number;
+    reserved: number;
+    available: number;
+    shortfall: number;
+}
+
+// Catalog items of an order that still have quantities to ship
+async function getStockedItems(executor: DbExecutor, orderId: string) {
+    const items = await executor
+        .select()
+        .from(orderItems)
+        .where(and(eq(orderItems.orderId, orderId), isNotNull(orderItems.productId)));
+
+    return items
+        .map((item) => ({
+            ...item,
+            productId: item.productId!,
+            outstanding: item.quantity - (item.quantityShipped ?? 0),
+        }))
+        .filter((item) => item.outstanding > 0);
+}
+
+// Active reservation totals per order item
+async function getReservedQuantities(executor: DbExecutor, orderId: string) {
+    const rows = await executor
+        .select({
+            orderItemId: stockReservations.orderItemId,
+            quantity: sql<number>`sum(${stockReservations.quantity})::int`,
+        })
+        .from(stockReservations)
+        .where(
+            and(
+                eq(stockReservations.orderId, orderId),
+                eq(stockReservations.status, "active")
+            )
+        )
+        .groupBy(stockReservations.orderItemId);
+
+    return new Map(rows.map((row) => [row.orderItemId, row.quantity]));
+}
+
+// Items of the order whose outstanding quantity can't be covered by what is
+// already reserved for it plus the free stock at all locations
+export async function getStockShortages(
+    executor: DbExecutor,
+    orderId: string
+): Promise<StockShortage[]> {
+    const items = await getStockedItems(executor, orderId);
+    if (items.length === 0) return [];
+
+    const reserved = await getReservedQuantities(executor, orderId);
+    const free = await executor
+        .select({
+            productId: stockLevels.productId,
+            quantity: sql<number>`sum(greatest(${freeQuantity}, 0))::int`,
+        })
+        .from(stockLevels)
+        .where(
+            inArray(
+                stockLevels.productId,
+                items.map((item) => item.productId)
+            )
+        )
+        .groupBy(stockLevels.productId);
+    const available = new Map(free.map((row) => [row.productId, row.quantity]));
+
+    const shortages: StockShortage[] = [];
+    for (const item of items) {
+        const itemReserved = reserved.get(item.id) ?? 0;
+        const itemAvailable = available.get(item.productId) ?? 0;
+        const shortfall = item.outstanding - itemReserved - itemAvailable;
+        if (shortfall > 0) {
+            shortages.push({
+                orderItemId: item.id,
+                name: item.name,
+                sku: item.sku,
+                outstanding: item.outstanding,
+                reserved: itemReserved,
+                available: itemAvailable,
+                shortfall,
+            });
+        }
+    }
+
+    return shortages;
+}
+
+export function describeShortages(shortages: StockShortage[]) {
+    return shortages
+        .map((s) => `${s.sku ?? s.name} (short ${s.shortfall})`)
+        .join(", ");
+}
+
+// Reserve free stock for the outstanding quantities of an order that aren't
+// reserved yet, taking from the locations with the most free stock first.
+// Whatever can't be covered is left unreserved for warehouse confirmation.
+export async function reserveStock(tx: Transaction, order: Order) {
+    const items = await getStockedItems(tx, order.id);
+    const reserved = await getReservedQuantities(tx, order.id);
+
+    for (const item of items) {
+        let needed = item.outstanding - (reserved.get(item.id) ?? 0);
+        if (needed <= 0) continue;
+
+        const levels = await tx
+            .select()
+            .from(stockLevels)
+            .where(eq(stockLevels.productId, item.productId))
+            .orderBy(desc(freeQuantity))
+            .for("update");
+
+        for (const level of levels) {
+            const take = Math.min(
+                needed,
+                level.quantityOnHand - level.quantityReserved
+            );
+            if (take <= 0) break;
+
+            await tx.insert(stockReservations).values({
+                orderId: order.id,
+                orderItemId: item.id,
+                stockLevelId: level.id,
+                quantity: take,
+            });
+            await tx
+                .update(stockLevels)
+                .set({
+                    quantityReserved: sql`${stockLevels.quantityReserved} + ${take}`,
+                    updatedAt: new Date(),
+                })
+                .where(eq(stockLevels.id, level.id));
+
+            needed -= take;
+            if (needed === 0) break;
+        }
+    }
+}
+
+// Take shipped quantities out of stock. Reservations of the item are used
+// first, the rest comes from free stock. Stock on hand can go negative when
+// goods ship that were never booked in; a stock count corrects it.
+export async function consumeStock(tx: Transaction, lines: ShipmentLine[]) {
+    for (const line of lines) {
+        const [item] = await tx
+            .select({ productId: orderItems.productId })
+            .from(orderItems)
+            .where(eq(orderItems.id, line.orderItemId));
+        if (!item?.productId) continue;
+
+        let remaining = line.quantity;
+
+        const reservations = await tx
+            .select()
+            .from(stockReservations)
+            .where(
+                and(
+                    eq(stockReservations.orderItemId, line.orderItemId),
+                    eq(stockReservations.status, "active")
+                )
+            )
+            .orderBy(asc(stockReservations.createdAt))
+            .for("update");
+
+        for (const reservation of reservations) {
+            if (remaining === 0) break;
+            const take = Math.min(remaining, reservation.quantity);
+
+            if (take === reservation.quantity) {
+                await tx
+                    .update(stockReservations)
+                    .set({ status: "consumed", updatedAt: new Date() })
+                    .where(eq(stockReservations.id, reservation.id));
+            } else {
+                // Split the reservation so the shipped part is kept on record
+                await tx
+                    .update(stockReservations)
+                    .set({
+                        quantity: reservation.quantity - take,
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(stockReservations.id, reservation.id));
+                await tx.insert(stockReservations).values({
+                    orderId: reservation.orderId,
+                    orderItemId: reservation.orderItemId,
+                    stockLevelId: reservation.stockLevelId,
+                    quantity: take,
+                    status: "consumed",
+                });
+            }
+
+            await tx
+                .update(stockLevels)
+                .set({
+                    quantityOnHand: sql`${stockLevels.quantityOnHand} - ${take}`,
+                    quantityReserved: sql`${stockLevels.quantityReserved} - ${take}`,
+                    updatedAt: new Date(),
+                })
+                .where(eq(stockLevels.id, reservation.stockLevelId));
+
+            remaining -= take;
+        }
+
+        if (remaining === 0) continue;
+
+        const levels = await tx
+            .select()
+            .from(stockLevels)
+            .where(eq(stockLevels.productId, item.productId))
+            .orderBy(desc(freeQuantity))
+            .for("update");
+
+        for (const [index, level] of levels.entries()) {
+            // The last location takes whatever is left
+            const take =
+                index === levels.length - 1
+                    ? remaining
+                    : Math.min(
+                          remaining,
+                          Math.max(level.quantityOnHand - level.quantityReserved, 0)
+                      );
+            if (take === 0) continue;
+
+            await tx
+                .update(stockLevels)
+                .set({
+                    quantityOnHand: sql`${stockLevels.quantityOnHand} - ${take}`,
+                    updatedAt: new Date(),
+                })
+                .where(eq(stockLevels.id, level.id));
+
+            remaining -= take;
+            if (remaining === 0) break;
+        }
+    }
+}
+
+// Give back everything still reserved for an order that won't ship (further)
+export async function releaseStock(tx: Transaction, order: Order) {
+    const reservations = await tx
+        .select()
+        .from(stockReservations)
+        .where(
+            and(
+                eq(stockReservations.orderId, order.id),
+                eq(stockReservations.status, "active")
+            )
+        )
+        .for("update");
+
+    for (const reservation of reservations) {
+        await tx
+            .update(stockReservations)
+            .set({ status: "released", updatedAt: new Date() })
+            .where(eq(stockReservations.id, reservation.id));
+        await tx
+            .update(stockLevels)
+            .set({
+                quantityReserved: sql`${stockLevels.quantityReserved} - ${reservation.quantity}`,
+                updatedAt: new Date(),
+            })
+            .where(eq(stockLevels.id, reservation.stockLevelId));
+    }
+}
+
+// Stock levels whose free stock is at or below their reorder point
+const lowStockCondition = lte(freeQuantity, stockLevels.reorderPoint);
+
+export async function countLowStock(executor: DbExecutor) {
+    const [result] = await executor
+        .select({ count: count() })
+        .from(stockLevels)
+        .where(lowStockCondition);
+    return result?.count ?? 0;
+}
@@ -0,0 +1,194 @@
+import type { Invoice, InvoiceLine } from "@/lib/invoices";
+import { formatMoney } from "@/lib/currency";
+import {
+    fitText,
+    pageHeight,
+    pageWidth,
+    renderPdf,
+    type PdfPage,
+    type PdfText,
+} from "@/lib/pdf";
+
+export interface InvoiceDocument {
+    invoice: Invoice;
+    lines: InvoiceLine[];
+    orderNumber: string;
+    creditedInvoiceNumber: string | null;
+}
+
+const margin = 50;
+const right = pageWidth - margin;
+const rowHeight = 16;
+const footerSpace = 80;
+
+// Item table columns: left edge for text, right edge for numbers
+const columns = {
+    name: margin,
+    sku: 230,
+    quantity: 330,
+    unitPrice: 395,
+    discount: 445,
+    tax: 495,
+    total: right,
+};
+
+function formatDate(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+function tableHeader(y: number): PdfText[] {
+    return [
+        { x: columns.name, y, text: "Item", bold: true },
+        { x: columns.sku, y, text: "SKU", bold: true },
+        { x: columns.quantity, y, text: "Qty", bold: true, align: "right" },
+        { x: columns.unitPrice, y, text: "Unit price", bold: true, align: "right" },
+        { x: columns.discount, y, text: "Discount", bold: true, align: "right" },
+        { x: columns.tax, y, text: "Tax", bold: true, align: "right" },
+        { x: columns.total, y, text: "Total", bold: true, align: "right" },
+    ];
+}
+
+// Server-rendered PDF of an invoice or credit note
+export function renderInvoicePdf(document: InvoiceDocument) {
+    const { invoice, lines } = document;
+    const money = (amount: string | number) =>
+        formatMoney(amount, invoice.currency);
+    const isCreditNote = invoice.kind === "credit_note";
+
+    const pages: PdfPage[] = [];
+    let page: PdfPage = { texts: [], lines: [] };
+    pages.push(page);
+
+    // Title and issuer
+    page.texts.push({
+        x: margin,
+        y: 70,
+        text: isCreditNote ? "CREDIT NOTE" : "INVOICE",
+        size: 20,
+        bold: true,
+    });
+    (process.env.INVOICE_ISSUER ?? "")
+        .split("\n")
+        .filter(Boolean)
+        .forEach((text, index) =>
+            page.texts.push({
+                x: right,
+                y: 60 + index * 13,
+                text,
+                bold: index === 0,
+                align: "right",
+            })
+        );
+
+    // Document details
+    let y = 110;
+    const details: [string, string][] = [
+        [isCreditNote ? "Credit note" : "Invoice", invoice.invoiceNumber],
+        ["Date", formatDate(invoice.issuedAt)],
+        ["Order", document.orderNumber],
+    ];
+    if (document.creditedInvoiceNumber) {
+        details.push(["Credits invoice", document.creditedInvoiceNumber]);
+    }
+    if (invoice.reason) {
+        details.push(["Reason", invoice.reason]);
+    }
+    for (const [label, value] of details) {
+        page.texts.push({ x: margin, y, text: `${label}:`, bold: true });
+        page.texts.push({ x: margin + 90, y, text: fitText(value, 200, 10) });
+        y += 14;
+    }
+
+    // Customer as billed
+    let customerY = 110;
+    page.texts.push({ x: 340, y: customerY, text: "Bill to", bold: true });
+    const customerLines = [
+        invoice.customerName,
+        ...(invoice.customerAddress ?? "").split("\n"),
+        invoice.customerEmail ?? "",
+    ].filter(Boolean);
+    for (const text of customerLines) {
+        customerY += 14;
+        page.texts.push({ x: 340, y: customerY, text: fitText(text, right - 340, 10) });
+    }
+
+    // Item table, continued on further pages when it gets long
+    y = Math.max(y, customerY) + 30;
+    page.texts.push(...tableHeader(y));
+    page.lines!.push({ x1: margin, y1: y + 5, x2: right, y2: y + 5 });
+    y += rowHeight + 4;
+
+    for (const line of lines) {
+        if (y > pageHeight - footerSpace) {
+            page = { texts: [], lines: [] };
+            pages.push(page);
+            y = 70;
+            page.texts.push(...tableHeader(y));
+            page.lines!.push({ x1: margin, y1: y + 5, x2: right, y2: y + 5 });
+            y += rowHeight + 4;
+        }
+
+        page.texts.push(
+            { x: columns.name, y, text: fitText(line.name, columns.sku - columns.name - 10, 10) },
+            { x: columns.sku, y, text: fitText(line.sku ?? "", 70, 10) },
+            { x: columns.quantity, y, text: String(line.quantity), align: "right" },
+            { x: columns.unitPrice, y, text: money(line.unitPrice), align: "right" },
+            { x: columns.discount, y, text: money(line.discountAmount), align: "right" },
+            {
+                x: columns.tax,
+                y,
+                text: `${parseFloat(line.taxRate)}%`,
+                align: "right",
+            },
+            { x: columns.total, y, text: money(line.lineTotal), align: "right" }
+        );
+        y += rowHeight;
+    }
+
+    // Totals block, on a new page when it doesn't fit
+    if (y > pageHeight - footerSpace - 5 * rowHeight) {
+        page = { texts: [], lines: [] };
+        pages.push(page);
+        y = 70;
+    }
+    page.lines!.push({ x1: margin, y1: y - 10, x2: right, y2: y - 10 });
+    y += 6;
+
+    const totals: [string, string][] = [
+        ["Subtotal", money(invoice.subtotal)],
+        ["Discount", `-${money(invoice.discountTotal)}`],
+        ["Tax", money(invoice.taxTotal)],
+        ["Shipping", money(invoice.shippingCharge)],
+    ];
+    for (const [label, value] of totals) {
+        page.texts.push({ x: 420, y, text: label });
+        page.texts.push({ x: right, y, text: value, align: "right" });
+        y += 14;
+    }
+    page.texts.push({
+        x: 420,
+        y: y + 4,
+        text: isCreditNote ? "Total credited" : "Total due",
+        bold: true,
+    });
+    page.texts.push({
+        x: right,
+        y: y + 4,
+        text: money(invoice.total),
+        bold: true,
+        align: "right",
+    });
+
+    // Page numbers
+    pages.forEach((p, index) =>
+        p.texts.push({
+            x: right,
+            y: pageHeight - 30,
+            text: `${invoice.invoiceNumber} - page ${index + 1} of ${pages.length}`,
+            size: 8,
+            align: "right",
+        })
+    );
+
+    return renderPdf(pages);
+}
@@ -0,0 +1,398 @@
+import type { DbExecutor, Transaction } from "@/db/drizzle";
+import {
+    documentSequences,
+    invoiceKindEnum,
+    invoiceLines,
+    invoices,
+    orderItems,
+    orders,
+    returnItems,
+} from "@/db/order-schema";
+import { and, asc, desc, eq, getTableColumns, sql } from "drizzle-orm";
+import type { Order, OrderStatus, TransitionActor } from "@/lib/order-workflow";
+import type { ReturnRequest } from "@/lib/return-workflow";
+import { enqueueOutbox } from "@/lib/outbox";
+import { roundMoney } from "@/lib/pricing";
+import { formatMoney } from "@/lib/currency";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type InvoiceKind = (typeof invoiceKindEnum)[number];
+
+export type Invoice = typeof invoices.$inferSelect;
+
+export type InvoiceLine = typeof invoiceLines.$inferSelect;
+
+type OrderItem = typeof orderItems.$inferSelect;
+
+// Order statuses whose shipped goods can be invoiced
+export const invoiceableOrderStatuses: OrderStatus[] = [
+    "completed",
+    "partial_complete",
+];
+
+const numberPrefixes: Record<InvoiceKind, string> = {
+    invoice: "INV",
+    credit_note: "CN",
+};
+
+// Quantity of one order item billed or credited
+interface DocumentLine {
+    item: OrderItem;
+    quantity: number;
+}
+
+// Next number in the kind's sequence. The sequence row stays locked until the
+// transaction ends, so numbers are handed out in order and a rollback leaves
+// no gap.
+async function nextDocumentNumber(tx: Transaction, kind: InvoiceKind) {
+    const [sequence] = await tx
+        .insert(documentSequences)
+        .values({ name: kind, lastValue: 1 })
+        .onConflictDoUpdate({
+            target: documentSequences.name,
+            set: { lastValue: sql`${documentSequences.lastValue} + 1` },
+        })
+        .returning({ lastValue: documentSequences.lastValue });
+
+    return `${numberPrefixes[kind]}-${String(sequence.lastValue).padStart(6, "0")}`;
+}
+
+// Serialises invoicing of one order, e.g. completion racing a manual issue
+async function lockOrder(tx: Transaction, orderId: string) {
+    await tx
+        .select({ id: orders.id })
+        .from(orders)
+        .where(eq(orders.id, orderId))
+        .for("update");
+}
+
+// The item's discount and tax, spread over `quantity` of its units
+function priceLine({ item, quantity }: DocumentLine) {
+    const share = quantity / item.quantity;
+    const unitPrice = parseFloat(item.price);
+    const discountAmount = roundMoney(parseFloat(item.discountAmount) * share);
+    const taxAmount = roundMoney(parseFloat(item.taxAmount) * share);
+    return {
+        orderItemId: item.id,
+        name: item.name,
+        sku: item.sku,
+        quantity,
+        unitPrice: unitPrice.toFixed(2),
+        discountAmount: discountAmount.toFixed(2),
+        taxRate: item.taxRate,
+        taxAmount: taxAmount.toFixed(2),
+        lineTotal: roundMoney(
+            unitPrice * quantity - discountAmount + taxAmount
+        ).toFixed(2),
+    };
+}
+
+// Quantities per order item invoiced and credited so far, plus the shipping
+// charge billed and credited
+async function getBilledQuantities(executor: DbExecutor, orderId: string) {
+    const lines = await executor
+        .select({
+            orderItemId: invoiceLines.orderItemId,
+            kind: invoices.kind,
+            quantity: sql<number>`sum(${invoiceLines.quantity})::int`,
+        })
+        .from(invoiceLines)
+        .innerJoin(invoices, eq(invoiceLines.invoiceId, invoices.id))
+        .where(eq(invoices.orderId, orderId))
+        .groupBy(invoiceLines.orderItemId, invoices.kind);
+
+    const documents = await executor
+        .select({ kind: invoices.kind, shippingCharge: invoices.shippingCharge })
+        .from(invoices)
+        .where(eq(invoices.orderId, orderId));
+
+    const quantityOf = (orderItemId: string, kind: InvoiceKind) =>
+        lines.find((l) => l.orderItemId === orderItemId && l.kind === kind)
+            ?.quantity ?? 0;
+    const shippingOf = (kind: InvoiceKind) =>
+        documents
+            .filter((d) => d.kind === kind)
+            .reduce((sum, d) => sum + parseFloat(d.shippingCharge), 0);
+
+    return {
+        // Still on the customer's account: invoiced and not credited back
+        outstanding: (orderItemId: string) =>
+            quantityOf(orderItemId, "invoice") -
+            quantityOf(orderItemId, "credit_note"),
+        invoiced: (orderItemId: string) => quantityOf(orderItemId, "invoice"),
+        hasInvoice: documents.some((d) => d.kind === "invoice"),
+        outstandingShipping: roundMoney(
+            shippingOf("invoice") - shippingOf("credit_note")
+        ),
+    };
+}
+
+// Write an invoice or credit note with its lines and the order history entry
+async function issueDocument(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor,
+    document: {
+        kind: InvoiceKind;
+        lines: DocumentLine[];
+        shippingCharge: number;
+        creditedInvoiceId?: string;
+        returnRequestId?: string;
+        reason?: string;
+    }
+) {
+    const lines = document.lines.map(priceLine);
+    const subtotal = roundMoney(
+        lines.reduce(
+            (sum, line) => sum + parseFloat(line.unitPrice) * line.quantity,
+            0
+        )
+    );
+    const discountTotal = roundMoney(
+        lines.reduce((sum, line) => sum + parseFloat(line.discountAmount), 0)
+    );
+    const taxTotal = roundMoney(
+        lines.reduce((sum, line) => sum + parseFloat(line.taxAmount), 0)
+    );
+    const total = roundMoney(
+        subtotal - discountTotal + taxTotal + document.shippingCharge
+    );
+
+    const [invoice] = await tx
+        .insert(invoices)
+        .values({
+            invoiceNumber: await nextDocumentNumber(tx, document.kind),
+            kind: document.kind,
+            orderId: order.id,
+            creditedInvoiceId: document.creditedInvoiceId,
+            returnRequestId: document.returnRequestId,
+            customerName: order.customerName,
+            customerEmail: order.customerEmail,
+            customerAddress: order.customerAddress,
+            currency: order.currency,
+            subtotal: subtotal.toFixed(2),
+            discountTotal: discountTotal.toFixed(2),
+            taxTotal: taxTotal.toFixed(2),
+            shippingCharge: document.shippingCharge.toFixed(2),
+            total: total.toFixed(2),
+            reason: document.reason,
+            issuedBy: actor.id,
+        })
+        .returning();
+
+    if (lines.length > 0) {
+        await tx
+            .insert(invoiceLines)
+            .values(lines.map((line) => ({ ...line, invoiceId: invoice.id })));
+    }
+
+    const label = document.kind === "invoice" ? "Invoice" : "Credit note";
+    await recordOrderHistory(tx, {
+        orderId: order.id,
+        action: `${document.kind}_issued`,
+        performedBy: actor.id,
+        reason: document.reason,
+        notes: `${label} ${invoice.invoiceNumber} issued for ${formatMoney(
+            invoice.total,
+            invoice.currency
+        )}`,
+    });
+
+    await enqueueOutbox(tx, [
+        {
+            kind: "change_history",
+            payload: {
+                entityType: "invoice",
+                entityId: invoice.id,
+                action: `${document.kind}_issued`,
+                changes: {
+                    invoiceNumber: invoice.invoiceNumber,
+                    total: invoice.total,
+                    currency: invoice.currency,
+                },
+                performedBy: actor.id,
+                metadata: {
+                    userRole: actor.role,
+                    orderNumber: order.orderNumber,
+                },
+            },
+        },
+    ]);
+
+    return invoice;
+}
+
+// Latest invoice of the order, the one a credit note refers to
+async function latestInvoice(executor: DbExecutor, orderId: string) {
+    const [invoice] = await executor
+        .select()
+        .from(invoices)
+        .where(and(eq(invoices.orderId, orderId), eq(invoices.kind, "invoice")))
+        .orderBy(desc(invoices.issuedAt))
+        .limit(1);
+    return invoice;
+}
+
+// Invoice everything shipped that hasn't been billed yet. The shipping charge
+// goes on the order's first invoice. Returns null when there is nothing to bill.
+export async function issueOrderInvoice(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor
+) {
+    await lockOrder(tx, order.id);
+    const billed = await getBilledQuantities(tx, order.id);
+    const items = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id))
+        .orderBy(asc(orderItems.createdAt));
+
+    const lines = items
+        .map((item) => ({
+            item,
+            quantity: (item.quantityShipped ?? 0) - billed.invoiced(item.id),
+        }))
+        .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+        return null;
+    }
+
+    return issueDocument(tx, order, actor, {
+        kind: "invoice",
+        lines,
+        shippingCharge: billed.hasInvoice ? 0 : parseFloat(order.shippingCharge),
+    });
+}
+
+// Credit the goods received back on a return. Nothing happens when the order
+// was never invoiced.
+export async function creditReturn(
+    tx: Transaction,
+    returnRequest: ReturnRequest,
+    actor: TransitionActor
+) {
+    const [order] = await tx
+        .select()
+        .from(orders)
+        .where(eq(orders.id, returnRequest.orderId));
+    await lockOrder(tx, order.id);
+
+    const invoice = await latestInvoice(tx, order.id);
+    if (!invoice) {
+        return null;
+    }
+
+    const billed = await getBilledQuantities(tx, order.id);
+    const received = await tx
+        .select({ item: orderItems, quantity: returnItems.quantityReceived })
+        .from(returnItems)
+        .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+        .where(eq(returnItems.returnRequestId, returnRequest.id));
+
+    const lines = received
+        .map(({ item, quantity }) => ({
+            item,
+            quantity: Math.min(quantity ?? 0, billed.outstanding(item.id)),
+        }))
+        .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0) {
+        return null;
+    }
+
+    return issueDocument(tx, order, actor, {
+        kind: "credit_note",
+        lines,
+        shippingCharge: 0,
+        creditedInvoiceId: invoice.id,
+        returnRequestId: returnRequest.id,
+        reason: `Return ${returnRequest.rmaNumber}`,
+    });
+}
+
+// Credit whatever is still billed when an invoiced order is cancelled
+export async function creditCancelledOrder(
+    tx: Transaction,
+    order: Order,
+    actor: TransitionActor,
+    reason?: string
+) {
+    await lockOrder(tx, order.id);
+    const invoice = await latestInvoice(tx, order.id);
+    if (!invoice) {
+        return null;
+    }
+
+    const billed = await getBilledQuantities(tx, order.id);
+    const items = await tx
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, order.id))
+        .orderBy(asc(orderItems.createdAt));
+
+    const lines = items
+        .map((item) => ({ item, quantity: billed.outstanding(item.id) }))
+        .filter((line) => line.quantity > 0);
+
+    if (lines.length === 0 && billed.outstandingShipping <= 0) {
+        return null;
+    }
+
+    return issueDocument(tx, order, actor, {
+        kind: "credit_note",
+        lines,
+        shippingCharge: Math.max(billed.outstandingShipping, 0),
+        creditedInvoiceId: invoice.id,
+        reason: reason ? `Order cancelled: ${reason}` : "Order cancelled",
+    });
+}
+
+// Invoices and credit notes of an order, oldest first
+export async function getOrderInvoices(executor: DbExecutor, orderId: string) {
+    return executor
+        .select()
+        .from(invoices)
+        .where(eq(invoices.orderId, orderId))
+        .orderBy(asc(invoices.issuedAt), asc(invoices.invoiceNumber));
+}
+
+// An invoice with its lines and the order it bills, for rendering
+export async function getInvoiceDocument(
+    executor: DbExecutor,
+    invoiceId: string
+) {
+    const [invoice] = await executor
+        .select()
+        .from(invoices)
+        .where(eq(invoices.id, invoiceId));
+    if (!invoice) {
+        return null;
+    }
+
+    const [order] = await executor
+        .select({ orderNumber: orders.orderNumber })
+        .from(orders)
+        .where(eq(orders.id, invoice.orderId));
+    const [credited] = invoice.creditedInvoiceId
+        ? await executor
+              .select({ invoiceNumber: invoices.invoiceNumber })
+              .from(invoices)
+              .where(eq(invoices.id, invoice.creditedInvoiceId))
+        : [];
+    // In the order the items appear on the order
+    const lines = await executor
+        .select(getTableColumns(invoiceLines))
+        .from(invoiceLines)
+        .innerJoin(orderItems, eq(invoiceLines.orderItemId, orderItems.id))
+        .where(eq(invoiceLines.invoiceId, invoice.id))
+        .orderBy(asc(orderItems.createdAt));
+
+    return {
+        invoice,
+        lines,
+        orderNumber: order?.orderNumber ?? "",
+        creditedInvoiceNumber: credited?.invoiceNumber ?? null,
+    };
+}
@@ -0,0 +1,143 @@
+import type { DbExecutor, Transaction } from "@/db/drizzle";
+import {
+    assignmentRules,
+    assignmentStrategyEnum,
+    orders,
+} from "@/db/order-schema";
+import { user } from "@/db/auth-schema";
+import { and, asc, count, eq, inArray, isNull, or } from "drizzle-orm";
+import type { Order, OrderStatus } from "@/lib/order-workflow";
+import { queueRole, slaStatusesFor } from "@/lib/order-sla";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type AssignmentStrategy = (typeof assignmentStrategyEnum)[number];
+
+// Roles whose queue orders can be assigned in. Orders waiting on sales
+// (edit_requested) belong to their creator.
+export const assignableRoles = ["accountant", "warehouse", "shipper"] as const;
+
+export function isAssignableRole(role: string | null | undefined) {
+    return (assignableRoles as readonly string[]).includes(role ?? "");
+}
+
+// Users an order in the role's queue can be assigned to, oldest account first
+export async function getAssignees(executor: DbExecutor, role: string) {
+    return executor
+        .select({ id: user.id, name: user.name, role: user.role })
+        .from(user)
+        .where(
+            and(
+                eq(user.role, role),
+                or(isNull(user.banned), eq(user.banned, false))
+            )
+        )
+        .orderBy(asc(user.createdAt), asc(user.id));
+}
+
+// Open orders assigned to each of the users in the role's queue
+async function getAssignedCounts(
+    executor: DbExecutor,
+    role: string,
+    userIds: string[]
+) {
+    const rows = await executor
+        .select({ userId: orders.assignedTo, total: count() })
+        .from(orders)
+        .where(
+            and(
+                inArray(orders.assignedTo, userIds),
+                inArray(orders.status, slaStatusesFor(role))
+            )
+        )
+        .groupBy(orders.assignedTo);
+    return new Map(rows.map((row) => [row.userId, row.total]));
+}
+
+// Pick a user by the role's assignment rule, null when the rule is manual or
+// nobody has the role. The rule row is locked so concurrent round-robin picks
+// don't hand out the same user.
+async function pickAssignee(tx: Transaction, role: string) {
+    const [rule] = await tx
+        .select()
+        .from(assignmentRules)
+        .where(eq(assignmentRules.role, role))
+        .for("update");
+    if (!rule || rule.strategy === "manual") return null;
+
+    const candidates = await getAssignees(tx, role);
+    if (candidates.length === 0) return null;
+
+    let picked = candidates[0];
+    if (rule.strategy === "round_robin") {
+        const last = candidates.findIndex((c) => c.id === rule.lastAssignedTo);
+        picked = candidates[(last + 1) % candidates.length];
+    } else {
+        const counts = await getAssignedCounts(
+            tx,
+            role,
+            candidates.map((c) => c.id)
+        );
+        // Ties go to the user after the last one picked
+        const last = candidates.findIndex((c) => c.id === rule.lastAssignedTo);
+        const rotated = [
+            ...candidates.slice(last + 1),
+            ...candidates.slice(0, last + 1),
+        ];
+        picked = rotated.reduce((best, candidate) =>
+            (counts.get(candidate.id) ?? 0) < (counts.get(best.id) ?? 0)
+                ? candidate
+                : best
+        );
+    }
+
+    await tx
+        .update(assignmentRules)
+        .set({ lastAssignedTo: picked.id, updatedAt: new Date() })
+        .where(eq(assignmentRules.role, role));
+
+    return { ...picked, strategy: rule.strategy };
+}
+
+const strategyLabels: Record<AssignmentStrategy, string> = {
+    manual: "manually",
+    round_robin: "by round-robin",
+    least_load: "by least load",
+};
+
+// Hand the order to a user of the role its new status waits on. The
+// assignee is kept while the order stays with the same role and cleared when
+// it leaves the queues. Runs in the transaction that changes the status and
+// returns the assignee.
+export async function assignForStatus(
+    tx: Transaction,
+    order: Order,
+    status: OrderStatus
+) {
+    const role = queueRole(status);
+    if (order.assignedTo && role && role === queueRole(order.status)) {
+        return order.assignedTo;
+    }
+
+    const picked = isAssignableRole(role) ? await pickAssignee(tx, role!) : null;
+    if (!picked && !order.assignedTo) return null;
+
+    await tx
+        .update(orders)
+        .set({
+            assignedTo: picked?.id ?? null,
+            assignedAt: picked ? new Date() : null,
+        })
+        .where(eq(orders.id, order.id));
+
+    if (picked) {
+        await recordOrderHistory(tx, {
+            orderId: order.id,
+            action: "assigned",
+            notes: `Assigned to ${picked.name} (${role}) ${
+                strategyLabels[picked.strategy]
+            }`,
+        });
+    }
+
+    return picked?.id ?? null;
+}
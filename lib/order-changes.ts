@@ -0,0 +1,144 @@
+// Field-level diffs for order edits, stored in orderHistory.fieldChanges
+import { describeDiscount, type DiscountType } from "@/lib/pricing";
+
+export interface FieldChange {
+    from: unknown;
+    to: unknown;
+}
+
+export type FieldChanges = Record<string, FieldChange>;
+
+export interface EditableOrderFields {
+    customerName: string;
+    customerEmail?: string | null;
+    customerPhone?: string | null;
+    customerAddress?: string | null;
+    currency: string;
+    taxRegion?: string | null;
+    discountType?: DiscountType | null;
+    discountValue?: number | null;
+    subtotal: number;
+    discountTotal: number;
+    taxTotal: number;
+    shippingCharge: number;
+    total: number;
+    items: {
+        name: string;
+        description?: string | null;
+        sku?: string | null;
+        price: number;
+        quantity: number;
+        discountType?: DiscountType | null;
+        discountValue?: number | null;
+    }[];
+}
+
+function discountOf(fields: {
+    discountType?: DiscountType | null;
+    discountValue?: number | null;
+}) {
+    return describeDiscount(
+        fields.discountType && fields.discountValue
+            ? { type: fields.discountType, value: fields.discountValue }
+            : null
+    );
+}
+
+// Human readable line used when comparing item lists
+function describeItem(item: EditableOrderFields["items"][number]) {
+    const discount = discountOf(item);
+    return `${item.quantity} × ${item.name}${
+        item.sku ? ` (${item.sku})` : ""
+    } @ ${item.price.toFixed(2)}${discount ? ` less ${discount}` : ""}`;
+}
+
+function isSame(a: unknown, b: unknown) {
+    return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Compare two versions of an order and return only the fields that changed
+export function diffOrderFields(
+    before: EditableOrderFields,
+    after: EditableOrderFields
+): FieldChanges {
+    const changes: FieldChanges = {};
+
+    const scalarFields = [
+        "customerName",
+        "customerEmail",
+        "customerPhone",
+        "customerAddress",
+        "currency",
+        "taxRegion",
+    ] as const;
+
+    for (const field of scalarFields) {
+        const from = before[field] || null;
+        const to = after[field] || null;
+        if (from !== to) {
+            changes[field] = { from, to };
+        }
+    }
+
+    const discountBefore = discountOf(before);
+    const discountAfter = discountOf(after);
+    if (discountBefore !== discountAfter) {
+        changes.discount = { from: discountBefore, to: discountAfter };
+    }
+
+    const amountFields = [
+        "subtotal",
+        "discountTotal",
+        "taxTotal",
+        "shippingCharge",
+        "total",
+    ] as const;
+
+    for (const field of amountFields) {
+        const from = before[field].toFixed(2);
+        const to = after[field].toFixed(2);
+        if (from !== to) {
+            changes[field] = { from, to };
+        }
+    }
+
+    const itemsBefore = before.items.map(describeItem);
+    const itemsAfter = after.items.map(describeItem);
+    if (!isSame(itemsBefore, itemsAfter)) {
+        changes.items = { from: itemsBefore, to: itemsAfter };
+    }
+
+    return changes;
+}
+
+// Collapse a sequence of diffs into one, keeping the first "from" and the
+// last "to" of every field and dropping fields that ended where they started
+export function mergeFieldChanges(sequence: FieldChanges[]): FieldChanges {
+    const merged: FieldChanges = {};
+
+    for (const changes of sequence) {
+        for (const [field, change] of Object.entries(changes)) {
+            merged[field] = {
+                from: field in merged ? merged[field].from : change.from,
+                to: change.to,
+            };
+        }
+    }
+
+    for (const [field, change] of Object.entries(merged)) {
+        if (isSame(change.from, change.to)) {
+            delete merged[field];
+        }
+    }
+
+    return merged;
+}
+
+export function parseFieldChanges(value: string | null): FieldChanges {
+    if (!value) return {};
+    try {
+        return JSON.parse(value) as FieldChanges;
+    } catch {
+        return {};
+    }
+}
@@ -0,0 +1,69 @@
+import { type DbExecutor } from "@/db/drizzle";
+import { user } from "@/db/auth-schema";
+import { orderHistory } from "@/db/order-schema";
+import { inArray } from "drizzle-orm";
+import { enqueueOutbox } from "@/lib/outbox";
+import { orderTopic, realTimeEvent } from "@/lib/sse-events";
+
+type OrderHistoryValues = typeof orderHistory.$inferInsert;
+
+// Write order history entries and stream them to everyone watching the order.
+// Pass the transaction of the change so the event only goes out on commit.
+export async function recordOrderHistory(
+    executor: DbExecutor,
+    values: OrderHistoryValues | OrderHistoryValues[]
+) {
+    const entries = await executor
+        .insert(orderHistory)
+        .values(Array.isArray(values) ? values : [values])
+        .returning();
+    if (entries.length === 0) return;
+
+    const performerIds = [
+        ...new Set(
+            entries
+                .map((entry) => entry.performedBy)
+                .filter((id): id is string => !!id)
+        ),
+    ];
+    const performers =
+        performerIds.length > 0
+            ? await executor
+                  .select({
+                      id: user.id,
+                      name: user.name,
+                      email: user.email,
+                      role: user.role,
+                  })
+                  .from(user)
+                  .where(inArray(user.id, performerIds))
+            : [];
+
+    await enqueueOutbox(
+        executor,
+        entries.map((entry) => ({
+            kind: "sse",
+            payload: {
+                target: { topic: orderTopic(entry.orderId) },
+                event: realTimeEvent("order_history_added", {
+                    orderId: entry.orderId,
+                    entry: {
+                        id: entry.id,
+                        action: entry.action,
+                        fromStatus: entry.fromStatus,
+                        toStatus: entry.toStatus,
+                        fieldChanges: entry.fieldChanges,
+                        performedBy: entry.performedBy,
+                        reason: entry.reason,
+                        notes: entry.notes,
+                        createdAt: entry.createdAt.toISOString(),
+                        performedByUser:
+                            performers.find(
+                                (performer) => performer.id === entry.performedBy
+                            ) ?? null,
+                    },
+                }),
+            },
+        }))
+    );
+}
@@ -0,0 +1,97 @@
+import type { NotificationRecipient, OrderStatus } from "@/lib/order-workflow";
+
+// How long an order may stay in a status before it is overdue
+export interface OrderSla {
+    hours: number;
+    // Role whose queue the order sits in, for the overdue counts
+    role: string;
+    // Who is reminded, admins are added on escalation
+    waitingOn: NotificationRecipient;
+    // What is awaited, e.g. "approval"
+    task: string;
+}
+
+export const orderSlas: Partial<Record<OrderStatus, OrderSla>> = {
+    pending: {
+        hours: 24,
+        role: "accountant",
+        waitingOn: "remainingApprovers",
+        task: "approval",
+    },
+    partially_approved: {
+        hours: 24,
+        role: "accountant",
+        waitingOn: "remainingApprovers",
+        task: "approval",
+    },
+    edit_requested: {
+        hours: 48,
+        role: "sales",
+        waitingOn: "creator",
+        task: "requested edits",
+    },
+    approved: {
+        hours: 24,
+        role: "warehouse",
+        waitingOn: { role: "warehouse" },
+        task: "warehouse confirmation",
+    },
+    warehouse_confirmed: {
+        hours: 48,
+        role: "shipper",
+        waitingOn: { role: "shipper" },
+        task: "shipping",
+    },
+    shipped: {
+        hours: 168,
+        role: "shipper",
+        waitingOn: { role: "shipper" },
+        task: "delivery",
+    },
+};
+
+// Share of the SLA left when the reminder goes out
+export const reminderLeadShare = 0.25;
+
+// Due date for an order entering `status`, null when the status has no SLA
+export function slaDueAt(status: OrderStatus, from = new Date()) {
+    const sla = orderSlas[status];
+    return sla ? new Date(from.getTime() + sla.hours * 3_600_000) : null;
+}
+
+// When the reminder for an order due at `dueAt` is sent
+export function slaReminderAt(status: OrderStatus, dueAt: Date) {
+    const sla = orderSlas[status];
+    return sla
+        ? new Date(dueAt.getTime() - sla.hours * reminderLeadShare * 3_600_000)
+        : null;
+}
+
+// Held orders are never overdue, their clock is stopped
+export function isOverdue(
+    order: {
+        status: string;
+        dueAt: Date | string | null;
+        heldAt?: Date | string | null;
+    },
+    now = new Date()
+) {
+    return (
+        !!order.dueAt &&
+        !order.heldAt &&
+        order.status in orderSlas &&
+        new Date(order.dueAt).getTime() < now.getTime()
+    );
+}
+
+// Role whose queue an order in `status` sits in, if any
+export function queueRole(status: string) {
+    return orderSlas[status as OrderStatus]?.role ?? null;
+}
+
+// Statuses whose SLA is counted against a role, every status for admins
+export function slaStatusesFor(role: string) {
+    return (Object.keys(orderSlas) as OrderStatus[]).filter(
+        (status) => role === "admin" || orderSlas[status]!.role === role
+    );
+}
@@ -0,0 +1,1150 @@
+import { db, type DbExecutor, type Transaction } from "@/db/drizzle";
+import { orders, orderHistory, orderStatusEnum } from "@/db/order-schema";
+import { and, asc, desc, eq, gt, inArray, isNull } from "drizzle-orm";
+import {
+    mergeFieldChanges,
+    parseFieldChanges,
+    type FieldChanges,
+} from "@/lib/order-changes";
+import {
+    enqueueOutbox,
+    flushOutbox,
+    notificationMessage,
+    type OutboxMessage,
+} from "@/lib/outbox";
+import { orderTopics, realTimeEvent } from "@/lib/sse-events";
+import {
+    getOrderItems,
+    getParcelsToResend,
+    isFullyShipped,
+    planShipment,
+    recordReshipment,
+    recordShipment,
+    type ShipmentLine,
+} from "@/lib/fulfilment";
+import {
+    describeShortages,
+    getStockShortages,
+    releaseStock,
+    reserveStock,
+} from "@/lib/inventory";
+import {
+    missingExchangeRate,
+    snapshotExchangeRate,
+} from "@/lib/exchange-rates";
+import {
+    approvalProgress,
+    checkApprover,
+    clearApprovals,
+    CreditLimitError,
+    getOrderApprovals,
+    reapplyApprovalPolicies,
+    recordApproval,
+    remainingApprovalRoles,
+} from "@/lib/approval-policies";
+import { creditCancelledOrder, issueOrderInvoice } from "@/lib/invoices";
+import { getCarrier } from "@/lib/carriers";
+import { slaDueAt } from "@/lib/order-sla";
+import { assignForStatus } from "@/lib/order-assignment";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type OrderStatus = (typeof orderStatusEnum)[number];
+
+export type Order = typeof orders.$inferSelect;
+
+type OrderUpdate = Partial<typeof orders.$inferInsert>;
+
+// Order actions from the `order` access control statement (server/permissions.ts)
+export type OrderPermission =
+    | "create"
+    | "read"
+    | "update"
+    | "delete"
+    | "approve"
+    | "reject"
+    | "ship"
+    | "confirm"
+    | "cancel"
+    | "request_edit"
+    | "assign"
+    | "hold";
+
+// Data supplied by the user when triggering a transition
+export interface TransitionPayload {
+    reason?: string;
+    notes?: string;
+    trackingNumber?: string;
+    // Carrier adapter code (lib/carriers.ts), the shipment is tracked when set
+    carrier?: string;
+    // Per-item quantities for a shipment, everything outstanding when omitted
+    items?: ShipmentLine[];
+    // Warehouse confirms although stock doesn't cover every item
+    allowShortage?: boolean;
+}
+
+type TextPayloadField = "reason" | "notes" | "trackingNumber";
+
+// Who performs the transition
+export interface TransitionActor {
+    id: string;
+    role?: string | null;
+}
+
+// Who receives a notification for a transition
+export type NotificationRecipient =
+    | "creator"
+    | "approver"
+    | "warehouseConfirmer"
+    | "remainingApprovers" // Users who can fill an open approval slot
+    | { role: string };
+
+interface TransitionNotification {
+    to: NotificationRecipient;
+    title: string;
+    message: (order: Order, payload: TransitionPayload) => string;
+}
+
+export interface TransitionDefinition {
+    from: readonly OrderStatus[];
+    to: OrderStatus;
+    permission: OrderPermission;
+    requires?: TextPayloadField[];
+    // Extra check on the order and actor, returns an error message when denied
+    guard?: (order: Order, actor: TransitionActor) => string | null;
+    // Check that needs the database, returns an error message when invalid
+    validate?: (
+        order: Order,
+        payload: TransitionPayload,
+        actor: TransitionActor
+    ) => Promise<string | null>;
+    // Fired by the system (approval policies), never directly by a user
+    automatic?: boolean;
+    // Action of the order history entry, "status_changed" by default
+    historyAction?: string;
+    // Action name used for the Upstash change history
+    changeAction: string;
+    historyNotes: (payload: TransitionPayload) => string;
+    // Extra columns to write alongside the new status
+    update?: (actor: TransitionActor, payload: TransitionPayload) => OrderUpdate;
+    // Field-level diff written to the history entry of the transition
+    fieldChanges?: (order: Order) => Promise<FieldChanges>;
+    // Extra writes performed in the same transaction as the status change
+    effects?: (
+        tx: Transaction,
+        order: Order,
+        actor: TransitionActor,
+        payload: TransitionPayload
+    ) => Promise<void>;
+    notifications: TransitionNotification[];
+    // Roles that receive the real-time status change event besides the creator
+    notifyRoles?: string[];
+    invalidStatusMessage: (status: OrderStatus) => string;
+    successMessage: string;
+    failureMessage: string;
+}
+
+export const terminalStatuses: OrderStatus[] = ["completed", "failed", "cancelled"];
+
+// Merge every edit made since the order was last sent back for changes or
+// rejected
+async function collectEditChanges(order: Order): Promise<FieldChanges> {
+    const [editRequest] = await db
+        .select({ createdAt: orderHistory.createdAt })
+        .from(orderHistory)
+        .where(
+            and(
+                eq(orderHistory.orderId, order.id),
+                inArray(orderHistory.toStatus, ["edit_requested", "rejected"])
+            )
+        )
+        .orderBy(desc(orderHistory.createdAt))
+        .limit(1);
+
+    const edits = await db
+        .select({ fieldChanges: orderHistory.fieldChanges })
+        .from(orderHistory)
+        .where(
+            and(
+                eq(orderHistory.orderId, order.id),
+                eq(orderHistory.action, "field_updated"),
+                editRequest
+                    ? gt(orderHistory.createdAt, editRequest.createdAt)
+                    : undefined
+            )
+        )
+        .orderBy(asc(orderHistory.createdAt));
+
+    return mergeFieldChanges(
+        edits.map((edit) => parseFieldChanges(edit.fieldChanges))
+    );
+}
+
+// Declarative order workflow: every status change goes through this table
+export const orderTransitions = {
+    approve: {
+        from: ["pending", "partially_approved"],
+        to: "approved",
+        permission: "approve",
+        changeAction: "order_approved",
+        historyNotes: () => "Order approved by accountant",
+        validate: async (order, _payload, actor) =>
+            (await missingExchangeRate(db, order)) ??
+            (await checkApprover(db, order, actor)),
+        update: (actor) => ({
+            approvedBy: actor.id,
+            approvedAt: new Date(),
+        }),
+        effects: async (tx, order, actor) => {
+            await recordApproval(tx, order, actor);
+            await reserveStock(tx, order);
+            await snapshotExchangeRate(tx, order);
+        },
+        notifications: [
+            {
+                to: { role: "warehouse" },
+                title: "Order Approved - Awaiting Confirmation",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been approved and is awaiting warehouse confirmation.`,
+            },
+            {
+                to: "creator",
+                title: "Order Approved",
+                message: (order) =>
+                    `Your order ${order.orderNumber} has been approved by the accountant.`,
+            },
+        ],
+        notifyRoles: ["warehouse"],
+        invalidStatusMessage: () => "Order is not awaiting approval",
+        successMessage: "Order approved successfully",
+        failureMessage: "Failed to approve order",
+    },
+    // An approval that still leaves the order short of its required approvers
+    record_approval: {
+        from: ["pending", "partially_approved"],
+        to: "partially_approved",
+        permission: "approve",
+        historyAction: "approval_recorded",
+        changeAction: "order_approval_recorded",
+        historyNotes: () => "Approval recorded, waiting for further approvers",
+        validate: async (order, _payload, actor) =>
+            checkApprover(db, order, actor),
+        fieldChanges: (order) => approvalProgress(db, order),
+        effects: async (tx, order, actor) => {
+            await recordApproval(tx, order, actor);
+        },
+        notifications: [
+            {
+                to: "remainingApprovers",
+                title: "Further Approval Needed",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been partially approved and is waiting for your approval.`,
+            },
+        ],
+        notifyRoles: ["accountant", "admin"],
+        invalidStatusMessage: () => "Order is not awaiting approval",
+        successMessage: "Approval recorded, further approvers are required",
+        failureMessage: "Failed to approve order",
+    },
+    // Approval by an auto_approve policy, the rule goes in `reason`
+    auto_approve: {
+        from: ["pending"],
+        to: "approved",
+        permission: "approve",
+        automatic: true,
+        requires: ["reason"],
+        changeAction: "order_auto_approved",
+        historyNotes: () => "Order approved automatically",
+        validate: async (order) =>
+            order.requiredApprovals > 1
+                ? "Order needs more than one approver"
+                : missingExchangeRate(db, order),
+        update: () => ({
+            approvedAt: new Date(),
+        }),
+        effects: async (tx, order) => {
+            await reserveStock(tx, order);
+            await snapshotExchangeRate(tx, order);
+        },
+        notifications: [
+            {
+                to: { role: "warehouse" },
+                title: "Order Approved - Awaiting Confirmation",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been approved and is awaiting warehouse confirmation.`,
+            },
+            {
+                to: "creator",
+                title: "Order Approved",
+                message: (order) =>
+                    `Your order ${order.orderNumber} has been approved automatically.`,
+            },
+        ],
+        notifyRoles: ["warehouse"],
+        invalidStatusMessage: () => "Order is not in pending status",
+        successMessage: "Order approved automatically",
+        failureMessage: "Failed to approve order",
+    },
+    // Rejection by a credit_limit policy, the rule goes in `reason`
+    auto_reject: {
+        from: ["pending"],
+        to: "rejected",
+        permission: "reject",
+        automatic: true,
+        requires: ["reason"],
+        changeAction: "order_auto_rejected",
+        historyNotes: () => "Order rejected automatically",
+        update: (_actor, payload) => ({
+            rejectionReason: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Rejected",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has been rejected automatically. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () => "Order is not in pending status",
+        successMessage: "Order rejected automatically",
+        failureMessage: "Failed to reject order",
+    },
+    reject: {
+        from: ["pending", "partially_approved"],
+        to: "rejected",
+        permission: "reject",
+        requires: ["reason"],
+        changeAction: "order_rejected",
+        historyNotes: () => "Order rejected by accountant",
+        update: (_actor, payload) => ({
+            rejectionReason: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Rejected",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has been rejected. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () => "Order is not awaiting approval",
+        successMessage: "Order rejected successfully",
+        failureMessage: "Failed to reject order",
+    },
+    request_edit: {
+        from: ["pending", "partially_approved"],
+        to: "edit_requested",
+        permission: "request_edit",
+        requires: ["reason"],
+        changeAction: "order_edit_requested",
+        historyNotes: () => "Edit requested by accountant",
+        update: (_actor, payload) => ({
+            editRequestReason: payload.reason,
+        }),
+        // The revised order has to be approved from scratch
+        effects: clearApprovals,
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Edit Requested",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} needs changes before it can be approved. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () => "Order is not awaiting approval",
+        successMessage: "Edit requested successfully",
+        failureMessage: "Failed to request edit",
+    },
+    resubmit: {
+        from: ["edit_requested"],
+        to: "pending",
+        permission: "update",
+        guard: (order, actor) =>
+            order.createdBy === actor.id
+                ? null
+                : "Only the order creator can resubmit this order",
+        changeAction: "order_resubmitted",
+        historyNotes: () => "Order revised and resubmitted by sales",
+        update: () => ({
+            editRequestReason: null,
+        }),
+        fieldChanges: collectEditChanges,
+        // Checked again against the current policies and credit limits
+        effects: async (tx, order, actor) => {
+            await reapplyApprovalPolicies(tx, order, actor.id);
+        },
+        notifications: [
+            {
+                to: { role: "accountant" },
+                title: "Order Resubmitted",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been revised and is pending your approval.`,
+            },
+        ],
+        notifyRoles: ["accountant"],
+        invalidStatusMessage: () =>
+            "Only orders awaiting edits can be resubmitted",
+        successMessage: "Order resubmitted for approval",
+        failureMessage: "Failed to resubmit order",
+    },
+    // Sales revise a rejected order and send it through approval again
+    resubmit_rejected: {
+        from: ["rejected"],
+        to: "pending",
+        permission: "update",
+        guard: (order, actor) =>
+            order.createdBy === actor.id
+                ? null
+                : "Only the order creator can resubmit this order",
+        changeAction: "order_resubmitted_after_rejection",
+        historyNotes: (payload) =>
+            `Rejected order revised and resubmitted by sales${
+                payload.notes ? `: ${payload.notes}` : ""
+            }`,
+        update: () => ({
+            rejectionReason: null,
+        }),
+        fieldChanges: collectEditChanges,
+        // Approvals given before a partial rejection don't carry over, and
+        // the policies are checked again
+        effects: async (tx, order, actor) => {
+            await clearApprovals(tx, order);
+            await reapplyApprovalPolicies(tx, order, actor.id);
+        },
+        notifications: [
+            {
+                to: { role: "accountant" },
+                title: "Rejected Order Resubmitted",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} was rejected earlier and has been revised for your approval${
+                        payload.notes ? `. Notes: ${payload.notes}` : ""
+                    }.`,
+            },
+        ],
+        notifyRoles: ["accountant"],
+        invalidStatusMessage: () =>
+            "Only rejected orders can be resubmitted this way",
+        successMessage: "Order resubmitted for approval",
+        failureMessage: "Failed to resubmit order",
+    },
+    warehouse_confirm: {
+        from: ["approved"],
+        to: "warehouse_confirmed",
+        permission: "confirm",
+        validate: async (order, payload) => {
+            if (payload.allowShortage) return null;
+            const shortages = await getStockShortages(db, order.id);
+            return shortages.length > 0
+                ? `Insufficient stock: ${describeShortages(shortages)}`
+                : null;
+        },
+        // Stock may have come in since approval
+        effects: reserveStock,
+        changeAction: "warehouse_confirmed",
+        historyNotes: (payload) =>
+            payload.allowShortage
+                ? "Order confirmed by warehouse despite a stock shortage"
+                : "Order confirmed by warehouse",
+        update: (actor) => ({
+            warehouseConfirmedBy: actor.id,
+            warehouseConfirmedAt: new Date(),
+        }),
+        notifications: [
+            {
+                to: { role: "shipper" },
+                title: "Order Ready for Shipping",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been confirmed by warehouse and is ready for shipping.`,
+            },
+            {
+                to: "creator",
+                title: "Order Warehouse Confirmed",
+                message: (order) =>
+                    `Your order ${order.orderNumber} has been confirmed by the warehouse.`,
+            },
+        ],
+        notifyRoles: ["shipper"],
+        invalidStatusMessage: () =>
+            "Order must be approved before warehouse confirmation",
+        successMessage: "Order confirmed by warehouse successfully",
+        failureMessage: "Failed to confirm order",
+    },
+    warehouse_reject: {
+        from: ["approved"],
+        to: "warehouse_rejected",
+        permission: "reject",
+        requires: ["reason"],
+        changeAction: "warehouse_rejected",
+        historyNotes: () => "Order rejected by warehouse",
+        effects: releaseStock,
+        update: (_actor, payload) => ({
+            warehouseRejectionReason: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Rejected by Warehouse",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has been rejected by warehouse. Reason: ${payload.reason}`,
+            },
+            {
+                to: "approver",
+                title: "Order Rejected by Warehouse",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} that you approved has been rejected by warehouse. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () =>
+            "Order must be approved before warehouse can reject it",
+        successMessage: "Order rejected by warehouse successfully",
+        failureMessage: "Failed to reject order",
+    },
+    // Accounting fixed what the warehouse rejected the order for and hands it
+    // back for confirmation
+    return_to_warehouse: {
+        from: ["warehouse_rejected"],
+        to: "approved",
+        permission: "approve",
+        requires: ["notes"],
+        // Warehouse users hold `approve` too, but can't overrule their own
+        // rejection
+        guard: (_order, actor) =>
+            actor.role === "accountant" || actor.role === "admin"
+                ? null
+                : "Only accounting can send the order back to warehouse",
+        changeAction: "order_returned_to_warehouse",
+        historyNotes: (payload) =>
+            `Sent back to warehouse by accountant: ${payload.notes}`,
+        update: () => ({
+            warehouseRejectionReason: null,
+        }),
+        // The rejection released the stock
+        effects: reserveStock,
+        notifications: [
+            {
+                to: { role: "warehouse" },
+                title: "Order Returned to Warehouse",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} has been fixed and is awaiting warehouse confirmation again. Notes: ${payload.notes}`,
+            },
+            {
+                to: "creator",
+                title: "Order Returned to Warehouse",
+                message: (order) =>
+                    `Your order ${order.orderNumber} has been sent back to the warehouse after their rejection was addressed.`,
+            },
+        ],
+        notifyRoles: ["warehouse"],
+        invalidStatusMessage: () =>
+            "Only orders rejected by warehouse can be sent back to warehouse",
+        successMessage: "Order sent back to warehouse",
+        failureMessage: "Failed to send order back to warehouse",
+    },
+    ship: {
+        // Further shipments can follow until every item has been shipped
+        from: ["warehouse_confirmed", "shipped", "partial_complete"],
+        to: "shipped",
+        permission: "ship",
+        validate: async (order, payload) => {
+            if (payload.carrier && !getCarrier(payload.carrier)) {
+                return "Unknown carrier";
+            }
+            if (payload.carrier && !payload.trackingNumber?.trim()) {
+                return "A tracking number is required to track the shipment";
+            }
+            const plan = await planShipment(db, order.id, payload.items);
+            return "error" in plan ? plan.error : null;
+        },
+        effects: recordShipment,
+        changeAction: "order_shipped",
+        historyNotes: (payload) =>
+            `Shipment sent by shipper${
+                payload.trackingNumber
+                    ? ` with tracking: ${payload.trackingNumber}`
+                    : ""
+            }`,
+        update: (actor, payload) => ({
+            shippedBy: actor.id,
+            shippedAt: new Date(),
+            trackingNumber: payload.trackingNumber || null,
+            shippingNotes: payload.notes || null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Shipped",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has been shipped${
+                        payload.trackingNumber
+                            ? ` with tracking number: ${payload.trackingNumber}`
+                            : ""
+                    }.`,
+            },
+        ],
+        invalidStatusMessage: () =>
+            "Order must be warehouse confirmed before shipping",
+        successMessage: "Order shipped successfully",
+        failureMessage: "Failed to ship order",
+    },
+    complete: {
+        from: ["shipped"],
+        to: "completed",
+        permission: "ship",
+        validate: async (order) =>
+            isFullyShipped(await getOrderItems(db, order.id))
+                ? null
+                : "Some items have not been shipped yet",
+        effects: async (tx, order, actor) => {
+            await issueOrderInvoice(tx, order, actor);
+        },
+        changeAction: "order_completed",
+        historyNotes: (payload) =>
+            `Order completed by shipper${
+                payload.notes ? `: ${payload.notes}` : ""
+            }`,
+        update: (_actor, payload) => ({
+            completedAt: new Date(),
+            completionNotes: payload.notes || null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Completed",
+                message: (order, payload) =>
+                    `Your order ${
+                        order.orderNumber
+                    } has been completed successfully${
+                        payload.notes ? `. Notes: ${payload.notes}` : ""
+                    }.`,
+            },
+            {
+                to: { role: "admin" },
+                title: "Order Completed",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been marked as completed`,
+            },
+        ],
+        invalidStatusMessage: () => "Order must be shipped before completion",
+        successMessage: "Order completed successfully",
+        failureMessage: "Failed to complete order",
+    },
+    fail: {
+        from: ["shipped"],
+        to: "failed",
+        permission: "ship",
+        requires: ["reason"],
+        changeAction: "order_failed",
+        historyNotes: () => "Order marked as failed by shipper",
+        effects: releaseStock,
+        update: (_actor, payload) => ({
+            completionNotes: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Failed",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has failed during delivery. Reason: ${payload.reason}`,
+            },
+            {
+                to: "warehouseConfirmer",
+                title: "Order Delivery Failed",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} that you confirmed has failed during delivery. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () =>
+            "Order must be shipped before marking as failed",
+        successMessage: "Order marked as failed successfully",
+        failureMessage: "Failed to mark order as failed",
+    },
+    // Send the undelivered parcels of a failed order again
+    reship: {
+        from: ["failed"],
+        to: "shipped",
+        permission: "ship",
+        requires: ["trackingNumber"],
+        validate: async (order, payload) => {
+            if (payload.carrier && !getCarrier(payload.carrier)) {
+                return "Unknown carrier";
+            }
+            const parcels = await getParcelsToResend(db, order.id);
+            return parcels.length === 0
+                ? "There are no undelivered parcels to reship"
+                : null;
+        },
+        effects: recordReshipment,
+        changeAction: "order_reshipped",
+        historyNotes: (payload) =>
+            `Failed order reshipped by shipper with tracking: ${payload.trackingNumber}`,
+        update: (actor, payload) => ({
+            shippedBy: actor.id,
+            shippedAt: new Date(),
+            trackingNumber: payload.trackingNumber,
+            shippingNotes: payload.notes || null,
+            completionNotes: null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Reshipped",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} failed delivery and has been shipped again with tracking number: ${payload.trackingNumber}.`,
+            },
+            {
+                to: "warehouseConfirmer",
+                title: "Order Reshipped",
+                message: (order) =>
+                    `Order ${order.orderNumber} that failed delivery has been shipped again.`,
+            },
+        ],
+        invalidStatusMessage: () => "Only failed orders can be reshipped",
+        successMessage: "Order reshipped successfully",
+        failureMessage: "Failed to reship order",
+    },
+    // Carrier reported every parcel delivered (lib/carrier-tracking.ts)
+    delivery_confirmed: {
+        from: ["shipped"],
+        to: "completed",
+        permission: "ship",
+        automatic: true,
+        validate: async (order) =>
+            isFullyShipped(await getOrderItems(db, order.id))
+                ? null
+                : "Some items have not been shipped yet",
+        effects: async (tx, order, actor) => {
+            await issueOrderInvoice(tx, order, actor);
+        },
+        changeAction: "order_delivery_confirmed",
+        historyNotes: (payload) =>
+            `Order completed automatically${
+                payload.notes ? `: ${payload.notes}` : ""
+            }`,
+        update: (_actor, payload) => ({
+            completedAt: new Date(),
+            completionNotes: payload.notes || null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Delivered",
+                message: (order) =>
+                    `Your order ${order.orderNumber} has been delivered and is now completed.`,
+            },
+            {
+                to: { role: "admin" },
+                title: "Order Completed",
+                message: (order) =>
+                    `Order ${order.orderNumber} was completed after the carrier confirmed delivery`,
+            },
+        ],
+        invalidStatusMessage: () => "Order must be shipped before completion",
+        successMessage: "Order completed automatically",
+        failureMessage: "Failed to complete order",
+    },
+    // Carrier reported a failed delivery (lib/carrier-tracking.ts)
+    delivery_failed: {
+        from: ["shipped"],
+        to: "failed",
+        permission: "ship",
+        automatic: true,
+        requires: ["reason"],
+        changeAction: "order_delivery_failed",
+        historyNotes: () => "Order marked as failed after a carrier report",
+        effects: releaseStock,
+        update: (_actor, payload) => ({
+            completionNotes: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Failed",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has failed during delivery. Reason: ${payload.reason}`,
+            },
+            {
+                to: "warehouseConfirmer",
+                title: "Order Delivery Failed",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} that you confirmed has failed during delivery. Reason: ${payload.reason}`,
+            },
+            {
+                to: { role: "shipper" },
+                title: "Order Delivery Failed",
+                message: (order, payload) =>
+                    `The carrier reported a failed delivery for order ${order.orderNumber}. Reason: ${payload.reason}`,
+            },
+        ],
+        invalidStatusMessage: () =>
+            "Order must be shipped before marking as failed",
+        successMessage: "Order marked as failed automatically",
+        failureMessage: "Failed to mark order as failed",
+    },
+    partial_complete: {
+        from: ["shipped"],
+        to: "partial_complete",
+        permission: "ship",
+        validate: async (order) =>
+            isFullyShipped(await getOrderItems(db, order.id))
+                ? "All items have been shipped, complete the order instead"
+                : null,
+        // Items that won't ship any more give their stock back, what did
+        // ship is invoiced
+        effects: async (tx, order, actor) => {
+            await releaseStock(tx, order);
+            await issueOrderInvoice(tx, order, actor);
+        },
+        changeAction: "order_partial_completed",
+        historyNotes: (payload) =>
+            `Order partially completed by shipper${
+                payload.notes ? `: ${payload.notes}` : ""
+            }`,
+        update: (_actor, payload) => ({
+            completionNotes: payload.notes || null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Partially Completed",
+                message: (order, payload) =>
+                    `Your order ${
+                        order.orderNumber
+                    } has been partially completed${
+                        payload.notes ? `. Notes: ${payload.notes}` : ""
+                    }.`,
+            },
+            {
+                to: { role: "admin" },
+                title: "Order Partially Completed",
+                message: (order) =>
+                    `Order ${order.orderNumber} has been marked as partially completed`,
+            },
+        ],
+        invalidStatusMessage: () =>
+            "Order must be shipped before marking as partial complete",
+        successMessage: "Order marked as partially completed",
+        failureMessage: "Failed to mark order as partially completed",
+    },
+    cancel: {
+        from: orderStatusEnum.filter(
+            (status) => !terminalStatuses.includes(status)
+        ),
+        to: "cancelled",
+        permission: "cancel",
+        effects: async (tx, order, actor, payload) => {
+            await releaseStock(tx, order);
+            await creditCancelledOrder(tx, order, actor, payload.reason);
+        },
+        changeAction: "order_cancelled",
+        historyNotes: (payload) =>
+            `Order cancelled${payload.reason ? `: ${payload.reason}` : ""}`,
+        update: (_actor, payload) => ({
+            cancellationReason: payload.reason || null,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Order Cancelled",
+                message: (order, payload) =>
+                    `Your order ${order.orderNumber} has been cancelled${
+                        payload.reason ? `. Reason: ${payload.reason}` : ""
+                    }.`,
+            },
+            {
+                to: { role: "admin" },
+                title: "Order Cancelled",
+                message: (order, payload) =>
+                    `Order ${order.orderNumber} has been cancelled${
+                        payload.reason ? `: ${payload.reason}` : ""
+                    }`,
+            },
+        ],
+        invalidStatusMessage: (status) =>
+            `Cannot cancel an order in status '${status}'`,
+        successMessage: "Order cancelled successfully",
+        failureMessage: "Failed to cancel order",
+    },
+} satisfies Record<string, TransitionDefinition>;
+
+export type OrderEvent = keyof typeof orderTransitions;
+
+export type TransitionResult = {
+    success: boolean;
+    message: string;
+    // Set when the order changed between reading and writing it
+    conflict?: boolean;
+};
+
+export const orderConflictMessage =
+    "This order was changed by someone else. Refresh to see the latest version.";
+
+// Thrown inside a transaction to roll it back when the guarded update misses
+export class OrderConflictError extends Error {
+    constructor() {
+        super(orderConflictMessage);
+        this.name = "OrderConflictError";
+    }
+}
+
+// Events a user can fire from the given status
+export function getAvailableEvents(status: OrderStatus): OrderEvent[] {
+    return (Object.keys(orderTransitions) as OrderEvent[]).filter((event) => {
+        const definition: TransitionDefinition = orderTransitions[event];
+        return !definition.automatic && definition.from.includes(status);
+    });
+}
+
+function onlyAssignee(order: Order, userIds: string[]) {
+    return order.assignedTo && userIds.includes(order.assignedTo)
+        ? [order.assignedTo]
+        : userIds;
+}
+
+// Resolve notification recipients to user ids. Role recipients and approvers
+// narrow down to the order's assignee when it is one of them.
+export async function resolveRecipients(
+    executor: DbExecutor,
+    order: Order,
+    recipient: NotificationRecipient
+): Promise<string[]> {
+    if (typeof recipient === "object") {
+        const users = await executor.query.user.findMany({
+            where: (user, { eq }) => eq(user.role, recipient.role),
+        });
+        return onlyAssignee(order, users.map((u) => u.id));
+    }
+
+    if (recipient === "remainingApprovers") {
+        const approvals = await getOrderApprovals(executor, order.id);
+        // Open slots without a role can be filled by any accountant
+        const roles = remainingApprovalRoles(order, approvals).map(
+            (role) => role ?? "accountant"
+        );
+        if (roles.length === 0) return [];
+        const users = await executor.query.user.findMany({
+            where: (user, { inArray }) => inArray(user.role, roles),
+        });
+        return onlyAssignee(
+            order,
+            users
+                .filter((u) => !approvals.some((a) => a.approvedBy === u.id))
+                .map((u) => u.id)
+        );
+    }
+
+    const userId = {
+        creator: order.createdBy,
+        approver: order.approvedBy,
+        warehouseConfirmer: order.warehouseConfirmedBy,
+    }[recipient];
+
+    return userId ? [userId] : [];
+}
+
+// Notifications and real-time events produced by a transition
+async function buildTransitionMessages(
+    executor: DbExecutor,
+    order: Order,
+    definition: TransitionDefinition,
+    payload: TransitionPayload
+): Promise<OutboxMessage[]> {
+    const messages: OutboxMessage[] = [];
+
+    for (const notification of definition.notifications) {
+        const userIds = await resolveRecipients(
+            executor,
+            order,
+            notification.to
+        );
+        for (const userId of userIds) {
+            messages.push(
+                notificationMessage(
+                    userId,
+                    notification.title,
+                    notification.message(order, payload),
+                    order.id
+                )
+            );
+        }
+    }
+
+    const statusEvent = realTimeEvent("order_status_changed", {
+        orderId: order.id,
+        newStatus: definition.to,
+        orderNumber: order.orderNumber,
+    });
+
+    if (order.createdBy) {
+        messages.push({
+            kind: "sse",
+            payload: { target: { userId: order.createdBy }, event: statusEvent },
+        });
+    }
+    for (const role of definition.notifyRoles ?? []) {
+        messages.push({
+            kind: "sse",
+            payload: { target: { role }, event: statusEvent },
+        });
+    }
+    for (const topic of orderTopics(order)) {
+        messages.push({
+            kind: "sse",
+            payload: { target: { topic }, event: statusEvent },
+        });
+    }
+
+    return messages;
+}
+
+// Serialize column updates for the change history store
+function serializeChanges(update: OrderUpdate) {
+    return Object.fromEntries(
+        Object.entries(update).map(([key, value]) => [
+            key,
+            value instanceof Date ? value.toISOString() : value ?? null,
+        ])
+    );
+}
+
+// Apply a transition to an already loaded order. Callers are responsible for
+// authenticating the actor and checking the transition permission.
+// `expectedVersion` is the version the user was looking at, if known.
+export async function applyOrderTransition(
+    order: Order,
+    event: OrderEvent,
+    payload: TransitionPayload,
+    actor: TransitionActor,
+    expectedVersion?: number
+): Promise<TransitionResult> {
+    const definition: TransitionDefinition = orderTransitions[event];
+
+    if (expectedVersion !== undefined && expectedVersion !== order.version) {
+        return { success: false, conflict: true, message: orderConflictMessage };
+    }
+
+    // Held orders keep their place in the workflow until released
+    if (order.heldAt) {
+        return {
+            success: false,
+            message: `Order is on hold (${order.holdReason}). Release the hold first.`,
+        };
+    }
+
+    for (const field of definition.requires ?? []) {
+        if (!payload[field]?.trim()) {
+            return { success: false, message: `A ${field} is required` };
+        }
+    }
+
+    if (!definition.from.includes(order.status)) {
+        return {
+            success: false,
+            message: definition.invalidStatusMessage(order.status),
+        };
+    }
+
+    const denied = definition.guard?.(order, actor);
+    if (denied) {
+        return { success: false, message: denied };
+    }
+
+    const invalid = await definition.validate?.(order, payload, actor);
+    if (invalid) {
+        return { success: false, message: invalid };
+    }
+
+    const fromStatus = order.status;
+    const update = definition.update?.(actor, payload) ?? {};
+    const fieldChanges = await definition.fieldChanges?.(order);
+
+    try {
+        await db.transaction(async (tx) => {
+            // Only update if nobody else moved the order in the meantime
+            const updated = await tx
+                .update(orders)
+                .set({
+                    ...update,
+                    status: definition.to,
+                    // A new status starts a new SLA clock
+                    ...(definition.to !== fromStatus && {
+                        dueAt: slaDueAt(definition.to),
+                        slaRemindedAt: null,
+                        slaEscalatedAt: null,
+                    }),
+                    version: order.version + 1,
+                    updatedBy: actor.id,
+                    updatedAt: new Date(),
+                })
+                .where(
+                    and(
+                        eq(orders.id, order.id),
+                        eq(orders.status, fromStatus),
+                        eq(orders.version, order.version),
+                        isNull(orders.heldAt)
+                    )
+                )
+                .returning({ id: orders.id });
+
+            if (updated.length === 0) {
+                throw new OrderConflictError();
+            }
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: definition.historyAction ?? "status_changed",
+                fromStatus,
+                toStatus: definition.to,
+                performedBy: actor.id,
+                reason: payload.reason,
+                notes: definition.historyNotes(payload),
+                fieldChanges: fieldChanges
+                    ? JSON.stringify(fieldChanges)
+                    : null,
+            });
+
+            await definition.effects?.(tx, order, actor, payload);
+
+            const assignedTo = await assignForStatus(tx, order, definition.to);
+
+            // Side effects are queued in the same transaction so they are
+            // delivered if and only if the transition commits
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "order",
+                        entityId: order.id,
+                        action: definition.changeAction,
+                        changes: {
+                            status: { from: fromStatus, to: definition.to },
+                            ...serializeChanges(update),
+                            ...(fieldChanges ? { fieldChanges } : {}),
+                        },
+                        performedBy: actor.id,
+                        metadata: {
+                            userRole: actor.role,
+                            orderNumber: order.orderNumber,
+                        },
+                    },
+                },
+                ...(await buildTransitionMessages(
+                    tx,
+                    { ...order, assignedTo },
+                    definition,
+                    payload
+                )),
+            ]);
+        });
+    } catch (error) {
+        if (error instanceof OrderConflictError) {
+            return { success: false, conflict: true, message: error.message };
+        }
+        if (error instanceof CreditLimitError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+
+    await flushOutbox();
+
+    return { success: true, message: definition.successMessage };
+}
@@ -0,0 +1,229 @@
+import { db, type DbExecutor } from "@/db/drizzle";
+import { notifications, outbox } from "@/db/order-schema";
+import { and, asc, eq, lte } from "drizzle-orm";
+import { storeChangeHistory, type ChangeHistoryEntry } from "@/lib/upstash";
+import { sendToUser, sendToRole, sendToTopic } from "@/lib/sse";
+import { realTimeEvent, type RealTimeEvent } from "@/lib/sse-events";
+
+type NotificationType = (typeof notifications.$inferInsert)["type"];
+
+export type OutboxMessage =
+    | {
+          kind: "notification";
+          payload: {
+              // Pre-generated so redelivery never creates duplicates
+              notificationId: string;
+              userId: string;
+              title: string;
+              message: string;
+              type?: NotificationType;
+              orderId?: string;
+          };
+      }
+    | {
+          kind: "sse";
+          payload: {
+              target: { userId: string } | { role: string } | { topic: string };
+              event: RealTimeEvent;
+          };
+      }
+    | {
+          kind: "change_history";
+          payload: Omit<ChangeHistoryEntry, "id" | "performedAt">;
+      };
+
+const MAX_ATTEMPTS = 5;
+const BATCH_SIZE = 50;
+
+// Queue side effects. Pass the transaction that writes the related change so
+// both commit or roll back together.
+export async function enqueueOutbox(
+    executor: DbExecutor,
+    messages: OutboxMessage[]
+) {
+    if (messages.length === 0) return;
+
+    await executor.insert(outbox).values(
+        messages.map((message) => ({
+            kind: message.kind,
+            payload: JSON.stringify(message.payload),
+        }))
+    );
+}
+
+// Helper for the most common message: an in-app notification
+export function notificationMessage(
+    userId: string,
+    title: string,
+    message: string,
+    orderId?: string,
+    type: NotificationType = "order_status"
+): OutboxMessage {
+    return {
+        kind: "notification",
+        payload: {
+            notificationId: crypto.randomUUID(),
+            userId,
+            title,
+            message,
+            type,
+            orderId,
+        },
+    };
+}
+
+async function deliverNotification(
+    executor: DbExecutor,
+    payload: Extract<OutboxMessage, { kind: "notification" }>["payload"]
+) {
+    await executor
+        .insert(notifications)
+        .values({
+            id: payload.notificationId,
+            userId: payload.userId,
+            title: payload.title,
+            message: payload.message,
+            type: payload.type,
+            orderId: payload.orderId,
+        })
+        .onConflictDoNothing();
+
+    const [n] = await executor
+        .select()
+        .from(notifications)
+        .where(eq(notifications.id, payload.notificationId));
+
+    if (!n) return;
+
+    await sendToUser(
+        n.userId,
+        realTimeEvent("new_notification", {
+            id: n.id,
+            userId: n.userId,
+            title: n.title,
+            message: n.message,
+            type: n.type,
+            orderId: n.orderId,
+            isRead: !!n.isRead,
+            createdAt: n.createdAt.toISOString(),
+        }),
+        executor
+    );
+}
+
+async function deliver(executor: DbExecutor, row: typeof outbox.$inferSelect) {
+    const message = {
+        kind: row.kind,
+        payload: JSON.parse(row.payload),
+    } as OutboxMessage;
+
+    switch (message.kind) {
+        case "notification":
+            await deliverNotification(executor, message.payload);
+            break;
+
+        case "sse":
+            if ("userId" in message.payload.target) {
+                await sendToUser(
+                    message.payload.target.userId,
+                    message.payload.event,
+                    executor
+                );
+            } else if ("topic" in message.payload.target) {
+                await sendToTopic(
+                    message.payload.target.topic,
+                    message.payload.event,
+                    executor
+                );
+            } else {
+                await sendToRole(
+                    message.payload.target.role,
+                    message.payload.event,
+                    undefined,
+                    executor
+                );
+            }
+            break;
+
+        case "change_history":
+            // storeChangeHistory swallows errors and returns null instead
+            if (!(await storeChangeHistory(message.payload))) {
+                throw new Error("Failed to store change history");
+            }
+            break;
+    }
+}
+
+// Deliver pending outbox rows. Safe to run concurrently: rows are locked
+// while being delivered and skipped by other dispatchers.
+export async function dispatchOutbox(limit = BATCH_SIZE) {
+    let delivered = 0;
+    let failed = 0;
+
+    await db.transaction(async (tx) => {
+        const rows = await tx
+            .select()
+            .from(outbox)
+            .where(
+                and(
+                    eq(outbox.status, "pending"),
+                    lte(outbox.availableAt, new Date())
+                )
+            )
+            .orderBy(asc(outbox.createdAt))
+            .limit(limit)
+            .for("update", { skipLocked: true });
+
+        for (const row of rows) {
+            try {
+                // Savepoint so one failing row doesn't abort the batch
+                await tx.transaction(async (sp) => {
+                    await deliver(sp, row);
+                    await sp
+                        .update(outbox)
+                        .set({
+                            status: "delivered",
+                            attempts: row.attempts + 1,
+                            deliveredAt: new Date(),
+                        })
+                        .where(eq(outbox.id, row.id));
+                });
+                delivered++;
+            } catch (error) {
+                failed++;
+                const attempts = row.attempts + 1;
+                console.error(
+                    `Outbox delivery failed for ${row.kind} ${row.id} (attempt ${attempts}):`,
+                    error
+                );
+
+                // Exponential backoff: 30s, 1m, 2m, 4m, then dead-letter
+                await tx
+                    .update(outbox)
+                    .set({
+                        status: attempts >= MAX_ATTEMPTS ? "dead" : "pending",
+                        attempts,
+                        lastError:
+                            error instanceof Error
+                                ? error.message
+                                : String(error),
+                        availableAt: new Date(
+                            Date.now() + Math.pow(2, attempts - 1) * 30_000
+                        ),
+                    })
+                    .where(eq(outbox.id, row.id));
+            }
+        }
+    });
+
+    return { delivered, failed };
+}
+
+// Deliver right away after a commit, leaving failures to the scheduled retry
+export async function flushOutbox() {
+    try {
+        await dispatchOutbox();
+    } catch (error) {
+        console.error("Failed to dispatch outbox:", error);
+    }
+}
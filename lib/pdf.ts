@@ -0,0 +1,180 @@
+// Minimal PDF writer for server-rendered documents (invoices, shipping
+// paperwork). Supports text in the standard Helvetica fonts and straight
+// lines, which is all our documents need, without pulling in a PDF library.
+
+// A4 in points
+export const pageWidth = 595;
+export const pageHeight = 842;
+
+export interface PdfText {
+    x: number;
+    y: number; // Baseline, measured from the top of the page
+    text: string;
+    size?: number;
+    bold?: boolean;
+    align?: "left" | "right";
+}
+
+export interface PdfLine {
+    x1: number;
+    y1: number;
+    x2: number;
+    y2: number;
+    width?: number;
+}
+
+export interface PdfPage {
+    width?: number;
+    height?: number;
+    texts: PdfText[];
+    lines?: PdfLine[];
+}
+
+// Helvetica glyph widths (1/1000 em) for characters that differ from the
+// average, enough to right-align amounts and columns
+const narrowGlyphs: Record<string, number> = {
+    " ": 278,
+    ".": 278,
+    ",": 278,
+    ":": 278,
+    "-": 333,
+    "(": 333,
+    ")": 333,
+    "/": 278,
+    i: 222,
+    l: 222,
+    j: 222,
+    t: 278,
+    f: 278,
+    r: 333,
+    I: 278,
+    m: 833,
+    w: 722,
+    M: 833,
+    W: 944,
+    "%": 889,
+};
+
+// Approximate width of the text in points
+export function measureText(text: string, size: number) {
+    let width = 0;
+    for (const char of text) {
+        width += narrowGlyphs[char] ?? 556;
+    }
+    return (width * size) / 1000;
+}
+
+// Cut the text to fit `width`, marking the cut with an ellipsis
+export function fitText(text: string, width: number, size: number) {
+    if (measureText(text, size) <= width) return text;
+    let cut = text;
+    while (cut.length > 1 && measureText(`${cut}...`, size) > width) {
+        cut = cut.slice(0, -1);
+    }
+    return `${cut}...`;
+}
+
+// WinAnsi code for characters outside ASCII that the standard fonts cover
+const winAnsiExtras: Record<string, number> = {
+    "€": 0x80,
+    "‘": 0x91,
+    "’": 0x92,
+    "“": 0x93,
+    "”": 0x94,
+    "–": 0x96,
+    "—": 0x97,
+};
+
+// Literal string in WinAnsi encoding, with everything outside printable ASCII
+// written as an octal escape
+function pdfString(text: string) {
+    let out = "";
+    for (const char of text) {
+        const code = char.codePointAt(0)!;
+        const byte =
+            winAnsiExtras[char] ??
+            (code >= 0xa0 && code <= 0xff ? code : code < 0x80 ? code : 0x3f);
+        if (char === "(" || char === ")" || char === "\\") {
+            out += `\\${char}`;
+        } else if (byte < 0x20 || byte >= 0x7f) {
+            out += `\\${byte.toString(8).padStart(3, "0")}`;
+        } else {
+            out += String.fromCharCode(byte);
+        }
+    }
+    return `(${out})`;
+}
+
+function pageContent(page: PdfPage, height: number) {
+    const ops: string[] = [];
+
+    for (const line of page.lines ?? []) {
+        ops.push(
+            `${line.width ?? 0.5} w ${line.x1} ${height - line.y1} m ${
+                line.x2
+            } ${height - line.y2} l S`
+        );
+    }
+
+    for (const item of page.texts) {
+        const size = item.size ?? 10;
+        const x =
+            item.align === "right"
+                ? item.x - measureText(item.text, size)
+                : item.x;
+        ops.push(
+            `BT /${item.bold ? "F2" : "F1"} ${size} Tf ${x.toFixed(2)} ${(
+                height - item.y
+            ).toFixed(2)} Td ${pdfString(item.text)} Tj ET`
+        );
+    }
+
+    return ops.join("\n");
+}
+
+// Render the pages into a PDF file
+export function renderPdf(pages: PdfPage[]): Uint8Array<ArrayBuffer> {
+    // Object numbers: 1 catalog, 2 page tree, 3-4 fonts, then a page and its
+    // content stream per page
+    const objects: string[] = [];
+    const pageIds = pages.map((_, index) => 5 + index * 2);
+
+    objects[1] = "<< /Type /Catalog /Pages 2 0 R >>";
+    objects[2] = `<< /Type /Pages /Kids [${pageIds
+        .map((id) => `${id} 0 R`)
+        .join(" ")}] /Count ${pages.length} >>`;
+    objects[3] =
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>";
+    objects[4] =
+        "<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>";
+
+    pages.forEach((page, index) => {
+        const width = page.width ?? pageWidth;
+        const height = page.height ?? pageHeight;
+        const content = pageContent(page, height);
+        const pageId = pageIds[index];
+        objects[pageId] =
+            `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] ` +
+            `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${
+                pageId + 1
+            } 0 R >>`;
+        objects[pageId + 1] = `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+    });
+
+    // Everything is ASCII, so string lengths are byte offsets
+    let pdf = "%PDF-1.4\n";
+    const offsets: number[] = [];
+    for (let id = 1; id < objects.length; id++) {
+        offsets[id] = pdf.length;
+        pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+    }
+
+    const xref = pdf.length;
+    pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+    for (let id = 1; id < objects.length; id++) {
+        pdf += `${String(offsets[id]).padStart(10, "0")} 00000 n \n`;
+    }
+    pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+
+    return new TextEncoder().encode(pdf);
+}
@@ -0,0 +1,153 @@
+// Order price breakdown: line and order discounts, tax and shipping.
+// Pure functions so the order form can show the same numbers as the server.
+import type { discountTypeEnum } from "@/db/order-schema";
+
+export type DiscountType = (typeof discountTypeEnum)[number];
+
+export interface Discount {
+    type: DiscountType;
+    value: number;
+}
+
+// Tax rate as configured on the admin page, rate in percent
+export interface TaxRateRule {
+    rate: number;
+    category: string | null;
+    region: string | null;
+}
+
+export interface PricingLine {
+    price: number;
+    quantity: number;
+    discount?: Discount | null;
+    taxRate: number; // Percent
+}
+
+export interface PricedLine {
+    gross: number; // price × quantity
+    discountAmount: number; // Line discount plus its share of the order discount
+    taxAmount: number;
+    net: number; // gross - discountAmount + taxAmount
+}
+
+export interface OrderTotals {
+    lines: PricedLine[];
+    subtotal: number;
+    discountTotal: number;
+    taxTotal: number;
+    shippingCharge: number;
+    total: number;
+}
+
+export function roundMoney(amount: number) {
+    return Math.round((amount + Number.EPSILON) * 100) / 100;
+}
+
+export function validateDiscount(discount: Discount | null | undefined) {
+    if (!discount) return null;
+    if (!(discount.value >= 0)) return "Discount must be zero or more";
+    if (discount.type === "percentage" && discount.value > 100) {
+        return "Percentage discount can't be more than 100%";
+    }
+    return null;
+}
+
+// Discount amount on `amount`, never more than the amount itself
+function discountOn(amount: number, discount: Discount | null | undefined) {
+    if (!discount) return 0;
+    const value =
+        discount.type === "percentage"
+            ? (amount * discount.value) / 100
+            : discount.value;
+    return roundMoney(Math.min(Math.max(value, 0), amount));
+}
+
+// Pick the most specific active rate: category and region, then category,
+// then region, then the default rate. No matching rate means no tax.
+export function resolveTaxRate(
+    rules: TaxRateRule[],
+    category: string | null | undefined,
+    region: string | null | undefined
+) {
+    let best: { rule: TaxRateRule; score: number } | undefined;
+
+    for (const rule of rules) {
+        if (rule.category && rule.category !== category) continue;
+        if (rule.region && rule.region !== region) continue;
+
+        const score = (rule.category ? 2 : 0) + (rule.region ? 1 : 0);
+        if (!best || score > best.score) {
+            best = { rule, score };
+        }
+    }
+
+    return best?.rule.rate ?? 0;
+}
+
+// Line discounts come first. The order discount is then spread over the
+// lines in proportion to what is left of them, and tax is charged per line on
+// the discounted amount. Shipping is not taxed.
+export function calculateOrderTotals(input: {
+    lines: PricingLine[];
+    discount?: Discount | null;
+    shippingCharge?: number;
+}): OrderTotals {
+    const lines = input.lines.map((line) => {
+        const gross = roundMoney(line.price * line.quantity);
+        return { gross, lineDiscount: discountOn(gross, line.discount) };
+    });
+
+    const discounted = roundMoney(
+        lines.reduce((sum, line) => sum + line.gross - line.lineDiscount, 0)
+    );
+    const orderDiscount = discountOn(discounted, input.discount);
+
+    // Allocate the order discount, the last line takes the rounding remainder
+    let allocated = 0;
+    const priced: PricedLine[] = lines.map((line, index) => {
+        const remaining = line.gross - line.lineDiscount;
+        const share =
+            index === lines.length - 1
+                ? roundMoney(orderDiscount - allocated)
+                : discounted > 0
+                  ? roundMoney((orderDiscount * remaining) / discounted)
+                  : 0;
+        allocated = roundMoney(allocated + share);
+
+        const discountAmount = roundMoney(line.lineDiscount + share);
+        const taxAmount = roundMoney(
+            ((line.gross - discountAmount) * input.lines[index].taxRate) / 100
+        );
+
+        return {
+            gross: line.gross,
+            discountAmount,
+            taxAmount,
+            net: roundMoney(line.gross - discountAmount + taxAmount),
+        };
+    });
+
+    const subtotal = roundMoney(priced.reduce((sum, l) => sum + l.gross, 0));
+    const discountTotal = roundMoney(
+        priced.reduce((sum, l) => sum + l.discountAmount, 0)
+    );
+    const taxTotal = roundMoney(priced.reduce((sum, l) => sum + l.taxAmount, 0));
+    const shippingCharge = roundMoney(input.shippingCharge ?? 0);
+
+    return {
+        lines: priced,
+        subtotal,
+        discountTotal,
+        taxTotal,
+        shippingCharge,
+        total: roundMoney(subtotal - discountTotal + taxTotal + shippingCharge),
+    };
+}
+
+// Short label for a discount, e.g. "10%" or "5.00"
+export function describeDiscount(discount: Discount | null | undefined) {
+    if (!discount || !discount.value) return null;
+    return discount.type === "percentage"
+        ? `${discount.value}%`
+        : discount.value.toFixed(2);
+}
@@ -0,0 +1,409 @@
+import { db, type DbExecutor, type Transaction } from "@/db/drizzle";
+import {
+    orderItems,
+    returnItems,
+    returnRequests,
+    returnReasonEnum,
+    returnStatusEnum,
+} from "@/db/order-schema";
+import { and, eq, inArray, sql } from "drizzle-orm";
+import type { Order, TransitionActor } from "@/lib/order-workflow";
+import {
+    enqueueOutbox,
+    flushOutbox,
+    notificationMessage,
+    type OutboxMessage,
+} from "@/lib/outbox";
+import { creditReturn } from "@/lib/invoices";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type ReturnStatus = (typeof returnStatusEnum)[number];
+
+export type ReturnReason = (typeof returnReasonEnum)[number];
+
+export type ReturnRequest = typeof returnRequests.$inferSelect;
+
+type ReturnUpdate = Partial<typeof returnRequests.$inferInsert>;
+
+// Order statuses from which goods can be sent back
+export const returnableOrderStatuses = ["completed", "partial_complete"];
+
+// Quantity the warehouse actually received for one return line
+export interface ReceivedLine {
+    returnItemId: string;
+    quantity: number;
+}
+
+export interface ReturnTransitionPayload {
+    reason?: string;
+    notes?: string;
+    // Defaults to the requested quantities when omitted
+    received?: ReceivedLine[];
+}
+
+interface ReturnTransitionDefinition {
+    from: readonly ReturnStatus[];
+    to: ReturnStatus;
+    // Action of the `return` access control statement (server/permissions.ts)
+    permission: "approve" | "reject" | "receive";
+    requires?: ("reason" | "notes")[];
+    // Action name for orderHistory and the Upstash change history
+    historyAction: string;
+    historyNotes: (returnRequest: ReturnRequest) => string;
+    update?: (actor: TransitionActor, payload: ReturnTransitionPayload) => ReturnUpdate;
+    // Extra writes in the same transaction, may add columns to the update
+    effects?: (
+        tx: Transaction,
+        returnRequest: ReturnRequest,
+        payload: ReturnTransitionPayload,
+        actor: TransitionActor
+    ) => Promise<ReturnUpdate>;
+    notifications: {
+        to: "creator" | { role: string };
+        title: string;
+        message: (returnRequest: ReturnRequest, order: Order) => string;
+    }[];
+    invalidStatusMessage: string;
+    successMessage: string;
+    failureMessage: string;
+}
+
+export const returnConflictMessage =
+    "This return was changed by someone else. Refresh to see the latest version.";
+
+// Thrown inside a transaction when the return is no longer in the expected status
+export class ReturnConflictError extends Error {
+    constructor() {
+        super(returnConflictMessage);
+        this.name = "ReturnConflictError";
+    }
+}
+
+// Thrown inside a transaction when the submitted quantities are invalid
+export class ReturnValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = "ReturnValidationError";
+    }
+}
+
+// Quantities per order item that can still be returned: shipped, minus what
+// came back already, minus what is on open return requests
+export async function getReturnableQuantities(
+    executor: DbExecutor,
+    orderId: string
+) {
+    const items = await executor
+        .select()
+        .from(orderItems)
+        .where(eq(orderItems.orderId, orderId));
+
+    const open = await executor
+        .select({
+            orderItemId: returnItems.orderItemId,
+            quantity: sql<number>`sum(${returnItems.quantity})::int`,
+        })
+        .from(returnItems)
+        .innerJoin(
+            returnRequests,
+            eq(returnItems.returnRequestId, returnRequests.id)
+        )
+        .where(
+            and(
+                eq(returnRequests.orderId, orderId),
+                inArray(returnRequests.status, ["requested", "approved"])
+            )
+        )
+        .groupBy(returnItems.orderItemId);
+
+    return new Map(
+        items.map((item) => [
+            item.id,
+            (item.quantityShipped ?? 0) -
+                (item.quantityReturned ?? 0) -
+                (open.find((o) => o.orderItemId === item.id)?.quantity ?? 0),
+        ])
+    );
+}
+
+// Record what the warehouse received, bump quantityReturned and work out the refund
+async function receiveGoods(
+    tx: Transaction,
+    returnRequest: ReturnRequest,
+    payload: ReturnTransitionPayload
+): Promise<ReturnUpdate> {
+    const lines = await tx
+        .select({
+            id: returnItems.id,
+            orderItemId: returnItems.orderItemId,
+            quantity: returnItems.quantity,
+            price: orderItems.price,
+            orderedQuantity: orderItems.quantity,
+            discountAmount: orderItems.discountAmount,
+            taxAmount: orderItems.taxAmount,
+            name: orderItems.name,
+        })
+        .from(returnItems)
+        .innerJoin(orderItems, eq(returnItems.orderItemId, orderItems.id))
+        .where(eq(returnItems.returnRequestId, returnRequest.id));
+
+    let refund = 0;
+
+    for (const line of lines) {
+        const received = payload.received
+            ? payload.received.find((r) => r.returnItemId === line.id)
+                  ?.quantity ?? 0
+            : line.quantity;
+
+        if (!Number.isInteger(received) || received < 0) {
+            throw new ReturnValidationError(`Invalid quantity for ${line.name}`);
+        }
+        if (received > line.quantity) {
+            throw new ReturnValidationError(
+                `Only ${line.quantity} of ${line.name} were approved for return`
+            );
+        }
+
+        await tx
+            .update(returnItems)
+            .set({ quantityReceived: received })
+            .where(eq(returnItems.id, line.id));
+
+        if (received > 0) {
+            await tx
+                .update(orderItems)
+                .set({
+                    quantityReturned: sql`coalesce(${orderItems.quantityReturned}, 0) + ${received}`,
+                })
+                .where(eq(orderItems.id, line.orderItemId));
+        }
+
+        // Refund what the customer paid per unit, after discounts and tax
+        const paid =
+            parseFloat(line.price) * line.orderedQuantity -
+            parseFloat(line.discountAmount) +
+            parseFloat(line.taxAmount);
+        refund += (paid / line.orderedQuantity) * received;
+    }
+
+    return { refundAmount: refund.toFixed(2) };
+}
+
+export const returnTransitions = {
+    approve: {
+        from: ["requested"],
+        to: "approved",
+        permission: "approve",
+        historyAction: "return_approved",
+        historyNotes: (r) => `Return ${r.rmaNumber} approved by accountant`,
+        update: (actor) => ({
+            approvedBy: actor.id,
+            approvedAt: new Date(),
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Return Approved",
+                message: (r, order) =>
+                    `Return ${r.rmaNumber} for order ${order.orderNumber} has been approved.`,
+            },
+            {
+                to: { role: "warehouse" },
+                title: "Return Awaiting Receipt",
+                message: (r, order) =>
+                    `Return ${r.rmaNumber} for order ${order.orderNumber} has been approved and is on its way back.`,
+            },
+        ],
+        invalidStatusMessage: "Return is not awaiting approval",
+        successMessage: "Return approved successfully",
+        failureMessage: "Failed to approve return",
+    },
+    reject: {
+        from: ["requested"],
+        to: "rejected",
+        permission: "reject",
+        requires: ["reason"],
+        historyAction: "return_rejected",
+        historyNotes: (r) => `Return ${r.rmaNumber} rejected by accountant`,
+        update: (_actor, payload) => ({
+            rejectionReason: payload.reason,
+        }),
+        notifications: [
+            {
+                to: "creator",
+                title: "Return Rejected",
+                message: (r, order) =>
+                    `Return ${r.rmaNumber} for order ${order.orderNumber} has been rejected. Reason: ${r.rejectionReason}`,
+            },
+        ],
+        invalidStatusMessage: "Return is not awaiting approval",
+        successMessage: "Return rejected successfully",
+        failureMessage: "Failed to reject return",
+    },
+    receive: {
+        from: ["approved"],
+        to: "received",
+        permission: "receive",
+        historyAction: "return_received",
+        historyNotes: (r) =>
+            `Return ${r.rmaNumber} received by warehouse, refund ${r.refundAmount}`,
+        update: (actor) => ({
+            receivedBy: actor.id,
+            receivedAt: new Date(),
+        }),
+        // Received goods are credited when the order was invoiced
+        effects: async (tx, returnRequest, payload, actor) => {
+            const update = await receiveGoods(tx, returnRequest, payload);
+            await creditReturn(tx, returnRequest, actor);
+            return update;
+        },
+        notifications: [
+            {
+                to: "creator",
+                title: "Return Received",
+                message: (r, order) =>
+                    `Return ${r.rmaNumber} for order ${order.orderNumber} has been received. Refund amount: ${r.refundAmount}`,
+            },
+            {
+                to: { role: "accountant" },
+                title: "Refund Due",
+                message: (r, order) =>
+                    `Return ${r.rmaNumber} for order ${order.orderNumber} has been received. Refund amount: ${r.refundAmount}`,
+            },
+        ],
+        invalidStatusMessage: "Return must be approved before it can be received",
+        successMessage: "Return received successfully",
+        failureMessage: "Failed to receive return",
+    },
+} satisfies Record<string, ReturnTransitionDefinition>;
+
+export type ReturnEvent = keyof typeof returnTransitions;
+
+// Notifications for a return step, resolved inside the transaction
+export async function buildReturnNotifications(
+    executor: DbExecutor,
+    returnRequest: ReturnRequest,
+    order: Order,
+    notifications: ReturnTransitionDefinition["notifications"]
+): Promise<OutboxMessage[]> {
+    const messages: OutboxMessage[] = [];
+
+    for (const notification of notifications) {
+        let userIds: string[];
+        if (notification.to === "creator") {
+            userIds = order.createdBy ? [order.createdBy] : [];
+        } else {
+            const role = notification.to.role;
+            const users = await executor.query.user.findMany({
+                where: (user, { eq }) => eq(user.role, role),
+            });
+            userIds = users.map((u) => u.id);
+        }
+
+        for (const userId of userIds) {
+            messages.push(
+                notificationMessage(
+                    userId,
+                    notification.title,
+                    notification.message(returnRequest, order),
+                    order.id
+                )
+            );
+        }
+    }
+
+    return messages;
+}
+
+// Apply a step of the return workflow. Callers authenticate the actor and
+// check the `return` permission first.
+export async function applyReturnTransition(
+    returnRequest: ReturnRequest,
+    order: Order,
+    event: ReturnEvent,
+    payload: ReturnTransitionPayload,
+    actor: TransitionActor
+): Promise<{ success: boolean; message: string; conflict?: boolean }> {
+    const definition: ReturnTransitionDefinition = returnTransitions[event];
+
+    for (const field of definition.requires ?? []) {
+        if (!payload[field]?.trim()) {
+            return { success: false, message: `A ${field} is required` };
+        }
+    }
+
+    if (!definition.from.includes(returnRequest.status)) {
+        return { success: false, message: definition.invalidStatusMessage };
+    }
+
+    try {
+        await db.transaction(async (tx) => {
+            const update = {
+                ...definition.update?.(actor, payload),
+                ...(await definition.effects?.(tx, returnRequest, payload, actor)),
+            };
+
+            const [updated] = await tx
+                .update(returnRequests)
+                .set({ ...update, status: definition.to, updatedAt: new Date() })
+                .where(
+                    and(
+                        eq(returnRequests.id, returnRequest.id),
+                        eq(returnRequests.status, returnRequest.status)
+                    )
+                )
+                .returning();
+
+            if (!updated) {
+                throw new ReturnConflictError();
+            }
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: definition.historyAction,
+                performedBy: actor.id,
+                reason: payload.reason,
+                notes: definition.historyNotes(updated),
+            });
+
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "return",
+                        entityId: updated.id,
+                        action: definition.historyAction,
+                        changes: {
+                            status: { from: returnRequest.status, to: definition.to },
+                            refundAmount: updated.refundAmount,
+                        },
+                        performedBy: actor.id,
+                        metadata: {
+                            userRole: actor.role,
+                            orderNumber: order.orderNumber,
+                            rmaNumber: updated.rmaNumber,
+                        },
+                    },
+                },
+                ...(await buildReturnNotifications(
+                    tx,
+                    updated,
+                    order,
+                    definition.notifications
+                )),
+            ]);
+        });
+    } catch (error) {
+        if (error instanceof ReturnConflictError) {
+            return { success: false, conflict: true, message: error.message };
+        }
+        if (error instanceof ReturnValidationError) {
+            return { success: false, message: error.message };
+        }
+        throw error;
+    }
+
+    await flushOutbox();
+
+    return { success: true, message: definition.successMessage };
+}
@@ -0,0 +1,240 @@
+import type {
+    ShippingDocument,
+    ShippingDocumentKind,
+} from "@/lib/shipping-documents";
+import {
+    fitText,
+    pageHeight,
+    pageWidth,
+    renderPdf,
+    type PdfPage,
+    type PdfText,
+} from "@/lib/pdf";
+
+const margin = 50;
+const right = pageWidth - margin;
+const rowHeight = 18;
+const footerSpace = 80;
+
+// 4 × 6 inch thermal label
+const labelWidth = 288;
+const labelHeight = 432;
+const labelMargin = 16;
+
+// Packing slip columns: left edge for text, right edge for numbers
+const columns = {
+    packed: margin,
+    sku: margin + 24,
+    name: 160,
+    ordered: 420,
+    shipped: 480,
+    toShip: right,
+};
+
+function formatDate(date: Date) {
+    return date.toISOString().slice(0, 10);
+}
+
+// Sender address printed on labels, first line is the company name
+function shipFrom() {
+    return (process.env.SHIP_FROM_ADDRESS ?? "").split("\n").filter(Boolean);
+}
+
+function addressLines(address: string | null) {
+    return (address ?? "").split("\n").filter(Boolean);
+}
+
+function slipTableHeader(y: number): PdfText[] {
+    return [
+        { x: columns.sku, y, text: "SKU", bold: true },
+        { x: columns.name, y, text: "Item", bold: true },
+        { x: columns.ordered, y, text: "Ordered", bold: true, align: "right" },
+        { x: columns.shipped, y, text: "Shipped", bold: true, align: "right" },
+        { x: columns.toShip, y, text: "This parcel", bold: true, align: "right" },
+    ];
+}
+
+// Packing slip: what goes in the parcel and where it goes, with a box to tick
+// per line while packing
+export function packingSlipPages({ order, items }: ShippingDocument) {
+    const pages: PdfPage[] = [];
+    let page: PdfPage = { texts: [], lines: [] };
+    pages.push(page);
+
+    page.texts.push({
+        x: margin,
+        y: 70,
+        text: "PACKING SLIP",
+        size: 20,
+        bold: true,
+    });
+
+    let y = 110;
+    const details: [string, string][] = [
+        ["Order", order.orderNumber],
+        ["Ordered", formatDate(order.createdAt)],
+        ["Printed", formatDate(new Date())],
+    ];
+    if (order.trackingNumber) {
+        details.push(["Tracking", order.trackingNumber]);
+    }
+    for (const [label, value] of details) {
+        page.texts.push({ x: margin, y, text: `${label}:`, bold: true });
+        page.texts.push({ x: margin + 70, y, text: fitText(value, 200, 10) });
+        y += 14;
+    }
+
+    let shipToY = 110;
+    page.texts.push({ x: 340, y: shipToY, text: "Ship to", bold: true });
+    const shipTo = [
+        order.customerName,
+        ...addressLines(order.customerAddress),
+        order.customerPhone ?? "",
+    ].filter(Boolean);
+    for (const text of shipTo) {
+        shipToY += 14;
+        page.texts.push({ x: 340, y: shipToY, text: fitText(text, right - 340, 10) });
+    }
+
+    y = Math.max(y, shipToY) + 30;
+    page.texts.push(...slipTableHeader(y));
+    page.lines!.push({ x1: margin, y1: y + 5, x2: right, y2: y + 5 });
+    y += rowHeight + 2;
+
+    const lines = items.filter((item) => item.toShip > 0);
+    for (const item of lines) {
+        if (y > pageHeight - footerSpace) {
+            page = { texts: [], lines: [] };
+            pages.push(page);
+            y = 70;
+            page.texts.push(...slipTableHeader(y));
+            page.lines!.push({ x1: margin, y1: y + 5, x2: right, y2: y + 5 });
+            y += rowHeight + 2;
+        }
+
+        // Tick box
+        const box = { left: columns.packed, top: y - 9, size: 10 };
+        page.lines!.push(
+            { x1: box.left, y1: box.top, x2: box.left + box.size, y2: box.top },
+            { x1: box.left + box.size, y1: box.top, x2: box.left + box.size, y2: box.top + box.size },
+            { x1: box.left + box.size, y1: box.top + box.size, x2: box.left, y2: box.top + box.size },
+            { x1: box.left, y1: box.top + box.size, x2: box.left, y2: box.top }
+        );
+        page.texts.push(
+            { x: columns.sku, y, text: fitText(item.sku ?? "-", columns.name - columns.sku - 10, 10) },
+            { x: columns.name, y, text: fitText(item.name, columns.ordered - columns.name - 50, 10) },
+            { x: columns.ordered, y, text: String(item.quantity), align: "right" },
+            { x: columns.shipped, y, text: String(item.quantityShipped), align: "right" },
+            { x: columns.toShip, y, text: String(item.toShip), bold: true, align: "right" }
+        );
+        y += rowHeight;
+    }
+
+    page.lines!.push({ x1: margin, y1: y - 8, x2: right, y2: y - 8 });
+    page.texts.push({
+        x: columns.toShip,
+        y: y + 8,
+        text: `${lines.reduce((sum, item) => sum + item.toShip, 0)} units in ${lines.length} lines`,
+        bold: true,
+        align: "right",
+    });
+
+    pages.forEach((p, index) =>
+        p.texts.push({
+            x: right,
+            y: pageHeight - 30,
+            text: `${order.orderNumber} - page ${index + 1} of ${pages.length}`,
+            size: 8,
+            align: "right",
+        })
+    );
+
+    return pages;
+}
+
+// Shipping label: sender, recipient in large type and the order reference
+export function shippingLabelPage({ order, items }: ShippingDocument): PdfPage {
+    const width = labelWidth - labelMargin * 2;
+    const texts: PdfText[] = [];
+    const lines: PdfPage["lines"] = [];
+
+    // Sender
+    let y = labelMargin + 12;
+    texts.push({ x: labelMargin, y, text: "FROM", size: 7, bold: true });
+    for (const text of shipFrom()) {
+        y += 11;
+        texts.push({ x: labelMargin, y, text: fitText(text, width, 9), size: 9 });
+    }
+    y += 12;
+    lines.push({ x1: labelMargin, y1: y, x2: labelWidth - labelMargin, y2: y, width: 1.5 });
+
+    // Recipient
+    y += 18;
+    texts.push({ x: labelMargin, y, text: "SHIP TO", size: 7, bold: true });
+    y += 22;
+    texts.push({
+        x: labelMargin,
+        y,
+        text: fitText(order.customerName, width, 16),
+        size: 16,
+        bold: true,
+    });
+    for (const text of addressLines(order.customerAddress)) {
+        y += 17;
+        texts.push({ x: labelMargin, y, text: fitText(text, width, 13), size: 13 });
+    }
+    if (order.customerPhone) {
+        y += 17;
+        texts.push({ x: labelMargin, y, text: order.customerPhone, size: 11 });
+    }
+
+    // Order reference at the bottom
+    const bottom = labelHeight - labelMargin;
+    lines.push({
+        x1: labelMargin,
+        y1: bottom - 70,
+        x2: labelWidth - labelMargin,
+        y2: bottom - 70,
+        width: 1.5,
+    });
+    texts.push({ x: labelMargin, y: bottom - 52, text: "ORDER", size: 7, bold: true });
+    texts.push({
+        x: labelMargin,
+        y: bottom - 32,
+        text: fitText(order.orderNumber, width, 14),
+        size: 14,
+        bold: true,
+    });
+    texts.push({
+        x: labelMargin,
+        y: bottom - 8,
+        text: order.trackingNumber
+            ? `Tracking: ${order.trackingNumber}`
+            : `${items.reduce((sum, item) => sum + item.toShip, 0)} units`,
+        size: 9,
+    });
+
+    // Frame
+    lines.push(
+        { x1: 8, y1: 8, x2: labelWidth - 8, y2: 8, width: 2 },
+        { x1: labelWidth - 8, y1: 8, x2: labelWidth - 8, y2: labelHeight - 8, width: 2 },
+        { x1: labelWidth - 8, y1: labelHeight - 8, x2: 8, y2: labelHeight - 8, width: 2 },
+        { x1: 8, y1: labelHeight - 8, x2: 8, y2: 8, width: 2 }
+    );
+
+    return { width: labelWidth, height: labelHeight, texts, lines };
+}
+
+// One PDF with the requested documents for every order, e.g. for a batch
+// print run. Each order's packing slip is followed by its label.
+export function renderShippingDocuments(
+    documents: ShippingDocument[],
+    kinds: ShippingDocumentKind[]
+) {
+    return renderPdf(
+        documents.flatMap((document) => [
+            ...(kinds.includes("packing_slip") ? packingSlipPages(document) : []),
+            ...(kinds.includes("label") ? [shippingLabelPage(document)] : []),
+        ])
+    );
+}
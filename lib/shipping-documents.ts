@@ -0,0 +1,106 @@
+import type { DbExecutor } from "@/db/drizzle";
+import { orderItems } from "@/db/order-schema";
+import { asc, inArray } from "drizzle-orm";
+import type { Order, OrderStatus } from "@/lib/order-workflow";
+import { remainingQuantity } from "@/lib/fulfilment";
+
+// Orders the shipper can send goods for: confirmed by the warehouse, or
+// partly shipped with items still outstanding
+export const readyToShipStatuses: OrderStatus[] = [
+    "warehouse_confirmed",
+    "shipped",
+    "partial_complete",
+];
+
+export type ShippingDocumentKind = "packing_slip" | "label";
+
+export interface ShippingDocumentItem {
+    name: string;
+    sku: string | null;
+    quantity: number; // Ordered
+    quantityShipped: number; // In earlier shipments
+    toShip: number; // Outstanding, goes in the next parcel
+}
+
+// What packing slips and labels are printed from
+export interface ShippingDocument {
+    order: Pick<
+        Order,
+        | "id"
+        | "orderNumber"
+        | "status"
+        | "customerName"
+        | "customerPhone"
+        | "customerAddress"
+        | "trackingNumber"
+        | "warehouseConfirmedAt"
+        | "createdAt"
+    >;
+    items: ShippingDocumentItem[];
+}
+
+// Shipping documents for the given orders, or every order ready to ship.
+// Orders that aren't ready or have nothing left to ship are left out.
+export async function getShippingDocuments(
+    executor: DbExecutor,
+    orderIds?: string[]
+): Promise<ShippingDocument[]> {
+    const ready = await executor.query.orders.findMany({
+        where: (order, { and, inArray }) =>
+            and(
+                inArray(order.status, readyToShipStatuses),
+                orderIds ? inArray(order.id, orderIds) : undefined
+            ),
+        orderBy: (order, { asc }) => [asc(order.createdAt)],
+        columns: {
+            id: true,
+            orderNumber: true,
+            status: true,
+            customerName: true,
+            customerPhone: true,
+            customerAddress: true,
+            trackingNumber: true,
+            warehouseConfirmedAt: true,
+            createdAt: true,
+        },
+    });
+    if (ready.length === 0) {
+        return [];
+    }
+
+    const items = await executor
+        .select()
+        .from(orderItems)
+        .where(
+            inArray(
+                orderItems.orderId,
+                ready.map((order) => order.id)
+            )
+        )
+        .orderBy(asc(orderItems.createdAt));
+
+    return ready
+        .map((order) => ({
+            order,
+            items: items
+                .filter((item) => item.orderId === order.id)
+                .map((item) => ({
+                    name: item.name,
+                    sku: item.sku,
+                    quantity: item.quantity,
+                    quantityShipped: item.quantityShipped ?? 0,
+                    toShip: Math.max(remainingQuantity(item), 0),
+                })),
+        }))
+        .filter((document) => document.items.some((item) => item.toShip > 0));
+}
+
+// Orders for the batch print view, oldest first
+export async function listReadyToShip(executor: DbExecutor) {
+    const documents = await getShippingDocuments(executor);
+    return documents.map(({ order, items }) => ({
+        ...order,
+        lines: items.filter((item) => item.toShip > 0).length,
+        units: items.reduce((sum, item) => sum + item.toShip, 0),
+    }));
+}
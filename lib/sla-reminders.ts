@@ -0,0 +1,136 @@
+import { db } from "@/db/drizzle";
+import { orders } from "@/db/order-schema";
+import { and, asc, eq, inArray, isNotNull, isNull, lte } from "drizzle-orm";
+import { enqueueOutbox, flushOutbox, notificationMessage } from "@/lib/outbox";
+import {
+    resolveRecipients,
+    type Order,
+    type OrderStatus,
+} from "@/lib/order-workflow";
+import {
+    orderSlas,
+    reminderLeadShare,
+    slaReminderAt,
+    type OrderSla,
+} from "@/lib/order-sla";
+import { recordOrderHistory } from "@/lib/order-history";
+
+const BATCH_SIZE = 100;
+
+type Stage = "reminder" | "escalation";
+
+function formatHours(ms: number) {
+    const hours = Math.max(1, Math.round(ms / 3_600_000));
+    return hours >= 48 ? `${Math.round(hours / 24)} days` : `${hours}h`;
+}
+
+// Claim the stage for the order, so concurrent runs and orders that moved on
+// in the meantime are skipped, then queue the notifications
+async function notifyOrder(order: Order, sla: OrderSla, stage: Stage, now: Date) {
+    return db.transaction(async (tx) => {
+        const claimed = await tx
+            .update(orders)
+            .set(
+                stage === "escalation"
+                    ? { slaRemindedAt: order.slaRemindedAt ?? now, slaEscalatedAt: now }
+                    : { slaRemindedAt: now }
+            )
+            .where(
+                and(
+                    eq(orders.id, order.id),
+                    eq(orders.status, order.status),
+                    eq(orders.dueAt, order.dueAt!),
+                    isNull(orders.heldAt),
+                    stage === "escalation"
+                        ? isNull(orders.slaEscalatedAt)
+                        : isNull(orders.slaRemindedAt)
+                )
+            )
+            .returning({ id: orders.id });
+        if (claimed.length === 0) return false;
+
+        const userIds = new Set(await resolveRecipients(tx, order, sla.waitingOn));
+        let title = "Order due soon";
+        let message = `Order ${order.orderNumber} is waiting for ${sla.task} and is due in ${formatHours(
+            order.dueAt!.getTime() - now.getTime()
+        )}.`;
+
+        if (stage === "escalation") {
+            for (const admin of await resolveRecipients(tx, order, { role: "admin" })) {
+                userIds.add(admin);
+            }
+            title = "Order overdue";
+            message = `Order ${order.orderNumber} missed its ${formatHours(
+                sla.hours * 3_600_000
+            )} SLA for ${sla.task} (${order.status}).`;
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: "sla_escalated",
+                notes: message,
+            });
+        }
+
+        await enqueueOutbox(
+            tx,
+            [...userIds].map((userId) =>
+                notificationMessage(userId, title, message, order.id, "reminder")
+            )
+        );
+        return true;
+    });
+}
+
+// Remind whoever an order is waiting on when its SLA is about to run out and
+// escalate to admins once it has. Meant to run every few minutes.
+export async function sendSlaReminders(limit = BATCH_SIZE) {
+    const now = new Date();
+    const longestLead =
+        Math.max(...Object.values(orderSlas).map((sla) => sla!.hours)) *
+        reminderLeadShare *
+        3_600_000;
+
+    const candidates = await db
+        .select()
+        .from(orders)
+        .where(
+            and(
+                inArray(orders.status, Object.keys(orderSlas) as OrderStatus[]),
+                isNotNull(orders.dueAt),
+                isNull(orders.heldAt),
+                isNull(orders.slaEscalatedAt),
+                lte(orders.dueAt, new Date(now.getTime() + longestLead))
+            )
+        )
+        .orderBy(asc(orders.dueAt))
+        .limit(limit);
+
+    let reminded = 0;
+    let escalated = 0;
+
+    for (const order of candidates) {
+        const sla = orderSlas[order.status]!;
+        const dueAt = order.dueAt!;
+
+        let stage: Stage | null = null;
+        if (dueAt <= now) {
+            stage = "escalation";
+        } else if (!order.slaRemindedAt && slaReminderAt(order.status, dueAt)! <= now) {
+            stage = "reminder";
+        }
+        if (!stage) continue;
+
+        try {
+            if (await notifyOrder(order, sla, stage, now)) {
+                if (stage === "escalation") escalated++;
+                else reminded++;
+            }
+        } catch (error) {
+            console.error(`Error sending SLA ${stage} for order ${order.orderNumber}:`, error);
+        }
+    }
+
+    await flushOutbox();
+
+    return { checked: candidates.length, reminded, escalated };
+}
@@ -0,0 +1,155 @@
+import postgres from "postgres";
+import { sql } from "drizzle-orm";
+import type { DbExecutor } from "@/db/drizzle";
+
+// Who a published event is for. Every instance delivers it to the matching
+// connections it holds.
+export type SseTarget =
+    | { userId: string }
+    | { role: string; excludeUserId?: string }
+    | { all: true; excludeUserId?: string }
+    | { topic: string };
+
+export interface SseEnvelope {
+    target: SseTarget;
+    event: { type: string; [key: string]: unknown };
+    // Row id in the event log, sent as the SSE `id:` field of user events
+    id?: number;
+}
+
+// Replaces the topics a connection watches, on whichever instance holds it
+export interface SseTopicsChange {
+    connectionId: string;
+    userId: string;
+    topics: string[];
+}
+
+// A logged event by its row id, for brokers that can't carry the event itself.
+// The receiving instance loads it from the log.
+export type SseLoggedEvent = { eventId: number } & (
+    | { userId: string }
+    | { topic: string }
+);
+
+export type SseBrokerMessage = SseEnvelope | SseTopicsChange | SseLoggedEvent;
+
+export type SseHandler = (message: SseBrokerMessage) => void;
+
+// Pub/sub backend between the instances that publish events and the ones
+// holding the SSE connections
+export interface SseBroker {
+    readonly name: string;
+    // With an executor the message goes out when its transaction commits,
+    // where the backend supports it
+    publish(
+        message: SseEnvelope | SseTopicsChange,
+        executor?: DbExecutor
+    ): Promise<void>;
+    // Resolves once the handler receives messages, returns the unsubscribe
+    subscribe(handler: SseHandler): Promise<() => Promise<void>>;
+}
+
+// Single process only: publishers and connections have to share the Node
+// process. Fine for development and single-instance deployments.
+export function createMemoryBroker(): SseBroker {
+    const handlers = new Set<SseHandler>();
+
+    return {
+        name: "memory",
+        async publish(message) {
+            for (const handler of handlers) {
+                handler(message);
+            }
+        },
+        async subscribe(handler) {
+            handlers.add(handler);
+            return async () => {
+                handlers.delete(handler);
+            };
+        },
+    };
+}
+
+const CHANNEL = "sse_events";
+// NOTIFY payloads are limited to 8000 bytes by default
+const MAX_PAYLOAD_BYTES = 7900;
+
+// Receivers load logged events from the log, so only their id is sent and
+// their size doesn't matter
+function toNotification(
+    message: SseEnvelope | SseTopicsChange
+): SseBrokerMessage {
+    if ("event" in message && message.id !== undefined) {
+        if ("userId" in message.target) {
+            return { eventId: message.id, userId: message.target.userId };
+        }
+        if ("topic" in message.target) {
+            return { eventId: message.id, topic: message.target.topic };
+        }
+    }
+    return message;
+}
+
+// Postgres LISTEN/NOTIFY: every instance listens on one channel, so an event
+// published anywhere reaches connections on all instances. postgres.js keeps
+// the listening connection open and reconnects it.
+export function createPostgresBroker(url: string): SseBroker {
+    const client = postgres(url, { max: 2 });
+
+    return {
+        name: "postgres",
+        async publish(message, executor) {
+            const payload = JSON.stringify(toNotification(message));
+            if (Buffer.byteLength(payload) > MAX_PAYLOAD_BYTES) {
+                throw new Error(
+                    `SSE ${
+                        "event" in message ? `event ${message.event.type}` : "message"
+                    } is too large for NOTIFY`
+                );
+            }
+            if (executor) {
+                // Sent on commit, once the logged event can be loaded
+                await executor.execute(
+                    sql`select pg_notify(${CHANNEL}, ${payload})`
+                );
+            } else {
+                await client.notify(CHANNEL, payload);
+            }
+        },
+        async subscribe(handler) {
+            const { unlisten } = await client.listen(CHANNEL, (payload) => {
+                try {
+                    handler(JSON.parse(payload));
+                } catch (error) {
+                    console.error("Failed to handle SSE broker message:", error);
+                }
+            });
+            return unlisten;
+        },
+    };
+}
+
+// Pick the backend from SSE_BROKER ("memory" or "postgres"). Production
+// defaults to postgres so events survive running more than one instance.
+function createBroker(): SseBroker {
+    const kind =
+        process.env.SSE_BROKER ??
+        (process.env.NODE_ENV === "production" ? "postgres" : "memory");
+
+    if (kind === "postgres") {
+        return createPostgresBroker(process.env.DATABASE_URL!);
+    }
+    if (kind !== "memory") {
+        console.error(`Unknown SSE_BROKER ${kind}, using memory`);
+    }
+    return createMemoryBroker();
+}
+
+// Kept on globalThis: the dev server may load the SSE route and the server
+// actions as separate module instances, which must still share one broker
+const globalForBroker = globalThis as unknown as { sseBroker?: SseBroker };
+
+export function getSseBroker() {
+    globalForBroker.sseBroker ??= createBroker();
+    return globalForBroker.sseBroker;
+}
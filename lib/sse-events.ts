@@ -0,0 +1,191 @@
+import { z } from "zod";
+
+// Contract for the events pushed over /api/sse. Publishers build events with
+// realTimeEvent() and the server validates them before logging; the client
+// parses every message against the same schema.
+
+function eventSchema<T extends string, D extends z.ZodType>(type: T, data: D) {
+    return z.object({
+        type: z.literal(type),
+        data,
+        timestamp: z.string(),
+        // Missed while disconnected and sent again on reconnect
+        replayed: z.boolean().optional(),
+        // Set when delivered for a topic the connection watches
+        topic: z.string().optional(),
+    });
+}
+
+export const realTimeEventSchema = z.discriminatedUnion("type", [
+    eventSchema(
+        "order_status_changed",
+        z.object({
+            orderId: z.string(),
+            orderNumber: z.string(),
+            newStatus: z.string(),
+        })
+    ),
+    eventSchema(
+        "order_created",
+        z.object({
+            id: z.string(),
+            orderNumber: z.string(),
+            customerName: z.string(),
+            total: z.number(),
+            currency: z.string(),
+            status: z.string(),
+            createdBy: z.string(),
+        })
+    ),
+    // Changed without a status change, e.g. put on hold
+    eventSchema(
+        "order_updated",
+        z.object({
+            id: z.string(),
+            orderNumber: z.string(),
+        })
+    ),
+    eventSchema(
+        "new_comment",
+        z.object({
+            orderId: z.string(),
+            orderNumber: z.string(),
+            comment: z.object({
+                id: z.string(),
+                orderId: z.string(),
+                userId: z.string(),
+                content: z.string(),
+                parentCommentId: z.string().nullable(),
+                isInternal: z.boolean(),
+                createdAt: z.string(),
+                updatedAt: z.string(),
+                user: z.object({
+                    id: z.string(),
+                    name: z.string(),
+                    email: z.string(),
+                    role: z.string().nullable(),
+                }),
+            }),
+        })
+    ),
+    eventSchema(
+        "order_history_added",
+        z.object({
+            orderId: z.string(),
+            entry: z.object({
+                id: z.string(),
+                action: z.string(),
+                fromStatus: z.string().nullable(),
+                toStatus: z.string().nullable(),
+                fieldChanges: z.string().nullable(),
+                performedBy: z.string().nullable(),
+                reason: z.string().nullable(),
+                notes: z.string().nullable(),
+                createdAt: z.string(),
+                performedByUser: z
+                    .object({
+                        id: z.string(),
+                        name: z.string(),
+                        email: z.string(),
+                        role: z.string().nullable(),
+                    })
+                    .nullable(),
+            }),
+        })
+    ),
+    eventSchema(
+        "new_notification",
+        z.object({
+            id: z.string(),
+            userId: z.string(),
+            title: z.string(),
+            message: z.string(),
+            type: z.string(),
+            orderId: z.string().nullable(),
+            isRead: z.boolean(),
+            createdAt: z.string(),
+        })
+    ),
+]);
+
+// Sent by the SSE route itself, never logged or replayed
+export const connectionEventSchema = z.discriminatedUnion("type", [
+    eventSchema(
+        "connection_established",
+        z.object({
+            connectionId: z.string(),
+            userId: z.string(),
+            userRole: z.string(),
+        })
+    ),
+    eventSchema("heartbeat", z.object({})),
+    eventSchema("connection_evicted", z.object({ reason: z.string() })),
+    eventSchema("replay_complete", z.object({ count: z.number() })),
+    eventSchema("resync_required", z.object({ reason: z.string() })),
+]);
+
+export const sseMessageSchema = z.union([
+    realTimeEventSchema,
+    connectionEventSchema,
+]);
+
+export type RealTimeEvent = z.infer<typeof realTimeEventSchema>;
+export type RealTimeEventType = RealTimeEvent["type"];
+export type RealTimeEventOf<T extends RealTimeEventType> = Extract<
+    RealTimeEvent,
+    { type: T }
+>;
+export type RealTimeEventData<T extends RealTimeEventType> =
+    RealTimeEventOf<T>["data"];
+
+export type ConnectionEvent = z.infer<typeof connectionEventSchema>;
+export type ConnectionEventData<T extends ConnectionEvent["type"]> = Extract<
+    ConnectionEvent,
+    { type: T }
+>["data"];
+
+// Build an event stamped with the current time
+export function realTimeEvent<T extends RealTimeEventType>(
+    type: T,
+    data: RealTimeEventData<T>
+) {
+    return {
+        type,
+        data,
+        timestamp: new Date().toISOString(),
+    } as RealTimeEventOf<T>;
+}
+
+// Build a connection event stamped with the current time
+export function connectionEvent<T extends ConnectionEvent["type"]>(
+    type: T,
+    data: ConnectionEventData<T>
+) {
+    return { type, data, timestamp: new Date().toISOString() };
+}
+
+// Topics a connection can watch on top of the events for its user and role
+export function orderTopic(orderId: string) {
+    return `order:${orderId}`;
+}
+
+export function customerTopic(customerId: string) {
+    return `customer:${customerId}`;
+}
+
+export function roleTopic(role: string) {
+    return `role:${role}`;
+}
+
+// Topics that follow an order: its own and its customer's
+export function orderTopics(order: { id: string; customerId: string | null }) {
+    return order.customerId
+        ? [orderTopic(order.id), customerTopic(order.customerId)]
+        : [orderTopic(order.id)];
+}
+
+export function parseTopic(topic: string) {
+    const match = /^(order|customer|role):(.+)$/.exec(topic);
+    if (!match) return null;
+    return { kind: match[1] as "order" | "customer" | "role", id: match[2] };
+}
@@ -0,0 +1,428 @@
+import { and, asc, eq, gt, isNull, lt, ne, or } from "drizzle-orm";
+import { db, type DbExecutor } from "@/db/drizzle";
+import { user } from "@/db/auth-schema";
+import { sseEvents } from "@/db/order-schema";
+import {
+    getSseBroker,
+    type SseBrokerMessage,
+    type SseEnvelope,
+    type SseLoggedEvent,
+    type SseTarget,
+} from "@/lib/sse-broker";
+import {
+    connectionEvent,
+    realTimeEventSchema,
+    roleTopic,
+    type RealTimeEvent,
+} from "@/lib/sse-events";
+
+// One open event stream. A user has one per tab or device.
+export interface SSEConnection {
+    id: string;
+    controller: ReadableStreamDefaultController<Uint8Array>;
+    userId: string;
+    userRole: string;
+    userAgent: string | null;
+    connectedAt: Date;
+    // Live events held back while missed ones are replayed, null otherwise
+    pending: SseEnvelope[] | null;
+    // Topics watched on top of the user's and role's events
+    topics: Set<string>;
+}
+
+// Connections held by this instance by connection id, and its subscription
+// to the broker. On globalThis so every module instance in the process
+// shares them and events aren't delivered twice.
+const globalForSse = globalThis as unknown as {
+    sseConnections?: Map<string, SSEConnection>;
+    sseSubscription?: Promise<unknown>;
+};
+const connections = (globalForSse.sseConnections ??= new Map());
+
+// Open connections a user may hold on one instance. The cap is not shared:
+// behind several instances a user can hold this many on each of them.
+const maxConnectionsPerUser =
+    Number(process.env.SSE_MAX_CONNECTIONS_PER_USER) || 5;
+
+// How long logged events stay available for replay
+const retentionHours = Number(process.env.SSE_EVENT_RETENTION_HOURS) || 24;
+
+// Missed events replayed on reconnect; a longer gap needs a full reload
+const REPLAY_LIMIT = 500;
+
+const encoder = new TextEncoder();
+
+function write(connection: SSEConnection, data: unknown, id?: number) {
+    try {
+        connection.controller.enqueue(
+            encoder.encode(
+                `${id !== undefined ? `id: ${id}\n` : ""}data: ${JSON.stringify(data)}\n\n`
+            )
+        );
+        return true;
+    } catch (error) {
+        console.error(
+            `Failed to send SSE message on connection ${connection.id} of user:`,
+            connection.userId,
+            error
+        );
+        // Remove broken connection
+        unregisterConnection(connection);
+        return false;
+    }
+}
+
+function matches(connection: SSEConnection, target: SseTarget) {
+    if ("userId" in target) return connection.userId === target.userId;
+    if ("topic" in target) return connection.topics.has(target.topic);
+    if (target.excludeUserId === connection.userId) return false;
+    return "all" in target || connection.userRole === target.role;
+}
+
+// Deliver an event from the broker to the matching local connections
+function deliver(message: SseEnvelope) {
+    // Topic events aren't replayed, so they go out without their log id and
+    // the client doesn't resume from them
+    const envelope: SseEnvelope =
+        "topic" in message.target
+            ? { target: message.target, event: message.event }
+            : message;
+    const { target, event, id } = envelope;
+    let sentCount = 0;
+    for (const connection of connections.values()) {
+        if (!matches(connection, target)) continue;
+        if (connection.pending) {
+            connection.pending.push(envelope);
+        } else if (write(connection, event, id)) {
+            sentCount++;
+        }
+    }
+    if (sentCount > 0) {
+        console.log(`SSE message delivered to ${sentCount} connections:`, event.type);
+    }
+}
+
+// Load a logged event sent by id and deliver it, unless no connection here
+// is for it
+async function deliverLogged(message: SseLoggedEvent) {
+    const target: SseTarget =
+        "userId" in message
+            ? { userId: message.userId }
+            : { topic: message.topic };
+    if (
+        ![...connections.values()].some((connection) =>
+            matches(connection, target)
+        )
+    ) {
+        return;
+    }
+
+    const [row] = await db
+        .select()
+        .from(sseEvents)
+        .where(eq(sseEvents.id, message.eventId));
+    if (!row) return;
+    deliver({ target, event: JSON.parse(row.payload), id: row.id });
+}
+
+function receive(message: SseBrokerMessage) {
+    if ("eventId" in message) {
+        deliverLogged(message).catch((error) => {
+            console.error(`Failed to load SSE event ${message.eventId}:`, error);
+        });
+        return;
+    }
+    if (!("connectionId" in message)) {
+        deliver(message);
+        return;
+    }
+    // Topic changes apply to the connection only, wherever it is held
+    const connection = connections.get(message.connectionId);
+    if (connection && connection.userId === message.userId) {
+        connection.topics = new Set(message.topics);
+    }
+}
+
+function ensureSubscribed() {
+    globalForSse.sseSubscription ??= getSseBroker()
+        .subscribe(receive)
+        .catch((error) => {
+            console.error("Failed to subscribe to the SSE broker:", error);
+            // Try again with the next connection
+            globalForSse.sseSubscription = undefined;
+        });
+    return globalForSse.sseSubscription;
+}
+
+function connectionsOf(userId: string) {
+    return [...connections.values()]
+        .filter((connection) => connection.userId === userId)
+        .sort((a, b) => a.connectedAt.getTime() - b.connectedAt.getTime());
+}
+
+// Close a connection to make room for a newer one. The client is told so it
+// doesn't reconnect and push out another tab in turn.
+function evict(connection: SSEConnection) {
+    write(
+        connection,
+        connectionEvent("connection_evicted", {
+            reason: `More than ${maxConnectionsPerUser} open connections`,
+        })
+    );
+    try {
+        connection.controller.close();
+    } catch {
+        // Already closed
+    }
+    unregisterConnection(connection);
+    console.log(`SSE connection ${connection.id} of user ${connection.userId} evicted`);
+}
+
+// Add a connection, closing the user's oldest ones on this instance beyond
+// the cap. Stale connections of devices that went away are the usual victims.
+export async function registerConnection(connection: SSEConnection) {
+    const existing = connectionsOf(connection.userId);
+    for (const stale of existing.slice(
+        0,
+        Math.max(existing.length - maxConnectionsPerUser + 1, 0)
+    )) {
+        evict(stale);
+    }
+
+    connections.set(connection.id, connection);
+    await ensureSubscribed();
+}
+
+export function unregisterConnection(connection: SSEConnection) {
+    connections.delete(connection.id);
+}
+
+// Replay what a reconnecting client missed since the last event id it saw,
+// then release the live events that arrived meanwhile. Tells the client to
+// reload instead when the gap is no longer in the log.
+export async function replayMissedEvents(
+    connection: SSEConnection,
+    lastEventId: number
+) {
+    let lastReplayedId = lastEventId;
+    try {
+        const since = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+        const [lastSeen] = await db
+            .select({ id: sseEvents.id })
+            .from(sseEvents)
+            .where(
+                and(
+                    eq(sseEvents.id, lastEventId),
+                    eq(sseEvents.userId, connection.userId),
+                    gt(sseEvents.createdAt, since)
+                )
+            );
+        const missed = lastSeen
+            ? await db
+                  .select()
+                  .from(sseEvents)
+                  .where(
+                      and(
+                          eq(sseEvents.userId, connection.userId),
+                          gt(sseEvents.id, lastEventId)
+                      )
+                  )
+                  .orderBy(asc(sseEvents.id))
+                  .limit(REPLAY_LIMIT + 1)
+            : [];
+
+        if (!lastSeen || missed.length > REPLAY_LIMIT) {
+            write(
+                connection,
+                connectionEvent("resync_required", {
+                    reason: lastSeen
+                        ? "Too many missed updates"
+                        : "Missed updates are no longer available",
+                })
+            );
+        } else {
+            for (const row of missed) {
+                write(
+                    connection,
+                    { ...JSON.parse(row.payload), replayed: true },
+                    row.id
+                );
+                lastReplayedId = row.id;
+            }
+            write(
+                connection,
+                connectionEvent("replay_complete", { count: missed.length })
+            );
+        }
+    } catch (error) {
+        console.error(
+            `Failed to replay SSE events for user ${connection.userId}:`,
+            error
+        );
+        write(
+            connection,
+            connectionEvent("resync_required", {
+                reason: "Missed updates could not be loaded",
+            })
+        );
+    } finally {
+        const pending = connection.pending ?? [];
+        connection.pending = null;
+        for (const { event, id } of pending) {
+            if (id === undefined || id > lastReplayedId) {
+                write(connection, event, id);
+            }
+        }
+    }
+}
+
+// Delete logged events past the retention window
+export async function pruneSseEvents() {
+    const cutoff = new Date(Date.now() - retentionHours * 60 * 60 * 1000);
+    const deleted = await db
+        .delete(sseEvents)
+        .where(lt(sseEvents.createdAt, cutoff))
+        .returning({ id: sseEvents.id });
+    return { deleted: deleted.length, retentionHours };
+}
+
+// Targets resolved to users, whose events are logged
+type UserTarget = Exclude<SseTarget, { topic: string }>;
+
+// Users a role or broadcast event is logged for
+async function recipientsOf(executor: DbExecutor, target: UserTarget) {
+    if ("userId" in target) return [target.userId];
+
+    const rows = await executor
+        .select({ id: user.id })
+        .from(user)
+        .where(
+            and(
+                "role" in target ? eq(user.role, target.role) : undefined,
+                or(isNull(user.banned), eq(user.banned, false)),
+                target.excludeUserId
+                    ? ne(user.id, target.excludeUserId)
+                    : undefined
+            )
+        );
+    return rows.map((row) => row.id);
+}
+
+// Log the event for each recipient, then publish it per recipient with its
+// log id; every instance delivers it to its own connections. Events that
+// don't match the contract throw instead of reaching clients. Pass the
+// transaction delivering the event so a rolled back attempt logs nothing.
+async function publish(
+    target: UserTarget,
+    data: RealTimeEvent,
+    executor: DbExecutor = db
+) {
+    const event = realTimeEventSchema.parse(data);
+    const recipients = await recipientsOf(executor, target);
+    if (recipients.length === 0) return;
+
+    const payload = JSON.stringify(event);
+    const logged = await executor
+        .insert(sseEvents)
+        .values(
+            recipients.map((userId) => ({ userId, type: event.type, payload }))
+        )
+        .returning({ id: sseEvents.id, userId: sseEvents.userId });
+
+    const broker = getSseBroker();
+    for (const { id, userId } of logged) {
+        // Always set on the rows logged here, only topic rows go without
+        if (!userId) continue;
+        await broker.publish({ target: { userId }, event, id }, executor);
+    }
+}
+
+// Helper function to send data to a specific user
+export async function sendToUser(
+    userId: string,
+    data: RealTimeEvent,
+    executor?: DbExecutor
+) {
+    await publish({ userId }, data, executor);
+}
+
+// Helper function to send data to users with specific roles. Connections
+// watching the role's topic get it too.
+export async function sendToRole(
+    role: string,
+    data: RealTimeEvent,
+    excludeUserId?: string,
+    executor?: DbExecutor
+) {
+    await publish({ role, excludeUserId }, data, executor);
+    await sendToTopic(roleTopic(role), data, executor);
+}
+
+// Send to the connections watching a topic. Topic events follow what a page
+// shows rather than a user, so they aren't replayed; clients reload what they
+// watch after reconnecting. They are logged so brokers can send them by id.
+export async function sendToTopic(
+    topic: string,
+    data: RealTimeEvent,
+    executor: DbExecutor = db
+) {
+    const event = { ...realTimeEventSchema.parse(data), topic };
+    const [logged] = await executor
+        .insert(sseEvents)
+        .values({ topic, type: event.type, payload: JSON.stringify(event) })
+        .returning({ id: sseEvents.id });
+
+    await getSseBroker().publish(
+        { target: { topic }, event, id: logged.id },
+        executor
+    );
+}
+
+// Replace the topics a connection watches. Only its owner may change them.
+export async function setConnectionTopics(
+    connectionId: string,
+    userId: string,
+    topics: string[]
+) {
+    await getSseBroker().publish({ connectionId, userId, topics });
+}
+
+// Helper function to broadcast to all connected users
+export async function broadcast(
+    data: RealTimeEvent,
+    excludeUserId?: string
+) {
+    await publish({ all: true, excludeUserId }, data);
+}
+
+// Connections held by this instance, one entry per tab or device
+export function getConnectionStats() {
+    const stats = {
+        broker: getSseBroker().name,
+        maxConnectionsPerUser,
+        totalConnections: connections.size,
+        totalUsers: new Set(
+            [...connections.values()].map((connection) => connection.userId)
+        ).size,
+        connectionsByRole: {} as Record<string, number>,
+        connectionsByUser: {} as Record<string, number>,
+        retentionHours,
+        connections: Array.from(connections.values()).map((connection) => ({
+            connectionId: connection.id,
+            userId: connection.userId,
+            userRole: connection.userRole,
+            userAgent: connection.userAgent,
+            topics: [...connection.topics],
+            connectedAt: connection.connectedAt,
+        })),
+    };
+
+    for (const connection of connections.values()) {
+        stats.connectionsByRole[connection.userRole] =
+            (stats.connectionsByRole[connection.userRole] || 0) + 1;
+        stats.connectionsByUser[connection.userId] =
+            (stats.connectionsByUser[connection.userId] || 0) + 1;
+    }
+
+    return stats;
+}
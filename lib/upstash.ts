@@ -12,7 +12,19 @@ export const redis =
 // Types for change history
 export interface ChangeHistoryEntry {
     id: string;
-    entityType: "order" | "user" | "comment" | "notification";
+    entityType:
+        | "order"
+        | "user"
+        | "comment"
+        | "notification"
+        | "return"
+        | "product"
+        | "inventory"
+        | "customer"
+        | "tax_rate"
+        | "exchange_rate"
+        | "approval_policy"
+        | "invoice";
     entityId: string;
     action: string;
     changes: Record<string, any>;
@@ -0,0 +1 @@
+ALTER TABLE "orders" ADD COLUMN "cancellation_reason" text;
\ No newline at end of file
@@ -0,0 +1,26 @@
+CREATE TABLE "tax_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"name" text NOT NULL,
+	"rate" numeric(5, 2) NOT NULL,
+	"category" text,
+	"region" text,
+	"is_active" boolean DEFAULT true NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount_type" text;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount_value" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "discount_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_rate" numeric(5, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "order_items" ADD COLUMN "tax_amount" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "subtotal" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount_type" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount_value" numeric(10, 2);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "discount_total" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_region" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "tax_total" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "shipping_charge" numeric(10, 2) DEFAULT '0' NOT NULL;--> statement-breakpoint
+ALTER TABLE "products" ADD COLUMN "category" text;--> statement-breakpoint
+-- Existing orders had no discounts, tax or shipping
+UPDATE "orders" SET "subtotal" = "total";
\ No newline at end of file
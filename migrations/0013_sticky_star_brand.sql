@@ -0,0 +1,16 @@
+CREATE TABLE "exchange_rates" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"from_currency" text NOT NULL,
+	"to_currency" text NOT NULL,
+	"rate" numeric(18, 8) NOT NULL,
+	"effective_date" date NOT NULL,
+	"created_by" text,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "exchange_rates_from_currency_to_currency_effective_date_unique" UNIQUE("from_currency","to_currency","effective_date")
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "currency" text DEFAULT 'USD' NOT NULL;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "exchange_rate" numeric(18, 8);--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "exchange_rate_currency" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "exchange_rate_date" date;--> statement-breakpoint
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_created_by_user_id_fk" FOREIGN KEY ("created_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,5 @@
+ALTER TABLE "approval_policies" ADD COLUMN "approver_roles" text[];--> statement-breakpoint
+ALTER TABLE "order_approvals" ADD COLUMN "role" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "approval_roles" text[];--> statement-breakpoint
+-- Second approval policies become two-accountant approval chains
+UPDATE "approval_policies" SET "kind" = 'approval_chain', "approver_roles" = ARRAY['accountant', 'accountant'] WHERE "kind" = 'second_approval';
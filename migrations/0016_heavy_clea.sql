@@ -0,0 +1,60 @@
+CREATE TABLE "document_sequences" (
+	"name" text PRIMARY KEY NOT NULL,
+	"last_value" integer DEFAULT 0 NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "invoice_lines" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_id" uuid NOT NULL,
+	"order_item_id" uuid NOT NULL,
+	"name" text NOT NULL,
+	"sku" text,
+	"quantity" integer NOT NULL,
+	"unit_price" numeric(10, 2) NOT NULL,
+	"discount_amount" numeric(10, 2) NOT NULL,
+	"tax_rate" numeric(5, 2) NOT NULL,
+	"tax_amount" numeric(10, 2) NOT NULL,
+	"line_total" numeric(10, 2) NOT NULL
+);
+--> statement-breakpoint
+CREATE TABLE "invoices" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"invoice_number" text NOT NULL,
+	"kind" text NOT NULL,
+	"order_id" uuid NOT NULL,
+	"credited_invoice_id" uuid,
+	"return_request_id" uuid,
+	"customer_name" text NOT NULL,
+	"customer_email" text,
+	"customer_address" text,
+	"currency" text NOT NULL,
+	"subtotal" numeric(10, 2) NOT NULL,
+	"discount_total" numeric(10, 2) NOT NULL,
+	"tax_total" numeric(10, 2) NOT NULL,
+	"shipping_charge" numeric(10, 2) NOT NULL,
+	"total" numeric(10, 2) NOT NULL,
+	"reason" text,
+	"issued_by" text,
+	"issued_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "invoices_invoice_number_unique" UNIQUE("invoice_number")
+);
+--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_invoice_id_invoices_id_fk" FOREIGN KEY ("invoice_id") REFERENCES "public"."invoices"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoice_lines" ADD CONSTRAINT "invoice_lines_order_item_id_order_items_id_fk" FOREIGN KEY ("order_item_id") REFERENCES "public"."order_items"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_order_id_orders_id_fk" FOREIGN KEY ("order_id") REFERENCES "public"."orders"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_credited_invoice_id_invoices_id_fk" FOREIGN KEY ("credited_invoice_id") REFERENCES "public"."invoices"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_return_request_id_return_requests_id_fk" FOREIGN KEY ("return_request_id") REFERENCES "public"."return_requests"("id") ON DELETE restrict ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "invoices" ADD CONSTRAINT "invoices_issued_by_user_id_fk" FOREIGN KEY ("issued_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+-- Issued invoices and credit notes can't change. Clearing issued_by when the
+-- issuing user is deleted is the only update allowed.
+CREATE FUNCTION "prevent_invoice_changes"() RETURNS trigger AS $$
+BEGIN
+	IF TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'invoices' AND NEW."issued_by" IS NULL
+		AND (to_jsonb(NEW) - 'issued_by') = (to_jsonb(OLD) - 'issued_by') THEN
+		RETURN NEW;
+	END IF;
+	RAISE EXCEPTION '% rows are immutable once issued', TG_TABLE_NAME;
+END;
+$$ LANGUAGE plpgsql;--> statement-breakpoint
+CREATE TRIGGER "invoices_immutable" BEFORE UPDATE OR DELETE ON "invoices" FOR EACH ROW EXECUTE FUNCTION "prevent_invoice_changes"();--> statement-breakpoint
+CREATE TRIGGER "invoice_lines_immutable" BEFORE UPDATE OR DELETE ON "invoice_lines" FOR EACH ROW EXECUTE FUNCTION "prevent_invoice_changes"();
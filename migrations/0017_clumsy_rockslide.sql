@@ -0,0 +1,16 @@
+CREATE TABLE "carrier_events" (
+	"id" uuid PRIMARY KEY DEFAULT gen_random_uuid() NOT NULL,
+	"shipment_id" uuid NOT NULL,
+	"external_id" text NOT NULL,
+	"status" text NOT NULL,
+	"description" text NOT NULL,
+	"location" text,
+	"occurred_at" timestamp NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL,
+	CONSTRAINT "carrier_events_shipment_id_external_id_unique" UNIQUE("shipment_id","external_id")
+);
+--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "carrier" text;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "tracking_status" text;--> statement-breakpoint
+ALTER TABLE "shipments" ADD COLUMN "tracking_polled_at" timestamp;--> statement-breakpoint
+ALTER TABLE "carrier_events" ADD CONSTRAINT "carrier_events_shipment_id_shipments_id_fk" FOREIGN KEY ("shipment_id") REFERENCES "public"."shipments"("id") ON DELETE cascade ON UPDATE no action;
\ No newline at end of file
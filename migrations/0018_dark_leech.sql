@@ -0,0 +1,12 @@
+ALTER TABLE "orders" ADD COLUMN "due_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "sla_reminded_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "sla_escalated_at" timestamp;--> statement-breakpoint
+-- Open orders get a due date counted from their last update, see lib/order-sla.ts
+UPDATE "orders" SET "due_at" = "updated_at" + CASE "status"
+	WHEN 'pending' THEN interval '24 hours'
+	WHEN 'partially_approved' THEN interval '24 hours'
+	WHEN 'edit_requested' THEN interval '48 hours'
+	WHEN 'approved' THEN interval '24 hours'
+	WHEN 'warehouse_confirmed' THEN interval '48 hours'
+	WHEN 'shipped' THEN interval '168 hours'
+END WHERE "status" IN ('pending', 'partially_approved', 'edit_requested', 'approved', 'warehouse_confirmed', 'shipped');
@@ -0,0 +1,11 @@
+CREATE TABLE "assignment_rules" (
+	"role" text PRIMARY KEY NOT NULL,
+	"strategy" text DEFAULT 'manual' NOT NULL,
+	"last_assigned_to" text,
+	"updated_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "assigned_to" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "assigned_at" timestamp;--> statement-breakpoint
+ALTER TABLE "assignment_rules" ADD CONSTRAINT "assignment_rules_last_assigned_to_user_id_fk" FOREIGN KEY ("last_assigned_to") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_assigned_to_user_id_fk" FOREIGN KEY ("assigned_to") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,4 @@
+ALTER TABLE "orders" ADD COLUMN "held_at" timestamp;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "held_by" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD COLUMN "hold_reason" text;--> statement-breakpoint
+ALTER TABLE "orders" ADD CONSTRAINT "orders_held_by_user_id_fk" FOREIGN KEY ("held_by") REFERENCES "public"."user"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
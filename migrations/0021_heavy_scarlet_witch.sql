@@ -0,0 +1,2 @@
+ALTER TABLE "shipments" ADD COLUMN "replaced_by" uuid;--> statement-breakpoint
+ALTER TABLE "shipments" ADD CONSTRAINT "shipments_replaced_by_shipments_id_fk" FOREIGN KEY ("replaced_by") REFERENCES "public"."shipments"("id") ON DELETE set null ON UPDATE no action;
\ No newline at end of file
@@ -0,0 +1,11 @@
+CREATE TABLE "sse_events" (
+	"id" bigserial PRIMARY KEY NOT NULL,
+	"user_id" text NOT NULL,
+	"type" text NOT NULL,
+	"payload" text NOT NULL,
+	"created_at" timestamp DEFAULT now() NOT NULL
+);
+--> statement-breakpoint
+ALTER TABLE "sse_events" ADD CONSTRAINT "sse_events_user_id_user_id_fk" FOREIGN KEY ("user_id") REFERENCES "public"."user"("id") ON DELETE cascade ON UPDATE no action;--> statement-breakpoint
+CREATE INDEX "sse_events_user_id_id_idx" ON "sse_events" USING btree ("user_id","id");--> statement-breakpoint
+CREATE INDEX "sse_events_created_at_idx" ON "sse_events" USING btree ("created_at");
\ No newline at end of file
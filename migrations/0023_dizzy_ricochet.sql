@@ -0,0 +1,2 @@
+CREATE UNIQUE INDEX "customers_email_key" ON "customers" USING btree (lower(trim("email"))) WHERE "customers"."email" is not null;--> statement-breakpoint
+CREATE UNIQUE INDEX "customers_name_phone_key" ON "customers" USING btree (lower(trim("name")),coalesce(regexp_replace("phone", '\D', '', 'g'), '')) WHERE "customers"."email" is null;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE "sse_events" ALTER COLUMN "user_id" DROP NOT NULL;--> statement-breakpoint
+ALTER TABLE "sse_events" ADD COLUMN "topic" text;
\ No newline at end of file
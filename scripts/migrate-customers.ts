@@ -0,0 +1,57 @@
+import { db } from "@/db/drizzle";
+import { orders } from "@/db/order-schema";
+import { asc, eq, isNull } from "drizzle-orm";
+import { findOrCreateCustomer } from "@/lib/customers";
+
+// One-off: link existing orders to customers. Orders with the same email, or
+// the same name and phone when there is no email, end up on one customer.
+// Run with `npm run db:migrate-customers`.
+async function migrateCustomers() {
+  try {
+    console.log("Checking for orders without a customer...");
+
+    // Oldest first, so each customer keeps the details of its first order
+    const unlinkedOrders = await db
+      .select()
+      .from(orders)
+      .where(isNull(orders.customerId))
+      .orderBy(asc(orders.createdAt));
+
+    console.log(`Found ${unlinkedOrders.length} orders without a customer`);
+
+    const customerIds = new Set<string>();
+
+    for (const order of unlinkedOrders) {
+      await db.transaction(async (tx) => {
+        const customer = await findOrCreateCustomer(
+          tx,
+          {
+            name: order.customerName,
+            email: order.customerEmail,
+            phone: order.customerPhone,
+            address: order.customerAddress,
+          },
+          order.createdBy
+        );
+
+        await tx
+          .update(orders)
+          .set({ customerId: customer.id })
+          .where(eq(orders.id, order.id));
+
+        customerIds.add(customer.id);
+        console.log(`Linked order ${order.orderNumber} to customer ${customer.name}`);
+      });
+    }
+
+    console.log(
+      `Customer migration completed: ${unlinkedOrders.length} orders linked to ${customerIds.size} customers`
+    );
+    process.exit(0);
+  } catch (error) {
+    console.error("Error migrating customers:", error);
+    process.exit(1);
+  }
+}
+
+migrateCustomers();
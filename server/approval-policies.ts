@@ -0,0 +1,232 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { approvalPolicies, approvalPolicyKindEnum } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { asc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+import { reportingCurrency } from "@/lib/exchange-rates";
+import {
+    approverRoleOptions,
+    type ApprovalPolicyKind,
+} from "@/lib/approval-policies";
+
+export type ApprovalPolicyData = {
+    name: string;
+    kind: ApprovalPolicyKind;
+    threshold?: number | null; // In the reporting currency
+    approverRoles?: string[]; // approval_chain: role of each approver
+    minCompletedOrders?: number;
+    isActive?: boolean;
+};
+
+// Resolve the session and check an `approval_policy` permission
+async function authorize(permission: "read" | "manage") {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                approval_policy: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+function validateApprovalPolicy(data: ApprovalPolicyData) {
+    if (!data.name.trim()) return "Policy name is required";
+    if (!approvalPolicyKindEnum.includes(data.kind)) {
+        return "Unknown policy type";
+    }
+    if (data.kind !== "credit_limit" && !((data.threshold ?? -1) >= 0)) {
+        return "Threshold must be 0 or more";
+    }
+    if (!Number.isInteger(data.minCompletedOrders ?? 0)) {
+        return "Completed orders must be a whole number";
+    }
+    if ((data.minCompletedOrders ?? 0) < 0) {
+        return "Completed orders can't be negative";
+    }
+    if (data.kind === "approval_chain") {
+        const roles = data.approverRoles ?? [];
+        if (roles.length < 2) {
+            return "An approval chain needs at least two approvers";
+        }
+        if (
+            roles.some(
+                (role) =>
+                    !(approverRoleOptions as readonly string[]).includes(role)
+            )
+        ) {
+            return `Approvers must be one of: ${approverRoleOptions.join(", ")}`;
+        }
+    }
+    return null;
+}
+
+function approvalPolicyValues(data: ApprovalPolicyData) {
+    return {
+        name: data.name.trim(),
+        kind: data.kind,
+        threshold:
+            data.kind === "credit_limit" ? null : data.threshold!.toFixed(2),
+        approverRoles:
+            data.kind === "approval_chain" ? data.approverRoles! : null,
+        minCompletedOrders: data.minCompletedOrders ?? 1,
+        isActive: data.isActive ?? true,
+    };
+}
+
+// All policies, the currency their thresholds are in and the roles that can
+// sign off in an approval chain
+export async function listApprovalPolicies() {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const policies = await db
+            .select()
+            .from(approvalPolicies)
+            .orderBy(asc(approvalPolicies.kind), asc(approvalPolicies.threshold));
+
+        return {
+            success: true,
+            approvalPolicies: policies,
+            reportingCurrency: reportingCurrency(),
+            approverRoles: [...approverRoleOptions],
+        };
+    } catch (error) {
+        console.error("Error fetching approval policies:", error);
+        return { success: false, message: "Failed to fetch approval policies" };
+    }
+}
+
+// Create approval policy (Accountant/Admin role)
+export async function createApprovalPolicy(data: ApprovalPolicyData) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateApprovalPolicy(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [policy] = await db
+            .insert(approvalPolicies)
+            .values(approvalPolicyValues(data))
+            .returning();
+
+        await storeChangeHistory({
+            entityType: "approval_policy",
+            entityId: policy.id,
+            action: "approval_policy_created",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/approval-policies");
+        return { success: true, message: "Approval policy created" };
+    } catch (error) {
+        console.error("Error creating approval policy:", error);
+        return { success: false, message: "Failed to create approval policy" };
+    }
+}
+
+// Update approval policy (Accountant/Admin role). Applies to orders created
+// from now on.
+export async function updateApprovalPolicy(
+    policyId: string,
+    data: ApprovalPolicyData
+) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateApprovalPolicy(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [policy] = await db
+            .update(approvalPolicies)
+            .set({ ...approvalPolicyValues(data), updatedAt: new Date() })
+            .where(eq(approvalPolicies.id, policyId))
+            .returning();
+
+        if (!policy) {
+            return { success: false, message: "Approval policy not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "approval_policy",
+            entityId: policy.id,
+            action: "approval_policy_updated",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/approval-policies");
+        return { success: true, message: "Approval policy updated" };
+    } catch (error) {
+        console.error("Error updating approval policy:", error);
+        return { success: false, message: "Failed to update approval policy" };
+    }
+}
+
+// Delete approval policy (Accountant/Admin role)
+export async function deleteApprovalPolicy(policyId: string) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [policy] = await db
+            .delete(approvalPolicies)
+            .where(eq(approvalPolicies.id, policyId))
+            .returning();
+
+        if (!policy) {
+            return { success: false, message: "Approval policy not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "approval_policy",
+            entityId: policy.id,
+            action: "approval_policy_deleted",
+            changes: { name: policy.name, kind: policy.kind },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/approval-policies");
+        return { success: true, message: "Approval policy deleted" };
+    } catch (error) {
+        console.error("Error deleting approval policy:", error);
+        return { success: false, message: "Failed to delete approval policy" };
+    }
+}
@@ -0,0 +1,292 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+    assignmentRules,
+    assignmentStrategyEnum,
+    orders,
+} from "@/db/order-schema";
+import { user } from "@/db/auth-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { and, eq, isNull } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { enqueueOutbox, flushOutbox, notificationMessage } from "@/lib/outbox";
+import {
+    orderConflictMessage,
+    OrderConflictError,
+} from "@/lib/order-workflow";
+import { queueRole } from "@/lib/order-sla";
+import {
+    assignableRoles,
+    getAssignees,
+    isAssignableRole,
+    type AssignmentStrategy,
+} from "@/lib/order-assignment";
+import { recordOrderHistory } from "@/lib/order-history";
+
+// Resolve the session and check that the user may assign orders to others
+async function authorize() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                order: ["assign"],
+            },
+        },
+    });
+
+    return { session, canAssign: hasPermission } as const;
+}
+
+// Assign an order to a user of the role its status waits on, or clear the
+// assignment with null. Users of that role may take unassigned orders
+// themselves (Admin role for everything else).
+export async function assignOrder(
+    orderId: string,
+    assigneeId: string | null,
+    expectedVersion?: number
+) {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        const { session, canAssign } = authorized;
+
+        const [order] = await db
+            .select()
+            .from(orders)
+            .where(eq(orders.id, orderId));
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+        if (expectedVersion !== undefined && expectedVersion !== order.version) {
+            return { success: false, conflict: true, message: orderConflictMessage };
+        }
+        if (order.heldAt) {
+            return {
+                success: false,
+                message: `Order is on hold (${order.holdReason}). Release the hold first.`,
+            };
+        }
+
+        const role = queueRole(order.status);
+        if (!isAssignableRole(role)) {
+            return {
+                success: false,
+                message: `Orders that are ${order.status} can't be assigned`,
+            };
+        }
+
+        const claiming =
+            assigneeId === session.user.id &&
+            session.user.role === role &&
+            !order.assignedTo;
+        if (!canAssign && !claiming) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        if (assigneeId === order.assignedTo) {
+            return { success: true, message: "No changes to save" };
+        }
+
+        const [assignee] = assigneeId
+            ? await db.select().from(user).where(eq(user.id, assigneeId))
+            : [];
+        if (assigneeId && assignee?.role !== role) {
+            return {
+                success: false,
+                message: `This order can only be assigned to a ${role}`,
+            };
+        }
+
+        const [previous] = order.assignedTo
+            ? await db
+                  .select({ name: user.name })
+                  .from(user)
+                  .where(eq(user.id, order.assignedTo))
+            : [];
+        const changes = {
+            assignedTo: {
+                from: previous?.name ?? null,
+                to: assignee?.name ?? null,
+            },
+        };
+
+        await db.transaction(async (tx) => {
+            // Only if nobody moved or reassigned the order in the meantime
+            const updated = await tx
+                .update(orders)
+                .set({
+                    assignedTo: assignee?.id ?? null,
+                    assignedAt: assignee ? new Date() : null,
+                    version: order.version + 1,
+                    updatedBy: session.user.id,
+                    updatedAt: new Date(),
+                })
+                .where(
+                    and(
+                        eq(orders.id, order.id),
+                        eq(orders.version, order.version),
+                        isNull(orders.heldAt)
+                    )
+                )
+                .returning({ id: orders.id });
+
+            if (updated.length === 0) {
+                throw new OrderConflictError();
+            }
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: assignee ? "assigned" : "unassigned",
+                performedBy: session.user.id,
+                fieldChanges: JSON.stringify(changes),
+                notes: assignee
+                    ? `Assigned to ${assignee.name} (${role}) by ${session.user.name}`
+                    : `Assignment cleared by ${session.user.name}`,
+            });
+
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "order",
+                        entityId: order.id,
+                        action: "order_assigned",
+                        changes,
+                        performedBy: session.user.id,
+                        metadata: {
+                            userRole: session.user.role,
+                            orderNumber: order.orderNumber,
+                        },
+                    },
+                },
+                ...(assignee && assignee.id !== session.user.id
+                    ? [
+                          notificationMessage(
+                              assignee.id,
+                              "Order Assigned",
+                              `Order ${order.orderNumber} was assigned to you by ${session.user.name}.`,
+                              order.id,
+                              "assignment"
+                          ),
+                      ]
+                    : []),
+            ]);
+        });
+
+        await flushOutbox();
+        revalidatePath("/order");
+
+        return {
+            success: true,
+            message: assignee
+                ? `Order assigned to ${assignee.name}`
+                : "Order unassigned",
+        };
+    } catch (error) {
+        if (error instanceof OrderConflictError) {
+            return { success: false, conflict: true, message: error.message };
+        }
+        console.error("Error assigning order:", error);
+        return { success: false, message: "Failed to assign order" };
+    }
+}
+
+// Users orders can be assigned to, per role (Admin role)
+export async function listAssignees() {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        if (!authorized.canAssign) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        const assignees: Record<string, { id: string; name: string }[]> = {};
+        for (const role of assignableRoles) {
+            assignees[role] = (await getAssignees(db, role)).map(
+                ({ id, name }) => ({ id, name })
+            );
+        }
+
+        return { success: true, assignees };
+    } catch (error) {
+        console.error("Error fetching assignees:", error);
+        return { success: false, message: "Failed to fetch assignees" };
+    }
+}
+
+// Assignment strategy per role, manual when never set (Admin role)
+export async function listAssignmentRules() {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        if (!authorized.canAssign) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        const rules = await db.select().from(assignmentRules);
+        return {
+            success: true,
+            rules: assignableRoles.map((role) => ({
+                role,
+                strategy:
+                    rules.find((rule) => rule.role === role)?.strategy ??
+                    ("manual" as AssignmentStrategy),
+            })),
+        };
+    } catch (error) {
+        console.error("Error fetching assignment rules:", error);
+        return { success: false, message: "Failed to fetch assignment rules" };
+    }
+}
+
+export async function updateAssignmentRule(
+    role: string,
+    strategy: AssignmentStrategy
+) {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        if (!authorized.canAssign) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        if (!isAssignableRole(role)) {
+            return { success: false, message: "Unknown role" };
+        }
+        if (!assignmentStrategyEnum.includes(strategy)) {
+            return { success: false, message: "Unknown assignment strategy" };
+        }
+
+        await db
+            .insert(assignmentRules)
+            .values({ role, strategy })
+            .onConflictDoUpdate({
+                target: assignmentRules.role,
+                set: { strategy, updatedAt: new Date() },
+            });
+
+        revalidatePath("/assignment-rules");
+        return { success: true, message: "Assignment rule updated" };
+    } catch (error) {
+        console.error("Error updating assignment rule:", error);
+        return { success: false, message: "Failed to update assignment rule" };
+    }
+}
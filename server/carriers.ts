@@ -0,0 +1,37 @@
+"use server";
+
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { listCarriers } from "@/lib/carriers";
+
+// Carriers a shipment can be tracked with, for the ship dialog
+// (Shipper role)
+export async function listShippingCarriers() {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        const { success: hasPermission } = await auth.api.userHasPermission({
+            body: {
+                userId: session.user.id,
+                permissions: {
+                    order: ["ship"],
+                },
+            },
+        });
+
+        if (!hasPermission) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        return { success: true, carriers: listCarriers() };
+    } catch (error) {
+        console.error("Error fetching carriers:", error);
+        return { success: false, message: "Failed to fetch carriers" };
+    }
+}
@@ -8,6 +8,8 @@ import { eq, and, desc } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
 import { storeChangeHistory } from "@/lib/upstash";
 import { createNotification } from "@/server/notifications";
+import { enqueueOutbox, flushOutbox } from "@/lib/outbox";
+import { orderTopic, realTimeEvent } from "@/lib/sse-events";
 
 // Get comments for an order
 export async function getOrderComments(orderId: string) {
@@ -48,7 +50,15 @@ export async function getOrderComments(orderId: string) {
             },
         });
 
-        return { success: true, comments };
+        // Same shape as the comments streamed to the order topic
+        return {
+            success: true,
+            comments: comments.map(({ authorId, author, ...comment }) => ({
+                ...comment,
+                userId: authorId,
+                user: author,
+            })),
+        };
     } catch (error) {
         console.error("Error fetching comments:", error);
         return { success: false, message: "Failed to fetch comments" };
@@ -126,6 +136,37 @@ export async function addOrderComment(
             },
         });
 
+        // Stream it to everyone viewing the order
+        await enqueueOutbox(db, [
+            {
+                kind: "sse",
+                payload: {
+                    target: { topic: orderTopic(orderId) },
+                    event: realTimeEvent("new_comment", {
+                        orderId,
+                        orderNumber: order.orderNumber,
+                        comment: {
+                            id: newComment.id,
+                            orderId,
+                            userId: newComment.authorId,
+                            content: newComment.content,
+                            parentCommentId: newComment.parentCommentId,
+                            isInternal: !!newComment.isInternal,
+                            createdAt: newComment.createdAt.toISOString(),
+                            updatedAt: newComment.updatedAt.toISOString(),
+                            user: {
+                                id: session.user.id,
+                                name: session.user.name,
+                                email: session.user.email,
+                                role: session.user.role ?? null,
+                            },
+                        },
+                    }),
+                },
+            },
+        ]);
+        await flushOutbox();
+
         // Notify relevant users about the new comment
         await notifyUsersAboutComment(
             order,
@@ -285,7 +326,7 @@ async function notifyUsersAboutComment(
 
             if (
                 orderCreator &&
-                (!isInternal || staffRoles.includes(orderCreator.role))
+                (!isInternal || staffRoles.includes(orderCreator.role ?? ""))
             ) {
                 await createNotification(
                     order.createdBy,
@@ -323,7 +364,7 @@ async function notifyUsersAboutComment(
                 // Only notify if not internal or if they're staff
                 if (
                     !isInternal ||
-                    staffRoles.includes(otherComment.author.role)
+                    staffRoles.includes(otherComment.author.role ?? "")
                 ) {
                     await createNotification(
                         otherComment.authorId,
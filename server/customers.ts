@@ -0,0 +1,589 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+    customerAddresses,
+    customerContacts,
+    customers,
+    orders,
+    returnRequests,
+} from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { and, asc, desc, eq, ilike, inArray, ne, or } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+import { findMatchingCustomer, rememberAddress } from "@/lib/customers";
+import {
+    createReportingConverter,
+    reportingCurrency,
+} from "@/lib/exchange-rates";
+import { getCreditExposure } from "@/lib/approval-policies";
+
+export type CustomerData = {
+    name: string;
+    email?: string;
+    phone?: string;
+    notes?: string;
+    // Initial address when creating a customer
+    address?: string;
+};
+
+export type CustomerAddressData = {
+    label?: string;
+    address: string;
+    isDefault?: boolean;
+};
+
+export type CustomerContactData = {
+    name: string;
+    role?: string;
+    email?: string;
+    phone?: string;
+};
+
+// Order statuses whose total counts towards the lifetime value
+const deliveredStatuses = ["completed", "partial_complete"] as const;
+
+// Resolve the session and check a `customer` permission
+async function authorize(
+    permission: "create" | "read" | "update" | "credit_limit"
+) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                customer: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+// Search customers by name, email or phone, with their saved addresses
+export async function searchCustomers(search = "", limit = 20) {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const term = search.trim();
+        const list = await db
+            .select()
+            .from(customers)
+            .where(
+                term
+                    ? or(
+                          ilike(customers.name, `%${term}%`),
+                          ilike(customers.email, `%${term}%`),
+                          ilike(customers.phone, `%${term}%`)
+                      )
+                    : undefined
+            )
+            .orderBy(asc(customers.name))
+            .limit(limit);
+
+        const addresses =
+            list.length > 0
+                ? await db
+                      .select()
+                      .from(customerAddresses)
+                      .where(
+                          inArray(
+                              customerAddresses.customerId,
+                              list.map((c) => c.id)
+                          )
+                      )
+                      .orderBy(desc(customerAddresses.isDefault))
+                : [];
+
+        return {
+            success: true,
+            customers: list.map((customer) => ({
+                ...customer,
+                addresses: addresses.filter(
+                    (a) => a.customerId === customer.id
+                ),
+            })),
+        };
+    } catch (error) {
+        console.error("Error searching customers:", error);
+        return { success: false, message: "Failed to search customers" };
+    }
+}
+
+// Create customer (Sales/Admin role). Refused when a customer with the same
+// email, or the same name and phone, already exists.
+export async function createCustomer(data: CustomerData) {
+    try {
+        const result = await authorize("create");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (!data.name.trim()) {
+            return { success: false, message: "Customer name is required" };
+        }
+
+        const existing = await findMatchingCustomer(db, data);
+        if (existing) {
+            return {
+                success: false,
+                message: `${existing.name} already exists as a customer`,
+                existingCustomerId: existing.id,
+            };
+        }
+
+        const customer = await db.transaction(async (tx) => {
+            const [created] = await tx
+                .insert(customers)
+                .values({
+                    name: data.name.trim(),
+                    email: data.email?.trim() || null,
+                    phone: data.phone?.trim() || null,
+                    notes: data.notes || null,
+                    createdBy: result.session.user.id,
+                })
+                .onConflictDoNothing()
+                .returning();
+            if (!created) return null;
+
+            await rememberAddress(tx, created.id, data.address);
+            return created;
+        });
+
+        // Created by someone else since the check above
+        if (!customer) {
+            const duplicate = await findMatchingCustomer(db, data);
+            return {
+                success: false,
+                message: `${duplicate?.name ?? data.name.trim()} already exists as a customer`,
+                existingCustomerId: duplicate?.id,
+            };
+        }
+
+        await storeChangeHistory({
+            entityType: "customer",
+            entityId: customer.id,
+            action: "customer_created",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        return {
+            success: true,
+            message: "Customer created successfully",
+            customer,
+        };
+    } catch (error) {
+        console.error("Error creating customer:", error);
+        return { success: false, message: "Failed to create customer" };
+    }
+}
+
+// Update customer details. The name, email and phone are copied to the
+// customer's orders so a correction shows everywhere; order addresses are
+// delivery addresses and stay as they were.
+export async function updateCustomer(customerId: string, data: CustomerData) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (!data.name.trim()) {
+            return { success: false, message: "Customer name is required" };
+        }
+
+        const duplicate = await findMatchingCustomer(db, data);
+        if (duplicate && duplicate.id !== customerId) {
+            return {
+                success: false,
+                message: `${duplicate.name} already exists as a customer`,
+            };
+        }
+
+        const [before] = await db
+            .select()
+            .from(customers)
+            .where(eq(customers.id, customerId));
+        if (!before) {
+            return { success: false, message: "Customer not found" };
+        }
+
+        const details = {
+            name: data.name.trim(),
+            email: data.email?.trim() || null,
+            phone: data.phone?.trim() || null,
+        };
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(customers)
+                .set({
+                    ...details,
+                    notes: data.notes || null,
+                    updatedAt: new Date(),
+                })
+                .where(eq(customers.id, customerId));
+
+            await tx
+                .update(orders)
+                .set({
+                    customerName: details.name,
+                    customerEmail: details.email,
+                    customerPhone: details.phone,
+                })
+                .where(eq(orders.customerId, customerId));
+        });
+
+        await storeChangeHistory({
+            entityType: "customer",
+            entityId: customerId,
+            action: "customer_updated",
+            changes: {
+                before: {
+                    name: before.name,
+                    email: before.email,
+                    phone: before.phone,
+                    notes: before.notes,
+                },
+                after: { ...details, notes: data.notes || null },
+            },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath(`/customers/${customerId}`);
+        return { success: true, message: "Customer updated successfully" };
+    } catch (error) {
+        console.error("Error updating customer:", error);
+        return { success: false, message: "Failed to update customer" };
+    }
+}
+
+// Set or clear the credit limit checked by the credit_limit approval policy
+// (Accountant/Admin role). The limit is in the reporting currency.
+export async function setCustomerCreditLimit(
+    customerId: string,
+    creditLimit: number | null
+) {
+    try {
+        const result = await authorize("credit_limit");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (creditLimit !== null && !(creditLimit >= 0)) {
+            return {
+                success: false,
+                message: "Credit limit must be 0 or more",
+            };
+        }
+
+        const [before] = await db
+            .select({ creditLimit: customers.creditLimit })
+            .from(customers)
+            .where(eq(customers.id, customerId));
+        if (!before) {
+            return { success: false, message: "Customer not found" };
+        }
+
+        const value = creditLimit === null ? null : creditLimit.toFixed(2);
+        await db
+            .update(customers)
+            .set({ creditLimit: value, updatedAt: new Date() })
+            .where(eq(customers.id, customerId));
+
+        await storeChangeHistory({
+            entityType: "customer",
+            entityId: customerId,
+            action: "customer_credit_limit_set",
+            changes: { before: before.creditLimit, after: value },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath(`/customers/${customerId}`);
+        return {
+            success: true,
+            message:
+                value === null
+                    ? "Credit limit removed"
+                    : "Credit limit updated",
+        };
+    } catch (error) {
+        console.error("Error setting credit limit:", error);
+        return { success: false, message: "Failed to set credit limit" };
+    }
+}
+
+// Add an address to a customer
+export async function addCustomerAddress(
+    customerId: string,
+    data: CustomerAddressData
+) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (!data.address.trim()) {
+            return { success: false, message: "Address is required" };
+        }
+
+        await db.transaction(async (tx) => {
+            // Only one default address per customer
+            if (data.isDefault) {
+                await tx
+                    .update(customerAddresses)
+                    .set({ isDefault: false })
+                    .where(eq(customerAddresses.customerId, customerId));
+            }
+
+            await tx.insert(customerAddresses).values({
+                customerId,
+                label: data.label || null,
+                address: data.address.trim(),
+                isDefault: data.isDefault ?? false,
+            });
+        });
+
+        revalidatePath(`/customers/${customerId}`);
+        return { success: true, message: "Address added successfully" };
+    } catch (error) {
+        console.error("Error adding customer address:", error);
+        return { success: false, message: "Failed to add address" };
+    }
+}
+
+// Make an address the default one of its customer
+export async function setDefaultCustomerAddress(addressId: string) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [address] = await db
+            .select()
+            .from(customerAddresses)
+            .where(eq(customerAddresses.id, addressId));
+        if (!address) {
+            return { success: false, message: "Address not found" };
+        }
+
+        await db.transaction(async (tx) => {
+            await tx
+                .update(customerAddresses)
+                .set({ isDefault: false })
+                .where(
+                    and(
+                        eq(customerAddresses.customerId, address.customerId),
+                        ne(customerAddresses.id, addressId)
+                    )
+                );
+            await tx
+                .update(customerAddresses)
+                .set({ isDefault: true })
+                .where(eq(customerAddresses.id, addressId));
+        });
+
+        revalidatePath(`/customers/${address.customerId}`);
+        return { success: true, message: "Default address updated" };
+    } catch (error) {
+        console.error("Error setting default address:", error);
+        return { success: false, message: "Failed to update address" };
+    }
+}
+
+export async function deleteCustomerAddress(addressId: string) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [address] = await db
+            .delete(customerAddresses)
+            .where(eq(customerAddresses.id, addressId))
+            .returning();
+        if (!address) {
+            return { success: false, message: "Address not found" };
+        }
+
+        revalidatePath(`/customers/${address.customerId}`);
+        return { success: true, message: "Address removed successfully" };
+    } catch (error) {
+        console.error("Error deleting customer address:", error);
+        return { success: false, message: "Failed to remove address" };
+    }
+}
+
+// Add a contact person to a customer
+export async function addCustomerContact(
+    customerId: string,
+    data: CustomerContactData
+) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (!data.name.trim()) {
+            return { success: false, message: "Contact name is required" };
+        }
+
+        await db.insert(customerContacts).values({
+            customerId,
+            name: data.name.trim(),
+            role: data.role || null,
+            email: data.email || null,
+            phone: data.phone || null,
+        });
+
+        revalidatePath(`/customers/${customerId}`);
+        return { success: true, message: "Contact added successfully" };
+    } catch (error) {
+        console.error("Error adding customer contact:", error);
+        return { success: false, message: "Failed to add contact" };
+    }
+}
+
+export async function deleteCustomerContact(contactId: string) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [contact] = await db
+            .delete(customerContacts)
+            .where(eq(customerContacts.id, contactId))
+            .returning();
+        if (!contact) {
+            return { success: false, message: "Contact not found" };
+        }
+
+        revalidatePath(`/customers/${contact.customerId}`);
+        return { success: true, message: "Contact removed successfully" };
+    } catch (error) {
+        console.error("Error deleting customer contact:", error);
+        return { success: false, message: "Failed to remove contact" };
+    }
+}
+
+// Get a customer with addresses, contacts, orders and lifetime value. The
+// lifetime value is the total of delivered orders less refunds paid out, in
+// the reporting currency.
+export async function getCustomerById(customerId: string) {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [customer] = await db
+            .select()
+            .from(customers)
+            .where(eq(customers.id, customerId));
+        if (!customer) {
+            return { success: false, message: "Customer not found" };
+        }
+
+        const addresses = await db
+            .select()
+            .from(customerAddresses)
+            .where(eq(customerAddresses.customerId, customerId))
+            .orderBy(
+                desc(customerAddresses.isDefault),
+                asc(customerAddresses.createdAt)
+            );
+
+        const contacts = await db
+            .select()
+            .from(customerContacts)
+            .where(eq(customerContacts.customerId, customerId))
+            .orderBy(asc(customerContacts.name));
+
+        const customerOrders = await db
+            .select({
+                id: orders.id,
+                orderNumber: orders.orderNumber,
+                status: orders.status,
+                total: orders.total,
+                currency: orders.currency,
+                exchangeRate: orders.exchangeRate,
+                exchangeRateCurrency: orders.exchangeRateCurrency,
+                createdAt: orders.createdAt,
+            })
+            .from(orders)
+            .where(eq(orders.customerId, customerId))
+            .orderBy(desc(orders.createdAt));
+
+        const refunds = await db
+            .select({
+                refundAmount: returnRequests.refundAmount,
+                currency: orders.currency,
+                exchangeRate: orders.exchangeRate,
+                exchangeRateCurrency: orders.exchangeRateCurrency,
+            })
+            .from(returnRequests)
+            .innerJoin(orders, eq(returnRequests.orderId, orders.id))
+            .where(
+                and(
+                    eq(orders.customerId, customerId),
+                    eq(returnRequests.status, "received")
+                )
+            );
+
+        const toReporting = await createReportingConverter(
+            db,
+            customerOrders.map((o) => o.currency)
+        );
+        const delivered = customerOrders
+            .filter((o) =>
+                (deliveredStatuses as readonly string[]).includes(o.status)
+            )
+            .reduce((sum, o) => sum + (toReporting(o, o.total) ?? 0), 0);
+        const refunded = refunds.reduce(
+            (sum, r) => sum + (toReporting(r, r.refundAmount ?? "0") ?? 0),
+            0
+        );
+
+        return {
+            success: true,
+            customer: {
+                ...customer,
+                addresses,
+                contacts,
+                orders: customerOrders,
+                lifetimeValue: (delivered - refunded).toFixed(2),
+                creditExposure: (
+                    await getCreditExposure(db, customerId)
+                ).toFixed(2),
+                reportingCurrency: reportingCurrency(),
+            },
+        };
+    } catch (error) {
+        console.error("Error fetching customer:", error);
+        return { success: false, message: "Failed to fetch customer" };
+    }
+}
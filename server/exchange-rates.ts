@@ -0,0 +1,177 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { exchangeRates } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { asc, desc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+import { isCurrencyCode } from "@/lib/currency";
+import { reportingCurrency } from "@/lib/exchange-rates";
+
+export type ExchangeRateData = {
+    fromCurrency: string;
+    toCurrency: string;
+    rate: number;
+    effectiveDate: string; // YYYY-MM-DD
+};
+
+// Resolve the session and check an `exchange_rate` permission
+async function authorize(permission: "read" | "manage") {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                exchange_rate: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+// All rates, newest first, and the currency reports are converted into
+export async function listExchangeRates() {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const rates = await db
+            .select()
+            .from(exchangeRates)
+            .orderBy(
+                asc(exchangeRates.fromCurrency),
+                asc(exchangeRates.toCurrency),
+                desc(exchangeRates.effectiveDate)
+            );
+
+        return {
+            success: true,
+            exchangeRates: rates,
+            reportingCurrency: reportingCurrency(),
+        };
+    } catch (error) {
+        console.error("Error fetching exchange rates:", error);
+        return { success: false, message: "Failed to fetch exchange rates" };
+    }
+}
+
+// Add a rate (Accountant/Admin role). A rate for the same pair and date is
+// replaced; orders that were already approved keep their snapshot.
+export async function setExchangeRate(data: ExchangeRateData) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const fromCurrency = data.fromCurrency.trim().toUpperCase();
+        const toCurrency = data.toCurrency.trim().toUpperCase();
+        if (!isCurrencyCode(fromCurrency) || !isCurrencyCode(toCurrency)) {
+            return {
+                success: false,
+                message: "Currencies must be 3-letter ISO codes",
+            };
+        }
+        if (fromCurrency === toCurrency) {
+            return {
+                success: false,
+                message: "Pick two different currencies",
+            };
+        }
+        if (!(data.rate > 0)) {
+            return { success: false, message: "Rate must be greater than 0" };
+        }
+        if (!/^\d{4}-\d{2}-\d{2}$/.test(data.effectiveDate)) {
+            return { success: false, message: "Effective date is required" };
+        }
+
+        await db
+            .insert(exchangeRates)
+            .values({
+                fromCurrency,
+                toCurrency,
+                rate: data.rate.toFixed(8),
+                effectiveDate: data.effectiveDate,
+                createdBy: result.session.user.id,
+            })
+            .onConflictDoUpdate({
+                target: [
+                    exchangeRates.fromCurrency,
+                    exchangeRates.toCurrency,
+                    exchangeRates.effectiveDate,
+                ],
+                set: {
+                    rate: data.rate.toFixed(8),
+                    createdBy: result.session.user.id,
+                    createdAt: new Date(),
+                },
+            });
+
+        await storeChangeHistory({
+            entityType: "exchange_rate",
+            entityId: `${fromCurrency}-${toCurrency}`,
+            action: "exchange_rate_set",
+            changes: { ...data, fromCurrency, toCurrency },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/exchange-rates");
+        return { success: true, message: "Exchange rate saved" };
+    } catch (error) {
+        console.error("Error saving exchange rate:", error);
+        return { success: false, message: "Failed to save exchange rate" };
+    }
+}
+
+export async function deleteExchangeRate(exchangeRateId: string) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [rate] = await db
+            .delete(exchangeRates)
+            .where(eq(exchangeRates.id, exchangeRateId))
+            .returning();
+
+        if (!rate) {
+            return { success: false, message: "Exchange rate not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "exchange_rate",
+            entityId: `${rate.fromCurrency}-${rate.toCurrency}`,
+            action: "exchange_rate_deleted",
+            changes: {
+                rate: rate.rate,
+                effectiveDate: rate.effectiveDate,
+            },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/exchange-rates");
+        return { success: true, message: "Exchange rate deleted" };
+    } catch (error) {
+        console.error("Error deleting exchange rate:", error);
+        return { success: false, message: "Failed to delete exchange rate" };
+    }
+}
@@ -0,0 +1,224 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { products, stockLevels, stockLocations } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { and, asc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+import { getStockShortages } from "@/lib/inventory";
+
+export type StockLevelData = {
+    productId: string;
+    locationId: string;
+    quantityOnHand: number;
+    reorderPoint: number;
+};
+
+// Resolve the session and check an `inventory` permission
+async function authorize(permission: "read" | "adjust") {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                inventory: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+// Get all locations and the stock of every product at each of them
+export async function getInventory() {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const locations = await db
+            .select()
+            .from(stockLocations)
+            .orderBy(asc(stockLocations.code));
+
+        const levels = await db
+            .select({
+                id: stockLevels.id,
+                productId: stockLevels.productId,
+                locationId: stockLevels.locationId,
+                sku: products.sku,
+                name: products.name,
+                locationCode: stockLocations.code,
+                quantityOnHand: stockLevels.quantityOnHand,
+                quantityReserved: stockLevels.quantityReserved,
+                reorderPoint: stockLevels.reorderPoint,
+                updatedAt: stockLevels.updatedAt,
+            })
+            .from(stockLevels)
+            .innerJoin(products, eq(stockLevels.productId, products.id))
+            .innerJoin(stockLocations, eq(stockLevels.locationId, stockLocations.id))
+            .orderBy(asc(products.sku), asc(stockLocations.code));
+
+        return {
+            success: true,
+            locations,
+            levels: levels.map((level) => {
+                const available = level.quantityOnHand - level.quantityReserved;
+                return {
+                    ...level,
+                    available,
+                    isLow: available <= level.reorderPoint,
+                };
+            }),
+        };
+    } catch (error) {
+        console.error("Error fetching inventory:", error);
+        return { success: false, message: "Failed to fetch inventory" };
+    }
+}
+
+// Create a warehouse location (Warehouse/Admin role)
+export async function createStockLocation(data: { code: string; name: string }) {
+    try {
+        const result = await authorize("adjust");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const code = data.code.trim().toUpperCase();
+        if (!code || !data.name.trim()) {
+            return { success: false, message: "Code and name are required" };
+        }
+
+        const [existing] = await db
+            .select({ id: stockLocations.id })
+            .from(stockLocations)
+            .where(eq(stockLocations.code, code));
+        if (existing) {
+            return {
+                success: false,
+                message: `A location with code ${code} already exists`,
+            };
+        }
+
+        const [location] = await db
+            .insert(stockLocations)
+            .values({ code, name: data.name.trim() })
+            .returning();
+
+        await storeChangeHistory({
+            entityType: "inventory",
+            entityId: location.id,
+            action: "location_created",
+            changes: { code, name: location.name },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/inventory");
+        return { success: true, message: "Location created successfully", location };
+    } catch (error) {
+        console.error("Error creating stock location:", error);
+        return { success: false, message: "Failed to create location" };
+    }
+}
+
+// Set the counted stock and reorder point of a product at a location
+// (Warehouse/Admin role). Reservations are left untouched.
+export async function setStockLevel(data: StockLevelData) {
+    try {
+        const result = await authorize("adjust");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        if (
+            !Number.isInteger(data.quantityOnHand) ||
+            data.quantityOnHand < 0 ||
+            !Number.isInteger(data.reorderPoint) ||
+            data.reorderPoint < 0
+        ) {
+            return {
+                success: false,
+                message: "Quantities must be whole numbers of zero or more",
+            };
+        }
+
+        const [previous] = await db
+            .select()
+            .from(stockLevels)
+            .where(
+                and(
+                    eq(stockLevels.productId, data.productId),
+                    eq(stockLevels.locationId, data.locationId)
+                )
+            );
+
+        const [level] = await db
+            .insert(stockLevels)
+            .values({
+                productId: data.productId,
+                locationId: data.locationId,
+                quantityOnHand: data.quantityOnHand,
+                reorderPoint: data.reorderPoint,
+            })
+            .onConflictDoUpdate({
+                target: [stockLevels.productId, stockLevels.locationId],
+                set: {
+                    quantityOnHand: data.quantityOnHand,
+                    reorderPoint: data.reorderPoint,
+                    updatedAt: new Date(),
+                },
+            })
+            .returning();
+
+        await storeChangeHistory({
+            entityType: "inventory",
+            entityId: level.id,
+            action: "stock_adjusted",
+            changes: {
+                ...data,
+                previousQuantityOnHand: previous?.quantityOnHand ?? null,
+            },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/inventory");
+        return { success: true, message: "Stock updated successfully", level };
+    } catch (error) {
+        console.error("Error updating stock level:", error);
+        return { success: false, message: "Failed to update stock" };
+    }
+}
+
+// Items of an order that current stock can't cover, checked before the
+// warehouse confirms it
+export async function getOrderStockShortages(orderId: string) {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const shortages = await getStockShortages(db, orderId);
+        return { success: true, shortages };
+    } catch (error) {
+        console.error("Error checking order stock:", error);
+        return { success: false, message: "Failed to check stock" };
+    }
+}
@@ -0,0 +1,105 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { orders } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { flushOutbox } from "@/lib/outbox";
+import {
+    getOrderInvoices,
+    invoiceableOrderStatuses,
+    issueOrderInvoice,
+} from "@/lib/invoices";
+
+// Resolve the session and check an `invoice` permission
+async function authorize(permission: "read" | "issue") {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                invoice: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+// Invoices and credit notes of an order
+export async function listOrderInvoices(orderId: string) {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invoices = await getOrderInvoices(db, orderId);
+        return { success: true, invoices };
+    } catch (error) {
+        console.error("Error fetching invoices:", error);
+        return { success: false, message: "Failed to fetch invoices" };
+    }
+}
+
+// Invoice shipped goods that haven't been billed yet, e.g. on orders completed
+// before invoicing was introduced (Accountant/Admin role)
+export async function issueInvoice(orderId: string) {
+    try {
+        const result = await authorize("issue");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [order] = await db
+            .select()
+            .from(orders)
+            .where(eq(orders.id, orderId));
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+        if (!invoiceableOrderStatuses.includes(order.status)) {
+            return {
+                success: false,
+                message: "Only completed orders can be invoiced",
+            };
+        }
+
+        const invoice = await db.transaction((tx) =>
+            issueOrderInvoice(tx, order, {
+                id: result.session.user.id,
+                role: result.session.user.role,
+            })
+        );
+        if (!invoice) {
+            return {
+                success: false,
+                message: "Everything shipped on this order is already invoiced",
+            };
+        }
+
+        await flushOutbox();
+
+        revalidatePath(`/order/${orderId}`);
+        return {
+            success: true,
+            message: `Invoice ${invoice.invoiceNumber} issued`,
+        };
+    } catch (error) {
+        console.error("Error issuing invoice:", error);
+        return { success: false, message: "Failed to issue invoice" };
+    }
+}
@@ -0,0 +1,323 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { orders } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { and, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import {
+    enqueueOutbox,
+    flushOutbox,
+    notificationMessage,
+    type OutboxMessage,
+} from "@/lib/outbox";
+import { orderTopics, realTimeEvent } from "@/lib/sse-events";
+import {
+    OrderConflictError,
+    orderConflictMessage,
+    terminalStatuses,
+    type Order,
+} from "@/lib/order-workflow";
+import { queueRole } from "@/lib/order-sla";
+import { settleShippedOrder } from "@/lib/carrier-tracking";
+import { recordOrderHistory } from "@/lib/order-history";
+
+// Resolve the session and check the `hold` order permission
+async function authorize() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                order: ["hold"],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+async function loadOrder(orderId: string) {
+    const [order] = await db.select().from(orders).where(eq(orders.id, orderId));
+    return order;
+}
+
+// Tell the creator and the assignee, and refresh the lists of the role the
+// order waits on
+function holdMessages(
+    order: Order,
+    actorId: string,
+    title: string,
+    message: string
+): OutboxMessage[] {
+    const recipients = new Set(
+        [order.createdBy, order.assignedTo].filter(
+            (id): id is string => !!id && id !== actorId
+        )
+    );
+    const messages: OutboxMessage[] = [...recipients].map((userId) =>
+        notificationMessage(userId, title, message, order.id)
+    );
+
+    const event = realTimeEvent("order_updated", {
+        id: order.id,
+        orderNumber: order.orderNumber,
+    });
+    if (order.createdBy) {
+        messages.push({
+            kind: "sse",
+            payload: { target: { userId: order.createdBy }, event },
+        });
+    }
+    const role = queueRole(order.status);
+    if (role) {
+        messages.push({ kind: "sse", payload: { target: { role }, event } });
+    }
+    for (const topic of orderTopics(order)) {
+        messages.push({ kind: "sse", payload: { target: { topic }, event } });
+    }
+
+    return messages;
+}
+
+// Put an order on hold. It keeps its status, but no transition runs and its
+// SLA clock stops until the hold is released.
+export async function holdOrder(
+    orderId: string,
+    reason: string,
+    expectedVersion?: number
+) {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        const { session } = authorized;
+
+        if (!reason?.trim()) {
+            return { success: false, message: "A reason is required" };
+        }
+
+        const order = await loadOrder(orderId);
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+        if (expectedVersion !== undefined && expectedVersion !== order.version) {
+            return { success: false, conflict: true, message: orderConflictMessage };
+        }
+        if (order.heldAt) {
+            return { success: false, message: "Order is already on hold" };
+        }
+        if (terminalStatuses.includes(order.status)) {
+            return {
+                success: false,
+                message: `Cannot hold order with status: ${order.status}`,
+            };
+        }
+
+        const heldAt = new Date();
+
+        await db.transaction(async (tx) => {
+            const updated = await tx
+                .update(orders)
+                .set({
+                    heldAt,
+                    heldBy: session.user.id,
+                    holdReason: reason.trim(),
+                    version: order.version + 1,
+                    updatedBy: session.user.id,
+                    updatedAt: heldAt,
+                })
+                .where(
+                    and(
+                        eq(orders.id, order.id),
+                        eq(orders.version, order.version)
+                    )
+                )
+                .returning({ id: orders.id });
+
+            if (updated.length === 0) {
+                throw new OrderConflictError();
+            }
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: "hold_placed",
+                fromStatus: order.status,
+                toStatus: order.status,
+                performedBy: session.user.id,
+                reason: reason.trim(),
+                notes: `Put on hold while ${order.status}`,
+            });
+
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "order",
+                        entityId: order.id,
+                        action: "order_held",
+                        changes: {
+                            heldAt: heldAt.toISOString(),
+                            holdReason: reason.trim(),
+                        },
+                        performedBy: session.user.id,
+                        metadata: {
+                            userRole: session.user.role,
+                            orderNumber: order.orderNumber,
+                        },
+                    },
+                },
+                ...holdMessages(
+                    order,
+                    session.user.id,
+                    "Order On Hold",
+                    `Order ${order.orderNumber} was put on hold: ${reason.trim()}`
+                ),
+            ]);
+        });
+
+        await flushOutbox();
+        revalidatePath("/order");
+        revalidatePath(`/order/${order.id}`);
+
+        return { success: true, message: "Order put on hold" };
+    } catch (error) {
+        if (error instanceof OrderConflictError) {
+            return { success: false, conflict: true, message: error.message };
+        }
+        console.error("Error holding order:", error);
+        return { success: false, message: "Failed to put order on hold" };
+    }
+}
+
+// Release a hold. The order carries on from the status it was held in, with
+// its due date pushed back by the time it was held.
+export async function releaseOrder(
+    orderId: string,
+    notes?: string,
+    expectedVersion?: number
+) {
+    try {
+        const authorized = await authorize();
+        if ("error" in authorized) {
+            return { success: false, message: authorized.error };
+        }
+        const { session } = authorized;
+
+        const order = await loadOrder(orderId);
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+        if (expectedVersion !== undefined && expectedVersion !== order.version) {
+            return { success: false, conflict: true, message: orderConflictMessage };
+        }
+        const heldAt = order.heldAt;
+        if (!heldAt) {
+            return { success: false, message: "Order is not on hold" };
+        }
+
+        const now = new Date();
+        const heldFor = now.getTime() - heldAt.getTime();
+        const dueAt = order.dueAt
+            ? new Date(order.dueAt.getTime() + heldFor)
+            : null;
+
+        await db.transaction(async (tx) => {
+            const updated = await tx
+                .update(orders)
+                .set({
+                    heldAt: null,
+                    heldBy: null,
+                    holdReason: null,
+                    dueAt,
+                    version: order.version + 1,
+                    updatedBy: session.user.id,
+                    updatedAt: now,
+                })
+                .where(
+                    and(
+                        eq(orders.id, order.id),
+                        eq(orders.version, order.version)
+                    )
+                )
+                .returning({ id: orders.id });
+
+            if (updated.length === 0) {
+                throw new OrderConflictError();
+            }
+
+            await recordOrderHistory(tx, {
+                orderId: order.id,
+                action: "hold_released",
+                fromStatus: order.status,
+                toStatus: order.status,
+                performedBy: session.user.id,
+                reason: order.holdReason,
+                notes: notes?.trim() || null,
+            });
+
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "order",
+                        entityId: order.id,
+                        action: "order_released",
+                        changes: {
+                            heldAt: heldAt.toISOString(),
+                            releasedAt: now.toISOString(),
+                            dueAt: dueAt?.toISOString() ?? null,
+                        },
+                        performedBy: session.user.id,
+                        metadata: {
+                            userRole: session.user.role,
+                            orderNumber: order.orderNumber,
+                        },
+                    },
+                },
+                ...holdMessages(
+                    order,
+                    session.user.id,
+                    "Order Released",
+                    `Order ${order.orderNumber} is no longer on hold and continues as ${order.status}`
+                ),
+            ]);
+        });
+
+        await flushOutbox();
+
+        // A carrier may have delivered or failed the parcels in the meantime.
+        // The release is committed, so a failure here doesn't fail it.
+        if (order.status === "shipped") {
+            try {
+                await settleShippedOrder(order.id);
+            } catch (error) {
+                console.error(`Error settling released order ${order.id}:`, error);
+            }
+        }
+
+        revalidatePath("/order");
+        revalidatePath(`/order/${order.id}`);
+
+        return { success: true, message: "Hold released" };
+    } catch (error) {
+        if (error instanceof OrderConflictError) {
+            return { success: false, conflict: true, message: error.message };
+        }
+        console.error("Error releasing order:", error);
+        return { success: false, message: "Failed to release hold" };
+    }
+}
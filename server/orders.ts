@@ -1,48 +1,300 @@
 "use server";
 
-import { db } from "@/db/drizzle";
+import { db, type DbExecutor, type Transaction } from "@/db/drizzle";
 import {
     orders,
     orderItems,
     orderHistory,
-    notifications,
+    products,
+    customers,
+    taxRates,
 } from "@/db/order-schema";
 import { auth } from "@/lib/auth";
 import { headers } from "next/headers";
-import { eq, and, desc } from "drizzle-orm";
+import { eq, and, desc, inArray, isNull } from "drizzle-orm";
 import { revalidatePath } from "next/cache";
-import { storeChangeHistory } from "@/lib/upstash";
-import { createNotification } from "@/server/notifications";
-import { sendToUser, sendToRole, broadcast } from "@/app/api/sse/route";
+import { enqueueOutbox, flushOutbox, notificationMessage } from "@/lib/outbox";
+import { customerTopic, realTimeEvent } from "@/lib/sse-events";
+import {
+    orderTransitions,
+    applyOrderTransition,
+    orderConflictMessage,
+    OrderConflictError,
+    resolveRecipients,
+    type Order,
+    type OrderEvent,
+    type OrderStatus,
+    type TransitionDefinition,
+    type TransitionPayload,
+} from "@/lib/order-workflow";
+import { diffOrderFields } from "@/lib/order-changes";
+import { completionEvent, type ShipmentLine } from "@/lib/fulfilment";
+import { countLowStock } from "@/lib/inventory";
+import { getCarrier, trackingUrl } from "@/lib/carriers";
+import { assignForStatus } from "@/lib/order-assignment";
+import { isOverdue, slaDueAt, slaStatusesFor } from "@/lib/order-sla";
+import { findOrCreateCustomer, rememberAddress } from "@/lib/customers";
+import { defaultCurrency, isCurrencyCode } from "@/lib/currency";
+import { createReportingConverter, reportingCurrency } from "@/lib/exchange-rates";
+import {
+    approvalEvent,
+    approvalRequirement,
+    CreditLimitError,
+    evaluateApprovalPolicies,
+    getOrderApprovals,
+    reapplyApprovalPolicies,
+    remainingApprovalRoles,
+} from "@/lib/approval-policies";
+import {
+    calculateOrderTotals,
+    resolveTaxRate,
+    validateDiscount,
+    type Discount,
+    type DiscountType,
+} from "@/lib/pricing";
+import { recordOrderHistory } from "@/lib/order-history";
 
 // Type definitions
-export type OrderStatus =
-    | "pending"
-    | "approved"
-    | "edit_requested"
-    | "rejected"
-    | "warehouse_confirmed"
-    | "warehouse_rejected"
-    | "shipped"
-    | "completed"
-    | "partial_complete"
-    | "failed"
-    | "cancelled";
+export type { OrderStatus, OrderEvent } from "@/lib/order-workflow";
 
 export type CreateOrderData = {
+    // Picked customer; when omitted the customer is matched or created from
+    // the details below
+    customerId?: string;
     customerName: string;
     customerEmail?: string;
     customerPhone?: string;
     customerAddress?: string;
+    currency?: string; // ISO 4217 code, defaults to USD
+    // Order-level discount, applied after the line discounts
+    discountType?: DiscountType;
+    discountValue?: number;
+    shippingCharge?: number;
+    taxRegion?: string;
     items: {
+        // Catalog product, omitted for free-text items
+        productId?: string;
         name: string;
         description?: string;
         sku?: string;
         price: number;
         quantity: number;
+        discountType?: DiscountType;
+        discountValue?: number;
     }[];
 };
 
+function toDiscount(
+    type: DiscountType | undefined,
+    value: number | undefined
+): Discount | null {
+    return type && value ? { type, value } : null;
+}
+
+// Work out discounts, tax and shipping. Tax rates are looked up from the
+// product category and the order's tax region.
+async function priceOrder(executor: DbExecutor, data: CreateOrderData) {
+    if (data.currency && !isCurrencyCode(data.currency)) {
+        return { error: "Currency must be a 3-letter ISO code" };
+    }
+
+    const invalid =
+        validateDiscount(toDiscount(data.discountType, data.discountValue)) ??
+        data.items
+            .map((item) =>
+                validateDiscount(
+                    toDiscount(item.discountType, item.discountValue)
+                )
+            )
+            .find(Boolean);
+    if (invalid) {
+        return { error: invalid };
+    }
+    if (!((data.shippingCharge ?? 0) >= 0)) {
+        return { error: "Shipping charge must be zero or more" };
+    }
+
+    const rules = (
+        await executor
+            .select()
+            .from(taxRates)
+            .where(eq(taxRates.isActive, true))
+    ).map((rule) => ({ ...rule, rate: parseFloat(rule.rate) }));
+
+    const productIds = data.items.flatMap((item) =>
+        item.productId ? [item.productId] : []
+    );
+    const categories =
+        productIds.length > 0
+            ? await executor
+                  .select({ id: products.id, category: products.category })
+                  .from(products)
+                  .where(inArray(products.id, productIds))
+            : [];
+
+    const lines = data.items.map((item) => ({
+        price: item.price,
+        quantity: item.quantity,
+        discount: toDiscount(item.discountType, item.discountValue),
+        taxRate: resolveTaxRate(
+            rules,
+            categories.find((p) => p.id === item.productId)?.category,
+            data.taxRegion || null
+        ),
+    }));
+
+    return {
+        lines,
+        totals: calculateOrderTotals({
+            lines,
+            discount: toDiscount(data.discountType, data.discountValue),
+            shippingCharge: data.shippingCharge,
+        }),
+    };
+}
+
+type PricedOrder = Exclude<Awaited<ReturnType<typeof priceOrder>>, { error: string }>;
+
+// Price breakdown columns of the order
+function orderPriceValues(data: CreateOrderData, priced: PricedOrder) {
+    const { totals } = priced;
+    return {
+        currency: data.currency || defaultCurrency,
+        subtotal: totals.subtotal.toFixed(2),
+        discountType: data.discountValue ? data.discountType ?? null : null,
+        discountValue: data.discountValue ? data.discountValue.toFixed(2) : null,
+        discountTotal: totals.discountTotal.toFixed(2),
+        taxRegion: data.taxRegion || null,
+        taxTotal: totals.taxTotal.toFixed(2),
+        shippingCharge: totals.shippingCharge.toFixed(2),
+        total: totals.total.toFixed(2),
+    };
+}
+
+// Order item rows with their discount and tax
+function orderItemValues(
+    orderId: string,
+    data: CreateOrderData,
+    priced: PricedOrder
+) {
+    return data.items.map((item, index) => ({
+        orderId,
+        productId: item.productId ?? null,
+        name: item.name,
+        description: item.description,
+        sku: item.sku,
+        price: item.price.toString(),
+        quantity: item.quantity,
+        discountType: item.discountValue ? item.discountType ?? null : null,
+        discountValue: item.discountValue ? item.discountValue.toFixed(2) : null,
+        discountAmount: priced.totals.lines[index].discountAmount.toFixed(2),
+        taxRate: priced.lines[index].taxRate.toFixed(2),
+        taxAmount: priced.totals.lines[index].taxAmount.toFixed(2),
+    }));
+}
+
+// Fill catalog items from the products table so name, SKU and price can't be
+// typed freely. Lines already on the order keep the price they were created
+// with. Free-text items need the `order:custom_item` permission.
+async function resolveOrderItems(
+    userId: string,
+    items: CreateOrderData["items"],
+    existingItems: (typeof orderItems.$inferSelect)[] = []
+): Promise<{ items: CreateOrderData["items"] } | { error: string }> {
+    if (items.some((item) => !item.productId)) {
+        const { success: canAddCustomItems } =
+            await auth.api.userHasPermission({
+                body: {
+                    userId,
+                    permissions: {
+                        order: ["custom_item"],
+                    },
+                },
+            });
+
+        if (!canAddCustomItems) {
+            return { error: "Pick every item from the product catalog" };
+        }
+    }
+
+    const productIds = items.flatMap((item) =>
+        item.productId ? [item.productId] : []
+    );
+    const catalog =
+        productIds.length > 0
+            ? await db
+                  .select()
+                  .from(products)
+                  .where(inArray(products.id, productIds))
+            : [];
+
+    const resolved: CreateOrderData["items"] = [];
+    for (const item of items) {
+        if (!item.productId) {
+            resolved.push(item);
+            continue;
+        }
+
+        const product = catalog.find((p) => p.id === item.productId);
+        const existing = existingItems.find(
+            (line) => line.productId === item.productId
+        );
+        if (!product || (!product.isActive && !existing)) {
+            return { error: `Product ${item.sku || item.name} is not available` };
+        }
+
+        resolved.push({
+            productId: product.id,
+            name: product.name,
+            description: product.description ?? undefined,
+            sku: product.sku,
+            price: parseFloat(existing ? existing.price : product.listPrice),
+            quantity: item.quantity,
+            discountType: item.discountType,
+            discountValue: item.discountValue,
+        });
+    }
+
+    return { items: resolved };
+}
+
+// Link the order to its customer: the picked one, or one matched or created
+// from the typed details. New delivery addresses are saved on the customer.
+async function resolveCustomer(
+    tx: Transaction,
+    data: CreateOrderData,
+    userId: string
+) {
+    const details = {
+        name: data.customerName,
+        email: data.customerEmail,
+        phone: data.customerPhone,
+        address: data.customerAddress,
+    };
+
+    if (!data.customerId) {
+        return (await findOrCreateCustomer(tx, details, userId)).id;
+    }
+
+    const [customer] = await tx
+        .select({ id: customers.id })
+        .from(customers)
+        .where(eq(customers.id, data.customerId));
+    if (!customer) {
+        throw new CustomerNotFoundError();
+    }
+
+    await rememberAddress(tx, customer.id, data.customerAddress);
+    return customer.id;
+}
+
+class CustomerNotFoundError extends Error {
+    constructor() {
+        super("Customer not found");
+        this.name = "CustomerNotFoundError";
+    }
+}
+
 // Generate unique order number
 function generateOrderNumber(): string {
     const timestamp = Date.now();
@@ -52,6 +304,7 @@ function generateOrderNumber(): string {
 
 // Create order history entry
 async function createOrderHistory(
+    executor: DbExecutor,
     orderId: string,
     action: string,
     performedBy: string,
@@ -61,7 +314,7 @@ async function createOrderHistory(
     notes?: string,
     fieldChanges?: Record<string, any>
 ) {
-    await db.insert(orderHistory).values({
+    await recordOrderHistory(executor, {
         orderId,
         action,
         fromStatus,
@@ -73,6 +326,101 @@ async function createOrderHistory(
     });
 }
 
+// Whether the current user may add items that are not in the catalog
+export async function canAddCustomItems() {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) return false;
+
+    const { success } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                order: ["custom_item"],
+            },
+        },
+    });
+
+    return success;
+}
+
+// Price breakdown for the order form, computed the same way as on save.
+// Pass the order being edited so its lines keep their prices.
+export async function quoteOrder(data: CreateOrderData, orderId?: string) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        const currentItems = orderId
+            ? await db
+                  .select()
+                  .from(orderItems)
+                  .where(eq(orderItems.orderId, orderId))
+            : [];
+        const resolved = await resolveOrderItems(
+            session.user.id,
+            data.items,
+            currentItems
+        );
+        if ("error" in resolved) {
+            return { success: false, message: resolved.error };
+        }
+        data = { ...data, items: resolved.items };
+
+        const priced = await priceOrder(db, data);
+        if ("error" in priced) {
+            return { success: false, message: priced.error };
+        }
+
+        return { success: true, totals: priced.totals };
+    } catch (error) {
+        console.error("Error quoting order:", error);
+        return { success: false, message: "Failed to calculate order totals" };
+    }
+}
+
+// Assign a new order in the accountant queue; returns the notifications for
+// its assignee, or every accountant
+async function queueForApproval(tx: Transaction, order: Order) {
+    const assignedTo = await assignForStatus(tx, order, "pending");
+    const accountants = await resolveRecipients(
+        tx,
+        { ...order, assignedTo },
+        { role: "accountant" }
+    );
+    return accountants.map((accountantId) =>
+        notificationMessage(
+            accountantId,
+            "New Order Pending Approval",
+            `Order ${order.orderNumber} from ${order.customerName} is pending your approval.`,
+            order.id
+        )
+    );
+}
+
+// Fallback when an approval policy's decision can't be applied: the order
+// waits in the accountant queue like any other
+async function queueForManualApproval(order: Order) {
+    try {
+        await db.transaction(async (tx) => {
+            await enqueueOutbox(tx, await queueForApproval(tx, order));
+        });
+        await flushOutbox();
+    } catch (error) {
+        console.error(
+            `Failed to queue order ${order.orderNumber} for approval:`,
+            error
+        );
+    }
+}
+
 // Create new order (Sales role)
 export async function createOrder(data: CreateOrderData) {
     try {
@@ -98,170 +446,190 @@ export async function createOrder(data: CreateOrderData) {
             return { success: false, message: "Insufficient permissions" };
         }
 
-        // Calculate total
-        const total = data.items.reduce(
-            (sum, item) => sum + item.price * item.quantity,
-            0
-        );
-
-        // Create order
-        const [newOrder] = await db
-            .insert(orders)
-            .values({
-                orderNumber: generateOrderNumber(),
-                customerName: data.customerName,
-                customerEmail: data.customerEmail,
-                customerPhone: data.customerPhone,
-                customerAddress: data.customerAddress,
-                total: total.toString(),
-                status: "pending",
-                createdBy: session.user.id,
-                updatedBy: session.user.id,
-            })
-            .returning();
-
-        // Create order items
-        await db.insert(orderItems).values(
-            data.items.map((item) => ({
-                orderId: newOrder.id,
-                name: item.name,
-                description: item.description,
-                sku: item.sku,
-                price: item.price.toString(),
-                quantity: item.quantity,
-            }))
-        );
+        const resolved = await resolveOrderItems(session.user.id, data.items);
+        if ("error" in resolved) {
+            return { success: false, message: resolved.error };
+        }
+        data = { ...data, items: resolved.items };
 
-        // Create history entry
-        await createOrderHistory(
-            newOrder.id,
-            "order_created",
-            session.user.id,
-            undefined,
-            "pending",
-            undefined,
-            "Order created by sales team"
-        );
+        const priced = await priceOrder(db, data);
+        if ("error" in priced) {
+            return { success: false, message: priced.error };
+        }
+        const { total } = priced.totals;
+        const actor = { id: session.user.id, role: session.user.role };
+
+        const { created: newOrder, decision } = await db.transaction(async (tx) => {
+            const customerId = await resolveCustomer(
+                tx,
+                data,
+                session.user.id
+            );
 
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: newOrder.id,
-            action: "order_created",
-            changes: {
-                orderNumber: newOrder.orderNumber,
-                customerName: data.customerName,
-                total: total,
-                status: "pending",
-                items: data.items,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                itemCount: data.items.length,
-            },
-        });
+            const decision = await evaluateApprovalPolicies(tx, {
+                customerId,
+                currency: data.currency || defaultCurrency,
+                total,
+            });
 
-        // Notify creator (sales) that order was created (visible in their NotificationCenter)
-        try {
-            const [creatorNotification] = await db
-                .insert(notifications)
+            // Create order
+            const [created] = await tx
+                .insert(orders)
                 .values({
-                    userId: session.user.id,
-                    title: "Order Created",
-                    message: `Order ${newOrder.orderNumber} has been created and is pending approval`,
-                    type: "order_status",
-                    orderId: newOrder.id,
+                    orderNumber: generateOrderNumber(),
+                    customerId,
+                    customerName: data.customerName,
+                    customerEmail: data.customerEmail,
+                    customerPhone: data.customerPhone,
+                    customerAddress: data.customerAddress,
+                    ...orderPriceValues(data, priced),
+                    status: "pending",
+                    dueAt: slaDueAt("pending"),
+                    ...approvalRequirement(decision),
+                    createdBy: session.user.id,
+                    updatedBy: session.user.id,
                 })
                 .returning();
 
-            await sendToUser(session.user.id, {
-                type: "new_notification",
-                data: {
-                    id: creatorNotification.id,
-                    userId: creatorNotification.userId,
-                    title: creatorNotification.title,
-                    message: creatorNotification.message,
-                    type: creatorNotification.type,
-                    orderId: creatorNotification.orderId,
-                    isRead: !!creatorNotification.isRead,
-                    createdAt: creatorNotification.createdAt,
-                },
-                timestamp: new Date().toISOString(),
-            });
-        } catch (e) {
-            console.warn("Failed to notify creator about order creation", e);
-        }
+            // Create order items
+            await tx
+                .insert(orderItems)
+                .values(orderItemValues(created.id, data, priced));
+
+            // Create history entry
+            await createOrderHistory(
+                tx,
+                created.id,
+                "order_created",
+                session.user.id,
+                undefined,
+                "pending",
+                undefined,
+                "Order created by sales team"
+            );
 
-        // Notify accountants about new order and send real-time events with proper IDs
-        const accountants = await db.query.user.findMany({
-            where: (user, { eq }) => eq(user.role, "accountant"),
-        });
+            if (decision.outcome === "manual" && decision.reason) {
+                await createOrderHistory(
+                    tx,
+                    created.id,
+                    "approval_rule_applied",
+                    session.user.id,
+                    undefined,
+                    undefined,
+                    decision.reason,
+                    `Order needs ${decision.requiredApprovals} approvers${
+                        decision.approvalRoles
+                            ? `: ${decision.approvalRoles.join(", ")}`
+                            : ""
+                    }`
+                );
+            }
 
-        // Create notifications in bulk and return inserted rows (guard empty)
-        let insertedNotifications: any[] = [];
-        if (accountants.length > 0) {
-            insertedNotifications = await db
-                .insert(notifications)
-                .values(
-                    accountants.map((accountant) => ({
-                        userId: accountant.id,
-                        title: "New Order Pending Approval",
-                        message: `Order ${newOrder.orderNumber} from ${data.customerName} is pending your approval.`,
-                        type: "order_status" as const,
-                        orderId: newOrder.id,
-                    }))
-                )
-                .returning();
-        }
+            // Orders decided by a policy don't wait in the accountant queue
+            const queueMessages =
+                decision.outcome === "manual"
+                    ? await queueForApproval(tx, created)
+                    : [];
 
-        // Send real-time update for order creation (role-based)
-        try {
-            await sendToRole("accountant", {
-                type: "order_created",
-                data: {
-                    id: newOrder.id,
-                    orderNumber: newOrder.orderNumber,
-                    customerName: data.customerName,
-                    total: total,
-                    status: "pending",
-                    createdBy: session.user.id,
-                },
-                timestamp: new Date().toISOString(),
+            const createdEvent = realTimeEvent("order_created", {
+                id: created.id,
+                orderNumber: created.orderNumber,
+                customerName: data.customerName,
+                total: total,
+                currency: data.currency || defaultCurrency,
+                status: "pending",
+                createdBy: session.user.id,
             });
-
-            // Send real-time notification events with IDs to each accountant
-            for (const n of insertedNotifications) {
-                await sendToUser(n.userId, {
-                    type: "new_notification",
-                    data: {
-                        id: n.id,
-                        userId: n.userId,
-                        title: n.title,
-                        message: n.message,
-                        type: n.type,
-                        orderId: n.orderId,
-                        isRead: !!n.isRead,
-                        createdAt: n.createdAt,
+            const topics = customerId
+                ? [{ topic: customerTopic(customerId) }]
+                : [];
+
+            // Change history, notifications and real-time events are
+            // delivered from the outbox once the order is committed
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "order",
+                        entityId: created.id,
+                        action: "order_created",
+                        changes: {
+                            orderNumber: created.orderNumber,
+                            customerName: data.customerName,
+                            currency: data.currency || defaultCurrency,
+                            subtotal: priced.totals.subtotal,
+                            discountTotal: priced.totals.discountTotal,
+                            taxTotal: priced.totals.taxTotal,
+                            shippingCharge: priced.totals.shippingCharge,
+                            total: total,
+                            status: "pending",
+                            items: data.items,
+                        },
+                        performedBy: session.user.id,
+                        metadata: {
+                            userRole: session.user.role,
+                            itemCount: data.items.length,
+                        },
                     },
-                    timestamp: new Date().toISOString(),
-                });
+                },
+                // Notify creator (sales) that order was created (visible in their NotificationCenter)
+                notificationMessage(
+                    session.user.id,
+                    "Order Created",
+                    `Order ${created.orderNumber} has been created and is pending approval`,
+                    created.id
+                ),
+                ...queueMessages,
+                ...[{ role: "accountant" }, ...topics].map((target) => ({
+                    kind: "sse" as const,
+                    payload: { target, event: createdEvent },
+                })),
+            ]);
+
+            return { created, decision };
+        });
+
+        await flushOutbox();
+
+        // Automatic decisions go through the workflow once the order exists,
+        // a failure leaves the order pending for manual review
+        let message = "Order created successfully";
+        if (decision.outcome !== "manual") {
+            const result = await applyOrderTransition(
+                newOrder,
+                decision.outcome === "approve" ? "auto_approve" : "auto_reject",
+                { reason: decision.reason },
+                actor
+            ).catch((error) => ({
+                success: false,
+                message: String(error),
+            }));
+            if (result.success) {
+                message =
+                    decision.outcome === "approve"
+                        ? "Order created and approved automatically"
+                        : `Order created but rejected. ${decision.reason}`;
+            } else {
+                console.error(
+                    `Automatic ${decision.outcome} of order ${newOrder.orderNumber} failed:`,
+                    result.message
+                );
+                await queueForManualApproval(newOrder);
+                message = "Order created and pending approval";
             }
-        } catch (error) {
-            console.error(
-                "Failed to send real-time update for order creation:",
-                error
-            );
         }
 
         revalidatePath("/dashboard");
         return {
             success: true,
-            message: "Order created successfully",
+            message,
             orderId: newOrder.id,
             orderNumber: newOrder.orderNumber,
         };
     } catch (error) {
+        if (error instanceof CustomerNotFoundError) {
+            return { success: false, message: error.message };
+        }
         console.error("Error creating order:", error);
         return { success: false, message: "Failed to create order" };
     }
@@ -288,23 +656,32 @@ export async function getOrdersForUser() {
                     where: eq(orders.createdBy, session.user.id),
                     with: {
                         orderItems: true,
+                        assignedToUser: {
+                            columns: { id: true, name: true },
+                        },
                     },
                     orderBy: desc(orders.createdAt),
                 });
                 break;
 
             case "accountant":
-                // Accountants can see pending orders and orders they've processed
+                // Accountants can see pending orders, orders they've processed
+                // and warehouse rejections they can send back
                 ordersList = await db.query.orders.findMany({
                     where: (orders, { inArray }) =>
                         inArray(orders.status, [
                             "pending",
+                            "partially_approved",
                             "approved",
                             "edit_requested",
                             "rejected",
+                            "warehouse_rejected",
                         ]),
                     with: {
                         orderItems: true,
+                        assignedToUser: {
+                            columns: { id: true, name: true },
+                        },
                     },
                     orderBy: desc(orders.createdAt),
                 });
@@ -321,6 +698,9 @@ export async function getOrdersForUser() {
                         ]),
                     with: {
                         orderItems: true,
+                        assignedToUser: {
+                            columns: { id: true, name: true },
+                        },
                     },
                     orderBy: desc(orders.createdAt),
                 });
@@ -339,6 +719,9 @@ export async function getOrdersForUser() {
                         ]),
                     with: {
                         orderItems: true,
+                        assignedToUser: {
+                            columns: { id: true, name: true },
+                        },
                     },
                     orderBy: desc(orders.createdAt),
                 });
@@ -349,6 +732,9 @@ export async function getOrdersForUser() {
                 ordersList = await db.query.orders.findMany({
                     with: {
                         orderItems: true,
+                        assignedToUser: {
+                            columns: { id: true, name: true },
+                        },
                     },
                     orderBy: desc(orders.createdAt),
                 });
@@ -361,567 +747,25 @@ export async function getOrdersForUser() {
     }
 }
 
-// Approve order (Accountant role)
-export async function approveOrder(orderId: string) {
-    try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session) {
-            return { success: false, message: "Not authenticated" };
-        }
-
-        // Check permissions
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: {
-                    order: ["approve"],
-                },
-            },
-        });
-
-        if (!hasPermission) {
-            return { success: false, message: "Insufficient permissions" };
-        }
-
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) {
-            return { success: false, message: "Order not found" };
-        }
-
-        if (order.status !== "pending") {
-            return {
-                success: false,
-                message: "Order is not in pending status",
-            };
-        }
-
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "approved",
-                approvedBy: session.user.id,
-                approvedAt: new Date(),
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "pending",
-            "approved",
-            undefined,
-            "Order approved by accountant"
-        );
-
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_approved",
-            changes: {
-                status: { from: "pending", to: "approved" },
-                approvedBy: session.user.id,
-                approvedAt: new Date().toISOString(),
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify warehouse team
-        const warehouseUsers = await db.query.user.findMany({
-            where: (user, { eq }) => eq(user.role, "warehouse"),
-        });
-
-        for (const warehouseUser of warehouseUsers) {
-            await createNotification(
-                warehouseUser.id,
-                "Order Approved - Awaiting Confirmation",
-                `Order ${order.orderNumber} has been approved and is awaiting warehouse confirmation.`,
-                orderId
-            );
-        }
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Approved",
-                `Your order ${order.orderNumber} has been approved by the accountant.`,
-                orderId
-            );
-        }
-
-        // Send real-time update
-        try {
-            await sendToUser(order.createdBy!, {
-                type: "order_status_changed",
-                data: {
-                    orderId,
-                    newStatus: "approved",
-                    orderNumber: order.orderNumber,
-                },
-                timestamp: new Date().toISOString(),
-            });
-
-            // Notify warehouse users about new approved order
-            await sendToRole("warehouse", {
-                type: "order_status_changed",
-                data: {
-                    orderId,
-                    newStatus: "approved",
-                    orderNumber: order.orderNumber,
-                },
-                timestamp: new Date().toISOString(),
-            });
-        } catch (error) {
-            console.error("Failed to send real-time update:", error);
-        }
-
-        revalidatePath("/dashboard");
-        return { success: true, message: "Order approved successfully" };
-    } catch (error) {
-        console.error("Error approving order:", error);
-        return { success: false, message: "Failed to approve order" };
-    }
-}
-
-// Reject order (Accountant role)
-export async function rejectOrder(orderId: string, reason: string) {
-    try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session) {
-            return { success: false, message: "Not authenticated" };
-        }
-
-        // Check permissions
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: {
-                    order: ["reject"],
-                },
-            },
-        });
-
-        if (!hasPermission) {
-            return { success: false, message: "Insufficient permissions" };
-        }
-
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) {
-            return { success: false, message: "Order not found" };
-        }
-
-        if (order.status !== "pending") {
-            return {
-                success: false,
-                message: "Order is not in pending status",
-            };
-        }
-
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "rejected",
-                rejectionReason: reason,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "pending",
-            "rejected",
-            reason,
-            "Order rejected by accountant"
-        );
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Rejected",
-                `Your order ${order.orderNumber} has been rejected. Reason: ${reason}`,
-                orderId
-            );
-        }
-
-        revalidatePath("/dashboard");
-        return { success: true, message: "Order rejected successfully" };
-    } catch (error) {
-        console.error("Error rejecting order:", error);
-        return { success: false, message: "Failed to reject order" };
-    }
-}
-
-// Warehouse confirm order (Warehouse role)
-export async function warehouseConfirmOrder(orderId: string) {
-    try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session) {
-            return { success: false, message: "Not authenticated" };
-        }
-
-        // Check permissions
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: {
-                    order: ["confirm"],
-                },
-            },
-        });
-
-        if (!hasPermission) {
-            return { success: false, message: "Insufficient permissions" };
-        }
-
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) {
-            return { success: false, message: "Order not found" };
-        }
-
-        if (order.status !== "approved") {
-            return {
-                success: false,
-                message: "Order must be approved before warehouse confirmation",
-            };
-        }
-
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "warehouse_confirmed",
-                warehouseConfirmedBy: session.user.id,
-                warehouseConfirmedAt: new Date(),
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "approved",
-            "warehouse_confirmed",
-            undefined,
-            "Order confirmed by warehouse"
-        );
-
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "warehouse_confirmed",
-            changes: {
-                status: { from: "approved", to: "warehouse_confirmed" },
-                warehouseConfirmedBy: session.user.id,
-                warehouseConfirmedAt: new Date().toISOString(),
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify shippers about warehouse confirmed order
-        const shippers = await db.query.user.findMany({
-            where: (user, { eq }) => eq(user.role, "shipper"),
-        });
-
-        for (const shipper of shippers) {
-            await createNotification(
-                shipper.id,
-                "Order Ready for Shipping",
-                `Order ${order.orderNumber} has been confirmed by warehouse and is ready for shipping.`,
-                orderId
-            );
-        }
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Warehouse Confirmed",
-                `Your order ${order.orderNumber} has been confirmed by the warehouse.`,
-                orderId
-            );
-        }
-
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order confirmed by warehouse successfully",
-        };
-    } catch (error) {
-        console.error("Error confirming order:", error);
-        return { success: false, message: "Failed to confirm order" };
-    }
-}
-
-// Warehouse reject order (Warehouse role)
-export async function warehouseRejectOrder(orderId: string, reason: string) {
-    try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session) {
-            return { success: false, message: "Not authenticated" };
-        }
-
-        // Check permissions
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: {
-                    order: ["reject"],
-                },
-            },
-        });
-
-        if (!hasPermission) {
-            return { success: false, message: "Insufficient permissions" };
-        }
-
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) {
-            return { success: false, message: "Order not found" };
-        }
-
-        if (order.status !== "approved") {
-            return {
-                success: false,
-                message:
-                    "Order must be approved before warehouse can reject it",
-            };
-        }
-
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "warehouse_rejected",
-                warehouseRejectionReason: reason,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "approved",
-            "warehouse_rejected",
-            reason,
-            "Order rejected by warehouse"
-        );
-
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "warehouse_rejected",
-            changes: {
-                status: { from: "approved", to: "warehouse_rejected" },
-                warehouseRejectionReason: reason,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Rejected by Warehouse",
-                `Your order ${order.orderNumber} has been rejected by warehouse. Reason: ${reason}`,
-                orderId
-            );
-        }
-
-        // Notify accountant
-        if (order.approvedBy) {
-            await createNotification(
-                order.approvedBy,
-                "Order Rejected by Warehouse",
-                `Order ${order.orderNumber} that you approved has been rejected by warehouse. Reason: ${reason}`,
-                orderId
-            );
-        }
-
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order rejected by warehouse successfully",
-        };
-    } catch (error) {
-        console.error("Error rejecting order:", error);
-        return { success: false, message: "Failed to reject order" };
-    }
-}
-
-// Ship order (Shipper role)
-export async function shipOrder(
+// Run an order through a workflow transition defined in lib/order-workflow.ts
+export async function transitionOrder(
     orderId: string,
-    trackingNumber?: string,
-    shippingNotes?: string
+    event: OrderEvent,
+    payload: TransitionPayload = {},
+    expectedVersion?: number
 ) {
-    try {
-        const session = await auth.api.getSession({
-            headers: await headers(),
-        });
-
-        if (!session) {
-            return { success: false, message: "Not authenticated" };
-        }
-
-        // Check permissions
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: {
-                    order: ["ship"],
-                },
-            },
-        });
-
-        if (!hasPermission) {
-            return { success: false, message: "Insufficient permissions" };
-        }
+    let definition: TransitionDefinition | undefined;
 
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) {
-            return { success: false, message: "Order not found" };
+    try {
+        // The event comes from the client, so unknown ones are rejected
+        if (!Object.prototype.hasOwnProperty.call(orderTransitions, event)) {
+            return { success: false, message: "Unknown order transition" };
         }
-
-        if (order.status !== "warehouse_confirmed") {
-            return {
-                success: false,
-                message: "Order must be warehouse confirmed before shipping",
-            };
+        definition = orderTransitions[event];
+        if (definition.automatic) {
+            return { success: false, message: "This transition is automatic" };
         }
 
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "shipped",
-                shippedBy: session.user.id,
-                shippedAt: new Date(),
-                trackingNumber: trackingNumber || null,
-                shippingNotes: shippingNotes || null,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "warehouse_confirmed",
-            "shipped",
-            undefined,
-            `Order shipped by shipper${
-                trackingNumber ? ` with tracking: ${trackingNumber}` : ""
-            }`
-        );
-
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_shipped",
-            changes: {
-                status: { from: "warehouse_confirmed", to: "shipped" },
-                shippedBy: session.user.id,
-                shippedAt: new Date().toISOString(),
-                trackingNumber: trackingNumber || null,
-                shippingNotes: shippingNotes || null,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Shipped",
-                `Your order ${order.orderNumber} has been shipped${
-                    trackingNumber
-                        ? ` with tracking number: ${trackingNumber}`
-                        : ""
-                }.`,
-                orderId
-            );
-        }
-
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order shipped successfully",
-        };
-    } catch (error) {
-        console.error("Error shipping order:", error);
-        return { success: false, message: "Failed to ship order" };
-    }
-}
-
-// Complete order (Shipper role)
-export async function completeOrder(orderId: string, completionNotes?: string) {
-    try {
         const session = await auth.api.getSession({
             headers: await headers(),
         });
@@ -935,7 +779,7 @@ export async function completeOrder(orderId: string, completionNotes?: string) {
             body: {
                 userId: session.user.id,
                 permissions: {
-                    order: ["update"],
+                    order: [definition.permission],
                 },
             },
         });
@@ -953,122 +797,187 @@ export async function completeOrder(orderId: string, completionNotes?: string) {
             return { success: false, message: "Order not found" };
         }
 
-        if (order.status !== "shipped") {
-            return {
-                success: false,
-                message: "Order must be shipped before completion",
-            };
+        // Orders that need several approvers are approved by the last one
+        if (event === "approve") {
+            event = await approvalEvent(db, order);
         }
 
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "completed",
-                completedAt: new Date(),
-                completionNotes: completionNotes || null,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "shipped",
-            "completed",
-            undefined,
-            `Order completed by shipper${
-                completionNotes ? `: ${completionNotes}` : ""
-            }`
+        const result = await applyOrderTransition(
+            order,
+            event,
+            payload,
+            { id: session.user.id, role: session.user.role },
+            expectedVersion
         );
 
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_completed",
-            changes: {
-                status: { from: "shipped", to: "completed" },
-                completedAt: new Date().toISOString(),
-                completionNotes: completionNotes || null,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Completed",
-                `Your order ${
-                    order.orderNumber
-                } has been completed successfully${
-                    completionNotes ? `. Notes: ${completionNotes}` : ""
-                }.`,
-                orderId
-            );
+        if (result.success) {
+            revalidatePath("/dashboard");
         }
+        return result;
+    } catch (error) {
+        console.error(`Error running order transition ${event}:`, error);
+        return {
+            success: false,
+            message: definition?.failureMessage ?? "Failed to update order",
+        };
+    }
+}
 
-        // Notify admins about completion (bulk insert + SSE)
-        try {
-            const admins = await db.query.user.findMany({
-                where: (user, { eq }) => eq(user.role, "admin"),
-            });
+// Approve order (Accountant role)
+export async function approveOrder(orderId: string, expectedVersion?: number) {
+    return transitionOrder(orderId, "approve", {}, expectedVersion);
+}
 
-            if (admins.length > 0) {
-                const adminNotifs = await db
-                    .insert(notifications)
-                    .values(
-                        admins.map((admin) => ({
-                            userId: admin.id,
-                            title: "Order Completed",
-                            message: `Order ${order.orderNumber} has been marked as completed`,
-                            type: "order_status" as const,
-                            orderId,
-                        }))
-                    )
-                    .returning();
+// Reject order (Accountant role)
+export async function rejectOrder(
+    orderId: string,
+    reason: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(orderId, "reject", { reason }, expectedVersion);
+}
 
-                for (const n of adminNotifs) {
-                    await sendToUser(n.userId, {
-                        type: "new_notification",
-                        data: {
-                            id: n.id,
-                            userId: n.userId,
-                            title: n.title,
-                            message: n.message,
-                            type: n.type,
-                            orderId: n.orderId,
-                            isRead: !!n.isRead,
-                            createdAt: n.createdAt,
-                        },
-                        timestamp: new Date().toISOString(),
-                    });
-                }
-            }
-        } catch (e) {
-            console.warn("Failed to notify admins about completion", e);
-        }
+// Send order back to sales for changes (Accountant role)
+export async function requestOrderEdit(
+    orderId: string,
+    reason: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "request_edit",
+        { reason },
+        expectedVersion
+    );
+}
 
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order completed successfully",
-        };
+// Warehouse confirm order (Warehouse role). Refused when stock doesn't cover
+// the order unless the warehouse accepts the shortage.
+export async function warehouseConfirmOrder(
+    orderId: string,
+    expectedVersion?: number,
+    allowShortage = false
+) {
+    return transitionOrder(
+        orderId,
+        "warehouse_confirm",
+        { allowShortage },
+        expectedVersion
+    );
+}
+
+// Warehouse reject order (Warehouse role)
+export async function warehouseRejectOrder(
+    orderId: string,
+    reason: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "warehouse_reject",
+        { reason },
+        expectedVersion
+    );
+}
+
+// Send a warehouse-rejected order back for confirmation once the problem is
+// fixed (Accountant role)
+export async function returnOrderToWarehouse(
+    orderId: string,
+    notes: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "return_to_warehouse",
+        { notes },
+        expectedVersion
+    );
+}
+
+// Ship order (Shipper role)
+export async function shipOrder(
+    orderId: string,
+    trackingNumber?: string,
+    shippingNotes?: string,
+    items?: ShipmentLine[],
+    carrier?: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "ship",
+        { trackingNumber, notes: shippingNotes, items, carrier },
+        expectedVersion
+    );
+}
+
+// Complete order (Shipper role). Orders with items still to ship become
+// partial_complete instead.
+export async function completeOrder(
+    orderId: string,
+    completionNotes?: string,
+    expectedVersion?: number
+) {
+    let event: OrderEvent;
+    try {
+        event = await completionEvent(orderId);
     } catch (error) {
-        console.error("Error completing order:", error);
+        console.error("Error checking order completion:", error);
         return { success: false, message: "Failed to complete order" };
     }
+
+    return transitionOrder(
+        orderId,
+        event,
+        { notes: completionNotes },
+        expectedVersion
+    );
 }
 
 // Mark order as failed (Shipper role)
-export async function failOrder(orderId: string, reason: string) {
+export async function failOrder(
+    orderId: string,
+    reason: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(orderId, "fail", { reason }, expectedVersion);
+}
+
+// Resend the undelivered parcels of a failed order (Shipper role)
+export async function reshipOrder(
+    orderId: string,
+    trackingNumber: string,
+    shippingNotes?: string,
+    carrier?: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "reship",
+        { trackingNumber, notes: shippingNotes, carrier },
+        expectedVersion
+    );
+}
+
+// Cancel order (Sales/Accountant/Admin role)
+export async function cancelOrder(
+    orderId: string,
+    reason?: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(orderId, "cancel", { reason }, expectedVersion);
+}
+
+// Statuses in which the creator may still change order details
+const editableStatuses: OrderStatus[] = ["pending", "edit_requested", "rejected"];
+
+// Update customer details and items of an order (Sales role, creator only)
+export async function updateOrder(
+    orderId: string,
+    data: CreateOrderData,
+    expectedVersion?: number
+) {
     try {
         const session = await auth.api.getSession({
             headers: await headers(),
@@ -1092,347 +1001,227 @@ export async function failOrder(orderId: string, reason: string) {
             return { success: false, message: "Insufficient permissions" };
         }
 
-        // Get current order
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
+        const order = await db.query.orders.findFirst({
+            where: eq(orders.id, orderId),
+            with: {
+                orderItems: true,
+            },
+        });
+
         if (!order) {
             return { success: false, message: "Order not found" };
         }
 
-        if (order.status !== "shipped") {
+        if (order.createdBy !== session.user.id) {
             return {
                 success: false,
-                message: "Order must be shipped before marking as failed",
+                message: "Only the order creator can edit this order",
             };
         }
 
-        // Update order status
-        await db
-            .update(orders)
-            .set({
-                status: "failed",
-                completionNotes: reason,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        // Create history entry
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            "shipped",
-            "failed",
-            reason,
-            "Order marked as failed by shipper"
-        );
-
-        // Store change history in Upstash
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_failed",
-            changes: {
-                status: { from: "shipped", to: "failed" },
-                completionNotes: reason,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify order creator
-        if (order.createdBy) {
-            await createNotification(
-                order.createdBy,
-                "Order Failed",
-                `Your order ${order.orderNumber} has failed during delivery. Reason: ${reason}`,
-                orderId
-            );
+        if (!editableStatuses.includes(order.status)) {
+            return {
+                success: false,
+                message:
+                    "Order can only be edited while pending, awaiting edits or rejected",
+            };
         }
 
-        // Notify warehouse
-        if (order.warehouseConfirmedBy) {
-            await createNotification(
-                order.warehouseConfirmedBy,
-                "Order Delivery Failed",
-                `Order ${order.orderNumber} that you confirmed has failed during delivery. Reason: ${reason}`,
-                orderId
-            );
+        // Held orders keep their place in the workflow until released
+        if (order.heldAt) {
+            return {
+                success: false,
+                message: `Order is on hold (${order.holdReason}). Release the hold first.`,
+            };
         }
 
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order marked as failed successfully",
-        };
-    } catch (error) {
-        console.error("Error marking order as failed:", error);
-        return { success: false, message: "Failed to mark order as failed" };
-    }
-}
-
-// Partial complete order (Shipper role)
-export async function partialCompleteOrder(orderId: string, notes?: string) {
-    try {
-        const session = await auth.api.getSession({ headers: await headers() });
-        if (!session) return { success: false, message: "Not authenticated" };
-
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: { order: ["update"] },
-            },
-        });
-        if (!hasPermission)
-            return { success: false, message: "Insufficient permissions" };
-
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) return { success: false, message: "Order not found" };
-
-        if (order.status !== "shipped") {
+        if (expectedVersion !== undefined && expectedVersion !== order.version) {
             return {
                 success: false,
-                message:
-                    "Order must be shipped before marking as partial complete",
+                conflict: true,
+                message: orderConflictMessage,
             };
         }
 
-        await db
-            .update(orders)
-            .set({
-                status: "partial_complete",
-                completionNotes: notes || null,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        await createOrderHistory(
-            orderId,
-            "status_changed",
+        const currentItems = await db
+            .select()
+            .from(orderItems)
+            .where(eq(orderItems.orderId, orderId));
+        const resolved = await resolveOrderItems(
             session.user.id,
-            "shipped",
-            "partial_complete",
-            notes,
-            `Order partially completed by shipper${notes ? `: ${notes}` : ""}`
+            data.items,
+            currentItems
         );
-
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_partial_completed",
-            changes: {
-                status: { from: "shipped", to: "partial_complete" },
-                completionNotes: notes || null,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
-
-        // Notify order creator
-        if (order.createdBy) {
-            await db.insert(notifications).values({
-                userId: order.createdBy,
-                title: "Order Partially Completed",
-                message: `Your order ${
-                    order.orderNumber
-                } has been partially completed${
-                    notes ? `. Notes: ${notes}` : ""
-                }.`,
-                type: "order_status",
-                orderId,
-            });
+        if ("error" in resolved) {
+            return { success: false, message: resolved.error };
         }
+        data = { ...data, items: resolved.items };
 
-        // Notify admins
-        try {
-            const admins = await db.query.user.findMany({
-                where: (user, { eq }) => eq(user.role, "admin"),
-            });
-            if (admins.length > 0) {
-                const adminNotifs = await db
-                    .insert(notifications)
-                    .values(
-                        admins.map((admin) => ({
-                            userId: admin.id,
-                            title: "Order Partially Completed",
-                            message: `Order ${order.orderNumber} has been marked as partially completed`,
-                            type: "order_status" as const,
-                            orderId,
-                        }))
-                    )
-                    .returning();
-
-                for (const n of adminNotifs) {
-                    await sendToUser(n.userId, {
-                        type: "new_notification",
-                        data: {
-                            id: n.id,
-                            userId: n.userId,
-                            title: n.title,
-                            message: n.message,
-                            type: n.type,
-                            orderId: n.orderId,
-                            isRead: !!n.isRead,
-                            createdAt: n.createdAt,
-                        },
-                        timestamp: new Date().toISOString(),
-                    });
-                }
-            }
-        } catch (e) {
-            console.warn("Failed to notify admins about partial completion", e);
+        // Recalculate discounts, tax and total
+        const priced = await priceOrder(db, data);
+        if ("error" in priced) {
+            return { success: false, message: priced.error };
         }
 
-        revalidatePath("/dashboard");
-        return {
-            success: true,
-            message: "Order marked as partially completed",
-        };
-    } catch (error) {
-        console.error("Error marking order as partially completed:", error);
-        return {
-            success: false,
-            message: "Failed to mark order as partially completed",
-        };
-    }
-}
-
-// Cancel order (Admin/Accountant role)
-export async function cancelOrder(orderId: string, reason?: string) {
-    try {
-        const session = await auth.api.getSession({ headers: await headers() });
-        if (!session) return { success: false, message: "Not authenticated" };
-
-        const { success: hasPermission } = await auth.api.userHasPermission({
-            body: {
-                userId: session.user.id,
-                permissions: { order: ["update"] },
+        const fieldChanges = diffOrderFields(
+            {
+                ...order,
+                subtotal: parseFloat(order.subtotal),
+                discountValue: order.discountValue
+                    ? parseFloat(order.discountValue)
+                    : null,
+                discountTotal: parseFloat(order.discountTotal),
+                taxTotal: parseFloat(order.taxTotal),
+                shippingCharge: parseFloat(order.shippingCharge),
+                total: parseFloat(order.total),
+                items: order.orderItems.map((item) => ({
+                    name: item.name,
+                    description: item.description,
+                    sku: item.sku,
+                    price: parseFloat(item.price),
+                    quantity: item.quantity,
+                    discountType: item.discountType,
+                    discountValue: item.discountValue
+                        ? parseFloat(item.discountValue)
+                        : null,
+                })),
             },
-        });
-        if (!hasPermission)
-            return { success: false, message: "Insufficient permissions" };
-
-        const [order] = await db
-            .select()
-            .from(orders)
-            .where(eq(orders.id, orderId));
-        if (!order) return { success: false, message: "Order not found" };
-
-        if (["completed", "failed", "cancelled"].includes(order.status)) {
-            return {
-                success: false,
-                message: `Cannot cancel an order in status '${order.status}'`,
-            };
-        }
-
-        await db
-            .update(orders)
-            .set({
-                status: "cancelled",
-                cancellationReason: reason || null,
-                updatedBy: session.user.id,
-            })
-            .where(eq(orders.id, orderId));
-
-        await createOrderHistory(
-            orderId,
-            "status_changed",
-            session.user.id,
-            order.status,
-            "cancelled",
-            reason,
-            `Order cancelled${reason ? `: ${reason}` : ""}`
+            {
+                ...data,
+                currency: data.currency || defaultCurrency,
+                ...priced.totals,
+            }
         );
 
-        await storeChangeHistory({
-            entityType: "order",
-            entityId: orderId,
-            action: "order_cancelled",
-            changes: {
-                status: { from: order.status, to: "cancelled" },
-                reason: reason || null,
-            },
-            performedBy: session.user.id,
-            metadata: {
-                userRole: session.user.role,
-                orderNumber: order.orderNumber,
-            },
-        });
+        const customerChanged =
+            !!data.customerId && data.customerId !== order.customerId;
 
-        // Notify order creator
-        if (order.createdBy) {
-            await db.insert(notifications).values({
-                userId: order.createdBy,
-                title: "Order Cancelled",
-                message: `Your order ${order.orderNumber} has been cancelled${
-                    reason ? `. Reason: ${reason}` : ""
-                }.`,
-                type: "order_status",
-                orderId,
-            });
+        if (Object.keys(fieldChanges).length === 0 && !customerChanged) {
+            return { success: true, message: "No changes to save" };
         }
 
-        // Notify admins
         try {
-            const admins = await db.query.user.findMany({
-                where: (user, { eq }) => eq(user.role, "admin"),
-            });
-            if (admins.length > 0) {
-                const adminNotifs = await db
-                    .insert(notifications)
-                    .values(
-                        admins.map((admin) => ({
-                            userId: admin.id,
-                            title: "Order Cancelled",
-                            message: `Order ${
-                                order.orderNumber
-                            } has been cancelled${reason ? `: ${reason}` : ""}`,
-                            type: "order_status" as const,
-                            orderId,
-                        }))
+            await db.transaction(async (tx) => {
+                const customerId = await resolveCustomer(
+                    tx,
+                    data,
+                    session.user.id
+                );
+
+                const updated = await tx
+                    .update(orders)
+                    .set({
+                        customerId,
+                        customerName: data.customerName,
+                        customerEmail: data.customerEmail || null,
+                        customerPhone: data.customerPhone || null,
+                        customerAddress: data.customerAddress || null,
+                        ...orderPriceValues(data, priced),
+                        version: order.version + 1,
+                        updatedBy: session.user.id,
+                        updatedAt: new Date(),
+                    })
+                    .where(
+                        and(
+                            eq(orders.id, orderId),
+                            eq(orders.version, order.version),
+                            isNull(orders.heldAt)
+                        )
                     )
                     .returning();
 
-                for (const n of adminNotifs) {
-                    await sendToUser(n.userId, {
-                        type: "new_notification",
-                        data: {
-                            id: n.id,
-                            userId: n.userId,
-                            title: n.title,
-                            message: n.message,
-                            type: n.type,
-                            orderId: n.orderId,
-                            isRead: !!n.isRead,
-                            createdAt: n.createdAt,
-                        },
-                        timestamp: new Date().toISOString(),
-                    });
+                if (updated.length === 0) {
+                    throw new OrderConflictError();
                 }
+
+                // Replace order items
+                await tx
+                    .delete(orderItems)
+                    .where(eq(orderItems.orderId, orderId));
+                await tx
+                    .insert(orderItems)
+                    .values(orderItemValues(orderId, data, priced));
+
+                // The new total or customer may need other approvers or
+                // break a credit limit
+                await reapplyApprovalPolicies(
+                    tx,
+                    updated[0],
+                    session.user.id
+                );
+
+                // Create history entry
+                await recordOrderHistory(tx, {
+                    orderId,
+                    action: "field_updated",
+                    performedBy: session.user.id,
+                    notes: "Order details updated by sales",
+                    fieldChanges: JSON.stringify(fieldChanges),
+                });
+
+                await enqueueOutbox(tx, [
+                    {
+                        kind: "change_history",
+                        payload: {
+                            entityType: "order",
+                            entityId: orderId,
+                            action: "order_updated",
+                            changes: fieldChanges,
+                            performedBy: session.user.id,
+                            metadata: {
+                                userRole: session.user.role,
+                                orderNumber: order.orderNumber,
+                            },
+                        },
+                    },
+                ]);
+            });
+        } catch (error) {
+            if (error instanceof OrderConflictError) {
+                return { success: false, conflict: true, message: error.message };
             }
-        } catch (e) {
-            console.warn("Failed to notify admins about cancellation", e);
+            if (
+                error instanceof CustomerNotFoundError ||
+                error instanceof CreditLimitError
+            ) {
+                return { success: false, message: error.message };
+            }
+            throw error;
         }
 
+        await flushOutbox();
+
         revalidatePath("/dashboard");
-        return { success: true, message: "Order cancelled successfully" };
+        return { success: true, message: "Order updated successfully" };
     } catch (error) {
-        console.error("Error cancelling order:", error);
-        return { success: false, message: "Failed to cancel order" };
+        console.error("Error updating order:", error);
+        return { success: false, message: "Failed to update order" };
     }
 }
 
+// Send an edited order back to the accountant (Sales role, creator only)
+export async function resubmitOrder(
+    orderId: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(orderId, "resubmit", {}, expectedVersion);
+}
+
+// Send a revised rejected order through approval again (Sales role, creator
+// only)
+export async function resubmitRejectedOrder(
+    orderId: string,
+    notes?: string,
+    expectedVersion?: number
+) {
+    return transitionOrder(
+        orderId,
+        "resubmit_rejected",
+        { notes },
+        expectedVersion
+    );
+}
+
 // Get dashboard metrics for role-specific dashboards
 export async function getDashboardMetrics() {
     try {
@@ -1454,10 +1243,24 @@ export async function getDashboardMetrics() {
             },
         });
 
-        const totalOrders = allOrders.length;
-        const pendingOrders = allOrders.filter(
-            (o) => o.status === "pending"
+        // Money figures are converted into the reporting currency; orders
+        // without a usable exchange rate are left out of the sums
+        const toReporting = await createReportingConverter(
+            db,
+            allOrders.map((o) => o.currency)
+        );
+        const reportingValue = (order: (typeof allOrders)[number]) =>
+            toReporting(order, order.total) ?? 0;
+        const unconvertedOrders = allOrders.filter(
+            (o) => toReporting(o, o.total) === null
         ).length;
+
+        // Partially approved orders are still waiting for approvers
+        const awaitingApproval = (order: (typeof allOrders)[number]) =>
+            order.status === "pending" || order.status === "partially_approved";
+
+        const totalOrders = allOrders.length;
+        const pendingOrders = allOrders.filter(awaitingApproval).length;
         const approvedOrders = allOrders.filter(
             (o) => o.status === "approved"
         ).length;
@@ -1468,9 +1271,27 @@ export async function getDashboardMetrics() {
             (o) => o.status === "completed"
         ).length;
 
+        // Orders past their SLA in the statuses the role acts on. Sales only
+        // answer for their own orders.
+        const overdueStatuses: string[] = slaStatusesFor(userRole ?? "");
+        const overdueOrders = allOrders.filter(
+            (o) =>
+                overdueStatuses.includes(o.status) &&
+                (userRole !== "sales" || o.createdBy === userId) &&
+                isOverdue(o)
+        ).length;
+
+        // Orders on hold in the same statuses, waiting for someone to release them
+        const heldOrders = allOrders.filter(
+            (o) =>
+                overdueStatuses.includes(o.status) &&
+                (userRole !== "sales" || o.createdBy === userId) &&
+                !!o.heldAt
+        ).length;
+
         const totalRevenue = allOrders
             .filter((o) => o.status === "completed")
-            .reduce((sum, order) => sum + parseFloat(order.total), 0);
+            .reduce((sum, order) => sum + reportingValue(order), 0);
 
         const averageOrderValue =
             completedOrders > 0 ? totalRevenue / completedOrders : 0;
@@ -1479,9 +1300,11 @@ export async function getDashboardMetrics() {
         let roleSpecificMetrics = {};
         let priorityOrders: any[] = [];
 
-        // Common date calculation for monthly metrics
+        // Common date calculations for monthly and daily metrics
         const thisMonth = new Date();
         thisMonth.setDate(1);
+        const today = new Date();
+        today.setHours(0, 0, 0, 0);
 
         switch (userRole) {
             case "sales":
@@ -1495,7 +1318,7 @@ export async function getDashboardMetrics() {
 
                 const monthlyRevenue = monthlyOrders
                     .filter((o) => o.status === "completed")
-                    .reduce((sum, order) => sum + parseFloat(order.total), 0);
+                    .reduce((sum, order) => sum + reportingValue(order), 0);
 
                 const conversionRate =
                     myOrders.length > 0
@@ -1513,14 +1336,11 @@ export async function getDashboardMetrics() {
                 };
 
                 priorityOrders = myOrders
-                    .filter((o) => o.status === "pending")
+                    .filter(awaitingApproval)
                     .slice(0, 5);
                 break;
 
             case "accountant":
-                const today = new Date();
-                today.setHours(0, 0, 0, 0);
-
                 const approvedToday = allOrders.filter(
                     (o) =>
                         o.status === "approved" &&
@@ -1529,8 +1349,8 @@ export async function getDashboardMetrics() {
                 ).length;
 
                 const pendingValue = allOrders
-                    .filter((o) => o.status === "pending")
-                    .reduce((sum, order) => sum + parseFloat(order.total), 0);
+                    .filter(awaitingApproval)
+                    .reduce((sum, order) => sum + reportingValue(order), 0);
 
                 const totalReviewed = allOrders.filter(
                     (o) => o.status === "approved" || o.status === "rejected"
@@ -1548,8 +1368,8 @@ export async function getDashboardMetrics() {
                 };
 
                 priorityOrders = allOrders
-                    .filter((o) => o.status === "pending")
-                    .sort((a, b) => parseFloat(b.total) - parseFloat(a.total))
+                    .filter(awaitingApproval)
+                    .sort((a, b) => reportingValue(b) - reportingValue(a))
                     .slice(0, 5);
                 break;
 
@@ -1565,8 +1385,8 @@ export async function getDashboardMetrics() {
                         new Date(o.warehouseConfirmedAt) >= today
                 ).length;
 
-                // Mock inventory alerts - in real app, this would come from inventory system
-                const inventoryAlerts = 3;
+                // Stock levels at or below their reorder point
+                const inventoryAlerts = await countLowStock(db);
 
                 // Calculate average processing time (mock data)
                 const avgProcessingTime = 2.5;
@@ -1634,9 +1454,12 @@ export async function getDashboardMetrics() {
 
                 priorityOrders = allOrders
                     .filter((o) =>
-                        ["pending", "approved", "warehouse_confirmed"].includes(
-                            o.status
-                        )
+                        [
+                            "pending",
+                            "partially_approved",
+                            "approved",
+                            "warehouse_confirmed",
+                        ].includes(o.status)
                     )
                     .slice(0, 5);
                 break;
@@ -1681,8 +1504,12 @@ export async function getDashboardMetrics() {
                 approvedOrders,
                 rejectedOrders,
                 completedOrders,
+                overdueOrders,
+                heldOrders,
                 totalRevenue: totalRevenue.toFixed(2),
                 averageOrderValue: averageOrderValue.toFixed(2),
+                reportingCurrency: reportingCurrency(),
+                unconvertedOrders,
                 recentActivity: formattedActivity,
                 roleSpecificMetrics,
             },
@@ -1691,12 +1518,17 @@ export async function getDashboardMetrics() {
                 orderNumber: order.orderNumber,
                 customerName: order.customerName,
                 total: order.total,
+                currency: order.currency,
                 status: order.status,
                 createdAt: order.createdAt.toISOString(),
+                dueAt: order.dueAt?.toISOString() ?? null,
+                overdue: isOverdue(order),
+                onHold: !!order.heldAt,
+                holdReason: order.holdReason,
                 urgency:
-                    parseFloat(order.total) > 1000
+                    reportingValue(order) > 1000
                         ? "high"
-                        : parseFloat(order.total) > 500
+                        : reportingValue(order) > 500
                         ? "medium"
                         : "low",
             })),
@@ -1722,6 +1554,18 @@ export async function getOrderById(orderId: string) {
             where: eq(orders.id, orderId),
             with: {
                 orderItems: true,
+                shipments: {
+                    with: {
+                        items: true,
+                        shippedByUser: {
+                            columns: {
+                                id: true,
+                                name: true,
+                            },
+                        },
+                    },
+                    orderBy: (shipments, { asc }) => [asc(shipments.shippedAt)],
+                },
                 createdByUser: {
                     columns: {
                         id: true,
@@ -1738,6 +1582,23 @@ export async function getOrderById(orderId: string) {
                         role: true,
                     },
                 },
+                heldByUser: {
+                    columns: {
+                        id: true,
+                        name: true,
+                    },
+                },
+                approvals: {
+                    orderBy: (approvals, { asc }) => [asc(approvals.createdAt)],
+                    with: {
+                        approvedByUser: {
+                            columns: {
+                                id: true,
+                                name: true,
+                            },
+                        },
+                    },
+                },
             },
         });
 
@@ -1745,7 +1606,29 @@ export async function getOrderById(orderId: string) {
             return { success: false, message: "Order not found" };
         }
 
-        return { success: true, order };
+        return {
+            success: true,
+            order: {
+                ...order,
+                shipments: order.shipments.map((shipment) => ({
+                    ...shipment,
+                    carrierName: getCarrier(shipment.carrier)?.name ?? null,
+                    trackingUrl: trackingUrl(
+                        shipment.carrier,
+                        shipment.trackingNumber
+                    ),
+                })),
+                // Who still has to sign off, null entries are open to any approver
+                pendingApprovalRoles: ["pending", "partially_approved"].includes(
+                    order.status
+                )
+                    ? remainingApprovalRoles(
+                          order,
+                          await getOrderApprovals(db, order.id)
+                      )
+                    : [],
+            },
+        };
     } catch (error) {
         console.error("Error fetching order:", error);
         return { success: false, message: "Failed to fetch order" };
@@ -15,7 +15,21 @@ const statement = {
         "reject",
         "ship",
         "confirm",
+        "cancel",
+        "request_edit",
+        "custom_item", // Add free-text items that are not in the product catalog
+        "assign", // Assign orders to users and set the assignment rules
+        "hold", // Put orders on hold and release them
     ],
+    return: ["create", "read", "approve", "reject", "receive"],
+    product: ["create", "read", "update", "delete"],
+    inventory: ["read", "adjust"],
+    customer: ["create", "read", "update", "credit_limit"],
+    tax: ["read", "manage"], // Tax rates used to price orders
+    exchange_rate: ["read", "manage"], // Currency conversion for reporting
+    approval_policy: ["read", "manage"], // Automatic approval rules
+    invoice: ["read", "issue"], // Invoices and credit notes
+    shipping_document: ["print"], // Packing slips and shipping labels
     comment: ["create", "read", "update", "delete"],
     notification: ["create", "read", "update", "delete"],
 } as const;
@@ -24,28 +38,62 @@ export const ac = createAccessControl(statement);
 
 // Sales role - can create and read orders
 export const sales = ac.newRole({
-    order: ["create", "read", "update"],
+    order: ["create", "read", "update", "cancel", "hold"],
+    return: ["create", "read"],
+    product: ["read"],
+    inventory: ["read"],
+    customer: ["create", "read", "update"],
+    tax: ["read"],
+    exchange_rate: ["read"],
+    invoice: ["read"],
     comment: ["create", "read"],
     notification: ["read"],
 });
 
 // Accountant role - can approve, reject, or request edits
 export const accountant = ac.newRole({
-    order: ["read", "approve", "reject", "update"],
+    order: [
+        "read",
+        "approve",
+        "reject",
+        "update",
+        "cancel",
+        "request_edit",
+        "hold",
+    ],
+    return: ["read", "approve", "reject"],
+    product: ["read"],
+    inventory: ["read"],
+    customer: ["read", "update", "credit_limit"],
+    tax: ["read"],
+    exchange_rate: ["read", "manage"],
+    approval_policy: ["read", "manage"],
+    invoice: ["read", "issue"],
     comment: ["create", "read"],
     notification: ["read"],
 });
 
 // Warehouse role - can confirm inventory and approve for shipping
 export const warehouse = ac.newRole({
-    order: ["read", "confirm", "approve", "reject"],
+    order: ["read", "confirm", "approve", "reject", "hold"],
+    return: ["read", "receive"],
+    product: ["read"],
+    inventory: ["read", "adjust"],
+    customer: ["read"],
+    tax: ["read"],
+    shipping_document: ["print"],
     comment: ["create", "read"],
     notification: ["read"],
 });
 
 // Shipper role - can update shipping status and complete orders
 export const shipper = ac.newRole({
-    order: ["read", "ship", "update"],
+    order: ["read", "ship", "update", "hold"],
+    product: ["read"],
+    inventory: ["read"],
+    customer: ["read"],
+    tax: ["read"],
+    shipping_document: ["print"],
     comment: ["create", "read"],
     notification: ["read"],
 });
@@ -62,7 +110,21 @@ export const admin = ac.newRole({
         "reject",
         "ship",
         "confirm",
+        "cancel",
+        "request_edit",
+        "custom_item",
+        "assign",
+        "hold",
     ],
+    return: ["create", "read", "approve", "reject", "receive"],
+    product: ["create", "read", "update", "delete"],
+    inventory: ["read", "adjust"],
+    customer: ["create", "read", "update", "credit_limit"],
+    tax: ["read", "manage"],
+    exchange_rate: ["read", "manage"],
+    approval_policy: ["read", "manage"],
+    invoice: ["read", "issue"],
+    shipping_document: ["print"],
     comment: ["create", "read", "update", "delete"],
     notification: ["create", "read", "update", "delete"],
 });
@@ -0,0 +1,240 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { products } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { and, asc, eq, ilike, or } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+
+export type ProductData = {
+    sku: string;
+    name: string;
+    description?: string;
+    listPrice: number;
+    unit?: string;
+    category?: string;
+    isActive?: boolean;
+};
+
+type ProductPermission = "create" | "read" | "update" | "delete";
+
+// Resolve the session and check a `product` permission
+async function authorize(permission: ProductPermission) {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                product: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+function validateProduct(data: ProductData) {
+    if (!data.sku.trim()) return "SKU is required";
+    if (!data.name.trim()) return "Product name is required";
+    if (!(data.listPrice >= 0)) return "List price must be zero or more";
+    return null;
+}
+
+// Search the catalog by SKU or name. Inactive products are only returned
+// when asked for, e.g. on the admin page.
+export async function listProducts(
+    options: { search?: string; includeInactive?: boolean; limit?: number } = {}
+) {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const search = options.search?.trim();
+        const list = await db
+            .select()
+            .from(products)
+            .where(
+                and(
+                    options.includeInactive
+                        ? undefined
+                        : eq(products.isActive, true),
+                    search
+                        ? or(
+                              ilike(products.sku, `%${search}%`),
+                              ilike(products.name, `%${search}%`)
+                          )
+                        : undefined
+                )
+            )
+            .orderBy(asc(products.name))
+            .limit(options.limit ?? 50);
+
+        return { success: true, products: list };
+    } catch (error) {
+        console.error("Error fetching products:", error);
+        return { success: false, message: "Failed to fetch products" };
+    }
+}
+
+// Create product (Admin role)
+export async function createProduct(data: ProductData) {
+    try {
+        const result = await authorize("create");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateProduct(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [existing] = await db
+            .select({ id: products.id })
+            .from(products)
+            .where(eq(products.sku, data.sku.trim()));
+        if (existing) {
+            return {
+                success: false,
+                message: `A product with SKU ${data.sku.trim()} already exists`,
+            };
+        }
+
+        const [product] = await db
+            .insert(products)
+            .values({
+                sku: data.sku.trim(),
+                name: data.name.trim(),
+                description: data.description || null,
+                listPrice: data.listPrice.toFixed(2),
+                unit: data.unit || "each",
+                category: data.category?.trim() || null,
+                isActive: data.isActive ?? true,
+            })
+            .returning();
+
+        await storeChangeHistory({
+            entityType: "product",
+            entityId: product.id,
+            action: "product_created",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/products");
+        return { success: true, message: "Product created successfully", product };
+    } catch (error) {
+        console.error("Error creating product:", error);
+        return { success: false, message: "Failed to create product" };
+    }
+}
+
+// Update product (Admin role). Existing orders keep the price they were created with.
+export async function updateProduct(productId: string, data: ProductData) {
+    try {
+        const result = await authorize("update");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateProduct(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [duplicate] = await db
+            .select({ id: products.id })
+            .from(products)
+            .where(eq(products.sku, data.sku.trim()));
+        if (duplicate && duplicate.id !== productId) {
+            return {
+                success: false,
+                message: `A product with SKU ${data.sku.trim()} already exists`,
+            };
+        }
+
+        const [product] = await db
+            .update(products)
+            .set({
+                sku: data.sku.trim(),
+                name: data.name.trim(),
+                description: data.description || null,
+                listPrice: data.listPrice.toFixed(2),
+                unit: data.unit || "each",
+                category: data.category?.trim() || null,
+                isActive: data.isActive ?? true,
+                updatedAt: new Date(),
+            })
+            .where(eq(products.id, productId))
+            .returning();
+
+        if (!product) {
+            return { success: false, message: "Product not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "product",
+            entityId: product.id,
+            action: "product_updated",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/products");
+        return { success: true, message: "Product updated successfully", product };
+    } catch (error) {
+        console.error("Error updating product:", error);
+        return { success: false, message: "Failed to update product" };
+    }
+}
+
+// Delete product (Admin role). Order items that used it keep their snapshot.
+export async function deleteProduct(productId: string) {
+    try {
+        const result = await authorize("delete");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [product] = await db
+            .delete(products)
+            .where(eq(products.id, productId))
+            .returning();
+
+        if (!product) {
+            return { success: false, message: "Product not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "product",
+            entityId: product.id,
+            action: "product_deleted",
+            changes: { sku: product.sku, name: product.name },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/products");
+        return { success: true, message: "Product deleted successfully" };
+    } catch (error) {
+        console.error("Error deleting product:", error);
+        return { success: false, message: "Failed to delete product" };
+    }
+}
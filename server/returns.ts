@@ -0,0 +1,304 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import {
+    orders,
+    returnItems,
+    returnRequests,
+} from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { enqueueOutbox, flushOutbox } from "@/lib/outbox";
+import {
+    applyReturnTransition,
+    buildReturnNotifications,
+    getReturnableQuantities,
+    returnableOrderStatuses,
+    returnTransitions,
+    type ReceivedLine,
+    type ReturnEvent,
+    type ReturnReason,
+    type ReturnTransitionPayload,
+} from "@/lib/return-workflow";
+import { recordOrderHistory } from "@/lib/order-history";
+
+export type CreateReturnData = {
+    items: {
+        orderItemId: string;
+        quantity: number;
+        reasonCode: ReturnReason;
+    }[];
+    notes?: string;
+};
+
+// Request a return for a delivered order (Sales role, order creator only)
+export async function createReturnRequest(
+    orderId: string,
+    data: CreateReturnData
+) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        // Check permissions
+        const { success: hasPermission } = await auth.api.userHasPermission({
+            body: {
+                userId: session.user.id,
+                permissions: {
+                    return: ["create"],
+                },
+            },
+        });
+
+        if (!hasPermission) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        const [order] = await db
+            .select()
+            .from(orders)
+            .where(eq(orders.id, orderId));
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+
+        if (session.user.role === "sales" && order.createdBy !== session.user.id) {
+            return {
+                success: false,
+                message: "Only the order creator can request a return",
+            };
+        }
+
+        if (!returnableOrderStatuses.includes(order.status)) {
+            return {
+                success: false,
+                message: "Only completed or partially completed orders can be returned",
+            };
+        }
+
+        const lines = data.items.filter((item) => item.quantity > 0);
+        if (lines.length === 0) {
+            return {
+                success: false,
+                message: "Enter a quantity for at least one item",
+            };
+        }
+
+        const returnable = await getReturnableQuantities(db, orderId);
+        for (const line of lines) {
+            const available = returnable.get(line.orderItemId);
+            if (available === undefined) {
+                return {
+                    success: false,
+                    message: "Return contains an item that is not on this order",
+                };
+            }
+            if (!Number.isInteger(line.quantity) || line.quantity > available) {
+                return {
+                    success: false,
+                    message: `Only ${available} of an item can still be returned`,
+                };
+            }
+        }
+
+        const returnRequest = await db.transaction(async (tx) => {
+            const [created] = await tx
+                .insert(returnRequests)
+                .values({
+                    orderId,
+                    notes: data.notes || null,
+                    requestedBy: session.user.id,
+                })
+                .returning();
+
+            await tx.insert(returnItems).values(
+                lines.map((line) => ({
+                    returnRequestId: created.id,
+                    orderItemId: line.orderItemId,
+                    quantity: line.quantity,
+                    reasonCode: line.reasonCode,
+                }))
+            );
+
+            await recordOrderHistory(tx, {
+                orderId,
+                action: "return_requested",
+                performedBy: session.user.id,
+                notes: `Return ${created.rmaNumber} requested for ${lines.length} item${
+                    lines.length !== 1 ? "s" : ""
+                }`,
+            });
+
+            await enqueueOutbox(tx, [
+                {
+                    kind: "change_history",
+                    payload: {
+                        entityType: "return",
+                        entityId: created.id,
+                        action: "return_requested",
+                        changes: { status: "requested", items: lines },
+                        performedBy: session.user.id,
+                        metadata: {
+                            userRole: session.user.role,
+                            orderNumber: order.orderNumber,
+                            rmaNumber: created.rmaNumber,
+                        },
+                    },
+                },
+                ...(await buildReturnNotifications(tx, created, order, [
+                    {
+                        to: "creator",
+                        title: "Return Requested",
+                        message: (r) =>
+                            `Return ${r.rmaNumber} for order ${order.orderNumber} has been submitted for approval.`,
+                    },
+                    {
+                        to: { role: "accountant" },
+                        title: "Return Pending Approval",
+                        message: (r) =>
+                            `Return ${r.rmaNumber} for order ${order.orderNumber} is pending your approval.`,
+                    },
+                ])),
+            ]);
+
+            return created;
+        });
+
+        await flushOutbox();
+
+        revalidatePath(`/order/${orderId}`);
+        return {
+            success: true,
+            message: "Return requested successfully",
+            returnId: returnRequest.id,
+            rmaNumber: returnRequest.rmaNumber,
+        };
+    } catch (error) {
+        console.error("Error creating return request:", error);
+        return { success: false, message: "Failed to request return" };
+    }
+}
+
+// Run a step of the return workflow for the current user
+async function transitionReturn(
+    returnId: string,
+    event: ReturnEvent,
+    payload: ReturnTransitionPayload = {}
+) {
+    const definition = returnTransitions[event];
+
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        // Check permissions
+        const { success: hasPermission } = await auth.api.userHasPermission({
+            body: {
+                userId: session.user.id,
+                permissions: {
+                    return: [definition.permission],
+                },
+            },
+        });
+
+        if (!hasPermission) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        const [returnRequest] = await db
+            .select()
+            .from(returnRequests)
+            .where(eq(returnRequests.id, returnId));
+        if (!returnRequest) {
+            return { success: false, message: "Return not found" };
+        }
+
+        const [order] = await db
+            .select()
+            .from(orders)
+            .where(eq(orders.id, returnRequest.orderId));
+        if (!order) {
+            return { success: false, message: "Order not found" };
+        }
+
+        const result = await applyReturnTransition(
+            returnRequest,
+            order,
+            event,
+            payload,
+            { id: session.user.id, role: session.user.role }
+        );
+
+        if (result.success) {
+            revalidatePath(`/order/${order.id}`);
+        }
+        return result;
+    } catch (error) {
+        console.error(`Error running return transition ${event}:`, error);
+        return { success: false, message: definition.failureMessage };
+    }
+}
+
+// Approve return (Accountant role)
+export async function approveReturn(returnId: string) {
+    return transitionReturn(returnId, "approve");
+}
+
+// Reject return (Accountant role)
+export async function rejectReturn(returnId: string, reason: string) {
+    return transitionReturn(returnId, "reject", { reason });
+}
+
+// Record the goods received back (Warehouse role)
+export async function receiveReturn(
+    returnId: string,
+    received?: ReceivedLine[]
+) {
+    return transitionReturn(returnId, "receive", { received });
+}
+
+// Get return requests of an order with their items
+export async function getOrderReturns(orderId: string) {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        const returns = await db.query.returnRequests.findMany({
+            where: eq(returnRequests.orderId, orderId),
+            orderBy: (returnRequests, { desc }) => [
+                desc(returnRequests.createdAt),
+            ],
+            with: {
+                items: true,
+                requestedByUser: {
+                    columns: {
+                        id: true,
+                        name: true,
+                    },
+                },
+            },
+        });
+
+        return { success: true, returns };
+    } catch (error) {
+        console.error("Error fetching returns:", error);
+        return { success: false, message: "Failed to fetch returns" };
+    }
+}
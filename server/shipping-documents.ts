@@ -0,0 +1,39 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { listReadyToShip } from "@/lib/shipping-documents";
+
+// Orders with goods waiting to be packed, for the batch print view
+// (Warehouse/Shipper role)
+export async function listOrdersReadyToShip() {
+    try {
+        const session = await auth.api.getSession({
+            headers: await headers(),
+        });
+
+        if (!session) {
+            return { success: false, message: "Not authenticated" };
+        }
+
+        const { success: hasPermission } = await auth.api.userHasPermission({
+            body: {
+                userId: session.user.id,
+                permissions: {
+                    shipping_document: ["print"],
+                },
+            },
+        });
+
+        if (!hasPermission) {
+            return { success: false, message: "Insufficient permissions" };
+        }
+
+        const orders = await listReadyToShip(db);
+        return { success: true, orders };
+    } catch (error) {
+        console.error("Error fetching orders ready to ship:", error);
+        return { success: false, message: "Failed to fetch orders" };
+    }
+}
@@ -0,0 +1,198 @@
+"use server";
+
+import { db } from "@/db/drizzle";
+import { taxRates } from "@/db/order-schema";
+import { auth } from "@/lib/auth";
+import { headers } from "next/headers";
+import { asc, eq } from "drizzle-orm";
+import { revalidatePath } from "next/cache";
+import { storeChangeHistory } from "@/lib/upstash";
+
+export type TaxRateData = {
+    name: string;
+    rate: number; // Percent
+    category?: string;
+    region?: string;
+    isActive?: boolean;
+};
+
+// Resolve the session and check a `tax` permission
+async function authorize(permission: "read" | "manage") {
+    const session = await auth.api.getSession({
+        headers: await headers(),
+    });
+
+    if (!session) {
+        return { error: "Not authenticated" } as const;
+    }
+
+    const { success: hasPermission } = await auth.api.userHasPermission({
+        body: {
+            userId: session.user.id,
+            permissions: {
+                tax: [permission],
+            },
+        },
+    });
+
+    if (!hasPermission) {
+        return { error: "Insufficient permissions" } as const;
+    }
+
+    return { session } as const;
+}
+
+function validateTaxRate(data: TaxRateData) {
+    if (!data.name.trim()) return "Tax rate name is required";
+    if (!(data.rate >= 0 && data.rate <= 100)) {
+        return "Rate must be between 0 and 100";
+    }
+    return null;
+}
+
+function taxRateValues(data: TaxRateData) {
+    return {
+        name: data.name.trim(),
+        rate: data.rate.toFixed(2),
+        category: data.category?.trim() || null,
+        region: data.region?.trim() || null,
+        isActive: data.isActive ?? true,
+    };
+}
+
+// All tax rates, plus the regions orders can be taxed in
+export async function listTaxRates() {
+    try {
+        const result = await authorize("read");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const rates = await db
+            .select()
+            .from(taxRates)
+            .orderBy(asc(taxRates.region), asc(taxRates.category));
+
+        const regions = [
+            ...new Set(
+                rates.flatMap((rate) =>
+                    rate.isActive && rate.region ? [rate.region] : []
+                )
+            ),
+        ];
+
+        return { success: true, taxRates: rates, regions };
+    } catch (error) {
+        console.error("Error fetching tax rates:", error);
+        return { success: false, message: "Failed to fetch tax rates" };
+    }
+}
+
+// Create tax rate (Admin role)
+export async function createTaxRate(data: TaxRateData) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateTaxRate(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [taxRate] = await db
+            .insert(taxRates)
+            .values(taxRateValues(data))
+            .returning();
+
+        await storeChangeHistory({
+            entityType: "tax_rate",
+            entityId: taxRate.id,
+            action: "tax_rate_created",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/tax-rates");
+        return { success: true, message: "Tax rate created successfully" };
+    } catch (error) {
+        console.error("Error creating tax rate:", error);
+        return { success: false, message: "Failed to create tax rate" };
+    }
+}
+
+// Update tax rate (Admin role). Existing orders keep the tax they were priced with.
+export async function updateTaxRate(taxRateId: string, data: TaxRateData) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const invalid = validateTaxRate(data);
+        if (invalid) {
+            return { success: false, message: invalid };
+        }
+
+        const [taxRate] = await db
+            .update(taxRates)
+            .set({ ...taxRateValues(data), updatedAt: new Date() })
+            .where(eq(taxRates.id, taxRateId))
+            .returning();
+
+        if (!taxRate) {
+            return { success: false, message: "Tax rate not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "tax_rate",
+            entityId: taxRate.id,
+            action: "tax_rate_updated",
+            changes: { ...data },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/tax-rates");
+        return { success: true, message: "Tax rate updated successfully" };
+    } catch (error) {
+        console.error("Error updating tax rate:", error);
+        return { success: false, message: "Failed to update tax rate" };
+    }
+}
+
+// Delete tax rate (Admin role)
+export async function deleteTaxRate(taxRateId: string) {
+    try {
+        const result = await authorize("manage");
+        if ("error" in result) {
+            return { success: false, message: result.error };
+        }
+
+        const [taxRate] = await db
+            .delete(taxRates)
+            .where(eq(taxRates.id, taxRateId))
+            .returning();
+
+        if (!taxRate) {
+            return { success: false, message: "Tax rate not found" };
+        }
+
+        await storeChangeHistory({
+            entityType: "tax_rate",
+            entityId: taxRate.id,
+            action: "tax_rate_deleted",
+            changes: { name: taxRate.name, rate: taxRate.rate },
+            performedBy: result.session.user.id,
+            metadata: { userRole: result.session.user.role },
+        });
+
+        revalidatePath("/admin/tax-rates");
+        return { success: true, message: "Tax rate deleted successfully" };
+    } catch (error) {
+        console.error("Error deleting tax rate:", error);
+        return { success: false, message: "Failed to delete tax rate" };
+    }
+}